@@ -1,30 +1,29 @@
 "use client"
 
 import { useState, useEffect, useRef } from "react"
+import axios from "axios"
 import Image from "next/image"
-import { useAuth, api } from "../contexts/AuthContext"
+import { useAuth, api, createIdempotencyKey } from "../contexts/AuthContext"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Badge } from "@/components/ui/badge"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { Progress } from "@/components/ui/progress"
-import { LineChart, Line, XAxis, YAxis, ResponsiveContainer } from "recharts"
-import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart"
-import { MessageCircle, TrendingUp, Coins, Send, User, Bot, ArrowUp, ChevronDown, LogIn, UserPlus } from "lucide-react"
+import { MessageCircle, TrendingUp, Coins, Send, User, Bot, ArrowUp, ChevronDown, LogIn, UserPlus, Download } from "lucide-react"
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
 import { useToast } from "@/hooks/use-toast"
+import { useGoldPrice } from "@/hooks/use-gold-price"
 import { LoadingSpinner } from "@/components/ui/loading-states"
-
-interface GoldPrice {
-  price: number
-  change: {
-    change: number
-    changePercent: number
-    trend: 'up' | 'down'
-  }
-  timestamp: string
-}
+import { GoldPriceChart } from "@/components/GoldPriceChart"
+import { OrderDetailsDialog, ORDER_TYPE_LABELS } from "@/components/OrderDetailsDialog"
+import { SipManager } from "@/components/SipManager"
+import { WalletCard } from "@/components/WalletCard"
+import { GiftCard } from "@/components/GiftCard"
+import { RedemptionCard } from "@/components/RedemptionCard"
+import { HoldingLotsCard } from "@/components/HoldingLotsCard"
+import { PortfolioAnalytics } from "@/components/PortfolioAnalytics"
+import { PortfolioHistoryChart } from "@/components/PortfolioHistoryChart"
 
 interface ChatMessage {
   id: string
@@ -63,8 +62,21 @@ interface ChatResponse {
   }
 }
 
+interface PriceQuote {
+  id: string
+  pricePerGram: number
+  expiresAt: string
+}
+
+// Itemized charges from the gold calculator
+interface FeeEstimate {
+  transactionFee: number
+  totalAmount: number
+  items: { code: string; label: string; amount: number }[]
+}
+
 export default function AuroraGoldApp() {
-  const { user, login, signup, logout, loading } = useAuth()
+  const { user, login, signup, logout, loading, refreshUser } = useAuth()
   const { toast } = useToast()
   const [currentPage, setCurrentPage] = useState("chat")
   const [chatMessage, setChatMessage] = useState("")
@@ -72,18 +84,35 @@ export default function AuroraGoldApp() {
   const [loginForm, setLoginForm] = useState({ email: "", password: "" })
   const [signupForm, setSignupForm] = useState({ name: "", email: "", password: "", confirmPassword: "" })
   const [messages, setMessages] = useState<ChatMessage[]>([])
-  const [goldPrice, setGoldPrice] = useState<GoldPrice | null>(null)
   const [portfolio, setPortfolio] = useState<any>(null)
   const [chatLoading, setChatLoading] = useState(false)
   const [sessionId, setSessionId] = useState<string | null>(null)
+  const [sellGrams, setSellGrams] = useState("")
+  const [selling, setSelling] = useState(false)
+  const [payFromWallet, setPayFromWallet] = useState(false)
+  const [paymentMethod, setPaymentMethod] = useState<'UPI' | 'CARD' | 'NET_BANKING'>('UPI')
+  const [buyFees, setBuyFees] = useState<FeeEstimate | null>(null)
+  const [sellFees, setSellFees] = useState<FeeEstimate | null>(null)
+  const [selectedOrderId, setSelectedOrderId] = useState<string | null>(null)
+  const [portfolioTab, setPortfolioTab] = useState<'overview' | 'analytics'>('overview')
+  const [quote, setQuote] = useState<PriceQuote | null>(null)
+  const [quoteSecondsLeft, setQuoteSecondsLeft] = useState(0)
   const messagesEndRef = useRef<HTMLDivElement>(null)
+  // Idempotency key of the purchase being submitted; a repeated click while it
+  // runs sends the same key and is answered by the first request
+  const purchaseKeyRef = useRef<string | null>(null)
+  const { goldPrice, error: goldPriceError, refresh: fetchGoldPrice } = useGoldPrice()
 
-  // Fetch gold price on component mount
+  // Surface live price failures
   useEffect(() => {
-    fetchGoldPrice()
-    const interval = setInterval(fetchGoldPrice, 30000) // Update every 30 seconds
-    return () => clearInterval(interval)
-  }, [])
+    if (goldPriceError) {
+      toast({
+        title: "Error",
+        description: goldPriceError,
+        variant: "destructive"
+      })
+    }
+  }, [goldPriceError])
 
   // Fetch portfolio data when user logs in
   useEffect(() => {
@@ -92,6 +121,59 @@ export default function AuroraGoldApp() {
     }
   }, [user])
 
+  // Lock a price quote while the Buy Gold page is open
+  useEffect(() => {
+    if (currentPage === 'buy' && user) {
+      fetchQuote()
+    } else {
+      setQuote(null)
+    }
+  }, [currentPage, user])
+
+  // Count down the quote and replace it once it expires
+  useEffect(() => {
+    if (!quote) return
+
+    const tick = () => {
+      const secondsLeft = Math.max(0, Math.round((new Date(quote.expiresAt).getTime() - Date.now()) / 1000))
+      setQuoteSecondsLeft(secondsLeft)
+      if (secondsLeft === 0) {
+        fetchQuote()
+      }
+    }
+
+    tick()
+    const timer = setInterval(tick, 1000)
+    return () => clearInterval(timer)
+  }, [quote])
+
+  // Itemized charges for the amount in the Buy card
+  useEffect(() => {
+    if (!goldAmount || isNaN(Number(goldAmount)) || Number(goldAmount) <= 0) {
+      setBuyFees(null)
+      return
+    }
+
+    const timer = setTimeout(() => {
+      fetchFees({ amount: goldAmount, type: 'inr', paymentMethod: payFromWallet ? 'WALLET' : paymentMethod })
+        .then(setBuyFees)
+    }, 300)
+    return () => clearTimeout(timer)
+  }, [goldAmount, payFromWallet, paymentMethod])
+
+  // Charges deducted from a sale in the Sell card
+  useEffect(() => {
+    if (!sellGrams || isNaN(Number(sellGrams)) || Number(sellGrams) <= 0) {
+      setSellFees(null)
+      return
+    }
+
+    const timer = setTimeout(() => {
+      fetchFees({ amount: sellGrams, type: 'grams', side: 'sell' }).then(setSellFees)
+    }, 300)
+    return () => clearTimeout(timer)
+  }, [sellGrams])
+
   // Initialize chat
   useEffect(() => {
     initializeChat()
@@ -102,33 +184,13 @@ export default function AuroraGoldApp() {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
   }, [messages])
 
-  const fetchGoldPrice = async () => {
+  const fetchFees = async (params: Record<string, string>): Promise<FeeEstimate | null> => {
     try {
-      console.log('Fetching gold price from API...')
-      const response = await api.get('/gold/price')
-      console.log('Gold price API response:', response.data)
-      
-      // Transform the API response to match the frontend interface
-      const apiData = response.data
-      const transformedData: GoldPrice = {
-        price: apiData.current.price,
-        change: {
-          change: apiData.change.change,
-          changePercent: apiData.change.changePercent,
-          trend: apiData.change.trend as 'up' | 'down'
-        },
-        timestamp: apiData.current.timestamp
-      }
-      console.log('Transformed gold price data:', transformedData)
-      setGoldPrice(transformedData)
+      const response = await api.get(`/gold/calculator?${new URLSearchParams(params)}`)
+      return response.data.calculation.fees
     } catch (error) {
-      console.error('Failed to fetch gold price:', error)
-      toast({
-        title: "Error",
-        description: "Unable to fetch current gold price. Please check your connection.",
-        variant: "destructive"
-      })
-      setGoldPrice(null)
+      console.error('Failed to fetch charges:', error)
+      return null
     }
   }
 
@@ -141,6 +203,85 @@ export default function AuroraGoldApp() {
     }
   }
 
+  const handleDownloadInvoice = async (orderId: string) => {
+    try {
+      const response = await api.download(`/gold/orders/${orderId}/invoice.pdf`)
+      const filename = response.headers['content-disposition']?.match(/filename="(.+)"/)?.[1] || `invoice-${orderId}.pdf`
+      const url = URL.createObjectURL(response.data)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = filename
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      console.error('Invoice download error:', error)
+      toast({
+        title: "Download Failed",
+        description: "Failed to download the invoice. Please try again.",
+        variant: "destructive"
+      })
+    }
+  }
+
+  const fetchQuote = async () => {
+    try {
+      const response = await api.post('/gold/quote')
+      setQuote(response.data.quote)
+    } catch (error) {
+      console.error('Failed to fetch price quote:', error)
+      setQuote(null)
+    }
+  }
+
+  const handleSell = async () => {
+    const grams = Number(sellGrams)
+
+    if (!sellGrams || isNaN(grams) || grams < 0.01) {
+      toast({
+        title: "Invalid Amount",
+        description: "Please enter a valid quantity (minimum 0.01g).",
+        variant: "destructive"
+      })
+      return
+    }
+
+    if (portfolio && grams > portfolio.summary.totalGoldGrams) {
+      toast({
+        title: "Insufficient Gold",
+        description: `You can sell up to ${portfolio.summary.totalGoldGrams.toFixed(3)}g.`,
+        variant: "destructive"
+      })
+      return
+    }
+
+    try {
+      setSelling(true)
+      const response = await api.post('/gold/sell', {
+        grams,
+        preferredType: 'grams'
+      })
+
+      const order = response.data.order
+      toast({
+        title: "Gold Sold",
+        description: `You sold ${order.grams}g for ₹${order.payoutAmount.toLocaleString()}. It has been added to your wallet.`
+      })
+
+      setSellGrams("")
+      fetchPortfolio()
+      refreshUser()
+    } catch (error) {
+      console.error('Sell error:', error)
+      toast({
+        title: "Sale Failed",
+        description: (axios.isAxiosError(error) && error.response?.data?.error) || "Failed to sell gold. Please try again.",
+        variant: "destructive"
+      })
+    } finally {
+      setSelling(false)
+    }
+  }
+
   const initializeChat = () => {
     setMessages([{
       id: '1',
@@ -481,6 +622,9 @@ export default function AuroraGoldApp() {
                       ) : (
                         <ArrowUp className="w-2 h-2 sm:w-3 sm:h-3 ml-1 text-red-400 rotate-180" />
                       )}
+                      <span className={`hidden sm:inline ml-0.5 ${goldPrice.change.trend === 'up' ? 'text-green-400' : 'text-red-400'}`}>
+                        {goldPrice.change.changePercent > 0 ? '+' : ''}{goldPrice.change.changePercent}%
+                      </span>
                     </div>
                   ) : (
                     <div className="flex items-center gap-1 sm:gap-2">
@@ -988,15 +1132,69 @@ export default function AuroraGoldApp() {
                       <span>Amount:</span>
                       <span>₹{goldAmount}</span>
                     </div>
+                    {quote && (
+                      <div className="flex justify-between">
+                        <span>Locked rate:</span>
+                        <span>
+                          ₹{quote.pricePerGram.toLocaleString()}/g
+                          <span className={`ml-2 text-xs ${quoteSecondsLeft <= 30 ? 'text-red-400' : 'text-muted-foreground'}`}>
+                            {Math.floor(quoteSecondsLeft / 60)}:{(quoteSecondsLeft % 60).toString().padStart(2, '0')}
+                          </span>
+                        </span>
+                      </div>
+                    )}
                     <div className="flex justify-between">
                       <span>Gold (grams):</span>
-                      <span>{goldPrice && goldAmount ? (Number.parseInt(goldAmount) / goldPrice.price).toFixed(3) : 'Loading...'}g</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span>Transaction fee:</span>
-                      <span>₹{Math.round(Number.parseInt(goldAmount) * 0.01)}</span>
+                      <span>{goldPrice && goldAmount ? (Number.parseInt(goldAmount) / (quote?.pricePerGram ?? goldPrice.price)).toFixed(3) : 'Loading...'}g</span>
                     </div>
+                    {buyFees?.items.map(item => (
+                      <div key={item.code} className="flex justify-between">
+                        <span>{item.label}:</span>
+                        <span>₹{item.amount.toLocaleString()}</span>
+                      </div>
+                    ))}
+                    {buyFees && (
+                      <div className="flex justify-between font-medium">
+                        <span>Total payable:</span>
+                        <span>₹{buyFees.totalAmount.toLocaleString()}</span>
+                      </div>
+                    )}
                   </div>
+                  {user && portfolio?.wallet && (
+                    <div className="flex gap-2">
+                      <Button
+                        variant={payFromWallet ? 'outline' : 'default'}
+                        size="sm"
+                        className={payFromWallet ? 'flex-1 glassmorphism bg-transparent' : 'flex-1 glow-gold'}
+                        onClick={() => setPayFromWallet(false)}
+                      >
+                        Pay online
+                      </Button>
+                      <Button
+                        variant={payFromWallet ? 'default' : 'outline'}
+                        size="sm"
+                        className={payFromWallet ? 'flex-1 glow-gold' : 'flex-1 glassmorphism bg-transparent'}
+                        onClick={() => setPayFromWallet(true)}
+                      >
+                        Wallet (₹{portfolio.wallet.balance.toLocaleString()})
+                      </Button>
+                    </div>
+                  )}
+                  {!payFromWallet && (
+                    <div className="flex gap-2">
+                      {(['UPI', 'CARD', 'NET_BANKING'] as const).map(method => (
+                        <Button
+                          key={method}
+                          variant={paymentMethod === method ? 'default' : 'outline'}
+                          size="sm"
+                          className={paymentMethod === method ? 'flex-1 glow-gold' : 'flex-1 glassmorphism bg-transparent'}
+                          onClick={() => setPaymentMethod(method)}
+                        >
+                          {method === 'NET_BANKING' ? 'Net banking' : method === 'CARD' ? 'Card' : 'UPI'}
+                        </Button>
+                      ))}
+                    </div>
+                  )}
                   <Button 
                     className="w-full glow-gold text-center flex items-center justify-center" 
                     size="lg"
@@ -1028,22 +1226,44 @@ export default function AuroraGoldApp() {
                         return
                       }
 
+                      const ownsPurchaseKey = !purchaseKeyRef.current
+                      purchaseKeyRef.current = purchaseKeyRef.current ?? createIdempotencyKey()
+
                       try {
-                        // Create purchase order
+                        // Create purchase order; wallet purchases are paid on the spot
                         const orderResponse = await api.post('/gold/purchase', {
                           amountINR: Number(goldAmount),
-                          preferredType: 'amount'
-                        })
+                          preferredType: 'amount',
+                          quoteId: quote?.id,
+                          fundingSource: payFromWallet ? 'WALLET' : 'GATEWAY',
+                          paymentMethod
+                        }, { idempotencyKey: purchaseKeyRef.current })
 
                         const order = orderResponse.data.order
+
+                        if (payFromWallet) {
+                          toast({
+                            title: "Purchase Successful! 🎉",
+                            description: `You've bought ${order.grams}g of gold for ₹${order.totalAmount.toLocaleString()} from your wallet.`
+                          })
+                          fetchPortfolio()
+                          fetchQuote()
+                          setGoldAmount('500')
+                          return
+                        }
                         
                         // Process payment with Razorpay integration
                         const paymentResponse = await api.post(`/gold/orders/${order.id}/pay`, {
-                          paymentMethod: 'UPI'
-                        })
+                          paymentMethod
+                        }, { idempotencyKey: createIdempotencyKey() })
 
-                        // Check if it's demo mode or real Razorpay
-                        if (paymentResponse.data.note) {
+                        // Check if it's pending, demo mode or real Razorpay
+                        if (paymentResponse.status === 202) {
+                          toast({
+                            title: "Payment Pending",
+                            description: paymentResponse.data.message
+                          })
+                        } else if (paymentResponse.data.note) {
                           // Demo mode - show success with choice buttons
                           toast({
                             title: "Purchase Successful! 🎉",
@@ -1095,7 +1315,7 @@ export default function AuroraGoldApp() {
                                   razorpay_order_id: response.razorpay_order_id,
                                   razorpay_payment_id: response.razorpay_payment_id,
                                   razorpay_signature: response.razorpay_signature
-                                })
+                                }, { idempotencyKey: createIdempotencyKey() })
                                 
                                 toast({
                                   title: "Payment Verified! 🎉",
@@ -1150,6 +1370,9 @@ export default function AuroraGoldApp() {
                           fetchPortfolio()
                         }
 
+                        // Lock a fresh price for the next purchase
+                        fetchQuote()
+
                         // Reset amount for demo mode
                         if (paymentResponse.data.note) {
                           setGoldAmount('500')
@@ -1163,12 +1386,23 @@ export default function AuroraGoldApp() {
                         let errorDetails = ""
                         
                         if (error && typeof error === 'object' && 'response' in error) {
-                          const axiosError = error as { response?: { data?: { error?: string, details?: string }, status?: number } }
+                          const axiosError = error as { response?: { data?: { error?: string, details?: string, code?: string }, status?: number } }
                           errorMessage = axiosError.response?.data?.error || errorMessage
                           errorDetails = axiosError.response?.data?.details || ""
                           
+                          // A repeated click while the first request is still running
+                          if (axiosError.response?.data?.code === 'IDEMPOTENCY_KEY_IN_PROGRESS') {
+                            return
+                          }
+
                           // Add more context based on status code
-                          if (axiosError.response?.status === 500) {
+                          if (axiosError.response?.data?.code === 'QUOTE_EXPIRED') {
+                            fetchQuote()
+                            errorMessage = "Your locked price expired. We've fetched a new quote - please review and try again."
+                          } else if (axiosError.response?.data?.code === 'QUOTE_USED') {
+                            fetchQuote()
+                            errorMessage = "Your locked price was already used. We've fetched a new quote - please review and try again."
+                          } else if (axiosError.response?.status === 500) {
                             errorMessage = "Server error occurred. Please check the console for details."
                           } else if (axiosError.response?.status === 401) {
                             errorMessage = "Authentication failed. Please log in again."
@@ -1223,6 +1457,8 @@ export default function AuroraGoldApp() {
                             </Button>
                           )
                         })
+                      } finally {
+                        if (ownsPurchaseKey) purchaseKeyRef.current = null
                       }
                     }}
                   >
@@ -1232,6 +1468,9 @@ export default function AuroraGoldApp() {
               </Card>
             </div>
 
+            {/* Price Chart */}
+            <GoldPriceChart />
+
             {/* Quick Buy Options */}
             <Card className="neumorphism border-border/20 mx-2 sm:mx-0">
               <CardHeader className="px-4 sm:px-6">
@@ -1261,86 +1500,195 @@ export default function AuroraGoldApp() {
         {/* Portfolio Page */}
         {currentPage === "portfolio" && user && portfolio && (
           <div className="space-y-6">
-            <div className="grid gap-4 sm:gap-6 grid-cols-1 sm:grid-cols-2 lg:grid-cols-3">
-              <Card className="neumorphism border-border/20 mx-2 sm:mx-0">
-                <CardHeader className="px-4 sm:px-6 pb-2">
-                  <CardTitle className="text-sm font-medium">Total Gold</CardTitle>
-                </CardHeader>
-                <CardContent className="px-4 sm:px-6">
-                  <div className="text-xl sm:text-2xl font-bold text-primary">{portfolio.summary.totalGoldGrams.toFixed(2)}g</div>
-                  <p className="text-xs text-muted-foreground">≈ ₹{portfolio.summary.currentValue.toLocaleString()}</p>
-                </CardContent>
-              </Card>
+            <div className="flex gap-2 mx-2 sm:mx-0">
+              {(['overview', 'analytics'] as const).map(tab => (
+                <Button
+                  key={tab}
+                  variant={portfolioTab === tab ? 'default' : 'outline'}
+                  size="sm"
+                  className={portfolioTab === tab ? 'glow-gold' : 'glassmorphism bg-transparent'}
+                  onClick={() => setPortfolioTab(tab)}
+                >
+                  {tab === 'overview' ? 'Overview' : 'Analytics'}
+                </Button>
+              ))}
+            </div>
 
-              <Card className="neumorphism border-border/20 mx-2 sm:mx-0">
-                <CardHeader className="px-4 sm:px-6 pb-2">
-                  <CardTitle className="text-sm font-medium">Today's P&L</CardTitle>
-                </CardHeader>
-                <CardContent className="px-4 sm:px-6">
-                  <div className={`text-xl sm:text-2xl font-bold ${portfolio.todayPerformance.trend === 'up' ? 'text-green-400' : 'text-red-400'}`}>
-                    {portfolio.todayPerformance.trend === 'up' ? '+' : ''}₹{portfolio.todayPerformance.change}
-                  </div>
-                  <p className="text-xs text-muted-foreground">
-                    {portfolio.todayPerformance.trend === 'up' ? '+' : ''}{portfolio.todayPerformance.changePercent}%
-                  </p>
-                </CardContent>
-              </Card>
+            {portfolioTab === 'analytics' ? (
+              <PortfolioAnalytics />
+            ) : (
+              <>
+                <div className="grid gap-4 sm:gap-6 grid-cols-1 sm:grid-cols-2 lg:grid-cols-3">
+                  <Card className="neumorphism border-border/20 mx-2 sm:mx-0">
+                    <CardHeader className="px-4 sm:px-6 pb-2">
+                      <CardTitle className="text-sm font-medium">Total Gold</CardTitle>
+                    </CardHeader>
+                    <CardContent className="px-4 sm:px-6">
+                      <div className="text-xl sm:text-2xl font-bold text-primary">{portfolio.summary.totalGoldGrams.toFixed(2)}g</div>
+                      <p className="text-xs text-muted-foreground">≈ ₹{portfolio.summary.currentValue.toLocaleString()}</p>
+                    </CardContent>
+                  </Card>
 
-              <Card className="neumorphism border-border/20 mx-2 sm:mx-0 sm:col-span-2 lg:col-span-1">
-                <CardHeader className="px-4 sm:px-6 pb-2">
-                  <CardTitle className="text-sm font-medium">Total Return</CardTitle>
-                </CardHeader>
-                <CardContent className="px-4 sm:px-6">
-                  <div className={`text-xl sm:text-2xl font-bold ${portfolio.summary.profitLoss >= 0 ? 'text-green-400' : 'text-red-400'}`}>
-                    {portfolio.summary.profitLoss >= 0 ? '+' : ''}₹{portfolio.summary.profitLoss}
-                  </div>
-                  <p className="text-xs text-muted-foreground">
-                    {portfolio.summary.profitLossPercent >= 0 ? '+' : ''}{portfolio.summary.profitLossPercent}%
-                  </p>
-                </CardContent>
-              </Card>
-            </div>
+                  <Card className="neumorphism border-border/20 mx-2 sm:mx-0">
+                    <CardHeader className="px-4 sm:px-6 pb-2">
+                      <CardTitle className="text-sm font-medium">Today's P&L</CardTitle>
+                    </CardHeader>
+                    <CardContent className="px-4 sm:px-6">
+                      <div className={`text-xl sm:text-2xl font-bold ${portfolio.todayPerformance.trend === 'up' ? 'text-green-400' : 'text-red-400'}`}>
+                        {portfolio.todayPerformance.change < 0 ? '-' : '+'}₹{Math.abs(portfolio.todayPerformance.change).toLocaleString()}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {portfolio.todayPerformance.changePercent > 0 ? '+' : ''}{portfolio.todayPerformance.changePercent}% gold price today
+                      </p>
+                    </CardContent>
+                  </Card>
 
-            {/* Recent Transactions */}
-            <Card className="neumorphism border-border/20 mx-2 sm:mx-0">
-              <CardHeader className="px-4 sm:px-6">
-                <CardTitle className="text-lg sm:text-xl">Recent Transactions</CardTitle>
-              </CardHeader>
-              <CardContent className="px-4 sm:px-6">
-                <div className="space-y-4">
-                  {portfolio.recentTransactions.length > 0 ? (
-                    portfolio.recentTransactions.map((transaction: any, index: number) => (
-                      <div key={index} className="flex items-center justify-between p-3 rounded-lg glassmorphism">
-                        <div className="flex items-center space-x-3">
-                          <div className="w-8 h-8 rounded-full bg-primary/20 flex items-center justify-center">
-                            <Coins className="w-4 h-4 text-primary" />
-                          </div>
-                          <div>
-                            <p className="font-medium text-sm sm:text-base">{transaction.type} Gold</p>
-                            <p className="text-xs sm:text-sm text-muted-foreground">
-                              {new Date(transaction.date).toLocaleDateString()}
-                            </p>
+                  <Card className="neumorphism border-border/20 mx-2 sm:mx-0 sm:col-span-2 lg:col-span-1">
+                    <CardHeader className="px-4 sm:px-6 pb-2">
+                      <CardTitle className="text-sm font-medium">Total Return</CardTitle>
+                    </CardHeader>
+                    <CardContent className="px-4 sm:px-6">
+                      <div className={`text-xl sm:text-2xl font-bold ${portfolio.summary.profitLoss >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                        {portfolio.summary.profitLoss >= 0 ? '+' : ''}₹{portfolio.summary.profitLoss}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {portfolio.summary.profitLossPercent >= 0 ? '+' : ''}{portfolio.summary.profitLossPercent}%
+                      </p>
+                    </CardContent>
+                  </Card>
+                </div>
+
+                <PortfolioHistoryChart />
+
+                <HoldingLotsCard lots={portfolio.lots} />
+
+                <WalletCard wallet={portfolio.wallet} onWalletChange={fetchPortfolio} />
+
+                {/* Sell Gold */}
+                <Card className="neumorphism border-border/20 mx-2 sm:mx-0">
+                  <CardHeader className="px-4 sm:px-6">
+                    <CardTitle className="text-lg sm:text-xl">Sell Gold</CardTitle>
+                    <CardDescription className="text-sm">
+                      {goldPrice?.sellPrice ? `Sell price: ₹${goldPrice.sellPrice.toLocaleString()}/g` : 'Fetching sell price...'}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4 px-4 sm:px-6">
+                    <div className="flex space-x-2">
+                      <Input
+                        placeholder="Grams to sell"
+                        value={sellGrams}
+                        onChange={(e) => setSellGrams(e.target.value)}
+                        className="glassmorphism border-border/20"
+                      />
+                      <Button
+                        variant="outline"
+                        className="glassmorphism bg-transparent"
+                        onClick={() => setSellGrams(portfolio.summary.totalGoldGrams.toFixed(4))}
+                      >
+                        Max
+                      </Button>
+                    </div>
+                    {sellFees && (
+                      <div className="space-y-1 text-sm">
+                        {sellFees.items.map(item => (
+                          <div key={item.code} className="flex justify-between text-muted-foreground">
+                            <span>{item.label}:</span>
+                            <span>-₹{item.amount.toLocaleString()}</span>
                           </div>
-                        </div>
-                        <div className="text-right">
-                          <p className="font-medium text-sm sm:text-base">₹{transaction.amountINR.toLocaleString()}</p>
-                          <p className="text-xs sm:text-sm text-muted-foreground">{transaction.grams.toFixed(3)}g</p>
+                        ))}
+                        <div className="flex justify-between">
+                          <span>Estimated payout:</span>
+                          <span>₹{sellFees.totalAmount.toLocaleString()}</span>
                         </div>
                       </div>
-                    ))
-                  ) : (
-                    <div className="text-center py-8 text-muted-foreground">
-                      <Coins className="w-12 h-12 mx-auto mb-4 opacity-50" />
-                      <p className="text-sm sm:text-base">No transactions yet</p>
-                      <p className="text-xs sm:text-sm">Start investing in gold to see your history here</p>
+                    )}
+                    <Button
+                      className="w-full glow-gold"
+                      size="lg"
+                      onClick={handleSell}
+                      disabled={selling || !sellGrams || portfolio.summary.totalGoldGrams <= 0}
+                    >
+                      {selling ? 'Selling...' : 'Sell'}
+                    </Button>
+                  </CardContent>
+                </Card>
+
+                <GiftCard availableGrams={portfolio.summary.totalGoldGrams} onGiftChange={fetchPortfolio} />
+
+                <RedemptionCard
+                  availableGrams={portfolio.summary.totalGoldGrams}
+                  walletBalance={portfolio.wallet?.balance ?? 0}
+                  redemptions={portfolio.redemptions}
+                  onRedemptionChange={fetchPortfolio}
+                />
+
+                {/* Recent Transactions */}
+                <Card className="neumorphism border-border/20 mx-2 sm:mx-0">
+                  <CardHeader className="px-4 sm:px-6">
+                    <CardTitle className="text-lg sm:text-xl">Recent Transactions</CardTitle>
+                  </CardHeader>
+                  <CardContent className="px-4 sm:px-6">
+                    <div className="space-y-4">
+                      {portfolio.recentTransactions.length > 0 ? (
+                        portfolio.recentTransactions.map((transaction: any, index: number) => (
+                          <div key={index} className="flex items-center gap-2">
+                            <button
+                              type="button"
+                              onClick={() => setSelectedOrderId(transaction.id)}
+                              className="flex-1 text-left flex items-center justify-between p-3 rounded-lg glassmorphism hover:bg-primary/5 transition-colors"
+                            >
+                              <div className="flex items-center space-x-3">
+                                <div className="w-8 h-8 rounded-full bg-primary/20 flex items-center justify-center">
+                                  <Coins className="w-4 h-4 text-primary" />
+                                </div>
+                                <div>
+                                  <p className="font-medium text-sm sm:text-base">{ORDER_TYPE_LABELS[transaction.type] || `${transaction.type} Gold`}</p>
+                                  <p className="text-xs sm:text-sm text-muted-foreground">
+                                    {new Date(transaction.date).toLocaleDateString()}
+                                    {transaction.type === 'SELL' && transaction.payoutStatus && ` · Payout ${transaction.payoutStatus.toLowerCase()}`}
+                                    {transaction.status !== 'COMPLETED' && ` · ${transaction.status.replace('_', ' ').toLowerCase()}`}
+                                  </p>
+                                </div>
+                              </div>
+                              <div className="text-right">
+                                <p className="font-medium text-sm sm:text-base">₹{transaction.amountINR.toLocaleString()}</p>
+                                <p className="text-xs sm:text-sm text-muted-foreground">{transaction.grams.toFixed(3)}g</p>
+                              </div>
+                            </button>
+                            {transaction.type === 'BUY' && ['COMPLETED', 'REFUND_PENDING', 'REFUNDED'].includes(transaction.status) && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                className="glassmorphism bg-transparent"
+                                title="Download invoice"
+                                onClick={() => handleDownloadInvoice(transaction.id)}
+                              >
+                                <Download className="w-4 h-4" />
+                              </Button>
+                            )}
+                          </div>
+                        ))
+                      ) : (
+                        <div className="text-center py-8 text-muted-foreground">
+                          <Coins className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                          <p className="text-sm sm:text-base">No transactions yet</p>
+                          <p className="text-xs sm:text-sm">Start investing in gold to see your history here</p>
+                        </div>
+                      )}
                     </div>
-                  )}
-                </div>
-              </CardContent>
-            </Card>
+                  </CardContent>
+                </Card>
+              </>
+            )}
           </div>
         )}
 
+        <OrderDetailsDialog
+          orderId={selectedOrderId}
+          onClose={() => setSelectedOrderId(null)}
+          onOrderUpdated={fetchPortfolio}
+        />
+
         {/* Portfolio Page - Not logged in */}
         {currentPage === "portfolio" && !user && (
           <div className="text-center py-16 mx-2 sm:mx-0">
@@ -1411,6 +1759,8 @@ export default function AuroraGoldApp() {
                 </div>
               </CardContent>
             </Card>
+
+            <SipManager />
           </div>
         )}
 
@@ -0,0 +1,209 @@
+"use client"
+
+import React, { useEffect, useState } from 'react'
+import axios from 'axios'
+import { Gift as GiftIcon } from 'lucide-react'
+import { api, createIdempotencyKey } from '@/contexts/AuthContext'
+import { useToast } from '@/hooks/use-toast'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+
+interface Gift {
+  id: string
+  direction: 'SENT' | 'RECEIVED'
+  recipientEmail: string
+  grams: number
+  value: number
+  message?: string
+  status: 'PENDING_CLAIM' | 'CLAIMED' | 'EXPIRED' | 'CANCELLED'
+  expiresAt: string
+  createdAt: string
+}
+
+interface GiftCardProps {
+  availableGrams: number
+  onGiftChange?: () => void
+}
+
+const STATUS_LABELS: Record<Gift['status'], string> = {
+  PENDING_CLAIM: 'Awaiting claim',
+  CLAIMED: 'Claimed',
+  EXPIRED: 'Expired',
+  CANCELLED: 'Cancelled'
+}
+
+export function GiftCard({ availableGrams, onGiftChange }: GiftCardProps) {
+  const { toast } = useToast()
+  const [gifts, setGifts] = useState<Gift[]>([])
+  const [recipientEmail, setRecipientEmail] = useState('')
+  const [grams, setGrams] = useState('')
+  const [message, setMessage] = useState('')
+  const [claimCodes, setClaimCodes] = useState<Record<string, string>>({})
+  const [submitting, setSubmitting] = useState(false)
+
+  const fetchGifts = async () => {
+    try {
+      const response = await api.get('/gold/gifts')
+      setGifts(response.data.gifts)
+    } catch (fetchError) {
+      console.error('Failed to fetch gifts:', fetchError)
+    }
+  }
+
+  useEffect(() => {
+    fetchGifts()
+  }, [])
+
+  const refresh = () => {
+    onGiftChange?.()
+    fetchGifts()
+  }
+
+  const handleSend = async () => {
+    if (!grams || isNaN(Number(grams)) || Number(grams) < 0.01) {
+      toast({
+        title: "Invalid Amount",
+        description: "Minimum gift is 0.01 grams.",
+        variant: "destructive"
+      })
+      return
+    }
+
+    try {
+      setSubmitting(true)
+      const response = await api.post('/gold/gift', {
+        recipientEmail,
+        grams: Number(grams),
+        message: message || undefined
+      }, { idempotencyKey: createIdempotencyKey() })
+      toast({ title: "Gift Sent", description: response.data.message })
+      setRecipientEmail('')
+      setGrams('')
+      setMessage('')
+      refresh()
+    } catch (error) {
+      toast({
+        title: "Gift Failed",
+        description: (axios.isAxiosError(error) && error.response?.data?.error) || "Failed to send gift. Please try again.",
+        variant: "destructive"
+      })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleAction = async (gift: Gift, action: 'claim' | 'cancel') => {
+    try {
+      const response = await api.post(`/gold/gifts/${gift.id}/${action}`,
+        action === 'claim' ? { claimCode: claimCodes[gift.id] } : undefined)
+      toast({ title: action === 'claim' ? "Gift Claimed" : "Gift Cancelled", description: response.data.message })
+      refresh()
+    } catch (error) {
+      toast({
+        title: action === 'claim' ? "Claim Failed" : "Cancel Failed",
+        description: (axios.isAxiosError(error) && error.response?.data?.error) || "Please try again.",
+        variant: "destructive"
+      })
+    }
+  }
+
+  return (
+    <Card className="neumorphism border-border/20 mx-2 sm:mx-0">
+      <CardHeader className="px-4 sm:px-6">
+        <CardTitle className="flex items-center gap-2 text-lg sm:text-xl">
+          <GiftIcon className="w-4 h-4 sm:w-5 sm:h-5 text-primary" />
+          Gift Gold
+        </CardTitle>
+        <CardDescription className="text-sm">
+          Send gold to anyone by email. Unclaimed gifts come back to you.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4 px-4 sm:px-6">
+        <div className="space-y-2">
+          <Input
+            type="email"
+            placeholder="Recipient email"
+            value={recipientEmail}
+            onChange={(e) => setRecipientEmail(e.target.value)}
+            className="glassmorphism border-border/20"
+          />
+          <div className="flex space-x-2">
+            <Input
+              placeholder="Grams"
+              value={grams}
+              onChange={(e) => setGrams(e.target.value)}
+              className="glassmorphism border-border/20"
+            />
+            <Button
+              variant="outline"
+              className="glassmorphism bg-transparent"
+              onClick={() => setGrams(availableGrams.toFixed(4))}
+            >
+              Max
+            </Button>
+          </div>
+          <Input
+            placeholder="Message (optional)"
+            value={message}
+            maxLength={280}
+            onChange={(e) => setMessage(e.target.value)}
+            className="glassmorphism border-border/20"
+          />
+          <Button
+            className="w-full glow-gold"
+            onClick={handleSend}
+            disabled={submitting || !recipientEmail || !grams || availableGrams <= 0}
+          >
+            {submitting ? 'Sending...' : 'Send Gift'}
+          </Button>
+        </div>
+
+        {gifts.length > 0 && (
+          <div className="space-y-2">
+            {gifts.slice(0, 5).map(gift => (
+              <div key={gift.id} className="flex items-center justify-between gap-2 text-sm p-2 rounded-lg glassmorphism">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">
+                    {gift.direction === 'SENT' ? `To ${gift.recipientEmail}` : 'Gift for you'} · {gift.grams}g
+                  </p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {gift.message || new Date(gift.createdAt).toLocaleDateString()}
+                  </p>
+                </div>
+                {gift.status === 'PENDING_CLAIM' ? (
+                  <div className="flex items-center gap-2 shrink-0">
+                    {gift.direction === 'RECEIVED' && (
+                      <Input
+                        placeholder="Claim code"
+                        value={claimCodes[gift.id] || ''}
+                        onChange={(e) => setClaimCodes(codes => ({ ...codes, [gift.id]: e.target.value }))}
+                        className="h-8 w-28 glassmorphism border-border/20"
+                      />
+                    )}
+                    <Button
+                      size="sm"
+                      variant={gift.direction === 'RECEIVED' ? 'default' : 'outline'}
+                      className={gift.direction === 'RECEIVED' ? 'glow-gold' : 'glassmorphism bg-transparent'}
+                      onClick={() => handleAction(gift, gift.direction === 'RECEIVED' ? 'claim' : 'cancel')}
+                      disabled={gift.direction === 'RECEIVED' && !claimCodes[gift.id]}
+                    >
+                      {gift.direction === 'RECEIVED' ? 'Claim' : 'Cancel'}
+                    </Button>
+                  </div>
+                ) : (
+                  <Badge variant={gift.status === 'CLAIMED' ? 'secondary' : 'outline'}>
+                    {STATUS_LABELS[gift.status]}
+                  </Badge>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default GiftCard
@@ -0,0 +1,213 @@
+"use client"
+
+import React, { useEffect, useState } from 'react'
+import { Area, AreaChart, Bar, CartesianGrid, ComposedChart, XAxis, YAxis } from 'recharts'
+import { api } from '@/contexts/AuthContext'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart'
+import { LoadingSpinner } from '@/components/ui/loading-states'
+import { BarChart3, LineChart as LineChartIcon } from 'lucide-react'
+
+type CandleInterval = '5m' | '1h' | '1d'
+
+interface Candle {
+  timestamp: string
+  open: number
+  high: number
+  low: number
+  close: number
+  ticks: number
+}
+
+interface CandlePoint extends Candle {
+  range: [number, number]
+}
+
+const INTERVALS: { value: CandleInterval; label: string }[] = [
+  { value: '5m', label: '5m' },
+  { value: '1h', label: '1H' },
+  { value: '1d', label: '1D' }
+]
+
+const chartConfig = {
+  close: {
+    label: 'Price',
+    color: 'var(--chart-1)'
+  },
+  range: {
+    label: 'Range',
+    color: 'var(--chart-1)'
+  }
+} satisfies ChartConfig
+
+const formatTime = (timestamp: string, interval: CandleInterval) => {
+  const date = new Date(timestamp)
+  return interval === '1d'
+    ? date.toLocaleDateString([], { day: 'numeric', month: 'short' })
+    : date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+}
+
+// Draws one candle: the bar spans low..high, the body spans open..close
+function CandleShape(props: any) {
+  const { x, y, width, height, payload } = props
+  const { open, close, high, low } = payload as CandlePoint
+  const isUp = close >= open
+  const color = isUp ? '#4ade80' : '#f87171'
+  const ratio = high === low ? 0 : height / (high - low)
+  const bodyTop = y + (high - Math.max(open, close)) * ratio
+  const bodyHeight = Math.max(1, Math.abs(open - close) * ratio)
+  const center = x + width / 2
+
+  return (
+    <g>
+      <line x1={center} x2={center} y1={y} y2={y + height} stroke={color} strokeWidth={1} />
+      <rect x={x + width * 0.15} y={bodyTop} width={width * 0.7} height={bodyHeight} fill={color} />
+    </g>
+  )
+}
+
+export function GoldPriceChart() {
+  const [interval, setCandleInterval] = useState<CandleInterval>('1h')
+  const [mode, setMode] = useState<'candles' | 'area'>('candles')
+  const [candles, setCandles] = useState<CandlePoint[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchCandles = async () => {
+      try {
+        setLoading(true)
+        const response = await api.get(`/gold/candles?interval=${interval}`)
+        const data: Candle[] = response.data.data
+        setCandles(data.map(candle => ({ ...candle, range: [candle.low, candle.high] })))
+        setError(null)
+      } catch (fetchError) {
+        console.error('Failed to fetch gold candles:', fetchError)
+        setError('Unable to load price chart.')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchCandles()
+  }, [interval])
+
+  const prices = candles.flatMap(candle => [candle.low, candle.high])
+  const padding = prices.length ? Math.max(10, (Math.max(...prices) - Math.min(...prices)) * 0.1) : 0
+  const domain = prices.length
+    ? [Math.floor(Math.min(...prices) - padding), Math.ceil(Math.max(...prices) + padding)]
+    : ['auto', 'auto']
+
+  return (
+    <Card className="neumorphism border-border/20 mx-2 sm:mx-0">
+      <CardHeader className="px-4 sm:px-6">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-lg sm:text-xl">Price Chart</CardTitle>
+          <div className="flex items-center gap-1">
+            {INTERVALS.map(option => (
+              <Button
+                key={option.value}
+                variant={interval === option.value ? 'default' : 'outline'}
+                size="sm"
+                className={interval === option.value ? 'glow-gold' : 'glassmorphism bg-transparent'}
+                onClick={() => setCandleInterval(option.value)}
+              >
+                {option.label}
+              </Button>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              className="glassmorphism bg-transparent"
+              onClick={() => setMode(mode === 'candles' ? 'area' : 'candles')}
+              aria-label={mode === 'candles' ? 'Show area chart' : 'Show candlestick chart'}
+            >
+              {mode === 'candles' ? <LineChartIcon className="w-4 h-4" /> : <BarChart3 className="w-4 h-4" />}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="px-4 sm:px-6">
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner text="Loading price chart..." />
+          </div>
+        ) : error ? (
+          <p className="text-center text-sm text-muted-foreground py-12">{error}</p>
+        ) : candles.length === 0 ? (
+          <p className="text-center text-sm text-muted-foreground py-12">No price data recorded for this range yet.</p>
+        ) : (
+          <ChartContainer config={chartConfig} className="aspect-auto h-64 w-full">
+            {mode === 'candles' ? (
+              <ComposedChart data={candles}>
+                <CartesianGrid vertical={false} />
+                <XAxis
+                  dataKey="timestamp"
+                  tickLine={false}
+                  axisLine={false}
+                  minTickGap={24}
+                  tickFormatter={(value) => formatTime(value, interval)}
+                />
+                <YAxis domain={domain} tickLine={false} axisLine={false} width={56} />
+                <ChartTooltip
+                  content={
+                    <ChartTooltipContent
+                      hideIndicator
+                      labelFormatter={(_, payload) => {
+                        const candle = payload?.[0]?.payload as CandlePoint | undefined
+                        return candle ? formatTime(candle.timestamp, interval) : ''
+                      }}
+                      formatter={(_, __, item) => {
+                        const candle = item.payload as CandlePoint
+                        return `O ₹${candle.open} · H ₹${candle.high} · L ₹${candle.low} · C ₹${candle.close}`
+                      }}
+                    />
+                  }
+                />
+                <Bar dataKey="range" shape={<CandleShape />} isAnimationActive={false} />
+              </ComposedChart>
+            ) : (
+              <AreaChart data={candles}>
+                <defs>
+                  <linearGradient id="goldPriceFill" x1="0" y1="0" x2="0" y2="1">
+                    <stop offset="5%" stopColor="var(--color-close)" stopOpacity={0.6} />
+                    <stop offset="95%" stopColor="var(--color-close)" stopOpacity={0.05} />
+                  </linearGradient>
+                </defs>
+                <CartesianGrid vertical={false} />
+                <XAxis
+                  dataKey="timestamp"
+                  tickLine={false}
+                  axisLine={false}
+                  minTickGap={24}
+                  tickFormatter={(value) => formatTime(value, interval)}
+                />
+                <YAxis domain={domain} tickLine={false} axisLine={false} width={56} />
+                <ChartTooltip
+                  content={
+                    <ChartTooltipContent
+                      labelFormatter={(_, payload) => {
+                        const candle = payload?.[0]?.payload as CandlePoint | undefined
+                        return candle ? formatTime(candle.timestamp, interval) : ''
+                      }}
+                    />
+                  }
+                />
+                <Area
+                  dataKey="close"
+                  type="monotone"
+                  stroke="var(--color-close)"
+                  fill="url(#goldPriceFill)"
+                  strokeWidth={2}
+                />
+              </AreaChart>
+            )}
+          </ChartContainer>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default GoldPriceChart
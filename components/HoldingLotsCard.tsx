@@ -0,0 +1,72 @@
+"use client"
+
+import React from 'react'
+import { Layers } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+
+interface HoldingLot {
+  id: string
+  source: 'PURCHASE' | 'GIFT' | 'RETURN' | 'OPENING'
+  acquiredAt: string
+  grams: number
+  remainingGrams: number
+  pricePerGram: number
+  costBasis: number
+  currentValue: number
+  profitLoss: number
+  profitLossPercent: number
+}
+
+interface HoldingLotsCardProps {
+  lots?: HoldingLot[]
+}
+
+const SOURCE_LABELS: Record<HoldingLot['source'], string> = {
+  PURCHASE: 'Bought',
+  GIFT: 'Gift received',
+  RETURN: 'Returned',
+  OPENING: 'Earlier holdings'
+}
+
+export function HoldingLotsCard({ lots = [] }: HoldingLotsCardProps) {
+  if (lots.length === 0) return null
+
+  return (
+    <Card className="neumorphism border-border/20 mx-2 sm:mx-0">
+      <CardHeader className="px-4 sm:px-6">
+        <CardTitle className="flex items-center gap-2 text-lg sm:text-xl">
+          <Layers className="w-4 h-4 sm:w-5 sm:h-5 text-primary" />
+          Holdings by Purchase
+        </CardTitle>
+        <CardDescription className="text-sm">
+          Sales, gifts and redemptions use your oldest gold first.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2 px-4 sm:px-6">
+        {lots.map(lot => (
+          <div key={lot.id} className="flex items-center justify-between gap-2 text-sm p-3 rounded-lg glassmorphism">
+            <div>
+              <div className="flex items-center gap-2">
+                <p className="font-medium">{lot.remainingGrams.toFixed(4)}g</p>
+                {lot.source !== 'PURCHASE' && <Badge variant="secondary">{SOURCE_LABELS[lot.source]}</Badge>}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {new Date(lot.acquiredAt).toLocaleDateString()} · ₹{lot.pricePerGram.toLocaleString()}/g
+                {lot.remainingGrams < lot.grams && ` · ${lot.grams.toFixed(4)}g originally`}
+              </p>
+            </div>
+            <div className="text-right">
+              <p className="font-medium">₹{lot.currentValue.toLocaleString()}</p>
+              <p className={`text-xs ${lot.profitLoss >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                {lot.profitLoss >= 0 ? '+' : '-'}₹{Math.abs(lot.profitLoss).toLocaleString()} ({lot.profitLossPercent >= 0 ? '+' : ''}{lot.profitLossPercent}%)
+              </p>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default HoldingLotsCard
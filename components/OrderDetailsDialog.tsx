@@ -0,0 +1,253 @@
+"use client"
+
+import React, { useEffect, useState } from 'react'
+import axios from 'axios'
+import { api } from '@/contexts/AuthContext'
+import { useToast } from '@/hooks/use-toast'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog'
+import { LoadingSpinner } from '@/components/ui/loading-states'
+
+interface OrderDetails {
+  _id: string
+  type: 'BUY' | 'SELL' | 'GIFT_SENT' | 'GIFT_RECEIVED' | 'REDEEM'
+  status: string
+  amountINR: number
+  grams: number
+  pricePerGram: number
+  transactionFee: number
+  totalAmount: number
+  feeBreakdown?: {
+    items?: { code: string; label: string; amount: number }[]
+  }
+  createdAt: string
+  completedAt?: string
+  paymentDetails?: {
+    paymentId?: string
+    paymentMethod?: string
+  }
+  cancellation?: {
+    reason?: string
+    cancelledBy?: string
+    cancelledAt?: string
+  }
+  refund?: {
+    amount?: number
+    reason?: string
+    requestedAt?: string
+    processedAt?: string
+  }
+  payout?: {
+    status?: string
+    paidAt?: string
+  }
+}
+
+interface OrderDetailsDialogProps {
+  orderId: string | null
+  onClose: () => void
+  onOrderUpdated?: () => void
+}
+
+export const ORDER_TYPE_LABELS: Record<string, string> = {
+  BUY: 'BUY Gold',
+  SELL: 'SELL Gold',
+  GIFT_SENT: 'Gold Gift Sent',
+  GIFT_RECEIVED: 'Gold Gift Received',
+  REDEEM: 'Gold Coin Redemption'
+}
+
+const COMPLETED_LABELS: Record<string, string> = {
+  BUY: 'Payment completed',
+  SELL: 'Sold',
+  GIFT_SENT: 'Gift sent',
+  GIFT_RECEIVED: 'Gift received',
+  REDEEM: 'Delivered'
+}
+
+const TOTAL_LABELS: Record<string, string> = {
+  BUY: 'Total paid',
+  SELL: 'Payout',
+  GIFT_SENT: 'Gift value',
+  GIFT_RECEIVED: 'Gift value',
+  REDEEM: 'Making charges'
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  PENDING: 'Pending',
+  PROCESSING: 'Processing',
+  COMPLETED: 'Completed',
+  FAILED: 'Failed',
+  CANCELLED: 'Cancelled',
+  REFUND_PENDING: 'Refund pending',
+  REFUNDED: 'Refunded'
+}
+
+const formatDateTime = (value: string) => new Date(value).toLocaleString([], {
+  day: 'numeric',
+  month: 'short',
+  year: 'numeric',
+  hour: '2-digit',
+  minute: '2-digit'
+})
+
+// Each status change the order has been through, oldest first
+function getTimeline(order: OrderDetails) {
+  const events: { label: string; at?: string; detail?: string }[] = [
+    { label: 'Order placed', at: order.createdAt },
+    { label: COMPLETED_LABELS[order.type], at: order.completedAt },
+    { label: 'Cancelled', at: order.cancellation?.cancelledAt, detail: order.cancellation?.reason },
+    { label: 'Refund started', at: order.refund?.requestedAt, detail: order.refund?.reason },
+    {
+      label: 'Refunded',
+      at: order.refund?.processedAt,
+      detail: order.refund?.amount ? `₹${order.refund.amount.toLocaleString()} returned` : undefined
+    },
+    { label: 'Payout paid', at: order.payout?.paidAt }
+  ]
+
+  return events
+    .filter(event => event.at)
+    .sort((a, b) => new Date(a.at!).getTime() - new Date(b.at!).getTime())
+}
+
+export function OrderDetailsDialog({ orderId, onClose, onOrderUpdated }: OrderDetailsDialogProps) {
+  const { toast } = useToast()
+  const [order, setOrder] = useState<OrderDetails | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [cancelling, setCancelling] = useState(false)
+
+  useEffect(() => {
+    if (!orderId) {
+      setOrder(null)
+      return
+    }
+
+    const fetchOrder = async () => {
+      try {
+        setLoading(true)
+        const response = await api.get(`/gold/orders/${orderId}`)
+        setOrder(response.data.order)
+      } catch (fetchError) {
+        console.error('Failed to fetch order details:', fetchError)
+        toast({
+          title: "Order Unavailable",
+          description: "Unable to load order details.",
+          variant: "destructive"
+        })
+        onClose()
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchOrder()
+  }, [orderId])
+
+  const handleCancel = async () => {
+    if (!order) return
+
+    try {
+      setCancelling(true)
+      const response = await api.post(`/gold/orders/${order._id}/cancel`)
+      setOrder({ ...order, ...response.data.order, status: response.data.order.status })
+      toast({
+        title: "Order Cancelled",
+        description: "Your pending order has been cancelled."
+      })
+      onOrderUpdated?.()
+    } catch (error) {
+      toast({
+        title: "Cancel Failed",
+        description: (axios.isAxiosError(error) && error.response?.data?.error) || "Failed to cancel order. Please try again.",
+        variant: "destructive"
+      })
+    } finally {
+      setCancelling(false)
+    }
+  }
+
+  return (
+    <AlertDialog open={Boolean(orderId)} onOpenChange={(open) => !open && onClose()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center justify-between gap-2">
+            <span>{order ? ORDER_TYPE_LABELS[order.type] : 'Order Details'}</span>
+            {order && (
+              <Badge variant={['FAILED', 'CANCELLED'].includes(order.status) ? 'destructive' : 'secondary'}>
+                {STATUS_LABELS[order.status] || order.status}
+              </Badge>
+            )}
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            {order ? `Order ${order._id}` : 'Loading order...'}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {loading || !order ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner text="Loading order..." />
+          </div>
+        ) : (
+          <div className="space-y-4 text-sm">
+            <div className="grid grid-cols-2 gap-2">
+              <span className="text-muted-foreground">Gold</span>
+              <span className="text-right font-medium">{order.grams.toFixed(4)}g</span>
+              <span className="text-muted-foreground">Rate</span>
+              <span className="text-right">₹{order.pricePerGram.toLocaleString()}/g</span>
+              <span className="text-muted-foreground">Amount</span>
+              <span className="text-right">₹{order.amountINR.toLocaleString()}</span>
+              {order.feeBreakdown?.items?.length ? (
+                order.feeBreakdown.items.map(item => (
+                  <React.Fragment key={item.code}>
+                    <span className="text-muted-foreground">{item.label}</span>
+                    <span className="text-right">₹{item.amount.toLocaleString()}</span>
+                  </React.Fragment>
+                ))
+              ) : (
+                <>
+                  <span className="text-muted-foreground">Fee</span>
+                  <span className="text-right">₹{order.transactionFee.toLocaleString()}</span>
+                </>
+              )}
+              <span className="text-muted-foreground">{TOTAL_LABELS[order.type]}</span>
+              <span className="text-right font-medium">₹{order.totalAmount.toLocaleString()}</span>
+            </div>
+
+            <div className="space-y-2">
+              {getTimeline(order).map(event => (
+                <div key={event.label} className="flex items-start justify-between gap-4 p-2 rounded-lg glassmorphism">
+                  <div>
+                    <p className="font-medium">{event.label}</p>
+                    {event.detail && <p className="text-xs text-muted-foreground">{event.detail}</p>}
+                  </div>
+                  <span className="text-xs text-muted-foreground whitespace-nowrap">{formatDateTime(event.at!)}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <AlertDialogFooter>
+          {order?.status === 'PENDING' && (
+            <Button variant="destructive" onClick={handleCancel} disabled={cancelling}>
+              {cancelling ? 'Cancelling...' : 'Cancel Order'}
+            </Button>
+          )}
+          <AlertDialogCancel>Close</AlertDialogCancel>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
+
+export default OrderDetailsDialog
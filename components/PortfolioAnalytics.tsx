@@ -0,0 +1,200 @@
+"use client"
+
+import React, { useEffect, useState } from 'react'
+import { api } from '@/contexts/AuthContext'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { LoadingSpinner } from '@/components/ui/loading-states'
+
+type AnalyticsPeriod = '1d' | '1w' | '1m' | '1y' | 'all'
+
+interface Purchase {
+  orderId: string
+  date: string
+  grams: number
+  pricePerGram: number
+  profitLoss: number
+  returnPercent: number
+}
+
+interface Analytics {
+  period: AnalyticsPeriod
+  currentPrice: number
+  holdings: { grams: number; invested: number; currentValue: number }
+  returns: {
+    startValue: number
+    endValue: number
+    contributions: number
+    withdrawals: number
+    absoluteReturn: number
+    absoluteReturnPercent: number
+    timeWeightedReturn: number | null
+    // Only for periods of a year or more
+    xirr: number | null
+  }
+  purchases: {
+    count: number
+    best: Purchase | null
+    worst: Purchase | null
+    averageBuyPrice: number | null
+    periodAveragePrice: number
+    vsPeriodAverage: { difference: number; percent: number } | null
+  }
+}
+
+const PERIODS: { value: AnalyticsPeriod; label: string }[] = [
+  { value: '1d', label: '1D' },
+  { value: '1w', label: '1W' },
+  { value: '1m', label: '1M' },
+  { value: '1y', label: '1Y' },
+  { value: 'all', label: 'All' }
+]
+
+const signed = (amount: number) => `${amount >= 0 ? '+' : '-'}₹${Math.abs(amount).toLocaleString()}`
+const signedPercent = (percent: number) => `${percent >= 0 ? '+' : ''}${percent}%`
+const trendClass = (value: number) => value >= 0 ? 'text-green-400' : 'text-red-400'
+
+function PurchaseRow({ label, purchase }: { label: string; purchase: Purchase }) {
+  return (
+    <div className="flex items-center justify-between text-sm p-3 rounded-lg glassmorphism">
+      <div>
+        <p className="font-medium">{label}</p>
+        <p className="text-xs text-muted-foreground">
+          {new Date(purchase.date).toLocaleDateString()} · {purchase.grams.toFixed(4)}g at ₹{purchase.pricePerGram.toLocaleString()}/g
+        </p>
+      </div>
+      <div className={`text-right ${trendClass(purchase.returnPercent)}`}>
+        <p className="font-medium">{signedPercent(purchase.returnPercent)}</p>
+        <p className="text-xs">{signed(purchase.profitLoss)}</p>
+      </div>
+    </div>
+  )
+}
+
+export function PortfolioAnalytics() {
+  const [period, setPeriod] = useState<AnalyticsPeriod>('1m')
+  const [analytics, setAnalytics] = useState<Analytics | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchAnalytics = async () => {
+      try {
+        setLoading(true)
+        const response = await api.get(`/user/analytics?period=${period}`)
+        setAnalytics(response.data.analytics)
+        setError(null)
+      } catch (fetchError) {
+        console.error('Failed to fetch portfolio analytics:', fetchError)
+        setError('Unable to load analytics.')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchAnalytics()
+  }, [period])
+
+  return (
+    <Card className="neumorphism border-border/20 mx-2 sm:mx-0">
+      <CardHeader className="px-4 sm:px-6">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div>
+            <CardTitle className="text-lg sm:text-xl">Performance</CardTitle>
+            <CardDescription className="text-sm">Returns on your gold, including sales and gifts</CardDescription>
+          </div>
+          <div className="flex items-center gap-1">
+            {PERIODS.map(option => (
+              <Button
+                key={option.value}
+                variant={period === option.value ? 'default' : 'outline'}
+                size="sm"
+                className={period === option.value ? 'glow-gold' : 'glassmorphism bg-transparent'}
+                onClick={() => setPeriod(option.value)}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4 px-4 sm:px-6">
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner text="Loading analytics..." />
+          </div>
+        ) : error || !analytics ? (
+          <p className="text-center text-sm text-muted-foreground py-12">{error}</p>
+        ) : (
+          <>
+            <div className="grid gap-3 grid-cols-2">
+              <div className="p-3 rounded-lg glassmorphism">
+                <p className="text-xs text-muted-foreground">Absolute return</p>
+                <p className={`text-lg font-bold ${trendClass(analytics.returns.absoluteReturn)}`}>
+                  {signed(analytics.returns.absoluteReturn)}
+                </p>
+                <p className={`text-xs ${trendClass(analytics.returns.absoluteReturnPercent)}`}>
+                  {signedPercent(analytics.returns.absoluteReturnPercent)}
+                </p>
+              </div>
+              <div className="p-3 rounded-lg glassmorphism">
+                <p className="text-xs text-muted-foreground">Time-weighted return</p>
+                <p className={`text-lg font-bold ${analytics.returns.timeWeightedReturn === null ? '' : trendClass(analytics.returns.timeWeightedReturn)}`}>
+                  {analytics.returns.timeWeightedReturn === null ? '—' : signedPercent(analytics.returns.timeWeightedReturn)}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {analytics.returns.xirr === null
+                    ? `Value ₹${analytics.returns.endValue.toLocaleString()}`
+                    : `XIRR ${signedPercent(analytics.returns.xirr)} a year`}
+                </p>
+              </div>
+              <div className="p-3 rounded-lg glassmorphism">
+                <p className="text-xs text-muted-foreground">Your average buy price</p>
+                <p className="text-lg font-bold">
+                  {analytics.purchases.averageBuyPrice === null ? '—' : `₹${analytics.purchases.averageBuyPrice.toLocaleString()}`}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {analytics.purchases.count} purchase{analytics.purchases.count === 1 ? '' : 's'} in this period
+                </p>
+              </div>
+              <div className="p-3 rounded-lg glassmorphism">
+                <p className="text-xs text-muted-foreground">Period average price</p>
+                <p className="text-lg font-bold">₹{analytics.purchases.periodAveragePrice.toLocaleString()}</p>
+                {analytics.purchases.vsPeriodAverage && (
+                  <p className={`text-xs ${trendClass(-analytics.purchases.vsPeriodAverage.percent)}`}>
+                    You paid {Math.abs(analytics.purchases.vsPeriodAverage.percent)}%{' '}
+                    {analytics.purchases.vsPeriodAverage.percent <= 0 ? 'less' : 'more'}
+                  </p>
+                )}
+              </div>
+            </div>
+
+            <div className="space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Value at start:</span>
+                <span>₹{analytics.returns.startValue.toLocaleString()}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Added:</span>
+                <span>₹{analytics.returns.contributions.toLocaleString()}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Taken out:</span>
+                <span>₹{analytics.returns.withdrawals.toLocaleString()}</span>
+              </div>
+            </div>
+
+            {analytics.purchases.best && (
+              <div className="space-y-2">
+                <PurchaseRow label="Best purchase" purchase={analytics.purchases.best} />
+                {analytics.purchases.worst && <PurchaseRow label="Worst purchase" purchase={analytics.purchases.worst} />}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default PortfolioAnalytics
@@ -0,0 +1,159 @@
+"use client"
+
+import React, { useEffect, useState } from 'react'
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from 'recharts'
+import { api } from '@/contexts/AuthContext'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart'
+import { LoadingSpinner } from '@/components/ui/loading-states'
+
+type HistoryRange = '1w' | '1m' | '1y' | 'all'
+
+interface HistoryPoint {
+  timestamp: string
+  price: number
+  grams: number
+  value: number
+  invested: number
+}
+
+const RANGES: { value: HistoryRange; label: string }[] = [
+  { value: '1w', label: '1W' },
+  { value: '1m', label: '1M' },
+  { value: '1y', label: '1Y' },
+  { value: 'all', label: 'All' }
+]
+
+const chartConfig = {
+  value: {
+    label: 'Value',
+    color: 'var(--chart-1)'
+  },
+  invested: {
+    label: 'Invested',
+    color: 'var(--chart-2)'
+  }
+} satisfies ChartConfig
+
+const formatDate = (timestamp: string, range: HistoryRange) => {
+  const date = new Date(timestamp)
+  return range === '1w'
+    ? date.toLocaleDateString([], { weekday: 'short', day: 'numeric' })
+    : date.toLocaleDateString([], { day: 'numeric', month: 'short', ...(range === 'all' || range === '1y' ? { year: '2-digit' } : {}) })
+}
+
+export function PortfolioHistoryChart() {
+  const [range, setRange] = useState<HistoryRange>('1m')
+  const [points, setPoints] = useState<HistoryPoint[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      try {
+        setLoading(true)
+        const response = await api.get(`/user/portfolio/history?range=${range}`)
+        setPoints(response.data.history.points)
+        setError(null)
+      } catch (fetchError) {
+        console.error('Failed to fetch portfolio history:', fetchError)
+        setError('Unable to load portfolio history.')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchHistory()
+  }, [range])
+
+  return (
+    <Card className="neumorphism border-border/20 mx-2 sm:mx-0">
+      <CardHeader className="px-4 sm:px-6">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-lg sm:text-xl">Portfolio Value</CardTitle>
+          <div className="flex items-center gap-1">
+            {RANGES.map(option => (
+              <Button
+                key={option.value}
+                variant={range === option.value ? 'default' : 'outline'}
+                size="sm"
+                className={range === option.value ? 'glow-gold' : 'glassmorphism bg-transparent'}
+                onClick={() => setRange(option.value)}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="px-4 sm:px-6">
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner text="Loading portfolio history..." />
+          </div>
+        ) : error ? (
+          <p className="text-center text-sm text-muted-foreground py-12">{error}</p>
+        ) : points.every(point => point.grams === 0) ? (
+          <p className="text-center text-sm text-muted-foreground py-12">No gold held in this range yet.</p>
+        ) : (
+          <ChartContainer config={chartConfig} className="aspect-auto h-64 w-full">
+            <AreaChart data={points}>
+              <defs>
+                <linearGradient id="portfolioValueFill" x1="0" y1="0" x2="0" y2="1">
+                  <stop offset="5%" stopColor="var(--color-value)" stopOpacity={0.6} />
+                  <stop offset="95%" stopColor="var(--color-value)" stopOpacity={0.05} />
+                </linearGradient>
+                <linearGradient id="portfolioInvestedFill" x1="0" y1="0" x2="0" y2="1">
+                  <stop offset="5%" stopColor="var(--color-invested)" stopOpacity={0.3} />
+                  <stop offset="95%" stopColor="var(--color-invested)" stopOpacity={0.02} />
+                </linearGradient>
+              </defs>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="timestamp"
+                tickLine={false}
+                axisLine={false}
+                minTickGap={24}
+                tickFormatter={(value) => formatDate(value, range)}
+              />
+              <YAxis
+                tickLine={false}
+                axisLine={false}
+                width={64}
+                tickFormatter={(value) => `₹${Number(value).toLocaleString()}`}
+              />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={(_, payload) => {
+                      const point = payload?.[0]?.payload as HistoryPoint | undefined
+                      return point ? new Date(point.timestamp).toLocaleString() : ''
+                    }}
+                  />
+                }
+              />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Area
+                dataKey="invested"
+                type="stepAfter"
+                stroke="var(--color-invested)"
+                fill="url(#portfolioInvestedFill)"
+                strokeWidth={2}
+              />
+              <Area
+                dataKey="value"
+                type="monotone"
+                stroke="var(--color-value)"
+                fill="url(#portfolioValueFill)"
+                strokeWidth={2}
+              />
+            </AreaChart>
+          </ChartContainer>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default PortfolioHistoryChart
@@ -0,0 +1,288 @@
+"use client"
+
+import React, { useEffect, useState } from 'react'
+import axios from 'axios'
+import { Package, Truck } from 'lucide-react'
+import { api, createIdempotencyKey } from '@/contexts/AuthContext'
+import { useToast } from '@/hooks/use-toast'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+
+interface Product {
+  sku: string
+  name: string
+  grams: number
+  makingCharge: number
+}
+
+interface Address {
+  _id: string
+  label?: string
+  fullName: string
+  phone: string
+  line1: string
+  line2?: string
+  city: string
+  state: string
+  pincode: string
+  isDefault: boolean
+}
+
+interface Redemption {
+  id: string
+  items: { sku: string; name: string; quantity: number }[]
+  totalGrams: number
+  makingCharges: number
+  status: 'PLACED' | 'PACKED' | 'SHIPPED' | 'DELIVERED'
+  stages: { status: string; at: string }[]
+  shipment?: { carrier?: string; trackingNumber?: string }
+  createdAt: string
+}
+
+interface RedemptionCardProps {
+  availableGrams: number
+  walletBalance: number
+  redemptions?: Redemption[]
+  onRedemptionChange?: () => void
+}
+
+const STAGES = ['PLACED', 'PACKED', 'SHIPPED', 'DELIVERED'] as const
+
+const EMPTY_ADDRESS = { fullName: '', phone: '', line1: '', line2: '', city: '', state: '', pincode: '' }
+
+export function RedemptionCard({ availableGrams, walletBalance, redemptions = [], onRedemptionChange }: RedemptionCardProps) {
+  const { toast } = useToast()
+  const [products, setProducts] = useState<Product[]>([])
+  const [addresses, setAddresses] = useState<Address[]>([])
+  const [quantities, setQuantities] = useState<Record<string, number>>({})
+  const [addressId, setAddressId] = useState('')
+  const [newAddress, setNewAddress] = useState(EMPTY_ADDRESS)
+  const [addingAddress, setAddingAddress] = useState(false)
+  const [submitting, setSubmitting] = useState(false)
+
+  useEffect(() => {
+    const fetchOptions = async () => {
+      try {
+        const [catalogueResponse, addressResponse] = await Promise.all([
+          api.get('/redemptions/catalogue'),
+          api.get('/user/addresses')
+        ])
+        setProducts(catalogueResponse.data.products)
+        setAddresses(addressResponse.data.addresses)
+        const defaultAddress = addressResponse.data.addresses.find((address: Address) => address.isDefault)
+        if (defaultAddress) setAddressId(defaultAddress._id)
+      } catch (fetchError) {
+        console.error('Failed to fetch redemption options:', fetchError)
+      }
+    }
+
+    fetchOptions()
+  }, [])
+
+  const selected = products.filter(product => quantities[product.sku] > 0)
+  const totalGrams = selected.reduce((sum, product) => sum + product.grams * quantities[product.sku], 0)
+  const makingCharges = selected.reduce((sum, product) => sum + product.makingCharge * quantities[product.sku], 0)
+
+  const changeQuantity = (sku: string, delta: number) => {
+    setQuantities(current => ({ ...current, [sku]: Math.max(0, Math.min(10, (current[sku] || 0) + delta)) }))
+  }
+
+  const handleSaveAddress = async () => {
+    try {
+      const response = await api.post('/user/addresses', newAddress)
+      setAddresses(response.data.addresses)
+      setAddressId(response.data.address._id)
+      setNewAddress(EMPTY_ADDRESS)
+      setAddingAddress(false)
+    } catch (error) {
+      toast({
+        title: "Address Not Saved",
+        description: (axios.isAxiosError(error) && error.response?.data?.error) || "Failed to save address. Please try again.",
+        variant: "destructive"
+      })
+    }
+  }
+
+  const handleRedeem = async () => {
+    try {
+      setSubmitting(true)
+      const response = await api.post('/redemptions', {
+        items: selected.map(product => ({ sku: product.sku, quantity: quantities[product.sku] })),
+        addressId
+      }, { idempotencyKey: createIdempotencyKey() })
+      toast({ title: "Redemption Placed", description: response.data.message })
+      setQuantities({})
+      onRedemptionChange?.()
+    } catch (error) {
+      toast({
+        title: "Redemption Failed",
+        description: (axios.isAxiosError(error) && error.response?.data?.error) || "Failed to place redemption. Please try again.",
+        variant: "destructive"
+      })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleCancel = async (redemption: Redemption) => {
+    try {
+      const response = await api.post(`/redemptions/${redemption.id}/cancel`)
+      toast({ title: "Redemption Cancelled", description: response.data.message })
+      onRedemptionChange?.()
+    } catch (error) {
+      toast({
+        title: "Cancel Failed",
+        description: (axios.isAxiosError(error) && error.response?.data?.error) || "Please try again.",
+        variant: "destructive"
+      })
+    }
+  }
+
+  return (
+    <Card className="neumorphism border-border/20 mx-2 sm:mx-0">
+      <CardHeader className="px-4 sm:px-6">
+        <CardTitle className="flex items-center gap-2 text-lg sm:text-xl">
+          <Package className="w-4 h-4 sm:w-5 sm:h-5 text-primary" />
+          Redeem as Coins
+        </CardTitle>
+        <CardDescription className="text-sm">
+          Get your gold delivered. Making charges are paid from your wallet.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4 px-4 sm:px-6">
+        <div className="space-y-2">
+          {products.map(product => (
+            <div key={product.sku} className="flex items-center justify-between text-sm p-2 rounded-lg glassmorphism">
+              <div>
+                <p className="font-medium">{product.name}</p>
+                <p className="text-xs text-muted-foreground">Making charge ₹{product.makingCharge.toLocaleString()}</p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Button size="sm" variant="outline" className="glassmorphism bg-transparent" onClick={() => changeQuantity(product.sku, -1)}>-</Button>
+                <span className="w-4 text-center">{quantities[product.sku] || 0}</span>
+                <Button size="sm" variant="outline" className="glassmorphism bg-transparent" onClick={() => changeQuantity(product.sku, 1)}>+</Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {addingAddress || addresses.length === 0 ? (
+          <div className="space-y-2">
+            {(Object.keys(EMPTY_ADDRESS) as (keyof typeof EMPTY_ADDRESS)[]).map(field => (
+              <Input
+                key={field}
+                placeholder={{
+                  fullName: 'Full name',
+                  phone: 'Mobile number',
+                  line1: 'Address line 1',
+                  line2: 'Address line 2 (optional)',
+                  city: 'City',
+                  state: 'State',
+                  pincode: 'Pincode'
+                }[field]}
+                value={newAddress[field]}
+                onChange={(e) => setNewAddress({ ...newAddress, [field]: e.target.value })}
+                className="glassmorphism border-border/20"
+              />
+            ))}
+            <div className="flex gap-2">
+              <Button className="flex-1 glow-gold" onClick={handleSaveAddress}>Save Address</Button>
+              {addresses.length > 0 && (
+                <Button variant="outline" className="glassmorphism bg-transparent" onClick={() => setAddingAddress(false)}>
+                  Cancel
+                </Button>
+              )}
+            </div>
+          </div>
+        ) : (
+          <div className="flex gap-2">
+            <select
+              value={addressId}
+              onChange={(e) => setAddressId(e.target.value)}
+              className="flex-1 h-10 rounded-md px-3 text-sm glassmorphism border border-border/20 bg-transparent"
+            >
+              {addresses.map(address => (
+                <option key={address._id} value={address._id}>
+                  {address.fullName}, {address.line1}, {address.city} {address.pincode}
+                </option>
+              ))}
+            </select>
+            <Button variant="outline" className="glassmorphism bg-transparent" onClick={() => setAddingAddress(true)}>
+              New
+            </Button>
+          </div>
+        )}
+
+        {totalGrams > 0 && (
+          <div className="space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span>Gold to redeem:</span>
+              <span>{totalGrams}g</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Making charges:</span>
+              <span>₹{makingCharges.toLocaleString()}</span>
+            </div>
+          </div>
+        )}
+
+        <Button
+          className="w-full glow-gold"
+          onClick={handleRedeem}
+          disabled={submitting || totalGrams === 0 || !addressId || totalGrams > availableGrams || makingCharges > walletBalance}
+        >
+          {submitting
+            ? 'Placing...'
+            : totalGrams > availableGrams
+              ? 'Not enough gold'
+              : makingCharges > walletBalance ? 'Add money to your wallet' : 'Redeem'}
+        </Button>
+
+        {redemptions.length > 0 && (
+          <div className="space-y-2">
+            {redemptions.map(redemption => (
+              <div key={redemption.id} className="space-y-2 text-sm p-3 rounded-lg glassmorphism">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="font-medium">
+                    {redemption.items.map(item => `${item.quantity} × ${item.name}`).join(', ')}
+                  </p>
+                  {redemption.status === 'PLACED' ? (
+                    <Button size="sm" variant="outline" className="glassmorphism bg-transparent" onClick={() => handleCancel(redemption)}>
+                      Cancel
+                    </Button>
+                  ) : (
+                    <Badge variant="secondary">{redemption.status.toLowerCase()}</Badge>
+                  )}
+                </div>
+                <div className="flex gap-1">
+                  {STAGES.map(stage => {
+                    const reached = redemption.stages.find(entry => entry.status === stage)
+                    return (
+                      <div key={stage} className="flex-1">
+                        <div className={`h-1.5 rounded-full ${reached ? 'bg-primary' : 'bg-muted'}`} />
+                        <p className="text-[10px] sm:text-xs text-muted-foreground mt-1">
+                          {stage.charAt(0) + stage.slice(1).toLowerCase()}
+                          {reached && ` · ${new Date(reached.at).toLocaleDateString()}`}
+                        </p>
+                      </div>
+                    )
+                  })}
+                </div>
+                {redemption.shipment?.trackingNumber && (
+                  <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                    <Truck className="w-3 h-3" />
+                    {[redemption.shipment.carrier, redemption.shipment.trackingNumber].filter(Boolean).join(' ')}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default RedemptionCard
@@ -0,0 +1,269 @@
+"use client"
+
+import React, { useEffect, useState } from 'react'
+import axios from 'axios'
+import { CalendarDays } from 'lucide-react'
+import { api } from '@/contexts/AuthContext'
+import { useToast } from '@/hooks/use-toast'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Calendar } from '@/components/ui/calendar'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { LoadingSpinner } from '@/components/ui/loading-states'
+
+type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY'
+type PaymentMethod = 'WALLET' | 'UPI'
+
+interface Sip {
+  _id: string
+  amountINR: number
+  frequency: Frequency
+  startDate: string
+  nextRunAt: string
+  status: 'ACTIVE' | 'PAUSED' | 'CANCELLED'
+  paymentMethod: PaymentMethod | 'CARD' | 'NET_BANKING'
+  runCount: number
+  lastRunAt?: string
+  lastError?: string
+}
+
+const FREQUENCIES: { value: Frequency; label: string }[] = [
+  { value: 'DAILY', label: 'Daily' },
+  { value: 'WEEKLY', label: 'Weekly' },
+  { value: 'MONTHLY', label: 'Monthly' }
+]
+
+// With a checkout gateway the server only takes wallet-funded plans
+const PAYMENT_METHODS: { value: PaymentMethod; label: string }[] = [
+  { value: 'WALLET', label: 'Wallet' },
+  { value: 'UPI', label: 'UPI' }
+]
+
+const formatDate = (value: string | Date) => new Date(value).toLocaleDateString([], {
+  day: 'numeric',
+  month: 'short',
+  year: 'numeric'
+})
+
+// The calendar picks a local day; send it as a plain date so the server stores that day
+const toDateParam = (date: Date) => [
+  date.getFullYear(),
+  String(date.getMonth() + 1).padStart(2, '0'),
+  String(date.getDate()).padStart(2, '0')
+].join('-')
+
+export function SipManager() {
+  const { toast } = useToast()
+  const [sips, setSips] = useState<Sip[]>([])
+  const [loading, setLoading] = useState(true)
+  const [amount, setAmount] = useState('')
+  const [frequency, setFrequency] = useState<Frequency>('MONTHLY')
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('WALLET')
+  const [startDate, setStartDate] = useState<Date>(new Date())
+  const [showCalendar, setShowCalendar] = useState(false)
+  const [creating, setCreating] = useState(false)
+  const [updatingId, setUpdatingId] = useState<string | null>(null)
+
+  const fetchSips = async () => {
+    try {
+      const response = await api.get('/sips')
+      setSips(response.data.sips)
+    } catch (fetchError) {
+      console.error('Failed to fetch SIPs:', fetchError)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchSips()
+  }, [])
+
+  const handleCreate = async () => {
+    if (!amount || isNaN(Number(amount)) || Number(amount) < 100) {
+      toast({
+        title: "Invalid Amount",
+        description: "Minimum SIP amount is ₹100.",
+        variant: "destructive"
+      })
+      return
+    }
+
+    try {
+      setCreating(true)
+      await api.post('/sips', {
+        amountINR: Number(amount),
+        frequency,
+        startDate: toDateParam(startDate),
+        paymentMethod
+      })
+      toast({
+        title: "SIP Started",
+        description: `₹${Number(amount).toLocaleString()} ${frequency.toLowerCase()} from ${formatDate(startDate)}.`
+      })
+      setAmount('')
+      setShowCalendar(false)
+      fetchSips()
+    } catch (error) {
+      toast({
+        title: "SIP Failed",
+        description: (axios.isAxiosError(error) && error.response?.data?.error) || "Failed to create SIP. Please try again.",
+        variant: "destructive"
+      })
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const handleAction = async (sip: Sip, action: 'pause' | 'resume' | 'cancel') => {
+    try {
+      setUpdatingId(sip._id)
+      const response = await api.post(`/sips/${sip._id}/${action}`)
+      setSips(current => current.map(item => item._id === sip._id ? response.data.sip : item))
+      toast({ title: response.data.message })
+    } catch (error) {
+      toast({
+        title: "Update Failed",
+        description: (axios.isAxiosError(error) && error.response?.data?.error) || "Failed to update SIP. Please try again.",
+        variant: "destructive"
+      })
+    } finally {
+      setUpdatingId(null)
+    }
+  }
+
+  const today = new Date()
+  today.setHours(0, 0, 0, 0)
+
+  return (
+    <Card className="neumorphism border-border/20 mx-2 sm:mx-0">
+      <CardHeader className="px-4 sm:px-6">
+        <CardTitle className="text-lg sm:text-xl">Systematic Investment Plans</CardTitle>
+        <CardDescription className="text-sm">Buy a fixed amount of gold on a schedule</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6 px-4 sm:px-6">
+        <div className="space-y-4">
+          <Input
+            placeholder="Amount per instalment (₹)"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            className="glassmorphism border-border/20"
+          />
+          <div className="flex gap-2">
+            {FREQUENCIES.map(option => (
+              <Button
+                key={option.value}
+                variant={frequency === option.value ? 'default' : 'outline'}
+                size="sm"
+                className={frequency === option.value ? 'flex-1 glow-gold' : 'flex-1 glassmorphism bg-transparent'}
+                onClick={() => setFrequency(option.value)}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            {PAYMENT_METHODS.map(option => (
+              <Button
+                key={option.value}
+                variant={paymentMethod === option.value ? 'default' : 'outline'}
+                size="sm"
+                className={paymentMethod === option.value ? 'flex-1 glow-gold' : 'flex-1 glassmorphism bg-transparent'}
+                onClick={() => setPaymentMethod(option.value)}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+          <Button
+            variant="outline"
+            className="w-full justify-start glassmorphism bg-transparent"
+            onClick={() => setShowCalendar(!showCalendar)}
+          >
+            <CalendarDays className="w-4 h-4 mr-2" />
+            Starts {formatDate(startDate)}
+          </Button>
+          {showCalendar && (
+            <div className="flex justify-center rounded-lg glassmorphism">
+              <Calendar
+                mode="single"
+                selected={startDate}
+                onSelect={(date) => {
+                  if (date) {
+                    setStartDate(date)
+                    setShowCalendar(false)
+                  }
+                }}
+                disabled={{ before: today }}
+                className="bg-transparent"
+              />
+            </div>
+          )}
+          <Button className="w-full glow-gold" onClick={handleCreate} disabled={creating || !amount}>
+            {creating ? 'Starting...' : 'Start SIP'}
+          </Button>
+        </div>
+
+        <div className="space-y-3">
+          {loading ? (
+            <div className="flex justify-center py-4">
+              <LoadingSpinner text="Loading SIPs..." />
+            </div>
+          ) : sips.length === 0 ? (
+            <p className="text-center text-sm text-muted-foreground py-4">No SIPs yet</p>
+          ) : (
+            sips.map(sip => (
+              <div key={sip._id} className="p-3 rounded-lg glassmorphism space-y-2">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium text-sm sm:text-base">
+                      ₹{sip.amountINR.toLocaleString()} · {sip.frequency.toLowerCase()}
+                      {sip.paymentMethod === 'WALLET' ? ' · from wallet' : ''}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {sip.status === 'ACTIVE'
+                        ? `Next purchase ${formatDate(sip.nextRunAt)}`
+                        : `Started ${formatDate(sip.startDate)}`}
+                      {` · ${sip.runCount} purchase${sip.runCount === 1 ? '' : 's'}`}
+                    </p>
+                    {sip.lastError && sip.status !== 'CANCELLED' && (
+                      <p className="text-xs text-red-400">Last run failed: {sip.lastError}</p>
+                    )}
+                  </div>
+                  <Badge variant={sip.status === 'CANCELLED' ? 'destructive' : sip.status === 'ACTIVE' ? 'default' : 'secondary'}>
+                    {sip.status.toLowerCase()}
+                  </Badge>
+                </div>
+                {sip.status !== 'CANCELLED' && (
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="flex-1 glassmorphism bg-transparent"
+                      disabled={updatingId === sip._id}
+                      onClick={() => handleAction(sip, sip.status === 'ACTIVE' ? 'pause' : 'resume')}
+                    >
+                      {sip.status === 'ACTIVE' ? 'Pause' : 'Resume'}
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      className="flex-1"
+                      disabled={updatingId === sip._id}
+                      onClick={() => handleAction(sip, 'cancel')}
+                    >
+                      Cancel
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+export default SipManager
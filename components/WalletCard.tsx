@@ -0,0 +1,281 @@
+"use client"
+
+import React, { useEffect, useState } from 'react'
+import axios from 'axios'
+import { Wallet } from 'lucide-react'
+import { api, createIdempotencyKey, useAuth } from '@/contexts/AuthContext'
+import { useToast } from '@/hooks/use-toast'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+
+interface WalletBalance {
+  balance: number
+  pendingPayouts: number
+}
+
+interface WalletEntry {
+  id: string
+  event: string
+  direction: 'DEBIT' | 'CREDIT'
+  amount: number
+  createdAt: string
+}
+
+interface WalletCardProps {
+  wallet?: WalletBalance
+  onWalletChange?: () => void
+}
+
+const EVENT_LABELS: Record<string, string> = {
+  WALLET_TOPUP: 'Money added',
+  BUY_SETTLED: 'Gold purchase',
+  BUY_REFUNDED: 'Purchase refund',
+  SELL_SETTLED: 'Gold sale',
+  WALLET_WITHDRAWAL_REQUESTED: 'Withdrawal',
+  WALLET_WITHDRAWAL_REVERSED: 'Withdrawal returned'
+}
+
+export function WalletCard({ wallet, onWalletChange }: WalletCardProps) {
+  const { user } = useAuth()
+  const { toast } = useToast()
+  const [entries, setEntries] = useState<WalletEntry[]>([])
+  const [topupAmount, setTopupAmount] = useState('')
+  const [withdrawAmount, setWithdrawAmount] = useState('')
+  const [upiId, setUpiId] = useState('')
+  const [mode, setMode] = useState<'topup' | 'withdraw'>('topup')
+  const [submitting, setSubmitting] = useState(false)
+
+  const fetchEntries = async () => {
+    try {
+      const response = await api.get('/wallet/transactions?limit=5')
+      setEntries(response.data.transactions)
+    } catch (fetchError) {
+      console.error('Failed to fetch wallet transactions:', fetchError)
+    }
+  }
+
+  useEffect(() => {
+    fetchEntries()
+  }, [wallet?.balance])
+
+  const refresh = () => {
+    onWalletChange?.()
+    fetchEntries()
+  }
+
+  const openCheckout = (topupId: string, razorpayOrder: any) => {
+    if (typeof window === 'undefined' || !(window as any).Razorpay) {
+      toast({
+        title: "Payment Gateway Error",
+        description: "Razorpay is not loaded. Please refresh and try again.",
+        variant: "destructive"
+      })
+      return
+    }
+
+    const rzp = new (window as any).Razorpay({
+      key: process.env.NEXT_PUBLIC_RAZORPAY_KEY_ID,
+      amount: razorpayOrder.amount,
+      currency: razorpayOrder.currency,
+      name: 'AuroraGold',
+      description: 'Add money to wallet',
+      order_id: razorpayOrder.id,
+      handler: async (response: any) => {
+        try {
+          const verifyResponse = await api.post(`/wallet/topup/${topupId}/verify`, {
+            razorpay_order_id: response.razorpay_order_id,
+            razorpay_payment_id: response.razorpay_payment_id,
+            razorpay_signature: response.razorpay_signature
+          }, { idempotencyKey: createIdempotencyKey() })
+          toast({ title: "Money Added", description: verifyResponse.data.message })
+          refresh()
+        } catch (verifyError) {
+          console.error('Top-up verification failed:', verifyError)
+          toast({
+            title: "Verification Failed",
+            description: "Payment completed but verification failed. Contact support.",
+            variant: "destructive"
+          })
+        }
+      },
+      prefill: {
+        name: user?.name,
+        email: user?.email
+      },
+      theme: {
+        color: '#D4AF37'
+      }
+    })
+    rzp.open()
+  }
+
+  const handleTopup = async () => {
+    if (!topupAmount || isNaN(Number(topupAmount)) || Number(topupAmount) < 100) {
+      toast({
+        title: "Invalid Amount",
+        description: "Minimum top-up is ₹100.",
+        variant: "destructive"
+      })
+      return
+    }
+
+    try {
+      setSubmitting(true)
+      const response = await api.post('/wallet/topup', { amount: Number(topupAmount), paymentMethod: 'UPI' }, {
+        idempotencyKey: createIdempotencyKey()
+      })
+
+      if (response.data.razorpayOrder) {
+        openCheckout(response.data.topup.id, response.data.razorpayOrder)
+      } else {
+        toast({
+          title: response.status === 202 ? "Payment Pending" : "Money Added",
+          description: response.data.message
+        })
+        refresh()
+      }
+      setTopupAmount('')
+    } catch (error) {
+      toast({
+        title: "Top-up Failed",
+        description: (axios.isAxiosError(error) && error.response?.data?.error) || "Failed to add money. Please try again.",
+        variant: "destructive"
+      })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleWithdraw = async () => {
+    if (!withdrawAmount || isNaN(Number(withdrawAmount)) || Number(withdrawAmount) < 100) {
+      toast({
+        title: "Invalid Amount",
+        description: "Minimum withdrawal is ₹100.",
+        variant: "destructive"
+      })
+      return
+    }
+
+    try {
+      setSubmitting(true)
+      const response = await api.post('/wallet/withdrawals', { amount: Number(withdrawAmount), upiId }, {
+        idempotencyKey: createIdempotencyKey()
+      })
+      toast({ title: "Withdrawal Requested", description: response.data.message })
+      setWithdrawAmount('')
+      refresh()
+    } catch (error) {
+      toast({
+        title: "Withdrawal Failed",
+        description: (axios.isAxiosError(error) && error.response?.data?.error) || "Failed to request withdrawal. Please try again.",
+        variant: "destructive"
+      })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <Card className="neumorphism border-border/20 mx-2 sm:mx-0">
+      <CardHeader className="px-4 sm:px-6">
+        <CardTitle className="flex items-center gap-2 text-lg sm:text-xl">
+          <Wallet className="w-4 h-4 sm:w-5 sm:h-5 text-primary" />
+          Wallet
+        </CardTitle>
+        <CardDescription className="text-sm">
+          {wallet?.pendingPayouts
+            ? `₹${wallet.pendingPayouts.toLocaleString()} on its way to your bank`
+            : 'Add money to buy gold instantly'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4 px-4 sm:px-6">
+        <div className="text-2xl sm:text-3xl font-bold text-primary">
+          ₹{(wallet?.balance ?? 0).toLocaleString()}
+        </div>
+
+        <div className="flex gap-2">
+          <Button
+            variant={mode === 'topup' ? 'default' : 'outline'}
+            size="sm"
+            className={mode === 'topup' ? 'flex-1 glow-gold' : 'flex-1 glassmorphism bg-transparent'}
+            onClick={() => setMode('topup')}
+          >
+            Add Money
+          </Button>
+          <Button
+            variant={mode === 'withdraw' ? 'default' : 'outline'}
+            size="sm"
+            className={mode === 'withdraw' ? 'flex-1 glow-gold' : 'flex-1 glassmorphism bg-transparent'}
+            onClick={() => setMode('withdraw')}
+          >
+            Withdraw
+          </Button>
+        </div>
+
+        {mode === 'topup' ? (
+          <div className="flex space-x-2">
+            <Input
+              placeholder="Amount (₹)"
+              value={topupAmount}
+              onChange={(e) => setTopupAmount(e.target.value)}
+              className="glassmorphism border-border/20"
+            />
+            <Button className="glow-gold" onClick={handleTopup} disabled={submitting || !topupAmount}>
+              {submitting ? 'Adding...' : 'Add'}
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <Input
+              placeholder="UPI ID (e.g. name@bank)"
+              value={upiId}
+              onChange={(e) => setUpiId(e.target.value)}
+              className="glassmorphism border-border/20"
+            />
+            <div className="flex space-x-2">
+              <Input
+                placeholder="Amount (₹)"
+                value={withdrawAmount}
+                onChange={(e) => setWithdrawAmount(e.target.value)}
+                className="glassmorphism border-border/20"
+              />
+              <Button
+                variant="outline"
+                className="glassmorphism bg-transparent"
+                onClick={() => setWithdrawAmount(String(wallet?.balance ?? 0))}
+              >
+                Max
+              </Button>
+            </div>
+            <Button
+              className="w-full glow-gold"
+              onClick={handleWithdraw}
+              disabled={submitting || !withdrawAmount || !upiId}
+            >
+              {submitting ? 'Requesting...' : 'Withdraw'}
+            </Button>
+          </div>
+        )}
+
+        {entries.length > 0 && (
+          <div className="space-y-2">
+            {entries.map(entry => (
+              <div key={entry.id} className="flex items-center justify-between text-sm p-2 rounded-lg glassmorphism">
+                <div>
+                  <p className="font-medium">{EVENT_LABELS[entry.event] || entry.event}</p>
+                  <p className="text-xs text-muted-foreground">{new Date(entry.createdAt).toLocaleDateString()}</p>
+                </div>
+                <span className={entry.direction === 'CREDIT' ? 'text-green-400' : 'text-red-400'}>
+                  {entry.direction === 'CREDIT' ? '+' : '-'}₹{entry.amount.toLocaleString()}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default WalletCard
@@ -32,7 +32,7 @@ interface AuthContextType {
 const AuthContext = createContext<AuthContextType | undefined>(undefined)
 
 // Configure axios base URL
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || 
+export const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || 
   (process.env.NODE_ENV === 'production' 
     ? 'https://aurora-backend-sd5l.onrender.com/api' 
 
@@ -216,10 +216,22 @@ export function useAuth() {
   return context
 }
 
+// One key per user submit, for routes behind the server's idempotency
+// middleware: a retried request with the same key gets the first response
+export function createIdempotencyKey() {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID()
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`
+}
+
 // Utility function for API calls
 export const api = {
   get: (url: string) => axios.get(url),
-  post: (url: string, data?: any) => axios.post(url, data),
+  download: (url: string) => axios.get<Blob>(url, { responseType: 'blob' }),
+  post: (url: string, data?: any, options?: { idempotencyKey?: string }) => axios.post(url, data,
+    options?.idempotencyKey ? { headers: { 'Idempotency-Key': options.idempotencyKey } } : undefined
+  ),
   put: (url: string, data?: any) => axios.put(url, data),
   delete: (url: string) => axios.delete(url)
 }
@@ -0,0 +1,124 @@
+"use client"
+
+import * as React from "react"
+import { api, API_BASE_URL } from "@/contexts/AuthContext"
+
+export interface GoldPrice {
+  price: number
+  sellPrice?: number
+  change: {
+    change: number
+    changePercent: number
+    trend: 'up' | 'down'
+  }
+  timestamp: string
+}
+
+type ConnectionMode = 'connecting' | 'live' | 'polling'
+
+const POLL_INTERVAL = 30000 // polling fallback, every 30 seconds
+const MAX_STREAM_ERRORS = 3 // consecutive stream errors before falling back to polling
+const STREAM_RETRY_DELAY = 2 * 60 * 1000 // try the stream again after 2 minutes of polling
+
+// Transform the API payload to the frontend shape
+function toGoldPrice(data: any): GoldPrice {
+  return {
+    price: data.current.price,
+    sellPrice: data.current.sellPrice,
+    change: {
+      change: data.change.change,
+      changePercent: data.change.changePercent,
+      trend: data.change.trend as 'up' | 'down'
+    },
+    timestamp: data.current.timestamp
+  }
+}
+
+// Live gold price from the SSE stream, falling back to polling /gold/price
+export function useGoldPrice() {
+  const [goldPrice, setGoldPrice] = React.useState<GoldPrice | null>(null)
+  const [error, setError] = React.useState<string | null>(null)
+  const [mode, setMode] = React.useState<ConnectionMode>('connecting')
+
+  const fetchGoldPrice = React.useCallback(async () => {
+    try {
+      const response = await api.get('/gold/price')
+      setGoldPrice(toGoldPrice(response.data))
+      setError(null)
+    } catch (fetchError) {
+      console.error('Failed to fetch gold price:', fetchError)
+      setError('Unable to fetch current gold price. Please check your connection.')
+    }
+  }, [])
+
+  React.useEffect(() => {
+    let source: EventSource | null = null
+    let pollTimer: ReturnType<typeof setInterval> | null = null
+    let retryTimer: ReturnType<typeof setTimeout> | null = null
+    let streamErrors = 0
+    let disposed = false
+
+    const startPolling = () => {
+      setMode('polling')
+      fetchGoldPrice()
+      pollTimer = setInterval(fetchGoldPrice, POLL_INTERVAL)
+      retryTimer = setTimeout(() => {
+        if (pollTimer) clearInterval(pollTimer)
+        pollTimer = null
+        connect()
+      }, STREAM_RETRY_DELAY)
+    }
+
+    const connect = () => {
+      if (disposed) return
+
+      if (typeof window === 'undefined' || typeof EventSource === 'undefined') {
+        startPolling()
+        return
+      }
+
+      setMode('connecting')
+      // EventSource resends Last-Event-ID itself when it reconnects
+      source = new EventSource(`${API_BASE_URL}/gold/price/stream`)
+
+      source.onopen = () => {
+        streamErrors = 0
+        setMode('live')
+      }
+
+      source.addEventListener('price', (event) => {
+        try {
+          setGoldPrice(toGoldPrice(JSON.parse((event as MessageEvent).data)))
+          setError(null)
+        } catch (parseError) {
+          console.error('Invalid gold price event:', parseError)
+        }
+      })
+
+      source.onerror = () => {
+        streamErrors += 1
+        if (source?.readyState === EventSource.CLOSED || streamErrors >= MAX_STREAM_ERRORS) {
+          source?.close()
+          source = null
+          startPolling()
+        }
+      }
+    }
+
+    connect()
+
+    return () => {
+      disposed = true
+      source?.close()
+      if (pollTimer) clearInterval(pollTimer)
+      if (retryTimer) clearTimeout(retryTimer)
+    }
+  }, [fetchGoldPrice])
+
+  return {
+    goldPrice,
+    error,
+    mode,
+    refresh: fetchGoldPrice
+  }
+}
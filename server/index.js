@@ -14,6 +14,16 @@ const authRoutes = require('./routes/auth')
 const chatRoutes = require('./routes/chat')
 const goldRoutes = require('./routes/gold')
 const userRoutes = require('./routes/user')
+const adminRoutes = require('./routes/admin')
+const paymentRoutes = require('./routes/payments')
+const sipRoutes = require('./routes/sip')
+const limitOrderRoutes = require('./routes/limitOrders')
+const walletRoutes = require('./routes/wallet')
+const redemptionRoutes = require('./routes/redemptions')
+const orderReconciler = require('./services/reconciler')
+const sipScheduler = require('./services/sipScheduler')
+const limitOrderWatcher = require('./services/limitOrderWatcher')
+const giftService = require('./services/gifts')
 
 const app = express()
 
@@ -51,6 +61,9 @@ const createRateLimit = ({ max, windowMs }) => {
   })
 }
 
+// Payment gateway webhooks need the raw body and are not rate limited
+app.use('/api/payments', paymentRoutes)
+
 // Update rate limiting middleware to use the new configuration
 app.use('/api/auth', createRateLimit({ max: 10, windowMs: 15 * 60 * 1000 }))
 app.use('/api/chat', createRateLimit({ max: 50, windowMs: 15 * 60 * 1000 }))
@@ -79,11 +92,36 @@ const connectDB = async () => {
 
 connectDB()
 
+// Re-check stuck orders in the background
+if (process.env.RECONCILER_ENABLED !== 'false') {
+  orderReconciler.start()
+}
+
+// Place the orders of due SIPs
+if (process.env.SIP_SCHEDULER_ENABLED !== 'false') {
+  sipScheduler.start()
+}
+
+// Fire limit orders when the gold price reaches their target
+if (process.env.LIMIT_ORDER_WATCHER_ENABLED !== 'false') {
+  limitOrderWatcher.start()
+}
+
+// Return unclaimed gifts to their senders
+if (process.env.GIFT_EXPIRY_ENABLED !== 'false') {
+  giftService.start()
+}
+
 // Routes
 app.use('/api/auth', authRoutes)
 app.use('/api/chat', chatRoutes)
+app.use('/api/gold/limit-orders', limitOrderRoutes)
 app.use('/api/gold', goldRoutes)
 app.use('/api/user', userRoutes)
+app.use('/api/admin', adminRoutes)
+app.use('/api/sips', sipRoutes)
+app.use('/api/wallet', walletRoutes)
+app.use('/api/redemptions', redemptionRoutes)
 
 // Health check
 app.get('/api/health', (req, res) => {
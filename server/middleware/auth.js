@@ -45,7 +45,16 @@ const optionalAuth = async (req, res, next) => {
   }
 }
 
+// Must run after authenticateToken
+const requireAdmin = (req, res, next) => {
+  if (req.user?.role !== 'ADMIN') {
+    return res.status(403).json({ error: 'Admin access required' })
+  }
+  next()
+}
+
 module.exports = {
   authenticateToken,
-  optionalAuth
+  optionalAuth,
+  requireAdmin
 }
\ No newline at end of file
@@ -21,6 +21,32 @@ const errorHandler = (err, req, res, next) => {
   })
 }
 
+// Validate req.body, req.query and req.params against a zod schema shaped
+// { body?, query?, params? }; parsed values (with defaults) replace the originals
+const validateRequest = (schema) => (req, res, next) => {
+  const result = schema.safeParse({ body: req.body, query: req.query, params: req.params })
+
+  if (!result.success) {
+    return res.status(400).json({
+      error: 'Validation Error',
+      details: result.error.errors.map(e => ({
+        path: e.path.join('.'),
+        message: e.message
+      }))
+    })
+  }
+
+  for (const key of ['body', 'query', 'params']) {
+    if (result.data[key] !== undefined) req[key] = result.data[key]
+  }
+  next()
+}
+
+// Pass rejections from async route handlers to the error handler
+const asyncHandler = (handler) => (req, res, next) => {
+  Promise.resolve(handler(req, res, next)).catch(next)
+}
+
 const sanitizeInput = (req, res, next) => {
   // Basic input sanitization
   Object.keys(req.body).forEach(key => {
@@ -53,6 +79,8 @@ const securityHeaders = (req, res, next) => {
 
 module.exports = {
   errorHandler,
+  validateRequest,
+  asyncHandler,
   sanitizeInput,
   createRateLimit,
   securityHeaders
@@ -0,0 +1,111 @@
+const crypto = require('crypto')
+const IdempotencyKey = require('../models/IdempotencyKey')
+
+const KEY_TTL_MS = (parseInt(process.env.IDEMPOTENCY_KEY_TTL_HOURS) || 24) * 60 * 60 * 1000
+const LOCK_TIMEOUT_MS = 2 * 60 * 1000 // an unfinished request older than this is treated as abandoned
+const MAX_KEY_LENGTH = 255
+
+const hashRequest = (req) => crypto
+  .createHash('sha256')
+  .update(`${req.method}|${req.originalUrl}|${JSON.stringify(req.body || {})}`)
+  .digest('hex')
+
+// Replays the stored response for a repeated Idempotency-Key.
+// Must run after authenticateToken; requests without the header pass through.
+const idempotency = async (req, res, next) => {
+  const key = req.get('Idempotency-Key')
+
+  if (!key) {
+    return next()
+  }
+
+  if (key.length > MAX_KEY_LENGTH) {
+    return res.status(400).json({ error: `Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters` })
+  }
+
+  const userId = req.user._id
+  const requestHash = hashRequest(req)
+
+  try {
+    let record
+
+    try {
+      record = await IdempotencyKey.create({
+        key,
+        userId,
+        method: req.method,
+        path: req.originalUrl,
+        requestHash,
+        expiresAt: new Date(Date.now() + KEY_TTL_MS)
+      })
+    } catch (error) {
+      if (error.code !== 11000) throw error
+
+      const existing = await IdempotencyKey.findOne({ userId, key })
+
+      if (!existing) {
+        return res.status(409).json({ error: 'Request with this Idempotency-Key is being retried. Please try again.' })
+      }
+
+      if (existing.requestHash !== requestHash) {
+        return res.status(422).json({
+          error: 'Idempotency-Key was already used for a different request',
+          code: 'IDEMPOTENCY_KEY_REUSED'
+        })
+      }
+
+      if (existing.status === 'COMPLETED') {
+        res.set('Idempotent-Replayed', 'true')
+        return res.status(existing.responseStatus).json(existing.responseBody)
+      }
+
+      // Take over a request that never finished, otherwise ask the client to wait
+      record = await IdempotencyKey.findOneAndUpdate(
+        { _id: existing._id, status: 'IN_PROGRESS', updatedAt: { $lt: new Date(Date.now() - LOCK_TIMEOUT_MS) } },
+        { $set: { updatedAt: new Date() } },
+        { new: true, timestamps: false }
+      )
+
+      if (!record) {
+        return res.status(409).json({
+          error: 'A request with this Idempotency-Key is still being processed',
+          code: 'IDEMPOTENCY_KEY_IN_PROGRESS'
+        })
+      }
+    }
+
+    // Store the response before sending it; server errors release the key for a retry
+    const sendJson = res.json.bind(res)
+    res.json = (body) => {
+      const statusCode = res.statusCode
+      const store = statusCode >= 500
+        ? IdempotencyKey.deleteOne({ _id: record._id })
+        : IdempotencyKey.updateOne(
+          { _id: record._id },
+          {
+            $set: {
+              status: 'COMPLETED',
+              responseStatus: statusCode,
+              responseBody: body,
+              completedAt: new Date()
+            }
+          }
+        )
+
+      store
+        .catch(error => console.error('Idempotency key store error:', error))
+        .then(() => sendJson(body))
+
+      return res
+    }
+
+    next()
+  } catch (error) {
+    console.error('Idempotency check error:', error)
+    res.status(500).json({ error: 'Failed to process Idempotency-Key' })
+  }
+}
+
+module.exports = {
+  idempotency
+}
@@ -0,0 +1,27 @@
+const mongoose = require('mongoose')
+
+// Named sequence, such as the invoice numbers for one financial year
+const counterSchema = new mongoose.Schema({
+  _id: {
+    type: String,
+    required: true
+  },
+  seq: {
+    type: Number,
+    default: 0
+  }
+}, {
+  timestamps: true
+})
+
+// Next value of the named sequence, starting at 1
+counterSchema.statics.next = async function(name, { session } = {}) {
+  const counter = await this.findOneAndUpdate(
+    { _id: name },
+    { $inc: { seq: 1 } },
+    { new: true, upsert: true, session }
+  )
+  return counter.seq
+}
+
+module.exports = mongoose.model('Counter', counterSchema)
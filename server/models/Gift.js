@@ -0,0 +1,74 @@
+const mongoose = require('mongoose')
+
+// Grams sent from one user to an email address. The grams are held in escrow
+// until the recipient claims them; unclaimed gifts return to the sender at expiresAt.
+const giftSchema = new mongoose.Schema({
+  senderId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  recipientEmail: {
+    type: String,
+    required: true,
+    lowercase: true,
+    trim: true,
+    index: true
+  },
+  // Set once the recipient has claimed the gift
+  recipientId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    index: true
+  },
+  grams: {
+    type: Number,
+    required: true,
+    min: 0.01
+  },
+  pricePerGram: {
+    type: Number,
+    required: true
+  },
+  // Sender's cost basis of the gifted grams; it moves with them
+  costBasis: {
+    type: Number,
+    default: 0
+  },
+  // SHA-256 of the code a recipient who was not registered must give to claim
+  claimCodeHash: {
+    type: String,
+    select: false
+  },
+  message: {
+    type: String,
+    maxlength: 280,
+    trim: true
+  },
+  status: {
+    type: String,
+    enum: ['PENDING_CLAIM', 'CLAIMED', 'EXPIRED', 'CANCELLED'],
+    default: 'PENDING_CLAIM'
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  senderOrderId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Order'
+  },
+  recipientOrderId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Order'
+  },
+  claimedAt: Date,
+  returnedAt: Date
+}, {
+  timestamps: true
+})
+
+giftSchema.index({ status: 1, expiresAt: 1 })
+
+module.exports = mongoose.model('Gift', giftSchema)
@@ -0,0 +1,78 @@
+const mongoose = require('mongoose')
+
+// Grams acquired in one go, e.g. a completed purchase or a received gift.
+// Sales, gifts sent and redemptions take grams from the oldest open lots first.
+const holdingLotSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  // Order the grams arrived with; opening lots carry holdings from before lots existed
+  orderId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Order'
+  },
+  source: {
+    type: String,
+    enum: ['PURCHASE', 'GIFT', 'RETURN', 'OPENING'],
+    required: true
+  },
+  grams: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  remainingGrams: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  // Cost basis per gram, excluding fees and taxes, as in the ledger
+  pricePerGram: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  acquiredAt: {
+    type: Date,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['OPEN', 'CLOSED'],
+    default: 'OPEN'
+  },
+  // Grams taken from the lot and the order that took them
+  consumptions: [{
+    _id: false,
+    orderId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Order'
+    },
+    type: {
+      type: String,
+      enum: ['SELL', 'GIFT_SENT', 'REDEEM', 'REFUND']
+    },
+    grams: Number,
+    costBasis: Number,
+    at: {
+      type: Date,
+      default: Date.now
+    }
+  }],
+  closedAt: Date
+}, {
+  timestamps: true
+})
+
+holdingLotSchema.index({ userId: 1, status: 1, acquiredAt: 1 })
+holdingLotSchema.index({ 'consumptions.orderId': 1 })
+
+// An order opens at most one lot
+holdingLotSchema.index(
+  { orderId: 1 },
+  { unique: true, partialFilterExpression: { orderId: { $type: 'objectId' } } }
+)
+
+module.exports = mongoose.model('HoldingLot', holdingLotSchema)
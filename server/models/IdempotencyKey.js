@@ -0,0 +1,48 @@
+const mongoose = require('mongoose')
+
+// Stored response for a request sent with an Idempotency-Key header
+const idempotencyKeySchema = new mongoose.Schema({
+  key: {
+    type: String,
+    required: true
+  },
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  method: {
+    type: String,
+    required: true
+  },
+  path: {
+    type: String,
+    required: true
+  },
+  requestHash: {
+    type: String,
+    required: true // fingerprint of method, path and body
+  },
+  status: {
+    type: String,
+    enum: ['IN_PROGRESS', 'COMPLETED'],
+    default: 'IN_PROGRESS'
+  },
+  responseStatus: Number,
+  responseBody: mongoose.Schema.Types.Mixed,
+  completedAt: Date,
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  timestamps: true
+})
+
+// Keys are scoped to the user who sent them
+idempotencyKeySchema.index({ userId: 1, key: 1 }, { unique: true })
+
+// Expired keys are removed by MongoDB
+idempotencyKeySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 })
+
+module.exports = mongoose.model('IdempotencyKey', idempotencyKeySchema)
@@ -0,0 +1,145 @@
+const mongoose = require('mongoose')
+
+// Append-only double-entry ledger. Every posting is a group of entries sharing a
+// transactionId whose debits and credits balance per asset.
+// Account balances are credits minus debits.
+const ledgerEntrySchema = new mongoose.Schema({
+  transactionId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  event: {
+    type: String,
+    enum: [
+      'OPENING_BALANCE',
+      'BUY_SETTLED',
+      'BUY_REFUNDED',
+      'SELL_SETTLED',
+      'PAYOUT_PAID',
+      'WALLET_TOPUP',
+      'WALLET_WITHDRAWAL_REQUESTED',
+      'WALLET_WITHDRAWAL_PAID',
+      'WALLET_WITHDRAWAL_REVERSED',
+      'GIFT_SENT',
+      'GIFT_CLAIMED',
+      'GIFT_RETURNED',
+      'REDEMPTION_PLACED',
+      'REDEMPTION_DELIVERED',
+      'REDEMPTION_CANCELLED'
+    ],
+    required: true
+  },
+  orderId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Order',
+    default: null,
+    index: true
+  },
+  walletTransactionId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'WalletTransaction',
+    default: null,
+    index: true
+  },
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null, // null for platform accounts
+    index: true
+  },
+  account: {
+    type: String,
+    enum: [
+      'USER_GOLD', // grams held for the user
+      'USER_COST_BASIS', // INR invested in the grams still held
+      'USER_PAYOUT', // INR owed to the user from withdrawals
+      'USER_WALLET', // INR the user can spend or withdraw
+      'PLATFORM_VAULT', // physical gold backing user holdings
+      'PLATFORM_GIFT_ESCROW', // gifted grams and their cost basis awaiting a claim
+      'PLATFORM_REDEMPTION', // grams locked for physical delivery and their cost basis
+      'PLATFORM_FEES', // fee revenue
+      'PLATFORM_TAX', // GST collected on purchases, owed to the tax authority
+      'PLATFORM_TRADING', // platform side of buys and sells
+      'PAYMENT_GATEWAY' // money in and out through the gateway
+    ],
+    required: true
+  },
+  asset: {
+    type: String,
+    enum: ['GOLD', 'INR'],
+    required: true
+  },
+  direction: {
+    type: String,
+    enum: ['DEBIT', 'CREDIT'],
+    required: true
+  },
+  amount: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  memo: String
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+})
+
+ledgerEntrySchema.index({ userId: 1, account: 1 })
+
+// An order's settlement can only ever be posted once
+ledgerEntrySchema.index(
+  { orderId: 1, event: 1, account: 1, asset: 1, direction: 1 },
+  { unique: true, partialFilterExpression: { orderId: { $type: 'objectId' } } }
+)
+
+// Likewise for a wallet top-up or withdrawal
+ledgerEntrySchema.index(
+  { walletTransactionId: 1, event: 1, account: 1, asset: 1, direction: 1 },
+  { unique: true, partialFilterExpression: { walletTransactionId: { $type: 'objectId' } } }
+)
+
+// Entries can be inserted but never changed or removed
+const rejectMutation = function(next) {
+  next(new Error('Ledger entries are append-only'))
+}
+
+ledgerEntrySchema.pre('save', function(next) {
+  if (!this.isNew) return rejectMutation(next)
+  next()
+})
+
+;['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'deleteOne', 'deleteMany', 'findOneAndDelete']
+  .forEach(operation => ledgerEntrySchema.pre(operation, rejectMutation))
+
+// Static method to get balances of a user's accounts
+ledgerEntrySchema.statics.getUserBalances = function(userId, session = null) {
+  return this.aggregate([
+    { $match: { userId: new mongoose.Types.ObjectId(userId) } },
+    {
+      $group: {
+        _id: '$account',
+        balance: {
+          $sum: { $cond: [{ $eq: ['$direction', 'CREDIT'] }, '$amount', { $multiply: ['$amount', -1] }] }
+        }
+      }
+    }
+  ]).session(session)
+}
+
+// Static method to get balances of every user's accounts
+ledgerEntrySchema.statics.getAllUserBalances = function() {
+  return this.aggregate([
+    { $match: { userId: { $ne: null } } },
+    {
+      $group: {
+        _id: { userId: '$userId', account: '$account' },
+        balance: {
+          $sum: { $cond: [{ $eq: ['$direction', 'CREDIT'] }, '$amount', { $multiply: ['$amount', -1] }] }
+        }
+      }
+    }
+  ])
+}
+
+module.exports = mongoose.model('LedgerEntry', ledgerEntrySchema)
@@ -0,0 +1,54 @@
+const mongoose = require('mongoose')
+
+// Standing instruction to buy a fixed INR amount once the gold price drops to
+// targetPrice or below, valid until expiresAt
+const limitOrderSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  amountINR: {
+    type: Number,
+    required: true,
+    min: 100,
+    max: 1000000
+  },
+  targetPrice: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['OPEN', 'TRIGGERED', 'CANCELLED', 'EXPIRED', 'FAILED'],
+    default: 'OPEN'
+  },
+  paymentMethod: {
+    type: String,
+    enum: ['UPI', 'CARD', 'NET_BANKING', 'WALLET'],
+    default: 'UPI'
+  },
+  // Buy order placed when the target was reached
+  orderId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Order'
+  },
+  triggeredAt: Date,
+  triggerPrice: Number,
+  cancelledAt: Date,
+  failureReason: String
+}, {
+  timestamps: true
+})
+
+// The price watcher looks for open orders whose target is at or above the price
+limitOrderSchema.index({ status: 1, targetPrice: -1 })
+limitOrderSchema.index({ status: 1, expiresAt: 1 })
+
+module.exports = mongoose.model('LimitOrder', limitOrderSchema)
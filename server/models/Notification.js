@@ -0,0 +1,51 @@
+const mongoose = require('mongoose')
+
+// In-app message to a user about something that happened to their account
+const notificationSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  type: {
+    type: String,
+    enum: [
+      'LIMIT_ORDER_TRIGGERED',
+      'LIMIT_ORDER_FILLED',
+      'LIMIT_ORDER_PAYMENT_REQUIRED',
+      'LIMIT_ORDER_FAILED',
+      'LIMIT_ORDER_EXPIRED',
+      'SIP_PAYMENT_REQUIRED',
+      'SIP_PAYMENT_FAILED',
+      'SIP_PAUSED',
+      'GIFT_RECEIVED',
+      'GIFT_CLAIMED',
+      'GIFT_RETURNED',
+      'REDEMPTION_PACKED',
+      'REDEMPTION_SHIPPED',
+      'REDEMPTION_DELIVERED',
+      'REDEMPTION_CANCELLED'
+    ],
+    required: true
+  },
+  title: {
+    type: String,
+    required: true
+  },
+  message: {
+    type: String,
+    required: true
+  },
+  orderId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Order'
+  },
+  data: mongoose.Schema.Types.Mixed,
+  readAt: Date
+}, {
+  timestamps: true
+})
+
+notificationSchema.index({ userId: 1, createdAt: -1 })
+
+module.exports = mongoose.model('Notification', notificationSchema)
@@ -1,4 +1,5 @@
 const mongoose = require('mongoose')
+const feeService = require('../services/fees')
 
 const orderSchema = new mongoose.Schema({
   userId: {
@@ -6,6 +7,35 @@ const orderSchema = new mongoose.Schema({
     ref: 'User',
     required: true
   },
+  // Set on orders placed by a systematic investment plan
+  sipId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Sip',
+    index: true
+  },
+  // Set on orders placed when a limit order's target price was reached
+  limitOrderId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'LimitOrder',
+    index: true
+  },
+  type: {
+    type: String,
+    enum: ['BUY', 'SELL', 'GIFT_SENT', 'GIFT_RECEIVED', 'REDEEM'],
+    default: 'BUY'
+  },
+  // Set on both sides of a gift
+  giftId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Gift',
+    index: true
+  },
+  // Set on orders delivering grams as physical coins
+  redemptionId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Redemption',
+    index: true
+  },
   amountINR: {
     type: Number,
     required: true,
@@ -30,13 +60,43 @@ const orderSchema = new mongoose.Schema({
     type: Number,
     required: true
   },
+  // Itemized charges making up transactionFee, from the fee service
+  feeBreakdown: {
+    platformFee: Number,
+    gst: Number,
+    paymentSurcharge: Number,
+    paymentMethod: String,
+    items: [{
+      _id: false,
+      code: String,
+      label: String,
+      percent: Number,
+      amount: Number
+    }]
+  },
   status: {
     type: String,
-    enum: ['PENDING', 'PROCESSING', 'COMPLETED', 'FAILED', 'CANCELLED'],
+    enum: ['PENDING', 'PROCESSING', 'COMPLETED', 'FAILED', 'CANCELLED', 'REFUND_PENDING', 'REFUNDED'],
     default: 'PENDING'
   },
+  // Buy orders are paid through the payment gateway or from the INR wallet
+  fundingSource: {
+    type: String,
+    enum: ['GATEWAY', 'WALLET'],
+    default: 'GATEWAY'
+  },
   paymentDetails: {
     paymentId: String,
+    gateway: String,
+    gatewayOrderId: {
+      type: String,
+      index: true
+    },
+    razorpayOrderId: {
+      type: String,
+      index: true
+    },
+    razorpaySignature: String,
     paymentMethod: {
       type: String,
       enum: ['UPI', 'CARD', 'NET_BANKING', 'WALLET'],
@@ -44,12 +104,64 @@ const orderSchema = new mongoose.Schema({
     },
     gatewayResponse: mongoose.Schema.Types.Mixed
   },
+  cancellation: {
+    reason: String,
+    cancelledBy: {
+      type: String,
+      enum: ['USER', 'SYSTEM', 'ADMIN']
+    },
+    cancelledAt: Date
+  },
+  completedAt: Date,
+  // Last time the reconciler checked this order against the gateway
+  lastReconciledAt: {
+    type: Date,
+    index: true
+  },
+  // Tax invoice for a completed buy, numbered per financial year
+  invoice: {
+    number: {
+      type: String,
+      unique: true,
+      sparse: true
+    },
+    issuedAt: Date
+  },
+  refund: {
+    refundId: String,
+    amount: Number,
+    reason: String,
+    requestedBy: {
+      type: String,
+      enum: ['ADMIN', 'GATEWAY']
+    },
+    requestedAt: Date, // grams reversed, waiting for the gateway
+    processedAt: Date, // money returned
+    failureReason: String
+  },
+  payout: {
+    status: {
+      type: String,
+      enum: ['PENDING', 'PROCESSING', 'PAID', 'FAILED']
+    },
+    // Sales are credited to the wallet; older ones were paid out to the bank
+    method: {
+      type: String,
+      enum: ['BANK', 'WALLET']
+    },
+    reference: String,
+    failureReason: String,
+    paidAt: Date,
+    updatedAt: Date
+  },
   goldRateSnapshot: {
     timestamp: {
       type: Date,
       default: Date.now
     },
     source: String,
+    provider: String,
+    quoteId: String,
     rate: Number
   },
   metadata: {
@@ -57,7 +169,7 @@ const orderSchema = new mongoose.Schema({
     ipAddress: String,
     source: {
       type: String,
-      enum: ['WEB', 'MOBILE', 'API'],
+      enum: ['WEB', 'MOBILE', 'API', 'SIP', 'LIMIT_ORDER'],
       default: 'WEB'
     }
   }
@@ -65,19 +177,51 @@ const orderSchema = new mongoose.Schema({
   timestamps: true
 })
 
-// Calculate transaction fee (1% of amount)
+// Price orders created without a fee breakdown from the fee service.
+// Buyers pay the charges on top; sellers have them deducted from their payout.
+// Gifts move grams between users and carry no fee.
+// Redemptions pay making charges instead, set when the order is created.
 orderSchema.pre('save', function(next) {
-  if (!this.transactionFee) {
-    this.transactionFee = Math.round(this.amountINR * 0.01)
+  if (this.type === 'GIFT_SENT' || this.type === 'GIFT_RECEIVED') {
+    this.transactionFee = 0
+    this.totalAmount = this.totalAmount || this.amountINR
+    return next()
   }
   
-  if (!this.totalAmount) {
-    this.totalAmount = this.amountINR + this.transactionFee
+  if (!this.isNew || this.type === 'REDEEM' || this.feeBreakdown?.items?.length) {
+    return next()
   }
   
+  const breakdown = this.type === 'SELL'
+    ? feeService.forSell(this.amountINR)
+    : feeService.forBuy(this.amountINR, { paymentMethod: this.paymentDetails?.paymentMethod })
+  this.set(feeService.toOrderFields(breakdown))
+  
   next()
 })
 
+// When the order's grams entered or left the user's holdings. Gifts sent and
+// redemptions take the grams when they are placed.
+orderSchema.virtual('heldAt').get(function() {
+  return this.type === 'GIFT_SENT' || this.type === 'REDEEM'
+    ? this.createdAt
+    : this.completedAt || this.createdAt
+})
+
+// Static method to get the orders that moved grams into or out of a user's
+// holdings, oldest first. Refunded buys were reversed and cancelled gifts and
+// redemptions were returned, so they are left out.
+orderSchema.statics.getHoldingOrders = async function(userId) {
+  const orders = await this.find({
+    userId,
+    $or: [
+      { type: { $in: ['BUY', 'SELL', 'GIFT_SENT', 'GIFT_RECEIVED'] }, status: 'COMPLETED' },
+      { type: 'REDEEM', status: { $in: ['PROCESSING', 'COMPLETED'] } }
+    ]
+  })
+  return orders.sort((a, b) => a.heldAt - b.heldAt)
+}
+
 // Static method to get user's order history
 orderSchema.statics.getUserOrders = function(userId, limit = 10) {
   return this.find({ userId })
@@ -89,7 +233,7 @@ orderSchema.statics.getUserOrders = function(userId, limit = 10) {
 // Static method to get order statistics
 orderSchema.statics.getOrderStats = function(userId) {
   return this.aggregate([
-    { $match: { userId: mongoose.Types.ObjectId(userId), status: 'COMPLETED' } },
+    { $match: { userId: mongoose.Types.ObjectId(userId), status: 'COMPLETED', type: 'BUY' } },
     {
       $group: {
         _id: null,
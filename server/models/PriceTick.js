@@ -0,0 +1,76 @@
+const mongoose = require('mongoose')
+
+const priceTickSchema = new mongoose.Schema({
+  price: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  currency: {
+    type: String,
+    default: 'INR'
+  },
+  source: {
+    type: String, // provider that produced the price, e.g. 'rate_file', 'gemini'
+    required: true
+  },
+  timestamp: {
+    type: Date,
+    required: true,
+    default: Date.now,
+    index: true
+  }
+}, {
+  timestamps: false
+})
+
+// Static method to get the most recent tick strictly before a date
+priceTickSchema.statics.getLatestBefore = function(date) {
+  return this.findOne({ timestamp: { $lt: date } }).sort({ timestamp: -1 })
+}
+
+// Static method to average ticks into fixed-size buckets between two dates
+priceTickSchema.statics.getDownsampled = function(from, to, bucketMs) {
+  return this.aggregate([
+    { $match: { timestamp: { $gte: from, $lte: to } } },
+    { $sort: { timestamp: 1 } },
+    {
+      $group: {
+        _id: {
+          $floor: { $divide: [{ $subtract: ['$timestamp', from] }, bucketMs] }
+        },
+        price: { $avg: '$price' },
+        high: { $max: '$price' },
+        low: { $min: '$price' },
+        ticks: { $sum: 1 }
+      }
+    },
+    { $sort: { _id: 1 } }
+  ])
+}
+
+// Static method to build OHLC candles aligned to the bucket size
+priceTickSchema.statics.getCandles = function(from, to, bucketMs) {
+  return this.aggregate([
+    { $match: { timestamp: { $gte: from, $lte: to } } },
+    { $sort: { timestamp: 1 } },
+    {
+      $group: {
+        _id: {
+          $subtract: [
+            { $toLong: '$timestamp' },
+            { $mod: [{ $toLong: '$timestamp' }, bucketMs] }
+          ]
+        },
+        open: { $first: '$price' },
+        high: { $max: '$price' },
+        low: { $min: '$price' },
+        close: { $last: '$price' },
+        ticks: { $sum: 1 }
+      }
+    },
+    { $sort: { _id: 1 } }
+  ])
+}
+
+module.exports = mongoose.model('PriceTick', priceTickSchema)
@@ -0,0 +1,50 @@
+const mongoose = require('mongoose')
+
+const reconciliationItemSchema = new mongoose.Schema({
+  orderId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Order'
+  },
+  previousStatus: String,
+  newStatus: String,
+  action: {
+    type: String,
+    enum: ['SETTLED', 'FAILED', 'CANCELLED', 'UNCHANGED', 'ERROR']
+  },
+  gatewayStatus: String,
+  error: String
+}, { _id: false })
+
+// Outcome of one reconciler run over stale PENDING/PROCESSING orders
+const reconciliationReportSchema = new mongoose.Schema({
+  trigger: {
+    type: String,
+    enum: ['SCHEDULED', 'MANUAL'],
+    default: 'SCHEDULED'
+  },
+  gateway: String,
+  startedAt: {
+    type: Date,
+    required: true
+  },
+  finishedAt: Date,
+  summary: {
+    checked: { type: Number, default: 0 },
+    settled: { type: Number, default: 0 },
+    failed: { type: Number, default: 0 },
+    cancelled: { type: Number, default: 0 },
+    unchanged: { type: Number, default: 0 },
+    errors: { type: Number, default: 0 }
+  },
+  items: [reconciliationItemSchema]
+}, {
+  timestamps: true
+})
+
+// Reports are kept for RECONCILE_REPORT_TTL_DAYS (default 30)
+reconciliationReportSchema.index(
+  { startedAt: -1 },
+  { expireAfterSeconds: (parseInt(process.env.RECONCILE_REPORT_TTL_DAYS) || 30) * 24 * 60 * 60 }
+)
+
+module.exports = mongoose.model('ReconciliationReport', reconciliationReportSchema)
@@ -0,0 +1,98 @@
+const mongoose = require('mongoose')
+
+const STAGES = ['PLACED', 'PACKED', 'SHIPPED', 'DELIVERED']
+
+// Physical delivery of held gold as coins. The grams are locked when the
+// redemption is placed and leave the vault once it is delivered.
+const redemptionSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  // REDEEM order carrying the grams and making charges
+  orderId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Order'
+  },
+  items: [{
+    sku: {
+      type: String,
+      required: true
+    },
+    name: String,
+    grams: {
+      type: Number,
+      required: true
+    },
+    quantity: {
+      type: Number,
+      required: true,
+      min: 1
+    },
+    makingCharge: {
+      type: Number,
+      required: true
+    }
+  }],
+  totalGrams: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  // Charged from the INR wallet
+  makingCharges: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  // Cost basis of the locked grams; returned to the user if cancelled
+  costBasis: {
+    type: Number,
+    default: 0
+  },
+  // Copy of the address at the time of placing, so later edits don't move the parcel
+  shippingAddress: {
+    fullName: String,
+    phone: String,
+    line1: String,
+    line2: String,
+    city: String,
+    state: String,
+    pincode: String
+  },
+  status: {
+    type: String,
+    enum: [...STAGES, 'CANCELLED'],
+    default: 'PLACED'
+  },
+  statusHistory: [{
+    status: String,
+    at: {
+      type: Date,
+      default: Date.now
+    },
+    note: String
+  }],
+  shipment: {
+    carrier: String,
+    trackingNumber: String
+  },
+  cancellation: {
+    reason: String,
+    cancelledBy: {
+      type: String,
+      enum: ['USER', 'ADMIN']
+    },
+    cancelledAt: Date
+  }
+}, {
+  timestamps: true
+})
+
+redemptionSchema.index({ status: 1, createdAt: 1 })
+
+redemptionSchema.statics.STAGES = STAGES
+
+module.exports = mongoose.model('Redemption', redemptionSchema)
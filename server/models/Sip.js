@@ -0,0 +1,95 @@
+const mongoose = require('mongoose')
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Add whole months, keeping the day of month where it exists (31 Jan -> 28/29 Feb)
+const addMonths = (date, months) => {
+  const result = new Date(date)
+  const day = result.getUTCDate()
+  result.setUTCDate(1)
+  result.setUTCMonth(result.getUTCMonth() + months)
+  const daysInMonth = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate()
+  result.setUTCDate(Math.min(day, daysInMonth))
+  return result
+}
+
+// Systematic Investment Plan: a recurring gold purchase of a fixed INR amount
+const sipSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  amountINR: {
+    type: Number,
+    required: true,
+    min: 100
+  },
+  frequency: {
+    type: String,
+    enum: ['DAILY', 'WEEKLY', 'MONTHLY'],
+    required: true
+  },
+  startDate: {
+    type: Date,
+    required: true
+  },
+  nextRunAt: {
+    type: Date,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['ACTIVE', 'PAUSED', 'CANCELLED'],
+    default: 'ACTIVE'
+  },
+  paymentMethod: {
+    type: String,
+    enum: ['UPI', 'CARD', 'NET_BANKING', 'WALLET'],
+    default: 'UPI'
+  },
+  lastRunAt: Date,
+  lastOrderId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Order'
+  },
+  runCount: {
+    type: Number,
+    default: 0
+  },
+  failureCount: {
+    type: Number,
+    default: 0
+  },
+  lastError: String,
+  pausedAt: Date,
+  cancelledAt: Date
+}, {
+  timestamps: true
+})
+
+// The scheduler looks for due, active plans
+sipSchema.index({ status: 1, nextRunAt: 1 })
+
+// First scheduled run strictly after the given date
+sipSchema.methods.getNextRunAfter = function(after = new Date()) {
+  const start = this.startDate
+
+  if (start > after) {
+    return new Date(start)
+  }
+
+  if (this.frequency === 'MONTHLY') {
+    const monthsElapsed = (after.getUTCFullYear() - start.getUTCFullYear()) * 12 +
+      (after.getUTCMonth() - start.getUTCMonth())
+    const candidate = addMonths(start, monthsElapsed)
+    return candidate > after ? candidate : addMonths(start, monthsElapsed + 1)
+  }
+
+  const periodMs = this.frequency === 'WEEKLY' ? 7 * DAY_MS : DAY_MS
+  const periods = Math.floor((after - start) / periodMs) + 1
+  return new Date(start.getTime() + periods * periodMs)
+}
+
+module.exports = mongoose.model('Sip', sipSchema)
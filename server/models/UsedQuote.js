@@ -0,0 +1,26 @@
+const mongoose = require('mongoose')
+
+// Price quote that has been spent on a purchase; each quote buys once
+const usedQuoteSchema = new mongoose.Schema({
+  signature: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  timestamps: true
+})
+
+// Removed by MongoDB once the quote would have expired anyway
+usedQuoteSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 })
+
+module.exports = mongoose.model('UsedQuote', usedQuoteSchema)
@@ -1,6 +1,53 @@
 const mongoose = require('mongoose')
 const bcrypt = require('bcryptjs')
 
+// Delivery address for physical gold redemptions
+const addressSchema = new mongoose.Schema({
+  label: {
+    type: String,
+    trim: true,
+    default: 'Home'
+  },
+  fullName: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  phone: {
+    type: String,
+    required: true,
+    match: /^[6-9]\d{9}$/
+  },
+  line1: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  line2: {
+    type: String,
+    trim: true
+  },
+  city: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  state: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  pincode: {
+    type: String,
+    required: true,
+    match: /^\d{6}$/
+  },
+  isDefault: {
+    type: Boolean,
+    default: false
+  }
+})
+
 const userSchema = new mongoose.Schema({
   email: {
     type: String,
@@ -18,6 +65,11 @@ const userSchema = new mongoose.Schema({
     required: true,
     trim: true
   },
+  role: {
+    type: String,
+    enum: ['USER', 'ADMIN'],
+    default: 'USER'
+  },
   kycStatus: {
     type: String,
     enum: ['PENDING', 'VERIFIED', 'REJECTED'],
@@ -51,6 +103,13 @@ const userSchema = new mongoose.Schema({
       default: 'CONSERVATIVE'
     }
   },
+  addresses: [addressSchema],
+  // Bumped by every transaction that spends from the INR wallet, so two
+  // concurrent spends write the same document and one of them retries
+  walletVersion: {
+    type: Number,
+    default: 0
+  },
   isActive: {
     type: Boolean,
     default: true
@@ -88,44 +147,6 @@ userSchema.methods.calculateProfitLoss = function(currentGoldPrice) {
   return currentValue - this.assets.totalInvested
 }
 
-// Update assets after purchase
-userSchema.methods.updateAssets = function(grams, pricePerGram) {
-  try {
-    console.log('UpdateAssets called with:', { grams, pricePerGram })
-    console.log('Current assets:', { 
-      goldGrams: this.assets.goldGrams, 
-      totalInvested: this.assets.totalInvested,
-      avgPrice: this.assets.avgPrice
-    })
-    
-  const newTotalGrams = this.assets.goldGrams + grams
-  const newTotalInvested = this.assets.totalInvested + (grams * pricePerGram)
-    
-    // Validate inputs
-    if (isNaN(grams) || grams <= 0) {
-      throw new Error(`Invalid grams value: ${grams}`)
-    }
-    if (isNaN(pricePerGram) || pricePerGram <= 0) {
-      throw new Error(`Invalid pricePerGram value: ${pricePerGram}`)
-    }
-  
-  this.assets.goldGrams = newTotalGrams
-  this.assets.totalInvested = newTotalInvested
-    this.assets.avgPrice = newTotalGrams > 0 ? newTotalInvested / newTotalGrams : 0
-    
-    console.log('New assets calculated:', {
-      goldGrams: this.assets.goldGrams,
-      totalInvested: this.assets.totalInvested,
-      avgPrice: this.assets.avgPrice
-    })
-  
-  return this.save()
-  } catch (error) {
-    console.error('UpdateAssets error:', error)
-    throw error
-  }
-}
-
 // Hide sensitive data
 userSchema.methods.toJSON = function() {
   const user = this.toObject()
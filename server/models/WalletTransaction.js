@@ -0,0 +1,58 @@
+const mongoose = require('mongoose')
+
+// Money moving into (TOPUP) or out of (WITHDRAWAL) a user's INR wallet.
+// The wallet balance itself lives in the ledger; this tracks each request's progress.
+const walletTransactionSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  type: {
+    type: String,
+    enum: ['TOPUP', 'WITHDRAWAL'],
+    required: true
+  },
+  amount: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  status: {
+    type: String,
+    enum: ['PENDING', 'PROCESSING', 'COMPLETED', 'FAILED', 'CANCELLED'],
+    default: 'PENDING'
+  },
+  paymentDetails: {
+    paymentId: String,
+    gateway: String,
+    gatewayOrderId: {
+      type: String,
+      index: true
+    },
+    paymentMethod: {
+      type: String,
+      enum: ['UPI', 'CARD', 'NET_BANKING']
+    },
+    signature: String,
+    gatewayResponse: mongoose.Schema.Types.Mixed
+  },
+  withdrawal: {
+    accountHolder: String,
+    accountNumberLast4: String,
+    ifsc: String,
+    upiId: String,
+    reference: String,
+    failureReason: String
+  },
+  completedAt: Date,
+  cancelledAt: Date
+}, {
+  timestamps: true
+})
+
+walletTransactionSchema.index({ userId: 1, createdAt: -1 })
+walletTransactionSchema.index({ type: 1, status: 1, createdAt: 1 })
+
+module.exports = mongoose.model('WalletTransaction', walletTransactionSchema)
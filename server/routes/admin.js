@@ -0,0 +1,346 @@
+const express = require('express')
+const mongoose = require('mongoose')
+const Order = require('../models/Order')
+const User = require('../models/User')
+const ledgerService = require('../services/ledger')
+const orderReconciler = require('../services/reconciler')
+const settlementService = require('../services/settlement')
+const walletService = require('../services/wallet')
+const redemptionService = require('../services/redemption')
+const { paymentGateway } = require('../services/paymentGateway')
+const ReconciliationReport = require('../models/ReconciliationReport')
+const WalletTransaction = require('../models/WalletTransaction')
+const Redemption = require('../models/Redemption')
+const { authenticateToken, requireAdmin } = require('../middleware/auth')
+
+const router = express.Router()
+
+// Every admin route requires an authenticated admin user
+router.use(authenticateToken, requireAdmin)
+
+// POST /api/admin/orders/:orderId/refund - Refund a completed buy order
+// The grams are reversed first (REFUND_PENDING), then the gateway refund is requested.
+// Send { manual: true, reference } to record a refund made outside the gateway.
+router.post('/orders/:orderId/refund', async (req, res) => {
+  try {
+    const { orderId } = req.params
+    const { reason, manual = false, reference } = req.body
+
+    if (!mongoose.Types.ObjectId.isValid(orderId)) {
+      return res.status(400).json({ error: 'Invalid order ID format' })
+    }
+
+    let order = await Order.findOne({ _id: orderId, type: 'BUY' })
+
+    if (!order) {
+      return res.status(404).json({ error: 'Buy order not found' })
+    }
+
+    if (!['COMPLETED', 'REFUND_PENDING'].includes(order.status)) {
+      return res.status(400).json({ error: `Order in ${order.status} state cannot be refunded` })
+    }
+
+    if (order.status === 'REFUND_PENDING' && order.refund?.refundId && !manual) {
+      return res.status(400).json({ error: 'Refund is already in progress at the gateway' })
+    }
+
+    if (order.status === 'COMPLETED') {
+      const refund = await settlementService.startRefund(order._id, { reason, requestedBy: 'ADMIN' })
+
+      if (!refund.started) {
+        return res.status(409).json({ error: 'Order changed while starting the refund', status: refund.order?.status })
+      }
+      order = refund.order
+    }
+
+    // Wallet purchases are refunded to the wallet straight away
+    if (order.fundingSource === 'WALLET') {
+      const { order: refundedOrder } = await settlementService.completeRefund(order._id, {
+        refundId: `wallet_${order._id}`,
+        amount: order.refund.amount
+      })
+      return res.json({ message: 'Order refunded to wallet', order: refundedOrder })
+    }
+
+    if (manual) {
+      const { order: refundedOrder } = await settlementService.completeRefund(order._id, {
+        refundId: reference,
+        amount: order.refund.amount
+      })
+      return res.json({ message: 'Refund recorded', order: refundedOrder })
+    }
+
+    const paidThrough = order.paymentDetails?.gateway
+    if (paidThrough !== paymentGateway.name || !order.paymentDetails?.paymentId) {
+      const pendingOrder = await settlementService.recordRefundAttempt(order._id, {
+        failureReason: `Order was not paid through the ${paymentGateway.name} gateway; refund it manually`
+      })
+      return res.status(202).json({
+        message: 'Grams reversed. Refund the payment manually and record it with { manual: true }.',
+        order: pendingOrder
+      })
+    }
+
+    try {
+      const gatewayRefund = await paymentGateway.refund({
+        paymentId: order.paymentDetails.paymentId,
+        amount: order.refund.amount
+      })
+
+      if (gatewayRefund.status === 'PROCESSED') {
+        const { order: refundedOrder } = await settlementService.completeRefund(order._id, {
+          refundId: gatewayRefund.refundId,
+          amount: gatewayRefund.amount
+        })
+        return res.json({ message: 'Order refunded', order: refundedOrder })
+      }
+
+      // Razorpay confirms most refunds later through the refund.processed webhook
+      const pendingOrder = await settlementService.recordRefundAttempt(order._id, {
+        refundId: gatewayRefund.refundId
+      })
+      res.status(202).json({ message: 'Refund requested from the payment gateway', order: pendingOrder })
+    } catch (gatewayError) {
+      console.error('Gateway refund error:', gatewayError)
+      const pendingOrder = await settlementService.recordRefundAttempt(order._id, {
+        failureReason: gatewayError.message
+      })
+      res.status(502).json({
+        error: 'Grams reversed but the gateway refund failed. Retry the refund.',
+        order: pendingOrder
+      })
+    }
+  } catch (error) {
+    if (error.status === 400) {
+      return res.status(400).json({ error: error.message, available: error.available })
+    }
+    console.error('Order refund error:', error)
+    res.status(500).json({ error: 'Failed to refund order' })
+  }
+})
+
+// GET /api/admin/wallet/withdrawals - Withdrawal requests, oldest first
+router.get('/wallet/withdrawals', async (req, res) => {
+  try {
+    const { status = 'PENDING', limit = 50 } = req.query
+
+    const withdrawals = await WalletTransaction.find({ type: 'WITHDRAWAL', status: status.toUpperCase() })
+      .sort({ createdAt: 1 })
+      .limit(Math.min(parseInt(limit) || 50, 200))
+      .populate('userId', 'name email')
+
+    res.json({ withdrawals })
+  } catch (error) {
+    console.error('Withdrawals fetch error:', error)
+    res.status(500).json({ error: 'Failed to fetch withdrawals' })
+  }
+})
+
+// PATCH /api/admin/wallet/withdrawals/:withdrawalId - Update the status of a withdrawal
+// PAID records the money as sent; FAILED returns it to the user's wallet.
+router.patch('/wallet/withdrawals/:withdrawalId', async (req, res) => {
+  try {
+    const { withdrawalId } = req.params
+    const { status, reference, failureReason } = req.body
+    const validStatuses = ['PROCESSING', 'PAID', 'FAILED']
+
+    if (!mongoose.Types.ObjectId.isValid(withdrawalId)) {
+      return res.status(400).json({ error: 'Invalid withdrawal ID format' })
+    }
+
+    if (!validStatuses.includes(status)) {
+      return res.status(400).json({ error: `Invalid withdrawal status. Use ${validStatuses.join(', ')}` })
+    }
+
+    let withdrawal
+    if (status === 'PROCESSING') {
+      withdrawal = await walletService.markWithdrawalProcessing(withdrawalId, { reference })
+    } else if (status === 'PAID') {
+      withdrawal = (await walletService.completeWithdrawal(withdrawalId, { reference })).walletTransaction
+    } else {
+      withdrawal = (await walletService.failWithdrawal(withdrawalId, { failureReason })).walletTransaction
+    }
+
+    if (!withdrawal) {
+      const existing = await WalletTransaction.findOne({ _id: withdrawalId, type: 'WITHDRAWAL' })
+      if (!existing) {
+        return res.status(404).json({ error: 'Withdrawal not found' })
+      }
+      return res.status(400).json({ error: `Withdrawal in ${existing.status} state cannot be updated to ${status}` })
+    }
+
+    res.json({ message: 'Withdrawal updated', withdrawal })
+  } catch (error) {
+    console.error('Withdrawal update error:', error)
+    res.status(500).json({ error: 'Failed to update withdrawal' })
+  }
+})
+
+// GET /api/admin/redemptions - Redemptions to fulfil, oldest first
+router.get('/redemptions', async (req, res) => {
+  try {
+    const { status = 'PLACED', limit = 50 } = req.query
+
+    const redemptions = await Redemption.find({ status: status.toUpperCase() })
+      .sort({ createdAt: 1 })
+      .limit(Math.min(parseInt(limit) || 50, 200))
+      .populate('userId', 'name email')
+
+    res.json({ redemptions })
+  } catch (error) {
+    console.error('Redemptions fetch error:', error)
+    res.status(500).json({ error: 'Failed to fetch redemptions' })
+  }
+})
+
+// PATCH /api/admin/redemptions/:redemptionId - Move a redemption to its next stage
+// PACKED, SHIPPED (with carrier and trackingNumber) and DELIVERED go in order;
+// CANCELLED returns the grams and making charges until the coins have shipped.
+router.patch('/redemptions/:redemptionId', async (req, res) => {
+  try {
+    const { redemptionId } = req.params
+    const { status, carrier, trackingNumber, note, reason } = req.body
+
+    if (!mongoose.Types.ObjectId.isValid(redemptionId)) {
+      return res.status(400).json({ error: 'Invalid redemption ID format' })
+    }
+
+    if (status === 'SHIPPED' && !trackingNumber) {
+      return res.status(400).json({ error: 'Tracking number is required to mark a redemption shipped' })
+    }
+
+    const redemption = status === 'CANCELLED'
+      ? (await redemptionService.cancel(redemptionId, { reason: reason || 'Cancelled by admin', cancelledBy: 'ADMIN' })).redemption
+      : await redemptionService.advance(redemptionId, status, { carrier, trackingNumber, note })
+
+    if (!redemption) {
+      const existing = await Redemption.findById(redemptionId)
+      if (!existing) {
+        return res.status(404).json({ error: 'Redemption not found' })
+      }
+      return res.status(400).json({ error: `Redemption in ${existing.status} state cannot be updated to ${status}` })
+    }
+
+    res.json({ message: 'Redemption updated', redemption })
+  } catch (error) {
+    if (error.status === 400) {
+      return res.status(400).json({ error: error.message })
+    }
+    console.error('Redemption update error:', error)
+    res.status(500).json({ error: 'Failed to update redemption' })
+  }
+})
+
+// GET /api/admin/ledger/drift - Users whose stored assets disagree with the ledger
+router.get('/ledger/drift', async (req, res) => {
+  try {
+    const report = await ledgerService.getDriftReport()
+    res.json(report)
+  } catch (error) {
+    console.error('Ledger drift report error:', error)
+    res.status(500).json({ error: 'Failed to build ledger drift report' })
+  }
+})
+
+// POST /api/admin/ledger/reconcile/:userId - Reset a user's stored assets from the ledger
+router.post('/ledger/reconcile/:userId', async (req, res) => {
+  try {
+    const { userId } = req.params
+
+    if (!mongoose.Types.ObjectId.isValid(userId)) {
+      return res.status(400).json({ error: 'Invalid user ID format' })
+    }
+
+    const user = await User.findById(userId, 'assets')
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' })
+    }
+
+    const previous = {
+      goldGrams: user.assets.goldGrams,
+      totalInvested: user.assets.totalInvested,
+      avgPrice: user.assets.avgPrice
+    }
+    const assets = await ledgerService.syncUserAssets(user._id)
+
+    res.json({
+      message: 'User assets reconciled with the ledger',
+      userId: user._id,
+      previous,
+      assets
+    })
+  } catch (error) {
+    console.error('Ledger reconcile error:', error)
+    res.status(500).json({ error: 'Failed to reconcile user assets' })
+  }
+})
+
+// GET /api/admin/reconciliation/reports - Reconciler run reports, newest first
+router.get('/reconciliation/reports', async (req, res) => {
+  try {
+    const { limit = 20, page = 1, withActivity } = req.query
+    const query = withActivity === 'true' ? { 'summary.checked': { $gt: 0 } } : {}
+
+    const reports = await ReconciliationReport.find(query)
+      .select('-items')
+      .sort({ startedAt: -1 })
+      .limit(parseInt(limit))
+      .skip((parseInt(page) - 1) * parseInt(limit))
+
+    const total = await ReconciliationReport.countDocuments(query)
+
+    res.json({
+      reports,
+      pagination: {
+        page: parseInt(page),
+        limit: parseInt(limit),
+        total,
+        totalPages: Math.ceil(total / parseInt(limit))
+      }
+    })
+  } catch (error) {
+    console.error('Reconciliation reports fetch error:', error)
+    res.status(500).json({ error: 'Failed to fetch reconciliation reports' })
+  }
+})
+
+// GET /api/admin/reconciliation/reports/:reportId - One report with its per-order items
+router.get('/reconciliation/reports/:reportId', async (req, res) => {
+  try {
+    const { reportId } = req.params
+
+    if (!mongoose.Types.ObjectId.isValid(reportId)) {
+      return res.status(400).json({ error: 'Invalid report ID format' })
+    }
+
+    const report = await ReconciliationReport.findById(reportId)
+
+    if (!report) {
+      return res.status(404).json({ error: 'Report not found' })
+    }
+
+    res.json({ report })
+  } catch (error) {
+    console.error('Reconciliation report fetch error:', error)
+    res.status(500).json({ error: 'Failed to fetch reconciliation report' })
+  }
+})
+
+// POST /api/admin/reconciliation/run - Run the reconciler now
+router.post('/reconciliation/run', async (req, res) => {
+  try {
+    const report = await orderReconciler.run('MANUAL')
+
+    if (!report) {
+      return res.status(409).json({ error: 'Reconciliation is already running or the database is unavailable' })
+    }
+
+    res.status(201).json({ report })
+  } catch (error) {
+    console.error('Manual reconciliation error:', error)
+    res.status(500).json({ error: 'Failed to run reconciliation' })
+  }
+})
+
+module.exports = router
@@ -1,6 +1,7 @@
 const express = require('express')
 const jwt = require('jsonwebtoken')
 const User = require('../models/User')
+const giftService = require('../services/gifts')
 const { authenticateToken } = require('../middleware/auth')
 const { validateRequest, asyncHandler } = require('../middleware/errorHandler')
 const { authSchemas } = require('../validation/schemas')
@@ -35,6 +36,10 @@ router.post('/signup', validateRequest(authSchemas.signup), asyncHandler(async (
   
   await user.save()
   
+  // Gifts sent to this email before signup are waiting to be claimed
+  await giftService.notifyPendingGifts(user)
+    .catch(error => console.error('Pending gift notice error:', error))
+  
   const token = generateToken(user._id)
   
   res.status(201).json({
@@ -1,34 +1,33 @@
 const express = require('express')
 const mongoose = require('mongoose')
 const goldPriceService = require('../services/goldPrice')
+const priceStream = require('../services/priceStream')
+const quoteService = require('../services/quote')
+const ledgerService = require('../services/ledger')
+const settlementService = require('../services/settlement')
+const purchaseService = require('../services/purchase')
+const feeService = require('../services/fees')
+const giftService = require('../services/gifts')
+const invoiceService = require('../services/invoices')
+const { paymentGateway } = require('../services/paymentGateway')
 const { authenticateToken } = require('../middleware/auth')
+const { idempotency } = require('../middleware/idempotency')
+const { validateRequest } = require('../middleware/errorHandler')
+const { goldSchemas } = require('../validation/schemas')
 const Order = require('../models/Order')
 const User = require('../models/User')
+const Gift = require('../models/Gift')
 
 const router = express.Router()
 
 // GET /api/gold/price - Get current gold price
 router.get('/price', async (req, res) => {
   try {
-    const priceData = await goldPriceService.getCurrentPrice()
-    
-    // Get price change data
-    // Note: In production, this would be calculated from actual historical data
-    const changeData = {
-      change: 0,
-      changePercent: 0,
-      trend: 'up'
-    }
+    // Current price with its change against the previous close
+    const snapshot = await goldPriceService.getPriceSnapshot()
     
     res.json({
-      current: {
-        price: priceData.price,
-        currency: 'INR',
-        unit: 'gram',
-        timestamp: priceData.timestamp,
-        source: priceData.source
-      },
-      change: changeData,
+      ...snapshot,
       market: {
         isOpen: isMarketOpen(),
         nextUpdate: getNextUpdateTime()
@@ -40,6 +39,11 @@ router.get('/price', async (req, res) => {
   }
 })
 
+// GET /api/gold/price/stream - Server-Sent Events stream of price updates
+router.get('/price/stream', (req, res) => {
+  priceStream.subscribe(req, res)
+})
+
 // GET /api/gold/history/:period - Get price history
 router.get('/history/:period', async (req, res) => {
   try {
@@ -63,6 +67,39 @@ router.get('/history/:period', async (req, res) => {
   }
 })
 
+// GET /api/gold/candles - OHLC candles built from stored price ticks
+router.get('/candles', async (req, res) => {
+  try {
+    const { interval = '1h', from, to } = req.query
+    const validIntervals = ['5m', '1h', '1d']
+    
+    if (!validIntervals.includes(interval)) {
+      return res.status(400).json({ error: 'Invalid interval. Use 5m, 1h, or 1d' })
+    }
+    
+    const fromDate = from ? parseDateParam(from) : undefined
+    const toDate = to ? parseDateParam(to) : undefined
+    
+    if (fromDate === null || toDate === null) {
+      return res.status(400).json({ error: 'Invalid date. Use an ISO date or a timestamp in milliseconds' })
+    }
+    
+    const candles = await goldPriceService.getCandles(interval, fromDate, toDate)
+    
+    res.json({
+      interval,
+      data: candles,
+      count: candles.length
+    })
+  } catch (error) {
+    if (error.status === 400) {
+      return res.status(400).json({ error: error.message })
+    }
+    console.error('Gold candles fetch error:', error)
+    res.status(500).json({ error: 'Failed to fetch price candles' })
+  }
+})
+
 // POST /api/gold/refresh - Force refresh price cache (admin only)
 router.post('/refresh', async (req, res) => {
   try {
@@ -78,61 +115,62 @@ router.post('/refresh', async (req, res) => {
   }
 })
 
-// GET /api/gold/calculator - Calculate gold amount for INR
+// GET /api/gold/providers - Price provider chain and health
+router.get('/providers', (req, res) => {
+  res.json({ providers: goldPriceService.getProviderStatus() })
+})
+
+// GET /api/gold/calculator - Calculate gold amount for INR, with itemized charges
+// side=sell prices a sale at the sell price; paymentMethod sets the buy surcharge.
 router.get('/calculator', async (req, res) => {
   try {
-    const { amount, type = 'inr' } = req.query
+    const { amount, type = 'inr', side = 'buy', paymentMethod = 'UPI' } = req.query
     
     if (!amount || isNaN(amount) || amount <= 0) {
       return res.status(400).json({ error: 'Valid amount is required' })
     }
     
+    if (!['buy', 'sell'].includes(side)) {
+      return res.status(400).json({ error: 'Side must be "buy" or "sell"' })
+    }
+    
     const priceData = await goldPriceService.getCurrentPrice()
-    const currentPrice = priceData.price
+    const currentPrice = side === 'sell' ? goldPriceService.getSellPrice(priceData.price) : priceData.price
     
-    let calculation
+    let grams, goldValue
     if (type === 'inr') {
       // Convert INR to grams
-      const grams = parseFloat(amount) / currentPrice
-      const transactionFee = Math.round(parseFloat(amount) * 0.01)
-      
-      calculation = {
-        input: {
-          amount: parseFloat(amount),
-          type: 'INR'
-        },
-        output: {
-          grams: parseFloat(grams.toFixed(4)),
-          pricePerGram: currentPrice
-        },
-        fees: {
-          transactionFee,
-          totalAmount: parseFloat(amount) + transactionFee
-        }
-      }
+      goldValue = Math.round(parseFloat(amount))
+      grams = parseFloat(amount) / currentPrice
     } else if (type === 'grams') {
       // Convert grams to INR
-      const inrAmount = parseFloat(amount) * currentPrice
-      const transactionFee = Math.round(inrAmount * 0.01)
-      
-      calculation = {
-        input: {
-          amount: parseFloat(amount),
-          type: 'grams'
-        },
-        output: {
-          inrAmount: Math.round(inrAmount),
-          pricePerGram: currentPrice
-        },
-        fees: {
-          transactionFee,
-          totalAmount: Math.round(inrAmount) + transactionFee
-        }
-      }
+      grams = parseFloat(amount)
+      goldValue = Math.round(grams * currentPrice)
     } else {
       return res.status(400).json({ error: 'Type must be "inr" or "grams"' })
     }
     
+    const breakdown = side === 'sell'
+      ? feeService.forSell(goldValue)
+      : feeService.forBuy(goldValue, { paymentMethod: paymentMethod.toUpperCase() })
+    
+    const calculation = {
+      input: {
+        amount: parseFloat(amount),
+        type: type === 'inr' ? 'INR' : 'grams'
+      },
+      output: {
+        grams: parseFloat(grams.toFixed(4)),
+        inrAmount: goldValue,
+        pricePerGram: currentPrice
+      },
+      fees: {
+        transactionFee: breakdown.totalCharges,
+        totalAmount: breakdown.totalAmount,
+        items: breakdown.items
+      }
+    }
+    
     res.json({
       calculation,
       market: {
@@ -156,16 +194,35 @@ function isMarketOpen() {
   return day >= 1 && day <= 5 && hour >= 9 && hour < 18
 }
 
+// Accepts ISO dates or epoch milliseconds; returns null when unparseable
+function parseDateParam(value) {
+  const date = /^\d+$/.test(value) ? new Date(parseInt(value)) : new Date(value)
+  return isNaN(date.getTime()) ? null : date
+}
+
 function getNextUpdateTime() {
   const now = new Date()
   const next = new Date(now.getTime() + 30000) // Next 30 seconds
   return next
 }
 
+// POST /api/gold/quote - Lock the current price for a short window
+router.post('/quote', authenticateToken, async (req, res) => {
+  try {
+    const priceData = await goldPriceService.getCurrentPrice()
+    const quote = quoteService.createQuote(req.user._id, priceData)
+    
+    res.status(201).json({ quote })
+  } catch (error) {
+    console.error('Price quote error:', error)
+    res.status(500).json({ error: 'Failed to create price quote' })
+  }
+})
+
 // POST /api/gold/purchase - Create gold purchase order
-router.post('/purchase', authenticateToken, async (req, res) => {
+router.post('/purchase', authenticateToken, idempotency, async (req, res) => {
   try {
-    const { amountINR, grams, preferredType = 'amount' } = req.body
+    const { amountINR, grams, preferredType = 'amount', quoteId, fundingSource = 'GATEWAY', paymentMethod = 'UPI' } = req.body
     const userId = req.user._id
     
     // Validate input
@@ -173,46 +230,174 @@ router.post('/purchase', authenticateToken, async (req, res) => {
       return res.status(400).json({ error: 'Provide either amountINR or grams, not both' })
     }
     
-    // Get current gold price
+    if (!['GATEWAY', 'WALLET'].includes(fundingSource)) {
+      return res.status(400).json({ error: 'Invalid funding source. Use GATEWAY or WALLET' })
+    }
+    
+    if (fundingSource === 'GATEWAY' && !['UPI', 'CARD', 'NET_BANKING'].includes(paymentMethod)) {
+      return res.status(400).json({ error: 'Invalid payment method' })
+    }
+    
+    // Use the locked quote price when given, otherwise the current price
+    let priceData
+    if (quoteId) {
+      try {
+        // Spent when the order is created
+        const quote = quoteService.verifyQuote(quoteId, userId)
+        priceData = {
+          price: quote.pricePerGram,
+          timestamp: quote.priceTimestamp,
+          source: quote.source,
+          provider: quote.provider,
+          quoteId: quote.id
+        }
+      } catch (quoteError) {
+        return res.status(quoteError.status || 400).json({ error: quoteError.message, code: quoteError.code })
+      }
+    } else {
+      priceData = await goldPriceService.getCurrentPrice()
+    }
+    
+    // Create order
+    const order = await purchaseService.createOrder({
+      userId,
+      amountINR,
+      grams,
+      preferredType,
+      priceData,
+      fundingSource,
+      paymentMethod: fundingSource === 'WALLET' ? 'WALLET' : paymentMethod,
+      metadata: {
+        userAgent: req.headers['user-agent'],
+        ipAddress: req.ip,
+        source: 'WEB'
+      }
+    })
+    
+    // Wallet purchases are paid on the spot
+    if (fundingSource === 'WALLET') {
+      const payment = await purchaseService.payOrder(order)
+      const paidOrder = payment.order
+      
+      if (payment.outcome !== 'COMPLETED') {
+        return res.status(400).json({
+          error: payment.error || 'Wallet payment failed',
+          available: payment.available,
+          order: { id: paidOrder._id, status: paidOrder.status }
+        })
+      }
+      
+      return res.status(201).json({
+        message: 'Payment successful! Gold added to your portfolio.',
+        order: {
+          id: paidOrder._id,
+          amountINR: paidOrder.amountINR,
+          grams: paidOrder.grams,
+          pricePerGram: paidOrder.pricePerGram,
+          transactionFee: paidOrder.transactionFee,
+          charges: paidOrder.feeBreakdown.items,
+          totalAmount: paidOrder.totalAmount,
+          fundingSource: paidOrder.fundingSource,
+          status: paidOrder.status,
+          createdAt: paidOrder.createdAt
+        }
+      })
+    }
+    
+    res.status(201).json({
+      message: 'Order created successfully',
+      order: {
+        id: order._id,
+        amountINR: order.amountINR,
+        grams: order.grams,
+        pricePerGram: order.pricePerGram,
+        transactionFee: order.transactionFee,
+        charges: order.feeBreakdown.items,
+        totalAmount: order.totalAmount,
+        status: order.status,
+        createdAt: order.createdAt
+      },
+      paymentUrl: `/api/gold/orders/${order._id}/pay` // For frontend to initiate payment
+    })
+  } catch (error) {
+    if (error.status === 400) {
+      return res.status(400).json({ error: error.message, code: error.code })
+    }
+    console.error('Gold purchase error:', error)
+    res.status(500).json({ error: 'Failed to create purchase order' })
+  }
+})
+
+// POST /api/gold/sell - Sell gold back to the platform at the sell price
+router.post('/sell', authenticateToken, validateRequest(goldSchemas.sell), async (req, res) => {
+  try {
+    const { amountINR, grams, preferredType = 'grams' } = req.body
+    const user = req.user
+    
+    // Validate input
+    if ((!amountINR && !grams) || (amountINR && grams)) {
+      return res.status(400).json({ error: 'Provide either amountINR or grams, not both' })
+    }
+    
     const priceData = await goldPriceService.getCurrentPrice()
-    const currentPrice = priceData.price
+    const sellPrice = goldPriceService.getSellPrice(priceData.price)
     
     let finalAmount, finalGrams
     
     if (preferredType === 'amount' && amountINR) {
       finalAmount = parseFloat(amountINR)
-      finalGrams = finalAmount / currentPrice
+      finalGrams = finalAmount / sellPrice
       
       if (finalAmount < 100) {
-        return res.status(400).json({ error: 'Minimum purchase amount is ₹100' })
+        return res.status(400).json({ error: 'Minimum sell amount is ₹100' })
       }
     } else if (preferredType === 'grams' && grams) {
       finalGrams = parseFloat(grams)
-      finalAmount = finalGrams * currentPrice
+      finalAmount = finalGrams * sellPrice
       
       if (finalGrams < 0.01) {
-        return res.status(400).json({ error: 'Minimum purchase is 0.01 grams' })
+        return res.status(400).json({ error: 'Minimum sale is 0.01 grams' })
       }
     } else {
-      return res.status(400).json({ error: 'Invalid purchase parameters' })
+      return res.status(400).json({ error: 'Invalid sell parameters' })
     }
     
-    // Calculate transaction fee and total amount
-    const transactionFee = Math.round(finalAmount * 0.01)
-    const totalAmount = Math.round(finalAmount + transactionFee)
+    finalGrams = parseFloat(finalGrams.toFixed(4))
     
-    // Create order
-    const order = new Order({
-      userId,
+    await ledgerService.ensureOpeningBalance(user._id)
+    const holdings = await ledgerService.getUserHoldings(user._id)
+    
+    if (finalGrams > holdings.goldGrams) {
+      return res.status(400).json({ 
+        error: 'Insufficient gold holdings',
+        available: holdings.goldGrams
+      })
+    }
+    
+    // Charges are deducted from the payout
+    const charges = feeService.toOrderFields(feeService.forSell(Math.round(finalAmount)))
+    
+    // Order creation and the ledger debit happen in one transaction
+    const { order, assets } = await settlementService.settleSellOrder({
+      userId: user._id,
+      type: 'SELL',
       amountINR: Math.round(finalAmount),
-      grams: parseFloat(finalGrams.toFixed(4)),
-      pricePerGram: currentPrice,
-      transactionFee,
-      totalAmount,
+      grams: finalGrams,
+      pricePerGram: sellPrice,
+      ...charges,
+      status: 'COMPLETED',
+      // Proceeds go straight to the wallet
+      payout: {
+        status: 'PAID',
+        method: 'WALLET',
+        paidAt: new Date(),
+        updatedAt: new Date()
+      },
       goldRateSnapshot: {
         timestamp: priceData.timestamp,
         source: priceData.source,
-        rate: currentPrice
+        provider: priceData.provider,
+        rate: priceData.price
       },
       metadata: {
         userAgent: req.headers['user-agent'],
@@ -221,35 +406,175 @@ router.post('/purchase', authenticateToken, async (req, res) => {
       }
     })
     
-    await order.save()
-    
     res.status(201).json({
-      message: 'Order created successfully',
+      message: `Gold sold successfully. ₹${order.totalAmount.toLocaleString()} has been added to your wallet.`,
       order: {
         id: order._id,
+        type: order.type,
         amountINR: order.amountINR,
         grams: order.grams,
         pricePerGram: order.pricePerGram,
         transactionFee: order.transactionFee,
-        totalAmount: order.totalAmount,
+        charges: order.feeBreakdown.items,
+        payoutAmount: order.totalAmount,
         status: order.status,
+        payoutStatus: order.payout.status,
+        payoutMethod: order.payout.method,
         createdAt: order.createdAt
       },
-      paymentUrl: `/api/gold/orders/${order._id}/pay` // For frontend to initiate payment
+      assets,
+      wallet: await ledgerService.getWalletBalance(user._id)
     })
   } catch (error) {
-    console.error('Gold purchase error:', error)
-    res.status(500).json({ error: 'Failed to create purchase order' })
+    if (error.status === 400) {
+      return res.status(400).json({ error: error.message, available: error.available })
+    }
+    console.error('Gold sell error:', error)
+    res.status(500).json({ error: 'Failed to sell gold' })
+  }
+})
+
+const formatGift = (gift, userId) => ({
+  id: gift._id,
+  direction: gift.senderId.equals(userId) ? 'SENT' : 'RECEIVED',
+  recipientEmail: gift.recipientEmail,
+  grams: gift.grams,
+  pricePerGram: gift.pricePerGram,
+  value: Math.round(gift.grams * gift.pricePerGram),
+  message: gift.message,
+  status: gift.status,
+  expiresAt: gift.expiresAt,
+  claimedAt: gift.claimedAt,
+  returnedAt: gift.returnedAt,
+  orderId: gift.senderId.equals(userId) ? gift.senderOrderId : gift.recipientOrderId,
+  createdAt: gift.createdAt
+})
+
+// POST /api/gold/gift - Send grams to another user by email
+router.post('/gift', authenticateToken, idempotency, async (req, res) => {
+  try {
+    const { recipientEmail, grams, message } = req.body
+
+    const { gift, recipient, assets, claimCode } = await giftService.sendGift(req.user, { recipientEmail, grams, message })
+
+    res.status(201).json({
+      message: recipient
+        ? `${gift.grams}g of gold sent to ${recipient.name}.`
+        : `${gift.grams}g of gold is waiting for ${gift.recipientEmail} to sign up and claim it by ${gift.expiresAt.toDateString()}. Share the claim code ${claimCode} with them.`,
+      gift: formatGift(gift, req.user._id),
+      // Shown once; only its hash is stored
+      claimCode,
+      assets
+    })
+  } catch (error) {
+    if (error.status === 400) {
+      return res.status(400).json({ error: error.message, available: error.available })
+    }
+    console.error('Gift send error:', error)
+    res.status(500).json({ error: 'Failed to send gift' })
+  }
+})
+
+// GET /api/gold/gifts - Gifts sent and received by the user
+router.get('/gifts', authenticateToken, async (req, res) => {
+  try {
+    const user = req.user
+
+    const gifts = await Gift.find({
+      $or: [{ senderId: user._id }, { recipientId: user._id }, { recipientEmail: user.email }]
+    })
+      .sort({ createdAt: -1 })
+      .limit(50)
+
+    res.json({
+      gifts: gifts.map(gift => formatGift(gift, user._id)),
+      pendingClaims: gifts.filter(gift =>
+        gift.status === 'PENDING_CLAIM' && gift.recipientEmail === user.email
+      ).length
+    })
+  } catch (error) {
+    console.error('Gift list error:', error)
+    res.status(500).json({ error: 'Failed to fetch gifts' })
+  }
+})
+
+// POST /api/gold/gifts/:giftId/claim - Claim a gift sent to the user's email with its claim code
+router.post('/gifts/:giftId/claim', authenticateToken, async (req, res) => {
+  try {
+    const { giftId } = req.params
+    const { claimCode } = req.body
+
+    if (!mongoose.Types.ObjectId.isValid(giftId)) {
+      return res.status(400).json({ error: 'Invalid gift ID format' })
+    }
+
+    if (typeof claimCode !== 'string' || !claimCode.trim()) {
+      return res.status(400).json({ error: 'Claim code is required' })
+    }
+
+    const { gift, assets } = await giftService.claimGift(req.user, giftId, claimCode)
+
+    if (!gift) {
+      const existing = await Gift.findOne({ _id: giftId, recipientEmail: req.user.email })
+      if (!existing) {
+        return res.status(404).json({ error: 'Gift not found' })
+      }
+      if (existing.status !== 'PENDING_CLAIM') {
+        return res.status(400).json({ error: `Gift is already ${existing.status.toLowerCase()}` })
+      }
+      return res.status(400).json({
+        error: existing.expiresAt <= new Date() ? 'This gift has expired' : 'Invalid claim code'
+      })
+    }
+
+    res.json({
+      message: `${gift.grams}g of gold added to your portfolio.`,
+      gift: formatGift(gift, req.user._id),
+      assets
+    })
+  } catch (error) {
+    console.error('Gift claim error:', error)
+    res.status(500).json({ error: 'Failed to claim gift' })
+  }
+})
+
+// POST /api/gold/gifts/:giftId/cancel - Take back a gift that has not been claimed
+router.post('/gifts/:giftId/cancel', authenticateToken, async (req, res) => {
+  try {
+    const { giftId } = req.params
+
+    if (!mongoose.Types.ObjectId.isValid(giftId)) {
+      return res.status(400).json({ error: 'Invalid gift ID format' })
+    }
+
+    const { gift, assets } = await giftService.cancelGift(req.user, giftId)
+
+    if (!gift) {
+      const existing = await Gift.findOne({ _id: giftId, senderId: req.user._id })
+      if (!existing) {
+        return res.status(404).json({ error: 'Gift not found' })
+      }
+      return res.status(400).json({ error: `Cannot cancel a ${existing.status.toLowerCase()} gift` })
+    }
+
+    res.json({
+      message: `Gift cancelled. ${gift.grams}g of gold is back in your portfolio.`,
+      gift: formatGift(gift, req.user._id),
+      assets
+    })
+  } catch (error) {
+    console.error('Gift cancel error:', error)
+    res.status(500).json({ error: 'Failed to cancel gift' })
   }
 })
 
 // POST /api/gold/orders/:orderId/pay - Process payment for order
-router.post('/orders/:orderId/pay', authenticateToken, async (req, res) => {
+router.post('/orders/:orderId/pay', authenticateToken, idempotency, async (req, res) => {
   try {
     console.log('Payment request received:', { orderId: req.params.orderId, userId: req.user?._id })
     
     const { orderId } = req.params
-    const { paymentMethod = 'UPI', paymentId } = req.body
+    const { paymentMethod, paymentId } = req.body
     const userId = req.user._id
     
     // Validate user object
@@ -274,181 +599,63 @@ router.post('/orders/:orderId/pay', authenticateToken, async (req, res) => {
     
     console.log('Order found:', { id: order._id, status: order.status, amount: order.amountINR })
     
-    if (order.status !== 'PENDING') {
-      console.error('Order cannot be paid:', { status: order.status })
-      return res.status(400).json({ error: 'Order cannot be paid' })
-    }
+    const { outcome, order: paidOrder, gatewayOrder } = await purchaseService.payOrder(order, { paymentMethod, paymentId })
     
-    // Check if Razorpay is properly configured
-    if (!process.env.RAZORPAY_KEY_ID || !process.env.RAZORPAY_SECRET) {
-      console.warn('Razorpay not configured - using simulation mode')
+    switch (outcome) {
+      case 'NOT_PAYABLE':
+        console.error('Order cannot be paid:', { status: order.status })
+        return res.status(400).json({ error: 'Order cannot be paid' })
       
-      // Fallback to simulation when Razorpay is not configured
-      const isPaymentSuccessful = await simulatePayment(order, paymentMethod)
+      case 'TIMEOUT':
+        return res.status(202).json({
+          message: 'Payment is taking longer than usual. We will update your order once it is confirmed.',
+          order: { id: paidOrder._id, status: paidOrder.status }
+        })
       
-      if (isPaymentSuccessful) {
-        order.status = 'COMPLETED'
-        order.paymentDetails = {
-          paymentId: paymentId || `SIM_PAY_${Date.now()}`,
-          paymentMethod,
-          gatewayResponse: {
-            status: 'success',
-            timestamp: new Date(),
-            transactionId: `SIM_TXN_${Date.now()}`,
-            note: 'Simulated payment (Razorpay not configured)'
-          }
-        }
-        
-        await order.save()
-        
-        // Update user's gold assets
-        console.log('Updating user assets (sim mode):', { grams: order.grams, pricePerGram: order.pricePerGram })
-        console.log('User before update:', { 
-          id: req.user._id, 
-          goldGrams: req.user.assets.goldGrams, 
-          totalInvested: req.user.assets.totalInvested 
+      case 'CONFLICT':
+        return res.status(409).json({ 
+          error: 'Order cannot be paid',
+          order: { id: paidOrder._id, status: paidOrder.status }
         })
-        
-        try {
-        await req.user.updateAssets(order.grams, order.pricePerGram)
-          console.log('User assets updated successfully (sim mode)')
-        } catch (updateError) {
-          console.error('Error updating user assets:', updateError)
-          throw new Error(`Failed to update user assets: ${updateError.message}`)
-        }
-        
+      
+      case 'COMPLETED':
         return res.json({
           message: 'Payment successful! Gold added to your portfolio.',
           order: {
-            id: order._id,
-            status: order.status,
-            grams: order.grams,
-            amountINR: order.amountINR,
-            paymentId: order.paymentDetails.paymentId
+            id: paidOrder._id,
+            status: paidOrder.status,
+            grams: paidOrder.grams,
+            amountINR: paidOrder.amountINR,
+            paymentId: paidOrder.paymentDetails.paymentId
           },
-          note: 'Demo mode: Configure RAZORPAY_KEY_ID and RAZORPAY_SECRET in .env for real payments'
+          note: `Demo mode: processed by the ${paymentGateway.name} payment gateway. Set PAYMENT_GATEWAY=razorpay with Razorpay keys in .env for real payments`
         })
-      } else {
-        order.status = 'FAILED'
-        await order.save()
+      
+      case 'FAILED':
         return res.status(400).json({ 
           error: 'Payment failed',
-          order: { id: order._id, status: order.status }
+          order: { id: paidOrder._id, status: paidOrder.status }
         })
-      }
-    }
-    
-    // Create Razorpay order for real payment processing
-    const Razorpay = require('razorpay')
-    const razorpay = new Razorpay({
-      key_id: process.env.RAZORPAY_KEY_ID,
-      key_secret: process.env.RAZORPAY_SECRET
-    })
-    
-    try {
-      const razorpayOrder = await razorpay.orders.create({
-        amount: order.totalAmount * 100, // Amount in paisa
-        currency: 'INR',
-        receipt: `order_${order._id}`,
-        payment_capture: true
-      })
-      
-      // Update order with Razorpay order ID
-      order.status = 'PROCESSING'
-      order.paymentDetails = {
-        razorpayOrderId: razorpayOrder.id,
-        paymentMethod,
-        gatewayResponse: {
-          status: 'created',
-          timestamp: new Date(),
-          orderId: razorpayOrder.id
-        }
-      }
-      
-      await order.save()
-      
-      res.json({
-        message: 'Payment order created successfully',
-        order: {
-          id: order._id,
-          status: order.status,
-          razorpayOrderId: razorpayOrder.id,
-          amount: order.totalAmount,
-          currency: 'INR'
-        },
-        razorpayOrder
-      })
-      
-    } catch (razorpayError) {
-      console.error('Razorpay order creation failed:', razorpayError)
       
-      // Fallback to simulation if Razorpay fails
-      const isPaymentSuccessful = await simulatePayment(order, paymentMethod)
-      
-      if (isPaymentSuccessful) {
-        order.status = 'COMPLETED'
-        order.paymentDetails = {
-          paymentId: paymentId || `SIM_PAY_${Date.now()}`,
-          paymentMethod,
-          gatewayResponse: {
-            status: 'success',
-            timestamp: new Date(),
-            transactionId: `SIM_TXN_${Date.now()}`,
-            note: 'Simulated payment (Razorpay unavailable)'
-          }
-        }
-        
-        await order.save()
-        
-        // Update user's gold assets
-        console.log('Updating user assets (fallback mode):', { grams: order.grams, pricePerGram: order.pricePerGram })
-        console.log('User before update:', { 
-          id: req.user._id, 
-          goldGrams: req.user.assets.goldGrams, 
-          totalInvested: req.user.assets.totalInvested 
+      case 'PENDING':
+        return res.status(202).json({
+          message: 'Payment is pending confirmation. We will update your order once it is confirmed.',
+          order: { id: paidOrder._id, status: paidOrder.status }
         })
-        
-        try {
-        await req.user.updateAssets(order.grams, order.pricePerGram)
-          console.log('User assets updated successfully (fallback mode)')
-        } catch (updateError) {
-          console.error('Error updating user assets:', updateError)
-          throw new Error(`Failed to update user assets: ${updateError.message}`)
-        }
-        
-        res.json({
-          message: 'Payment successful! Gold added to your portfolio.',
+      
+      default:
+        // Customer completes payment in the gateway checkout
+        return res.json({
+          message: 'Payment order created successfully',
           order: {
-            id: order._id,
-            status: order.status,
-            grams: order.grams,
-            amountINR: order.amountINR,
-            paymentId: order.paymentDetails.paymentId
+            id: paidOrder._id,
+            status: paidOrder.status,
+            razorpayOrderId: gatewayOrder.gatewayOrderId,
+            amount: paidOrder.totalAmount,
+            currency: 'INR'
           },
-          note: 'Processed via simulation (Razorpay configuration needed)'
-        })
-      } else {
-        order.status = 'FAILED'
-        order.paymentDetails = {
-          paymentId: paymentId || `SIM_FAIL_${Date.now()}`,
-          paymentMethod,
-          gatewayResponse: {
-            status: 'failed',
-            timestamp: new Date(),
-            error: 'Simulated payment failure'
-          }
-        }
-        
-        await order.save()
-        
-        res.status(400).json({ 
-          error: 'Payment failed',
-          order: {
-            id: order._id,
-            status: order.status
-          }
+          razorpayOrder: gatewayOrder.raw
         })
-      }
     }
   } catch (error) {
     console.error('Payment processing error:', error)
@@ -467,8 +674,8 @@ router.post('/orders/:orderId/pay', authenticateToken, async (req, res) => {
   }
 })
 
-// POST /api/gold/orders/:orderId/verify - Verify Razorpay payment
-router.post('/orders/:orderId/verify', authenticateToken, async (req, res) => {
+// POST /api/gold/orders/:orderId/verify - Verify a gateway checkout payment
+router.post('/orders/:orderId/verify', authenticateToken, idempotency, async (req, res) => {
   try {
     const { orderId } = req.params
     const { razorpay_order_id, razorpay_payment_id, razorpay_signature } = req.body
@@ -480,25 +687,31 @@ router.post('/orders/:orderId/verify', authenticateToken, async (req, res) => {
       return res.status(404).json({ error: 'Order not found' })
     }
     
-    // Check if Razorpay is configured for verification
-    if (!process.env.RAZORPAY_SECRET) {
-      return res.status(400).json({ 
-        error: 'Razorpay not configured for verification',
-        note: 'Configure RAZORPAY_SECRET in .env file'
-      })
+    const previousDetails = order.paymentDetails?.toObject?.() || {}
+    const gatewayOrderId = previousDetails.gatewayOrderId || previousDetails.razorpayOrderId
+    
+    // The checkout must belong to this order's gateway order; a signature alone
+    // could come from any other, cheaper payment
+    if (!gatewayOrderId) {
+      return res.status(400).json({ error: 'No payment has been started for this order' })
+    }
+    
+    if (gatewayOrderId !== razorpay_order_id) {
+      return res.status(400).json({ error: 'Payment does not belong to this order' })
     }
     
-    // Verify Razorpay signature
-    const crypto = require('crypto')
-    const hmac = crypto.createHmac('sha256', process.env.RAZORPAY_SECRET)
-    hmac.update(razorpay_order_id + '|' + razorpay_payment_id)
-    const generatedSignature = hmac.digest('hex')
+    // Verify the checkout signature with the payment gateway
+    const isValidPayment = await paymentGateway.verify({
+      gatewayOrderId: razorpay_order_id,
+      paymentId: razorpay_payment_id,
+      signature: razorpay_signature
+    })
     
-    if (generatedSignature === razorpay_signature) {
-      // Payment verified successfully
-      order.status = 'COMPLETED'
-      order.paymentDetails = {
-        ...order.paymentDetails,
+    if (isValidPayment) {
+      // Payment verified: complete the order and credit its grams exactly once.
+      // A valid signature means the payment succeeded, even after a failed attempt.
+      const settlement = await settlementService.completeBuyOrder(order._id, {
+        ...previousDetails,
         paymentId: razorpay_payment_id,
         razorpaySignature: razorpay_signature,
         gatewayResponse: {
@@ -507,42 +720,44 @@ router.post('/orders/:orderId/verify', authenticateToken, async (req, res) => {
           paymentId: razorpay_payment_id,
           orderId: razorpay_order_id
         }
-      }
-      
-      await order.save()
+      }, { statuses: ['PENDING', 'PROCESSING', 'FAILED'] })
+      const completedOrder = settlement.order
       
-      // Update user's gold assets
-      await req.user.updateAssets(order.grams, order.pricePerGram)
+      if (!settlement.settled && !settlement.alreadyCompleted) {
+        return res.status(409).json({ 
+          error: 'Order cannot be completed',
+          order: { id: completedOrder._id, status: completedOrder.status }
+        })
+      }
       
       res.json({
-        message: 'Payment verified successfully! Gold added to your portfolio.',
+        message: settlement.settled
+          ? 'Payment verified successfully! Gold added to your portfolio.'
+          : 'Payment already verified.',
         order: {
-          id: order._id,
-          status: order.status,
-          grams: order.grams,
-          amountINR: order.amountINR,
-          paymentId: razorpay_payment_id
+          id: completedOrder._id,
+          status: completedOrder.status,
+          grams: completedOrder.grams,
+          amountINR: completedOrder.amountINR,
+          paymentId: completedOrder.paymentDetails?.paymentId || razorpay_payment_id
         }
       })
     } else {
-      // Payment verification failed
-      order.status = 'FAILED'
-      order.paymentDetails = {
-        ...order.paymentDetails,
+      // Payment verification failed; a completed order stays completed
+      const failedOrder = await settlementService.failOrder(order._id, {
+        ...previousDetails,
         gatewayResponse: {
           status: 'verification_failed',
           timestamp: new Date(),
           error: 'Invalid signature'
         }
-      }
-      
-      await order.save()
+      })
       
       res.status(400).json({ 
         error: 'Payment verification failed',
         order: {
-          id: order._id,
-          status: order.status
+          id: failedOrder._id,
+          status: failedOrder.status
         }
       })
     }
@@ -552,14 +767,64 @@ router.post('/orders/:orderId/verify', authenticateToken, async (req, res) => {
   }
 })
 
+// POST /api/gold/orders/:orderId/cancel - Cancel an unpaid order
+router.post('/orders/:orderId/cancel', authenticateToken, async (req, res) => {
+  try {
+    const { orderId } = req.params
+    const userId = req.user._id
+    
+    if (!mongoose.Types.ObjectId.isValid(orderId)) {
+      return res.status(400).json({ error: 'Invalid order ID format' })
+    }
+    
+    const order = await Order.findOne({ _id: orderId, userId })
+    
+    if (!order) {
+      return res.status(404).json({ error: 'Order not found' })
+    }
+    
+    if (order.status !== 'PENDING') {
+      return res.status(400).json({ 
+        error: order.status === 'PROCESSING'
+          ? 'Payment is in progress; this order can no longer be cancelled'
+          : 'Only pending orders can be cancelled',
+        status: order.status
+      })
+    }
+    
+    const cancelledOrder = await settlementService.cancelOrder(order._id, {
+      reason: req.body?.reason || 'Cancelled by user',
+      cancelledBy: 'USER',
+      statuses: ['PENDING']
+    })
+    
+    if (cancelledOrder.status !== 'CANCELLED') {
+      return res.status(409).json({ error: 'Order changed before it could be cancelled', status: cancelledOrder.status })
+    }
+    
+    res.json({
+      message: 'Order cancelled',
+      order: {
+        id: cancelledOrder._id,
+        status: cancelledOrder.status,
+        cancellation: cancelledOrder.cancellation
+      }
+    })
+  } catch (error) {
+    console.error('Order cancel error:', error)
+    res.status(500).json({ error: 'Failed to cancel order' })
+  }
+})
+
 // GET /api/gold/orders - Get user's order history
 router.get('/orders', authenticateToken, async (req, res) => {
   try {
-    const { limit = 10, page = 1, status } = req.query
+    const { limit = 10, page = 1, status, type } = req.query
     const userId = req.user._id
     
     const query = { userId }
     if (status) query.status = status
+    if (type) query.type = type
     
     const orders = await Order.find(query)
       .sort({ createdAt: -1 })
@@ -571,12 +836,16 @@ router.get('/orders', authenticateToken, async (req, res) => {
     res.json({
       orders: orders.map(order => ({
         id: order._id,
+        type: order.type,
         amountINR: order.amountINR,
         grams: order.grams,
         pricePerGram: order.pricePerGram,
         status: order.status,
         createdAt: order.createdAt,
-        paymentMethod: order.paymentDetails?.paymentMethod
+        paymentMethod: order.paymentDetails?.paymentMethod,
+        payoutStatus: order.payout?.status,
+        giftId: order.giftId,
+        invoiceNumber: order.invoice?.number
       })),
       pagination: {
         total,
@@ -610,13 +879,39 @@ router.get('/orders/:orderId', authenticateToken, async (req, res) => {
   }
 })
 
-// Helper function to simulate payment processing
-async function simulatePayment(order, paymentMethod) {
-  // Simulate payment processing delay
-  await new Promise(resolve => setTimeout(resolve, 1000))
-  
-  // 95% success rate for simulation
-  return Math.random() > 0.05
-}
+// GET /api/gold/orders/:orderId/invoice.pdf - Tax invoice for a completed purchase
+router.get('/orders/:orderId/invoice.pdf', authenticateToken, async (req, res) => {
+  try {
+    const { orderId } = req.params
+
+    if (!mongoose.Types.ObjectId.isValid(orderId)) {
+      return res.status(400).json({ error: 'Invalid order ID format' })
+    }
+
+    const order = await Order.findOne({ _id: orderId, userId: req.user._id })
+
+    if (!order) {
+      return res.status(404).json({ error: 'Order not found' })
+    }
+
+    // Refunded purchases keep the invoice they were issued
+    if (order.type !== 'BUY' || !['COMPLETED', 'REFUND_PENDING', 'REFUNDED'].includes(order.status)) {
+      return res.status(400).json({ error: 'Invoices are available for completed purchases only' })
+    }
+
+    const invoiced = await invoiceService.ensureIssued(order)
+    const pdf = invoiceService.render(invoiced, req.user)
+
+    res.set({
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="invoice-${invoiced.invoice.number.replace(/\//g, '-')}.pdf"`,
+      'Content-Length': pdf.length
+    })
+    res.send(pdf)
+  } catch (error) {
+    console.error('Invoice error:', error)
+    res.status(500).json({ error: 'Failed to generate invoice' })
+  }
+})
 
 module.exports = router
\ No newline at end of file
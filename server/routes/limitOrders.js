@@ -0,0 +1,218 @@
+const express = require('express')
+const mongoose = require('mongoose')
+const LimitOrder = require('../models/LimitOrder')
+const goldPriceService = require('../services/goldPrice')
+const purchaseService = require('../services/purchase')
+const { authenticateToken } = require('../middleware/auth')
+const { validateRequest } = require('../middleware/errorHandler')
+const { goldSchemas, MIN_PURCHASE_AMOUNT, MAX_PURCHASE_AMOUNT } = require('../validation/schemas')
+
+const router = express.Router()
+
+const PAYMENT_METHODS = ['UPI', 'CARD', 'NET_BANKING', 'WALLET']
+const MAX_OPEN_LIMIT_ORDERS = 10
+const DEFAULT_EXPIRY_DAYS = 30
+const MAX_EXPIRY_DAYS = 90
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const findUserLimitOrder = (limitOrderId, userId) => {
+  if (!mongoose.Types.ObjectId.isValid(limitOrderId)) return null
+  return LimitOrder.findOne({ _id: limitOrderId, userId })
+}
+
+// Check amount, target and expiry; returns an error message or null
+const validateTerms = async ({ amountINR, targetPrice, expiresAt }) => {
+  if (amountINR !== undefined) {
+    if (!amountINR || amountINR < MIN_PURCHASE_AMOUNT) {
+      return `Minimum limit order amount is ₹${MIN_PURCHASE_AMOUNT.toLocaleString('en-IN')}`
+    }
+    if (amountINR > MAX_PURCHASE_AMOUNT) {
+      return `Maximum limit order amount is ₹${MAX_PURCHASE_AMOUNT.toLocaleString('en-IN')}`
+    }
+  }
+
+  if (targetPrice !== undefined) {
+    if (!targetPrice || targetPrice <= 0) {
+      return 'Invalid target price'
+    }
+
+    const { price } = await goldPriceService.getCurrentPrice()
+    if (targetPrice >= price) {
+      return `Target price must be below the current price of ₹${price.toLocaleString()}/g`
+    }
+  }
+
+  if (expiresAt !== undefined) {
+    if (isNaN(expiresAt.getTime()) || expiresAt <= new Date()) {
+      return 'Expiry must be a future date'
+    }
+    if (expiresAt - Date.now() > MAX_EXPIRY_DAYS * DAY_MS) {
+      return `Limit orders can last at most ${MAX_EXPIRY_DAYS} days`
+    }
+  }
+
+  return null
+}
+
+// GET /api/gold/limit-orders - List the user's limit orders
+router.get('/', authenticateToken, async (req, res) => {
+  try {
+    const { status } = req.query
+    const query = { userId: req.user._id }
+
+    if (status) {
+      query.status = status.toUpperCase()
+    }
+
+    const limitOrders = await LimitOrder.find(query).sort({ createdAt: -1 })
+
+    res.json({ limitOrders })
+  } catch (error) {
+    console.error('Limit orders fetch error:', error)
+    res.status(500).json({ error: 'Failed to fetch limit orders' })
+  }
+})
+
+// GET /api/gold/limit-orders/:limitOrderId - Limit order details with the order it placed
+router.get('/:limitOrderId', authenticateToken, async (req, res) => {
+  try {
+    const limitOrder = await findUserLimitOrder(req.params.limitOrderId, req.user._id)
+
+    if (!limitOrder) {
+      return res.status(404).json({ error: 'Limit order not found' })
+    }
+
+    await limitOrder.populate('orderId', 'status grams pricePerGram totalAmount createdAt completedAt')
+
+    res.json({ limitOrder })
+  } catch (error) {
+    console.error('Limit order fetch error:', error)
+    res.status(500).json({ error: 'Failed to fetch limit order' })
+  }
+})
+
+// POST /api/gold/limit-orders - Buy amountINR of gold once the price drops to targetPrice
+router.post('/', authenticateToken, validateRequest(goldSchemas.limitOrder), async (req, res) => {
+  try {
+    const { paymentMethod = 'UPI' } = req.body
+    const amountINR = parseFloat(req.body.amountINR)
+    const targetPrice = parseFloat(req.body.targetPrice)
+    const expiresAt = req.body.expiresAt
+      ? new Date(req.body.expiresAt)
+      : new Date(Date.now() + DEFAULT_EXPIRY_DAYS * DAY_MS)
+
+    if (!PAYMENT_METHODS.includes(paymentMethod)) {
+      return res.status(400).json({ error: 'Invalid payment method' })
+    }
+
+    // The order fires while the user is away, so it cannot wait on a checkout
+    if (paymentMethod !== 'WALLET' && purchaseService.gateway.requiresCheckout()) {
+      return res.status(400).json({ error: 'Limit orders must be paid from your wallet' })
+    }
+
+    const validationError = await validateTerms({ amountINR, targetPrice, expiresAt })
+    if (validationError) {
+      return res.status(400).json({ error: validationError })
+    }
+
+    const openCount = await LimitOrder.countDocuments({ userId: req.user._id, status: 'OPEN' })
+
+    if (openCount >= MAX_OPEN_LIMIT_ORDERS) {
+      return res.status(400).json({ error: `You can have at most ${MAX_OPEN_LIMIT_ORDERS} open limit orders` })
+    }
+
+    const limitOrder = new LimitOrder({
+      userId: req.user._id,
+      amountINR: Math.round(amountINR),
+      targetPrice: Math.round(targetPrice),
+      expiresAt,
+      paymentMethod
+    })
+
+    await limitOrder.save()
+
+    res.status(201).json({
+      message: 'Limit order created successfully',
+      limitOrder
+    })
+  } catch (error) {
+    console.error('Limit order create error:', error)
+    res.status(500).json({ error: 'Failed to create limit order' })
+  }
+})
+
+// PATCH /api/gold/limit-orders/:limitOrderId - Change the amount, target or expiry of an open order
+router.patch('/:limitOrderId', authenticateToken, validateRequest(goldSchemas.limitOrderUpdate), async (req, res) => {
+  try {
+    const limitOrder = await findUserLimitOrder(req.params.limitOrderId, req.user._id)
+
+    if (!limitOrder) {
+      return res.status(404).json({ error: 'Limit order not found' })
+    }
+
+    if (limitOrder.status !== 'OPEN') {
+      return res.status(400).json({ error: `Cannot modify a ${limitOrder.status.toLowerCase()} limit order` })
+    }
+
+    const updates = {}
+    if (req.body.amountINR !== undefined) updates.amountINR = parseFloat(req.body.amountINR)
+    if (req.body.targetPrice !== undefined) updates.targetPrice = parseFloat(req.body.targetPrice)
+    if (req.body.expiresAt !== undefined) updates.expiresAt = new Date(req.body.expiresAt)
+
+    if (Object.keys(updates).length === 0) {
+      return res.status(400).json({ error: 'Provide amountINR, targetPrice or expiresAt to update' })
+    }
+
+    const validationError = await validateTerms(updates)
+    if (validationError) {
+      return res.status(400).json({ error: validationError })
+    }
+
+    if (updates.amountINR) updates.amountINR = Math.round(updates.amountINR)
+    if (updates.targetPrice) updates.targetPrice = Math.round(updates.targetPrice)
+
+    // Only update while still open; the watcher may have fired it meanwhile
+    const updated = await LimitOrder.findOneAndUpdate(
+      { _id: limitOrder._id, status: 'OPEN' },
+      { $set: updates },
+      { new: true }
+    )
+
+    if (!updated) {
+      return res.status(409).json({ error: 'Limit order is no longer open' })
+    }
+
+    res.json({ message: 'Limit order updated', limitOrder: updated })
+  } catch (error) {
+    console.error('Limit order update error:', error)
+    res.status(500).json({ error: 'Failed to update limit order' })
+  }
+})
+
+// DELETE /api/gold/limit-orders/:limitOrderId - Cancel an open limit order
+router.delete('/:limitOrderId', authenticateToken, async (req, res) => {
+  try {
+    const limitOrder = await findUserLimitOrder(req.params.limitOrderId, req.user._id)
+
+    if (!limitOrder) {
+      return res.status(404).json({ error: 'Limit order not found' })
+    }
+
+    const cancelled = await LimitOrder.findOneAndUpdate(
+      { _id: limitOrder._id, status: 'OPEN' },
+      { $set: { status: 'CANCELLED', cancelledAt: new Date() } },
+      { new: true }
+    )
+
+    if (!cancelled) {
+      return res.status(400).json({ error: `Cannot cancel a ${limitOrder.status.toLowerCase()} limit order` })
+    }
+
+    res.json({ message: 'Limit order cancelled', limitOrder: cancelled })
+  } catch (error) {
+    console.error('Limit order cancel error:', error)
+    res.status(500).json({ error: 'Failed to cancel limit order' })
+  }
+})
+
+module.exports = router
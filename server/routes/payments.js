@@ -0,0 +1,264 @@
+const express = require('express')
+const crypto = require('crypto')
+const Order = require('../models/Order')
+const WalletTransaction = require('../models/WalletTransaction')
+const settlementService = require('../services/settlement')
+const walletService = require('../services/wallet')
+const { paymentGateway } = require('../services/paymentGateway')
+
+const router = express.Router()
+
+// Razorpay signs the exact request bytes, so this route reads the raw body
+const rawJson = express.raw({ type: 'application/json', limit: '1mb' })
+
+const isValidWebhookSignature = (rawBody, signature) => {
+  const secret = process.env.RAZORPAY_WEBHOOK_SECRET
+  if (!secret || !signature) return false
+
+  const expected = Buffer.from(crypto.createHmac('sha256', secret).update(rawBody).digest('hex'))
+  const actual = Buffer.from(signature)
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual)
+}
+
+const findOrderByRazorpayOrderId = (razorpayOrderId) => {
+  if (!razorpayOrderId) return null
+  return Order.findOne({ 'paymentDetails.razorpayOrderId': razorpayOrderId })
+}
+
+const findTopupByRazorpayOrderId = (razorpayOrderId) => {
+  if (!razorpayOrderId) return null
+  return WalletTransaction.findOne({ type: 'TOPUP', 'paymentDetails.gatewayOrderId': razorpayOrderId })
+}
+
+// payment.captured for a wallet top-up: credit the wallet
+const handleTopupCaptured = async (payment) => {
+  const topup = await findTopupByRazorpayOrderId(payment.order_id)
+
+  if (!topup) {
+    return { status: 'ignored', reason: 'No order for Razorpay order ID' }
+  }
+
+  if (payment.amount !== Math.round(topup.amount * 100)) {
+    console.error('Captured amount does not match top-up:', {
+      walletTransactionId: topup._id,
+      captured: payment.amount,
+      expected: Math.round(topup.amount * 100)
+    })
+    return { status: 'ignored', reason: 'Amount mismatch' }
+  }
+
+  const result = await walletService.completeTopup(topup._id, {
+    ...topup.paymentDetails?.toObject?.(),
+    paymentId: payment.id,
+    gatewayResponse: {
+      status: 'captured',
+      timestamp: new Date(),
+      paymentId: payment.id,
+      orderId: payment.order_id,
+      method: payment.method,
+      source: 'webhook'
+    }
+  })
+
+  return { status: result.settled ? 'settled' : 'already_settled', walletTransactionId: topup._id }
+}
+
+// payment.captured for an order the reconciler already cancelled: refund it
+const refundCapturedAfterCancel = async (order, payment) => {
+  const amount = payment.amount / 100
+  const claimed = await settlementService.startLateCaptureRefund(order._id, { paymentId: payment.id, amount })
+
+  if (!claimed) {
+    return { status: 'ignored', reason: 'Refund already requested', orderId: order._id }
+  }
+
+  try {
+    const gatewayRefund = await paymentGateway.refund({ paymentId: payment.id, amount })
+    await settlementService.recordRefundAttempt(order._id, {
+      refundId: gatewayRefund.refundId,
+      processedAt: gatewayRefund.status === 'PROCESSED' ? new Date() : undefined
+    }, { statuses: ['CANCELLED'] })
+
+    return { status: 'refunding', orderId: order._id }
+  } catch (gatewayError) {
+    console.error('Refund of payment on cancelled order failed:', {
+      orderId: order._id,
+      paymentId: payment.id,
+      error: gatewayError.message
+    })
+    await settlementService.recordRefundAttempt(order._id, {
+      failureReason: gatewayError.message
+    }, { statuses: ['CANCELLED'] })
+
+    return { status: 'refund_failed', orderId: order._id }
+  }
+}
+
+// payment.captured - money received: settle the order or top-up
+const handlePaymentCaptured = async (payload) => {
+  const payment = payload.payment?.entity || {}
+  const order = await findOrderByRazorpayOrderId(payment.order_id)
+
+  if (!order) {
+    return handleTopupCaptured(payment)
+  }
+
+  if (payment.amount !== Math.round(order.totalAmount * 100)) {
+    console.error('Captured amount does not match order:', {
+      orderId: order._id,
+      captured: payment.amount,
+      expected: Math.round(order.totalAmount * 100)
+    })
+    return { status: 'ignored', reason: 'Amount mismatch' }
+  }
+
+  if (order.status === 'CANCELLED') {
+    return refundCapturedAfterCancel(order, payment)
+  }
+
+  const settlement = await settlementService.completeBuyOrder(order._id, {
+    ...order.paymentDetails?.toObject?.(),
+    paymentId: payment.id,
+    gatewayResponse: {
+      status: 'captured',
+      timestamp: new Date(),
+      paymentId: payment.id,
+      orderId: payment.order_id,
+      method: payment.method,
+      source: 'webhook'
+    }
+  }, { statuses: ['PENDING', 'PROCESSING', 'FAILED'] })
+
+  return { status: settlement.settled ? 'settled' : 'already_settled', orderId: order._id }
+}
+
+// payment.failed - this attempt failed; the order stays payable until it is settled
+const handlePaymentFailed = async (payload) => {
+  const payment = payload.payment?.entity || {}
+  const order = await findOrderByRazorpayOrderId(payment.order_id)
+
+  if (!order) {
+    const topup = await findTopupByRazorpayOrderId(payment.order_id)
+    if (!topup) {
+      return { status: 'ignored', reason: 'No order for Razorpay order ID' }
+    }
+
+    const failedTopup = await walletService.failTopup(topup._id, {
+      ...topup.paymentDetails?.toObject?.(),
+      paymentId: payment.id,
+      gatewayResponse: {
+        status: 'failed',
+        timestamp: new Date(),
+        error: payment.error_description || payment.error_code,
+        source: 'webhook'
+      }
+    })
+    return { status: failedTopup.status === 'FAILED' ? 'failed' : 'ignored', walletTransactionId: topup._id }
+  }
+
+  const failedOrder = await settlementService.failOrder(order._id, {
+    ...order.paymentDetails?.toObject?.(),
+    paymentId: payment.id,
+    gatewayResponse: {
+      status: 'failed',
+      timestamp: new Date(),
+      paymentId: payment.id,
+      orderId: payment.order_id,
+      error: payment.error_description || payment.error_code,
+      source: 'webhook'
+    }
+  })
+
+  return { status: failedOrder.status === 'FAILED' ? 'failed' : 'ignored', orderId: order._id }
+}
+
+// refund.processed - money returned to the buyer: take the grams back
+const handleRefundProcessed = async (payload) => {
+  const refund = payload.refund?.entity || {}
+  const payment = payload.payment?.entity || {}
+  const order = await findOrderByRazorpayOrderId(payment.order_id) ||
+    await Order.findOne({ 'paymentDetails.paymentId': refund.payment_id })
+
+  if (!order) {
+    return { status: 'ignored', reason: 'No order for refunded payment' }
+  }
+
+  const refundAmount = refund.amount / 100
+
+  // Late payment on a cancelled order; no grams to take back
+  if (order.status === 'CANCELLED') {
+    const refunded = await settlementService.recordRefundAttempt(order._id, {
+      refundId: refund.id,
+      processedAt: refund.created_at ? new Date(refund.created_at * 1000) : new Date()
+    }, { statuses: ['CANCELLED'] })
+    return { status: refunded ? 'refunded' : 'ignored', orderId: order._id }
+  }
+
+  // Partial refunds are adjustments, not a reversal of the purchase
+  if (refundAmount < order.totalAmount) {
+    console.warn('Partial refund received, order left unchanged:', { orderId: order._id, refundAmount })
+    return { status: 'ignored', reason: 'Partial refund', orderId: order._id }
+  }
+
+  const result = await settlementService.completeRefund(order._id, {
+    refundId: refund.id,
+    amount: refundAmount,
+    processedAt: refund.created_at ? new Date(refund.created_at * 1000) : new Date()
+  })
+
+  return { status: result.refunded ? 'refunded' : 'ignored', orderId: order._id }
+}
+
+const handlers = {
+  'payment.captured': handlePaymentCaptured,
+  'payment.failed': handlePaymentFailed,
+  'refund.processed': handleRefundProcessed
+}
+
+// POST /api/payments/razorpay/webhook - Asynchronous payment events from Razorpay
+router.post('/razorpay/webhook', rawJson, async (req, res) => {
+  try {
+    if (!process.env.RAZORPAY_WEBHOOK_SECRET) {
+      console.error('Razorpay webhook received but RAZORPAY_WEBHOOK_SECRET is not configured')
+      return res.status(503).json({ error: 'Webhook not configured' })
+    }
+
+    const rawBody = Buffer.isBuffer(req.body) ? req.body : Buffer.from('')
+
+    if (!isValidWebhookSignature(rawBody, req.get('X-Razorpay-Signature'))) {
+      return res.status(400).json({ error: 'Invalid webhook signature' })
+    }
+
+    let event
+    try {
+      event = JSON.parse(rawBody.toString('utf8'))
+    } catch (parseError) {
+      return res.status(400).json({ error: 'Invalid webhook payload' })
+    }
+
+    const handler = handlers[event.event]
+
+    if (!handler) {
+      return res.json({ received: true, status: 'ignored', reason: `Unhandled event ${event.event}` })
+    }
+
+    const result = await handler(event.payload || {})
+    console.log('Razorpay webhook processed:', {
+      event: event.event,
+      eventId: req.get('X-Razorpay-Event-Id'),
+      ...result
+    })
+
+    res.json({ received: true, ...result })
+  } catch (error) {
+    // Business rejections are acknowledged so Razorpay does not retry them forever
+    if (error.status === 400) {
+      console.error('Razorpay webhook rejected:', error.message)
+      return res.json({ received: true, status: 'rejected', reason: error.message })
+    }
+    console.error('Razorpay webhook error:', error)
+    res.status(500).json({ error: 'Failed to process webhook' })
+  }
+})
+
+module.exports = router
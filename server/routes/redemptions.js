@@ -0,0 +1,134 @@
+const express = require('express')
+const mongoose = require('mongoose')
+const Redemption = require('../models/Redemption')
+const redemptionService = require('../services/redemption')
+const { authenticateToken } = require('../middleware/auth')
+const { idempotency } = require('../middleware/idempotency')
+
+const router = express.Router()
+
+// GET /api/redemptions/catalogue - Coins available for delivery
+router.get('/catalogue', (req, res) => {
+  res.json({ products: redemptionService.getCatalogue() })
+})
+
+// GET /api/redemptions - The user's redemptions, newest first
+router.get('/', authenticateToken, async (req, res) => {
+  try {
+    const { limit = 10, page = 1, status } = req.query
+    const query = { userId: req.user._id }
+
+    if (status) {
+      const validStatuses = Redemption.schema.path('status').enumValues
+      if (!validStatuses.includes(status)) {
+        return res.status(400).json({ error: `Invalid status. Use ${validStatuses.join(', ')}` })
+      }
+      query.status = status
+    }
+
+    const [redemptions, total] = await Promise.all([
+      Redemption.find(query)
+        .sort({ createdAt: -1 })
+        .limit(parseInt(limit))
+        .skip((parseInt(page) - 1) * parseInt(limit)),
+      Redemption.countDocuments(query)
+    ])
+
+    res.json({
+      redemptions,
+      pagination: {
+        total,
+        page: parseInt(page),
+        limit: parseInt(limit),
+        totalPages: Math.ceil(total / parseInt(limit))
+      }
+    })
+  } catch (error) {
+    console.error('Redemption list error:', error)
+    res.status(500).json({ error: 'Failed to fetch redemptions' })
+  }
+})
+
+// GET /api/redemptions/:redemptionId - One redemption with its stages
+router.get('/:redemptionId', authenticateToken, async (req, res) => {
+  try {
+    const { redemptionId } = req.params
+
+    if (!mongoose.Types.ObjectId.isValid(redemptionId)) {
+      return res.status(400).json({ error: 'Invalid redemption ID format' })
+    }
+
+    const redemption = await Redemption.findOne({ _id: redemptionId, userId: req.user._id })
+
+    if (!redemption) {
+      return res.status(404).json({ error: 'Redemption not found' })
+    }
+
+    res.json({ redemption })
+  } catch (error) {
+    console.error('Redemption fetch error:', error)
+    res.status(500).json({ error: 'Failed to fetch redemption' })
+  }
+})
+
+// POST /api/redemptions - Redeem grams as coins delivered to a saved address
+router.post('/', authenticateToken, idempotency, async (req, res) => {
+  try {
+    const { items, addressId } = req.body
+
+    if (addressId && !mongoose.Types.ObjectId.isValid(addressId)) {
+      return res.status(400).json({ error: 'Invalid address ID format' })
+    }
+
+    const { redemption, assets, wallet } = await redemptionService.placeRedemption(req.user, { items, addressId })
+
+    res.status(201).json({
+      message: `Redemption placed. ${redemption.totalGrams}g of gold is reserved for delivery.`,
+      redemption,
+      assets,
+      wallet
+    })
+  } catch (error) {
+    if (error.status === 400) {
+      return res.status(400).json({ error: error.message, available: error.available })
+    }
+    console.error('Redemption create error:', error)
+    res.status(500).json({ error: 'Failed to place redemption' })
+  }
+})
+
+// POST /api/redemptions/:redemptionId/cancel - Cancel a redemption that has not been packed
+router.post('/:redemptionId/cancel', authenticateToken, async (req, res) => {
+  try {
+    const { redemptionId } = req.params
+
+    if (!mongoose.Types.ObjectId.isValid(redemptionId)) {
+      return res.status(400).json({ error: 'Invalid redemption ID format' })
+    }
+
+    const { redemption, assets } = await redemptionService.cancel(redemptionId, {
+      userId: req.user._id,
+      reason: req.body?.reason || 'Cancelled by user',
+      cancelledBy: 'USER'
+    })
+
+    if (!redemption) {
+      const existing = await Redemption.findOne({ _id: redemptionId, userId: req.user._id })
+      if (!existing) {
+        return res.status(404).json({ error: 'Redemption not found' })
+      }
+      return res.status(400).json({ error: `Cannot cancel a ${existing.status.toLowerCase()} redemption` })
+    }
+
+    res.json({
+      message: 'Redemption cancelled. The gold and making charges are back in your account.',
+      redemption,
+      assets
+    })
+  } catch (error) {
+    console.error('Redemption cancel error:', error)
+    res.status(500).json({ error: 'Failed to cancel redemption' })
+  }
+})
+
+module.exports = router
@@ -0,0 +1,198 @@
+const express = require('express')
+const mongoose = require('mongoose')
+const Sip = require('../models/Sip')
+const Order = require('../models/Order')
+const purchaseService = require('../services/purchase')
+const { authenticateToken } = require('../middleware/auth')
+
+const router = express.Router()
+
+const FREQUENCIES = ['DAILY', 'WEEKLY', 'MONTHLY']
+const PAYMENT_METHODS = ['UPI', 'CARD', 'NET_BANKING', 'WALLET']
+const MAX_ACTIVE_SIPS = 10
+
+const startOfToday = () => {
+  const today = new Date()
+  today.setUTCHours(0, 0, 0, 0)
+  return today
+}
+
+const findUserSip = (sipId, userId) => {
+  if (!mongoose.Types.ObjectId.isValid(sipId)) return null
+  return Sip.findOne({ _id: sipId, userId })
+}
+
+// GET /api/sips - List the user's plans
+router.get('/', authenticateToken, async (req, res) => {
+  try {
+    const sips = await Sip.find({ userId: req.user._id }).sort({ createdAt: -1 })
+
+    res.json({ sips })
+  } catch (error) {
+    console.error('SIP list error:', error)
+    res.status(500).json({ error: 'Failed to fetch SIPs' })
+  }
+})
+
+// GET /api/sips/:sipId - Plan details with its recent orders
+router.get('/:sipId', authenticateToken, async (req, res) => {
+  try {
+    const sip = await findUserSip(req.params.sipId, req.user._id)
+
+    if (!sip) {
+      return res.status(404).json({ error: 'SIP not found' })
+    }
+
+    const orders = await Order.find({ sipId: sip._id })
+      .sort({ createdAt: -1 })
+      .limit(12)
+      .select('amountINR grams pricePerGram totalAmount status createdAt completedAt')
+
+    res.json({ sip, orders })
+  } catch (error) {
+    console.error('SIP fetch error:', error)
+    res.status(500).json({ error: 'Failed to fetch SIP' })
+  }
+})
+
+// POST /api/sips - Start a new plan
+router.post('/', authenticateToken, async (req, res) => {
+  try {
+    const { amountINR, frequency, startDate, paymentMethod = 'UPI' } = req.body
+    const amount = parseFloat(amountINR)
+
+    if (!amount || amount < 100) {
+      return res.status(400).json({ error: 'Minimum SIP amount is ₹100' })
+    }
+
+    if (!FREQUENCIES.includes(frequency)) {
+      return res.status(400).json({ error: `Invalid frequency. Use ${FREQUENCIES.join(', ')}` })
+    }
+
+    if (!PAYMENT_METHODS.includes(paymentMethod)) {
+      return res.status(400).json({ error: 'Invalid payment method' })
+    }
+
+    // Instalments are bought while the user is away, so they cannot wait on a checkout
+    if (paymentMethod !== 'WALLET' && purchaseService.gateway.requiresCheckout()) {
+      return res.status(400).json({ error: 'SIPs must be paid from your wallet' })
+    }
+
+    const start = startDate ? new Date(startDate) : new Date()
+
+    if (isNaN(start.getTime())) {
+      return res.status(400).json({ error: 'Invalid start date' })
+    }
+
+    if (start < startOfToday()) {
+      return res.status(400).json({ error: 'Start date cannot be in the past' })
+    }
+
+    const activeCount = await Sip.countDocuments({
+      userId: req.user._id,
+      status: { $in: ['ACTIVE', 'PAUSED'] }
+    })
+
+    if (activeCount >= MAX_ACTIVE_SIPS) {
+      return res.status(400).json({ error: `You can have at most ${MAX_ACTIVE_SIPS} SIPs` })
+    }
+
+    const sip = new Sip({
+      userId: req.user._id,
+      amountINR: Math.round(amount),
+      frequency,
+      startDate: start,
+      nextRunAt: start,
+      paymentMethod
+    })
+
+    await sip.save()
+
+    res.status(201).json({
+      message: 'SIP created successfully',
+      sip
+    })
+  } catch (error) {
+    console.error('SIP create error:', error)
+    res.status(500).json({ error: 'Failed to create SIP' })
+  }
+})
+
+// POST /api/sips/:sipId/pause - Stop scheduled purchases until resumed
+router.post('/:sipId/pause', authenticateToken, async (req, res) => {
+  try {
+    const sip = await findUserSip(req.params.sipId, req.user._id)
+
+    if (!sip) {
+      return res.status(404).json({ error: 'SIP not found' })
+    }
+
+    if (sip.status !== 'ACTIVE') {
+      return res.status(400).json({ error: `Cannot pause a ${sip.status.toLowerCase()} SIP` })
+    }
+
+    sip.status = 'PAUSED'
+    sip.pausedAt = new Date()
+    await sip.save()
+
+    res.json({ message: 'SIP paused', sip })
+  } catch (error) {
+    console.error('SIP pause error:', error)
+    res.status(500).json({ error: 'Failed to pause SIP' })
+  }
+})
+
+// POST /api/sips/:sipId/resume - Restart a paused plan; runs missed while paused are skipped
+router.post('/:sipId/resume', authenticateToken, async (req, res) => {
+  try {
+    const sip = await findUserSip(req.params.sipId, req.user._id)
+
+    if (!sip) {
+      return res.status(404).json({ error: 'SIP not found' })
+    }
+
+    if (sip.status !== 'PAUSED') {
+      return res.status(400).json({ error: `Cannot resume a ${sip.status.toLowerCase()} SIP` })
+    }
+
+    if (sip.paymentMethod !== 'WALLET' && purchaseService.gateway.requiresCheckout()) {
+      return res.status(400).json({ error: 'SIPs must be paid from your wallet. Start a wallet-funded SIP instead.' })
+    }
+
+    sip.status = 'ACTIVE'
+    sip.pausedAt = undefined
+    sip.nextRunAt = sip.getNextRunAfter(new Date())
+    await sip.save()
+
+    res.json({ message: 'SIP resumed', sip })
+  } catch (error) {
+    console.error('SIP resume error:', error)
+    res.status(500).json({ error: 'Failed to resume SIP' })
+  }
+})
+
+// POST /api/sips/:sipId/cancel - End a plan; orders already placed are unaffected
+router.post('/:sipId/cancel', authenticateToken, async (req, res) => {
+  try {
+    const sip = await findUserSip(req.params.sipId, req.user._id)
+
+    if (!sip) {
+      return res.status(404).json({ error: 'SIP not found' })
+    }
+
+    if (sip.status === 'CANCELLED') {
+      return res.status(400).json({ error: 'SIP is already cancelled' })
+    }
+
+    sip.status = 'CANCELLED'
+    sip.cancelledAt = new Date()
+    await sip.save()
+
+    res.json({ message: 'SIP cancelled', sip })
+  } catch (error) {
+    console.error('SIP cancel error:', error)
+    res.status(500).json({ error: 'Failed to cancel SIP' })
+  }
+})
+
+module.exports = router
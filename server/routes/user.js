@@ -1,8 +1,18 @@
 const express = require('express')
+const mongoose = require('mongoose')
 const User = require('../models/User')
 const Order = require('../models/Order')
+const Notification = require('../models/Notification')
+const Redemption = require('../models/Redemption')
+const notificationService = require('../services/notifications')
 const goldPriceService = require('../services/goldPrice')
+const ledgerService = require('../services/ledger')
+const taxStatementService = require('../services/taxStatement')
+const holdingLotService = require('../services/holdingLots')
+const analyticsService = require('../services/analytics')
 const { authenticateToken } = require('../middleware/auth')
+const { validateRequest } = require('../middleware/errorHandler')
+const { userSchemas } = require('../validation/schemas')
 
 const router = express.Router()
 
@@ -28,14 +38,30 @@ router.get('/portfolio', authenticateToken, async (req, res) => {
       : 0
     
     // Get recent transactions
-    const recentOrders = await Order.find({ userId, status: 'COMPLETED' })
+    const recentOrders = await Order.find({
+      userId,
+      status: { $in: ['PENDING', 'PROCESSING', 'COMPLETED', 'REFUND_PENDING', 'REFUNDED'] }
+    })
       .sort({ createdAt: -1 })
       .limit(5)
     
-    // Calculate today's P&L based on actual price movements
-    // Note: In production, this would be calculated from actual historical price data
-    const todayChange = 0
-    const todayChangePercent = 0
+    // Calculate today's P&L from the day-over-day gold price movement
+    const priceChange = await goldPriceService.getPriceChange(currentPrice)
+    const todayChange = priceChange.previousPrice
+      ? user.assets.goldGrams * (currentPrice - priceChange.previousPrice)
+      : 0
+    const todayChangePercent = priceChange.changePercent
+    
+    const wallet = await ledgerService.getWalletBalance(userId)
+    
+    // Coin deliveries with their fulfilment stages
+    const redemptions = await Redemption.find({ userId, status: { $ne: 'CANCELLED' } })
+      .sort({ createdAt: -1 })
+      .limit(5)
+    
+    // Holdings by purchase, each with its own P&L
+    await holdingLotService.ensureOpeningLot(userId, user.assets)
+    const lots = await holdingLotService.getOpenLots(userId, currentPrice)
     
     const portfolio = {
       summary: {
@@ -51,17 +77,31 @@ router.get('/portfolio', authenticateToken, async (req, res) => {
       todayPerformance: {
         change: Math.round(todayChange),
         changePercent: parseFloat(todayChangePercent.toString()),
-        trend: todayChange >= 0 ? 'up' : 'down'
+        trend: priceChange.trend,
+        previousPrice: priceChange.previousPrice
       },
       recentTransactions: recentOrders.map(order => ({
         id: order._id,
         date: order.createdAt,
-        type: 'BUY',
+        type: order.type,
         amountINR: order.amountINR,
         grams: order.grams,
         pricePerGram: order.pricePerGram,
-        status: order.status
+        status: order.status,
+        payoutStatus: order.payout?.status
+      })),
+      wallet,
+      redemptions: redemptions.map(redemption => ({
+        id: redemption._id,
+        items: redemption.items,
+        totalGrams: redemption.totalGrams,
+        makingCharges: redemption.makingCharges,
+        status: redemption.status,
+        stages: redemption.statusHistory,
+        shipment: redemption.shipment,
+        createdAt: redemption.createdAt
       })),
+      lots,
       goalProgress: {
         target: user.preferences.investmentGoal,
         achieved: user.assets.totalInvested,
@@ -76,4 +116,250 @@ router.get('/portfolio', authenticateToken, async (req, res) => {
   }
 })
 
+// GET /api/user/analytics?period=1d|1w|1m|1y|all - Returns, XIRR and purchase performance
+router.get('/analytics', authenticateToken, validateRequest(userSchemas.analytics), async (req, res) => {
+  try {
+    await holdingLotService.ensureOpeningLot(req.user._id, req.user.assets)
+    const analytics = await analyticsService.getAnalytics(req.user._id, req.query.period)
+    res.json({ analytics })
+  } catch (error) {
+    console.error('Analytics error:', error)
+    res.status(500).json({ error: 'Failed to compute portfolio analytics' })
+  }
+})
+
+// GET /api/user/tax-statement?fy=2025-26&format=json|csv|pdf - Capital gains for a financial year
+router.get('/tax-statement', authenticateToken, async (req, res) => {
+  try {
+    const { fy, format = 'json' } = req.query
+
+    if (!['json', 'csv', 'pdf'].includes(format)) {
+      return res.status(400).json({ error: 'Format must be json, csv or pdf' })
+    }
+
+    await holdingLotService.ensureOpeningLot(req.user._id, req.user.assets)
+    const statement = await taxStatementService.build(req.user._id, fy)
+    const filename = `tax-statement-FY${statement.financialYear}`
+
+    if (format === 'csv') {
+      res.set({
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}.csv"`
+      })
+      return res.send(taxStatementService.toCsv(statement))
+    }
+
+    if (format === 'pdf') {
+      const pdf = taxStatementService.toPdf(statement, req.user)
+      res.set({
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${filename}.pdf"`,
+        'Content-Length': pdf.length
+      })
+      return res.send(pdf)
+    }
+
+    res.json({ statement })
+  } catch (error) {
+    if (error.status === 400) {
+      return res.status(400).json({ error: error.message })
+    }
+    console.error('Tax statement error:', error)
+    res.status(500).json({ error: 'Failed to generate tax statement' })
+  }
+})
+
+// GET /api/user/portfolio/history?range=1d|1w|1m|1y|all - Holdings value and invested capital over time
+router.get('/portfolio/history', authenticateToken, validateRequest(userSchemas.portfolioHistory), async (req, res) => {
+  try {
+    await holdingLotService.ensureOpeningLot(req.user._id, req.user.assets)
+    const history = await analyticsService.getHistory(req.user._id, req.query.range)
+    res.json({ history })
+  } catch (error) {
+    console.error('Portfolio history error:', error)
+    res.status(500).json({ error: 'Failed to fetch portfolio history' })
+  }
+})
+
+const ADDRESS_FIELDS = ['label', 'fullName', 'phone', 'line1', 'line2', 'city', 'state', 'pincode']
+const MAX_ADDRESSES = 5
+
+const pickAddress = (body) => ADDRESS_FIELDS.reduce((address, field) => {
+  if (body[field] !== undefined) address[field] = typeof body[field] === 'string' ? body[field].trim() : body[field]
+  return address
+}, {})
+
+// Only one address can be the default; the first one saved always is
+const setDefaultAddress = (user, addressId) => {
+  user.addresses.forEach(address => {
+    address.isDefault = address._id.equals(addressId)
+  })
+}
+
+// GET /api/user/addresses - Saved delivery addresses
+router.get('/addresses', authenticateToken, (req, res) => {
+  res.json({ addresses: req.user.addresses })
+})
+
+// POST /api/user/addresses - Save a delivery address
+router.post('/addresses', authenticateToken, async (req, res) => {
+  try {
+    const user = req.user
+
+    if (user.addresses.length >= MAX_ADDRESSES) {
+      return res.status(400).json({ error: `You can save up to ${MAX_ADDRESSES} addresses` })
+    }
+
+    user.addresses.push(pickAddress(req.body))
+    const address = user.addresses[user.addresses.length - 1]
+
+    if (req.body.isDefault || user.addresses.length === 1) {
+      setDefaultAddress(user, address._id)
+    }
+
+    await user.save()
+
+    res.status(201).json({ message: 'Address saved', address, addresses: user.addresses })
+  } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ error: 'Invalid address. Check the phone number and 6-digit pincode.' })
+    }
+    console.error('Address create error:', error)
+    res.status(500).json({ error: 'Failed to save address' })
+  }
+})
+
+// PUT /api/user/addresses/:addressId - Update a saved address
+router.put('/addresses/:addressId', authenticateToken, async (req, res) => {
+  try {
+    const user = req.user
+    const { addressId } = req.params
+
+    if (!mongoose.Types.ObjectId.isValid(addressId)) {
+      return res.status(400).json({ error: 'Invalid address ID format' })
+    }
+
+    const address = user.addresses.id(addressId)
+
+    if (!address) {
+      return res.status(404).json({ error: 'Address not found' })
+    }
+
+    address.set(pickAddress(req.body))
+    if (req.body.isDefault) {
+      setDefaultAddress(user, address._id)
+    }
+
+    await user.save()
+
+    res.json({ message: 'Address updated', address, addresses: user.addresses })
+  } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ error: 'Invalid address. Check the phone number and 6-digit pincode.' })
+    }
+    console.error('Address update error:', error)
+    res.status(500).json({ error: 'Failed to update address' })
+  }
+})
+
+// DELETE /api/user/addresses/:addressId - Remove a saved address
+router.delete('/addresses/:addressId', authenticateToken, async (req, res) => {
+  try {
+    const user = req.user
+    const { addressId } = req.params
+
+    if (!mongoose.Types.ObjectId.isValid(addressId)) {
+      return res.status(400).json({ error: 'Invalid address ID format' })
+    }
+
+    const address = user.addresses.id(addressId)
+
+    if (!address) {
+      return res.status(404).json({ error: 'Address not found' })
+    }
+
+    const wasDefault = address.isDefault
+    address.deleteOne()
+    if (wasDefault && user.addresses.length > 0) {
+      setDefaultAddress(user, user.addresses[0]._id)
+    }
+
+    await user.save()
+
+    res.json({ message: 'Address removed', addresses: user.addresses })
+  } catch (error) {
+    console.error('Address delete error:', error)
+    res.status(500).json({ error: 'Failed to remove address' })
+  }
+})
+
+// GET /api/user/notifications - List notifications, newest first
+router.get('/notifications', authenticateToken, async (req, res) => {
+  try {
+    const { limit = 20, page = 1, unread } = req.query
+    const userId = req.user._id
+
+    const query = { userId }
+    if (unread === 'true') query.readAt = null
+
+    const notifications = await Notification.find(query)
+      .sort({ createdAt: -1 })
+      .limit(parseInt(limit))
+      .skip((parseInt(page) - 1) * parseInt(limit))
+
+    const [total, unreadCount] = await Promise.all([
+      Notification.countDocuments(query),
+      Notification.countDocuments({ userId, readAt: null })
+    ])
+
+    res.json({
+      notifications,
+      unreadCount,
+      pagination: {
+        total,
+        page: parseInt(page),
+        limit: parseInt(limit),
+        totalPages: Math.ceil(total / parseInt(limit))
+      }
+    })
+  } catch (error) {
+    console.error('Notifications fetch error:', error)
+    res.status(500).json({ error: 'Failed to fetch notifications' })
+  }
+})
+
+// POST /api/user/notifications/read-all - Mark every notification as read
+router.post('/notifications/read-all', authenticateToken, async (req, res) => {
+  try {
+    const updated = await notificationService.markAllRead(req.user._id)
+
+    res.json({ message: 'Notifications marked as read', updated })
+  } catch (error) {
+    console.error('Notifications update error:', error)
+    res.status(500).json({ error: 'Failed to update notifications' })
+  }
+})
+
+// POST /api/user/notifications/:notificationId/read - Mark one notification as read
+router.post('/notifications/:notificationId/read', authenticateToken, async (req, res) => {
+  try {
+    const { notificationId } = req.params
+
+    if (!mongoose.Types.ObjectId.isValid(notificationId)) {
+      return res.status(400).json({ error: 'Invalid notification ID format' })
+    }
+
+    const notification = await notificationService.markRead(req.user._id, notificationId)
+
+    if (!notification) {
+      return res.status(404).json({ error: 'Notification not found' })
+    }
+
+    res.json({ notification })
+  } catch (error) {
+    console.error('Notification update error:', error)
+    res.status(500).json({ error: 'Failed to update notification' })
+  }
+})
+
 module.exports = router
\ No newline at end of file
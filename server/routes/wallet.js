@@ -0,0 +1,227 @@
+const express = require('express')
+const mongoose = require('mongoose')
+const WalletTransaction = require('../models/WalletTransaction')
+const walletService = require('../services/wallet')
+const { authenticateToken } = require('../middleware/auth')
+const { idempotency } = require('../middleware/idempotency')
+
+const router = express.Router()
+
+const PAYMENT_METHODS = ['UPI', 'CARD', 'NET_BANKING']
+
+const findUserWalletTransaction = (walletTransactionId, userId, type) => {
+  if (!mongoose.Types.ObjectId.isValid(walletTransactionId)) return null
+  return WalletTransaction.findOne({ _id: walletTransactionId, userId, type })
+}
+
+const formatWalletTransaction = (walletTransaction) => ({
+  id: walletTransaction._id,
+  type: walletTransaction.type,
+  amount: walletTransaction.amount,
+  status: walletTransaction.status,
+  paymentMethod: walletTransaction.paymentDetails?.paymentMethod,
+  withdrawal: walletTransaction.type === 'WITHDRAWAL' ? walletTransaction.withdrawal : undefined,
+  createdAt: walletTransaction.createdAt,
+  completedAt: walletTransaction.completedAt
+})
+
+// GET /api/wallet - Balance with open top-ups and withdrawals
+router.get('/', authenticateToken, async (req, res) => {
+  try {
+    const userId = req.user._id
+
+    const [wallet, openRequests] = await Promise.all([
+      walletService.getBalance(userId),
+      WalletTransaction.find({ userId, status: { $in: ['PENDING', 'PROCESSING'] } }).sort({ createdAt: -1 })
+    ])
+
+    res.json({
+      wallet: {
+        ...wallet,
+        currency: 'INR'
+      },
+      openRequests: openRequests.map(formatWalletTransaction)
+    })
+  } catch (error) {
+    console.error('Wallet fetch error:', error)
+    res.status(500).json({ error: 'Failed to fetch wallet' })
+  }
+})
+
+// GET /api/wallet/transactions - Credits and debits of the wallet, newest first
+router.get('/transactions', authenticateToken, async (req, res) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit) || 20, 100)
+    const page = Math.max(parseInt(req.query.page) || 1, 1)
+
+    const { transactions, total } = await walletService.getHistory(req.user._id, { limit, page })
+
+    res.json({
+      transactions,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit)
+      }
+    })
+  } catch (error) {
+    console.error('Wallet history error:', error)
+    res.status(500).json({ error: 'Failed to fetch wallet transactions' })
+  }
+})
+
+// POST /api/wallet/topup - Add money through the payment gateway
+router.post('/topup', authenticateToken, idempotency, async (req, res) => {
+  try {
+    const { amount, paymentMethod = 'UPI' } = req.body
+
+    if (!PAYMENT_METHODS.includes(paymentMethod)) {
+      return res.status(400).json({ error: 'Invalid payment method' })
+    }
+
+    const { outcome, walletTransaction, gatewayOrder } = await walletService.createTopup(req.user._id, {
+      amount,
+      paymentMethod
+    })
+
+    switch (outcome) {
+      case 'COMPLETED':
+        return res.status(201).json({
+          message: `₹${walletTransaction.amount.toLocaleString()} added to your wallet.`,
+          topup: formatWalletTransaction(walletTransaction),
+          wallet: await walletService.getBalance(req.user._id)
+        })
+
+      case 'FAILED':
+        return res.status(400).json({
+          error: 'Payment failed',
+          topup: formatWalletTransaction(walletTransaction)
+        })
+
+      case 'PENDING':
+      case 'TIMEOUT':
+        return res.status(202).json({
+          message: 'Payment is pending confirmation. Your wallet will be credited once it is confirmed.',
+          topup: formatWalletTransaction(walletTransaction)
+        })
+
+      default:
+        // Customer completes payment in the gateway checkout
+        return res.status(201).json({
+          message: 'Payment order created successfully',
+          topup: formatWalletTransaction(walletTransaction),
+          razorpayOrder: gatewayOrder.raw
+        })
+    }
+  } catch (error) {
+    if (error.status === 400) {
+      return res.status(400).json({ error: error.message })
+    }
+    console.error('Wallet top-up error:', error)
+    res.status(500).json({ error: 'Failed to add money to wallet' })
+  }
+})
+
+// POST /api/wallet/topup/:topupId/verify - Verify a gateway checkout payment
+router.post('/topup/:topupId/verify', authenticateToken, idempotency, async (req, res) => {
+  try {
+    const { razorpay_order_id, razorpay_payment_id, razorpay_signature } = req.body
+    const topup = await findUserWalletTransaction(req.params.topupId, req.user._id, 'TOPUP')
+
+    if (!topup) {
+      return res.status(404).json({ error: 'Top-up not found' })
+    }
+
+    const result = await walletService.verifyTopup(topup, {
+      gatewayOrderId: razorpay_order_id,
+      paymentId: razorpay_payment_id,
+      signature: razorpay_signature
+    })
+
+    if (!result.verified) {
+      return res.status(400).json({
+        error: 'Payment verification failed',
+        topup: formatWalletTransaction(result.walletTransaction)
+      })
+    }
+
+    if (!result.settled && result.walletTransaction.status !== 'COMPLETED') {
+      return res.status(409).json({
+        error: 'Top-up cannot be completed',
+        topup: formatWalletTransaction(result.walletTransaction)
+      })
+    }
+
+    res.json({
+      message: result.settled ? 'Payment verified! Money added to your wallet.' : 'Payment already verified.',
+      topup: formatWalletTransaction(result.walletTransaction),
+      wallet: await walletService.getBalance(req.user._id)
+    })
+  } catch (error) {
+    if (error.status === 400) {
+      return res.status(400).json({ error: error.message })
+    }
+    console.error('Wallet top-up verification error:', error)
+    res.status(500).json({ error: 'Failed to verify payment' })
+  }
+})
+
+// POST /api/wallet/withdrawals - Request a transfer of wallet money to a bank account or UPI ID
+router.post('/withdrawals', authenticateToken, idempotency, async (req, res) => {
+  try {
+    const { amount, accountHolder, accountNumber, ifsc, upiId } = req.body
+
+    const { walletTransaction, wallet } = await walletService.requestWithdrawal(req.user._id, {
+      amount,
+      accountHolder,
+      accountNumber,
+      ifsc,
+      upiId
+    })
+
+    res.status(201).json({
+      message: 'Withdrawal requested. The money will reach your account within 2 working days.',
+      withdrawal: formatWalletTransaction(walletTransaction),
+      wallet
+    })
+  } catch (error) {
+    if (error.status === 400) {
+      return res.status(400).json({ error: error.message, available: error.available })
+    }
+    console.error('Wallet withdrawal error:', error)
+    res.status(500).json({ error: 'Failed to request withdrawal' })
+  }
+})
+
+// POST /api/wallet/withdrawals/:withdrawalId/cancel - Cancel a withdrawal not yet being processed
+router.post('/withdrawals/:withdrawalId/cancel', authenticateToken, async (req, res) => {
+  try {
+    const { withdrawalId } = req.params
+
+    if (!mongoose.Types.ObjectId.isValid(withdrawalId)) {
+      return res.status(400).json({ error: 'Invalid withdrawal ID format' })
+    }
+
+    const { walletTransaction, updated } = await walletService.cancelWithdrawal(req.user._id, withdrawalId)
+
+    if (!updated) {
+      const existing = await findUserWalletTransaction(withdrawalId, req.user._id, 'WITHDRAWAL')
+      if (!existing) {
+        return res.status(404).json({ error: 'Withdrawal not found' })
+      }
+      return res.status(400).json({ error: `Cannot cancel a ${existing.status.toLowerCase()} withdrawal` })
+    }
+
+    res.json({
+      message: 'Withdrawal cancelled. The money is back in your wallet.',
+      withdrawal: formatWalletTransaction(walletTransaction),
+      wallet: await walletService.getBalance(req.user._id)
+    })
+  } catch (error) {
+    console.error('Wallet withdrawal cancel error:', error)
+    res.status(500).json({ error: 'Failed to cancel withdrawal' })
+  }
+})
+
+module.exports = router
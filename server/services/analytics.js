@@ -0,0 +1,230 @@
+const Order = require('../models/Order')
+const PriceTick = require('../models/PriceTick')
+const goldPriceService = require('./goldPrice')
+const holdingLotService = require('./holdingLots')
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+const YEAR_MS = 365 * DAY_MS
+
+// Lookback and point spacing per period; "all" starts at the first order
+const PERIODS = {
+  '1d': { range: DAY_MS, resolution: HOUR_MS },
+  '1w': { range: 7 * DAY_MS, resolution: 6 * HOUR_MS },
+  '1m': { range: 30 * DAY_MS, resolution: DAY_MS },
+  '1y': { range: 365 * DAY_MS, resolution: 7 * DAY_MS },
+  all: { range: null, points: 100 }
+}
+
+const round2 = (value) => Math.round(value * 100) / 100
+
+const isInflow = (order) => order.type === 'BUY' || order.type === 'GIFT_RECEIVED'
+
+// Money that came in with an order (purchases, gifts received) or went out
+// with it (sale proceeds, gifted and redeemed gold at the day's value)
+const cashFlowOf = (order) => {
+  if (order.type === 'BUY') return -order.totalAmount
+  if (order.type === 'SELL') return order.totalAmount
+  return isInflow(order) ? -order.amountINR : order.amountINR
+}
+
+// Portfolio performance from the user's orders, holding lots and the stored
+// gold price history. Grams held and capital invested come from the lots, so
+// they match the portfolio; returns come from the money that moved.
+class AnalyticsService {
+  // Annualized internal rate of return of dated cash flows, in percent.
+  // Found by bisection; null when the flows have no sign change or no root.
+  xirr(flows) {
+    if (!flows.some(flow => flow.amount < 0) || !flows.some(flow => flow.amount > 0)) return null
+
+    const start = Math.min(...flows.map(flow => flow.date.getTime()))
+    const npv = (rate) => flows.reduce((sum, flow) =>
+      sum + flow.amount / Math.pow(1 + rate, (flow.date.getTime() - start) / YEAR_MS), 0)
+
+    let low = -0.9999
+    let high = 1
+    while (npv(high) > 0 && high < 1e6) high *= 2
+    if (Math.sign(npv(low)) === Math.sign(npv(high))) return null
+
+    for (let i = 0; i < 200; i++) {
+      const mid = (low + high) / 2
+      if (Math.sign(npv(mid)) === Math.sign(npv(low))) low = mid
+      else high = mid
+    }
+
+    return round2(((low + high) / 2) * 100)
+  }
+
+  // Time-weighted return over a period, in percent: the growth of the holdings
+  // between one order and the next, chained, so the size and timing of
+  // purchases and sales do not sway it. Holdings are valued at each order's
+  // price just before and after it; fees are left out, as they are from the
+  // per-purchase returns. Null when nothing was held during the period.
+  timeWeightedReturn(startGrams, startValue, periodOrders, endValue) {
+    let grams = startGrams
+    let valueAfter = startValue
+    let growth = 1
+    let held = false
+
+    const chain = (valueBefore) => {
+      if (valueAfter <= 0) return
+      growth *= valueBefore / valueAfter
+      held = true
+    }
+
+    periodOrders.forEach(order => {
+      chain(grams * order.pricePerGram)
+      grams = Math.max(0, grams + (isInflow(order) ? order.grams : -order.grams))
+      valueAfter = grams * order.pricePerGram
+    })
+    chain(endValue)
+
+    return held ? round2((growth - 1) * 100) : null
+  }
+
+  async getSteps(userId) {
+    return holdingLotService.toSteps(await holdingLotService.getLots(userId))
+  }
+
+  // Holdings after the last step at or before a date (before it, when exclusive)
+  stateAt(steps, date, { exclusive = false } = {}) {
+    let state = { grams: 0, invested: 0 }
+    for (const step of steps) {
+      if (exclusive ? step.at >= date : step.at > date) break
+      state = step
+    }
+    return state
+  }
+
+  // Holdings valued at the average price of each stored price bucket, ending
+  // with the current price
+  async series(steps, from, to, resolution, currentPrice) {
+    const buckets = await PriceTick.getDownsampled(from, to, resolution)
+
+    const points = buckets.map(bucket => {
+      const timestamp = new Date(Math.min(from.getTime() + (bucket._id + 1) * resolution, to.getTime()))
+      const { grams, invested } = this.stateAt(steps, timestamp)
+      const price = Math.round(bucket.price)
+      return { timestamp, price, ticks: bucket.ticks, grams, invested, value: round2(grams * price) }
+    })
+
+    const { grams, invested } = this.stateAt(steps, to)
+    points.push({ timestamp: to, price: currentPrice, ticks: 0, grams, invested, value: round2(grams * currentPrice) })
+
+    return points
+  }
+
+  resolve(period, orders, to = new Date()) {
+    const config = PERIODS[period]
+    const from = config.range
+      ? new Date(to.getTime() - config.range)
+      : orders[0]?.heldAt || new Date(to.getTime() - DAY_MS)
+    const resolution = config.resolution || Math.max(HOUR_MS, Math.ceil((to - from) / config.points))
+    return { from, to, resolution }
+  }
+
+  // Holdings value against invested capital over a range, for charting
+  async getHistory(userId, range = '1m') {
+    const priceData = await goldPriceService.getCurrentPrice()
+    const [orders, steps] = await Promise.all([Order.getHoldingOrders(userId), this.getSteps(userId)])
+    const { from, to, resolution } = this.resolve(range, orders)
+    const series = await this.series(steps, from, to, resolution, priceData.price)
+
+    return {
+      range,
+      from,
+      to,
+      points: series.map(({ timestamp, price, grams, value, invested }) => ({ timestamp, price, grams, value, invested }))
+    }
+  }
+
+  async getAnalytics(userId, period = '1m') {
+    const priceData = await goldPriceService.getCurrentPrice()
+    const currentPrice = priceData.price
+    const [orders, steps] = await Promise.all([Order.getHoldingOrders(userId), this.getSteps(userId)])
+    const { from, to, resolution } = this.resolve(period, orders)
+
+    const series = await this.series(steps, from, to, resolution, currentPrice)
+
+    // Value at the start of the period, and money in and out during it
+    const start = this.stateAt(steps, from, { exclusive: true })
+    const startTick = start.grams > 0 ? await PriceTick.getLatestBefore(from) : null
+    const startValue = round2(start.grams * (startTick?.price || series[0].price))
+    const end = this.stateAt(steps, to)
+    const endValue = round2(end.grams * currentPrice)
+
+    const periodOrders = orders.filter(order => order.heldAt >= from)
+    const contributions = round2(periodOrders.filter(isInflow).reduce((sum, order) => sum - cashFlowOf(order), 0))
+    const withdrawals = round2(periodOrders.filter(order => !isInflow(order)).reduce((sum, order) => sum + cashFlowOf(order), 0))
+    const absoluteReturn = round2(endValue + withdrawals - startValue - contributions)
+    const base = startValue + contributions
+
+    // Annualizing the return of a shorter period overstates it, so XIRR is only
+    // given for a year or more; the time-weighted return is for the period itself
+    const flows = [
+      ...(startValue > 0 ? [{ amount: -startValue, date: from }] : []),
+      ...periodOrders.map(order => ({ amount: cashFlowOf(order), date: order.heldAt })),
+      ...(endValue > 0 ? [{ amount: endValue, date: to }] : [])
+    ]
+
+    // Each purchase in the period against today's price
+    const purchases = periodOrders.filter(order => order.type === 'BUY').map(order => ({
+      orderId: order._id,
+      date: order.heldAt,
+      grams: order.grams,
+      pricePerGram: order.pricePerGram,
+      profitLoss: round2(order.grams * (currentPrice - order.pricePerGram)),
+      returnPercent: round2(((currentPrice - order.pricePerGram) / order.pricePerGram) * 100)
+    }))
+    const ranked = [...purchases].sort((a, b) => b.returnPercent - a.returnPercent)
+
+    const boughtGrams = purchases.reduce((sum, purchase) => sum + purchase.grams, 0)
+    const averageBuyPrice = boughtGrams > 0
+      ? round2(periodOrders.filter(order => order.type === 'BUY').reduce((sum, order) => sum + order.amountINR, 0) / boughtGrams)
+      : null
+    const priced = series.filter(point => point.ticks > 0)
+    const periodTicks = priced.reduce((sum, point) => sum + point.ticks, 0)
+    const periodAveragePrice = periodTicks > 0
+      ? round2(priced.reduce((sum, point) => sum + point.price * point.ticks, 0) / periodTicks)
+      : currentPrice
+
+    return {
+      period,
+      from,
+      to,
+      currentPrice,
+      holdings: {
+        grams: end.grams,
+        invested: end.invested,
+        currentValue: endValue
+      },
+      returns: {
+        startValue,
+        endValue,
+        contributions,
+        withdrawals,
+        absoluteReturn,
+        absoluteReturnPercent: base > 0 ? round2((absoluteReturn / base) * 100) : 0,
+        timeWeightedReturn: this.timeWeightedReturn(start.grams, startValue, periodOrders, endValue),
+        xirr: to - from >= YEAR_MS ? this.xirr(flows) : null
+      },
+      purchases: {
+        count: purchases.length,
+        best: ranked[0] || null,
+        worst: ranked.length > 1 ? ranked[ranked.length - 1] : null,
+        averageBuyPrice,
+        periodAveragePrice,
+        // Negative when purchases were cheaper than the period's average price
+        vsPeriodAverage: averageBuyPrice !== null
+          ? {
+              difference: round2(averageBuyPrice - periodAveragePrice),
+              percent: round2(((averageBuyPrice - periodAveragePrice) / periodAveragePrice) * 100)
+            }
+          : null
+      },
+      series
+    }
+  }
+}
+
+module.exports = new AnalyticsService()
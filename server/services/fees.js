@@ -0,0 +1,124 @@
+// "50000:1,200000:0.75,*:0.5" -> platform fee percent by gold value, lowest tier first
+const parseTiers = (value) => value.split(',').map(entry => {
+  const [upTo, percent] = entry.split(':').map(part => part.trim())
+  return { upTo: upTo === '*' ? Infinity : parseFloat(upTo), percent: parseFloat(percent) }
+})
+
+// "CARD:1.5,NET_BANKING:0.5" -> surcharge percent by payment method
+const parseRates = (value) => Object.fromEntries(
+  value.split(',')
+    .filter(entry => entry.includes(':'))
+    .map(entry => {
+      const [method, percent] = entry.split(':').map(part => part.trim())
+      return [method.toUpperCase(), parseFloat(percent)]
+    })
+)
+
+const SURCHARGE_LABELS = {
+  UPI: 'UPI',
+  CARD: 'Card',
+  NET_BANKING: 'Net banking',
+  WALLET: 'Wallet'
+}
+
+// Fees and taxes on trades. Buyers pay the platform fee, GST on the gold value
+// and a surcharge for some payment methods on top; sellers have the platform
+// fee deducted from their payout.
+class FeeService {
+  constructor() {
+    this.platformFeeTiers = parseTiers(process.env.PLATFORM_FEE_TIERS || '50000:1,200000:0.75,*:0.5')
+    this.gstPercent = process.env.GST_PERCENT !== undefined ? parseFloat(process.env.GST_PERCENT) : 3
+    this.paymentSurcharges = parseRates(process.env.PAYMENT_SURCHARGES || 'CARD:1.5')
+  }
+
+  platformFeePercent(goldValue) {
+    const tier = this.platformFeeTiers.find(entry => goldValue <= entry.upTo) ||
+      this.platformFeeTiers[this.platformFeeTiers.length - 1]
+    return tier.percent
+  }
+
+  // Itemized charges on a purchase of goldValue INR of gold
+  forBuy(goldValue, { paymentMethod = 'UPI' } = {}) {
+    const platformFeePercent = this.platformFeePercent(goldValue)
+    const platformFee = Math.round(goldValue * platformFeePercent / 100)
+    const gst = Math.round(goldValue * this.gstPercent / 100)
+
+    // The surcharge covers the gateway's cost on everything it collects
+    const paymentSurchargePercent = this.paymentSurcharges[paymentMethod] || 0
+    const paymentSurcharge = Math.round((goldValue + platformFee + gst) * paymentSurchargePercent / 100)
+
+    const items = [
+      { code: 'PLATFORM_FEE', label: `Platform fee (${platformFeePercent}%)`, percent: platformFeePercent, amount: platformFee },
+      { code: 'GST', label: `GST (${this.gstPercent}% on gold value)`, percent: this.gstPercent, amount: gst }
+    ]
+    if (paymentSurcharge > 0) {
+      items.push({
+        code: 'PAYMENT_SURCHARGE',
+        label: `${SURCHARGE_LABELS[paymentMethod] || paymentMethod} surcharge (${paymentSurchargePercent}%)`,
+        percent: paymentSurchargePercent,
+        amount: paymentSurcharge
+      })
+    }
+
+    return this.summarize('BUY', goldValue, items, { paymentMethod })
+  }
+
+  // Itemized deductions from a sale of goldValue INR of gold
+  forSell(goldValue) {
+    const platformFeePercent = this.platformFeePercent(goldValue)
+    const platformFee = Math.round(goldValue * platformFeePercent / 100)
+
+    const items = [
+      { code: 'PLATFORM_FEE', label: `Platform fee (${platformFeePercent}%)`, percent: platformFeePercent, amount: platformFee }
+    ]
+
+    return this.summarize('SELL', goldValue, items)
+  }
+
+  summarize(side, goldValue, items, { paymentMethod } = {}) {
+    const amountOf = code => items.find(item => item.code === code)?.amount || 0
+    const totalCharges = items.reduce((sum, item) => sum + item.amount, 0)
+
+    return {
+      side,
+      goldValue,
+      items,
+      platformFee: amountOf('PLATFORM_FEE'),
+      gst: amountOf('GST'),
+      paymentSurcharge: amountOf('PAYMENT_SURCHARGE'),
+      paymentMethod,
+      totalCharges,
+      // What the buyer pays, or what the seller receives
+      totalAmount: side === 'SELL' ? goldValue - totalCharges : goldValue + totalCharges
+    }
+  }
+
+  // Fields stored on an order for a breakdown
+  toOrderFields(breakdown) {
+    return {
+      transactionFee: breakdown.totalCharges,
+      totalAmount: breakdown.totalAmount,
+      feeBreakdown: {
+        platformFee: breakdown.platformFee,
+        gst: breakdown.gst,
+        paymentSurcharge: breakdown.paymentSurcharge,
+        paymentMethod: breakdown.paymentMethod,
+        items: breakdown.items
+      }
+    }
+  }
+
+  // Rates in force, for clients that show them before an amount is entered
+  getSchedule() {
+    return {
+      platformFeeTiers: this.platformFeeTiers.map(tier => ({
+        upTo: Number.isFinite(tier.upTo) ? tier.upTo : null,
+        percent: tier.percent
+      })),
+      gstPercent: this.gstPercent,
+      paymentSurcharges: this.paymentSurcharges
+    }
+  }
+}
+
+module.exports = new FeeService()
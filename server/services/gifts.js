@@ -0,0 +1,277 @@
+const crypto = require('crypto')
+const mongoose = require('mongoose')
+const Gift = require('../models/Gift')
+const Order = require('../models/Order')
+const User = require('../models/User')
+const ledgerService = require('./ledger')
+const settlementService = require('./settlement')
+const goldPriceService = require('./goldPrice')
+const notificationService = require('./notifications')
+
+const giftError = (message, extra = {}) => {
+  const error = new Error(message)
+  error.status = 400
+  Object.assign(error, extra)
+  return error
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+const hashClaimCode = (code) => crypto.createHash('sha256').update(String(code).trim().toUpperCase()).digest('hex')
+
+// Gold gifts between users. Sent grams go into escrow at once; a registered
+// recipient receives them in the same transaction, anyone else claims them
+// after signing up with the gifted email and entering the claim code the
+// sender passes on. Signing up with an address does not prove it is yours,
+// so the email alone is not enough. Unclaimed gifts return to the sender.
+class GiftService {
+  constructor() {
+    this.claimDays = parseInt(process.env.GIFT_CLAIM_DAYS) || 30
+    this.intervalMs = 60 * 60 * 1000 // hourly expiry check
+    this.minGrams = 0.01
+    this.timer = null
+  }
+
+  start() {
+    if (this.timer) return
+
+    this.timer = setInterval(() => {
+      this.expireGifts().catch(error => console.error('Gift expiry error:', error))
+    }, this.intervalMs)
+    this.timer.unref?.()
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  async sendGift(sender, { recipientEmail, grams, message }) {
+    const email = String(recipientEmail || '').trim().toLowerCase()
+    const giftGrams = parseFloat(parseFloat(grams).toFixed(4))
+
+    if (!EMAIL_PATTERN.test(email)) {
+      throw giftError('Invalid recipient email')
+    }
+    if (email === sender.email) {
+      throw giftError('You cannot send a gift to yourself')
+    }
+    if (!giftGrams || giftGrams < this.minGrams) {
+      throw giftError(`Minimum gift is ${this.minGrams} grams`)
+    }
+    if (message && message.length > 280) {
+      throw giftError('Gift message must be 280 characters or fewer')
+    }
+
+    const priceData = await goldPriceService.getCurrentPrice()
+    const value = Math.round(giftGrams * priceData.price)
+
+    const claimCode = crypto.randomBytes(6).toString('hex').toUpperCase()
+
+    const result = await settlementService.withTransaction(async (session) => {
+      const gift = new Gift({
+        senderId: sender._id,
+        recipientEmail: email,
+        grams: giftGrams,
+        pricePerGram: priceData.price,
+        message,
+        expiresAt: new Date(Date.now() + this.claimDays * 24 * 60 * 60 * 1000)
+      })
+
+      const [senderOrder] = await Order.create([{
+        userId: sender._id,
+        type: 'GIFT_SENT',
+        giftId: gift._id,
+        amountINR: value,
+        grams: giftGrams,
+        pricePerGram: priceData.price,
+        totalAmount: value,
+        status: 'COMPLETED',
+        completedAt: new Date(),
+        goldRateSnapshot: {
+          timestamp: priceData.timestamp,
+          source: priceData.source,
+          provider: priceData.provider,
+          rate: priceData.price
+        }
+      }], { session })
+
+      gift.senderOrderId = senderOrder._id
+      gift.costBasis = await ledgerService.recordGiftSent(gift, { session })
+
+      const recipient = await User.findOne({ email }).session(session)
+      if (recipient) {
+        await this.deliver(gift, recipient, session)
+      } else {
+        gift.claimCodeHash = hashClaimCode(claimCode)
+      }
+
+      await gift.save({ session })
+      const assets = await ledgerService.syncUserAssets(sender._id, { session })
+
+      return { gift, recipient, assets }
+    })
+
+    if (result.recipient) {
+      await notificationService.notify(result.recipient._id, {
+        type: 'GIFT_RECEIVED',
+        title: 'You received a gold gift',
+        message: `${sender.name} sent you ${giftGrams}g of gold.${message ? ` "${message}"` : ''}`,
+        orderId: result.gift.recipientOrderId,
+        data: { giftId: result.gift._id }
+      })
+    } else {
+      // No mail service yet: the recipient sees the gift after signing up with this email
+      console.log('Gift awaiting claim:', { giftId: result.gift._id, recipientEmail: email })
+      result.claimCode = claimCode
+    }
+
+    return result
+  }
+
+  // Credit escrowed grams to the recipient with a GIFT_RECEIVED order
+  async deliver(gift, recipient, session) {
+    const [recipientOrder] = await Order.create([{
+      userId: recipient._id,
+      type: 'GIFT_RECEIVED',
+      giftId: gift._id,
+      amountINR: Math.round(gift.grams * gift.pricePerGram),
+      grams: gift.grams,
+      pricePerGram: gift.pricePerGram,
+      totalAmount: Math.round(gift.grams * gift.pricePerGram),
+      status: 'COMPLETED',
+      completedAt: new Date()
+    }], { session })
+
+    gift.status = 'CLAIMED'
+    gift.recipientId = recipient._id
+    gift.recipientOrderId = recipientOrder._id
+    gift.claimedAt = new Date()
+
+    await ledgerService.recordGiftRelease(gift, 'GIFT_CLAIMED', { session })
+    const assets = await ledgerService.syncUserAssets(recipient._id, { session })
+
+    return { recipientOrder, assets }
+  }
+
+  // A recipient who signed up after the gift was sent claims it with its code
+  async claimGift(user, giftId, claimCode) {
+    const result = await settlementService.withTransaction(async (session) => {
+      const gift = await Gift.findOneAndUpdate(
+        {
+          _id: giftId,
+          recipientEmail: user.email,
+          claimCodeHash: hashClaimCode(claimCode),
+          status: 'PENDING_CLAIM',
+          expiresAt: { $gt: new Date() }
+        },
+        { $set: { status: 'CLAIMED', recipientId: user._id, claimedAt: new Date() } },
+        { new: true, session }
+      )
+
+      if (!gift) return { gift: null }
+
+      const { assets } = await this.deliver(gift, user, session)
+      await gift.save({ session })
+
+      return { gift, assets }
+    })
+
+    if (result.gift) {
+      await notificationService.notify(result.gift.senderId, {
+        type: 'GIFT_CLAIMED',
+        title: 'Your gift was claimed',
+        message: `${result.gift.recipientEmail} claimed the ${result.gift.grams}g of gold you sent.`,
+        orderId: result.gift.senderOrderId,
+        data: { giftId: result.gift._id }
+      })
+    }
+
+    return result
+  }
+
+  // Send unclaimed grams back to the sender; status is EXPIRED or CANCELLED
+  async returnGift(giftId, status, { senderId, reason } = {}) {
+    const result = await settlementService.withTransaction(async (session) => {
+      const filter = { _id: giftId, status: 'PENDING_CLAIM' }
+      if (senderId) filter.senderId = senderId
+
+      const gift = await Gift.findOneAndUpdate(
+        filter,
+        { $set: { status, returnedAt: new Date() } },
+        { new: true, session }
+      )
+
+      if (!gift) return { gift: null }
+
+      await Order.updateOne(
+        { _id: gift.senderOrderId },
+        {
+          $set: {
+            status: 'CANCELLED',
+            cancellation: { reason, cancelledBy: senderId ? 'USER' : 'SYSTEM', cancelledAt: new Date() }
+          }
+        },
+        { session }
+      )
+
+      await ledgerService.recordGiftRelease(gift, 'GIFT_RETURNED', { session })
+      const assets = await ledgerService.syncUserAssets(gift.senderId, { session })
+
+      return { gift, assets }
+    })
+
+    if (result.gift && status === 'EXPIRED') {
+      await notificationService.notify(result.gift.senderId, {
+        type: 'GIFT_RETURNED',
+        title: 'Your gift was not claimed',
+        message: `${result.gift.recipientEmail} did not claim your gift, so ${result.gift.grams}g of gold is back in your portfolio.`,
+        orderId: result.gift.senderOrderId,
+        data: { giftId: result.gift._id }
+      })
+    }
+
+    return result
+  }
+
+  async cancelGift(sender, giftId) {
+    return this.returnGift(giftId, 'CANCELLED', { senderId: sender._id, reason: 'Gift cancelled by sender' })
+  }
+
+  async expireGifts(now = new Date()) {
+    if (mongoose.connection.readyState !== 1) return 0
+
+    const expired = await Gift.find({ status: 'PENDING_CLAIM', expiresAt: { $lte: now } }).limit(50)
+
+    for (const gift of expired) {
+      try {
+        await this.returnGift(gift._id, 'EXPIRED', { reason: 'Gift expired unclaimed' })
+      } catch (error) {
+        console.error('Failed to return expired gift:', { giftId: gift._id, error: error.message })
+      }
+    }
+
+    return expired.length
+  }
+
+  // Tell a new user about gifts waiting for their email
+  async notifyPendingGifts(user) {
+    const gifts = await Gift.find({ recipientEmail: user.email, status: 'PENDING_CLAIM' })
+      .populate('senderId', 'name')
+
+    for (const gift of gifts) {
+      await notificationService.notify(user._id, {
+        type: 'GIFT_RECEIVED',
+        title: 'You have a gold gift to claim',
+        message: `${gift.senderId?.name || 'Someone'} sent you ${gift.grams}g of gold.${gift.message ? ` "${gift.message}"` : ''} Claim it with the code from the sender before ${gift.expiresAt.toDateString()}.`,
+        data: { giftId: gift._id }
+      })
+    }
+
+    return gifts.length
+  }
+}
+
+module.exports = new GiftService()
@@ -0,0 +1,192 @@
+const HoldingLot = require('../models/HoldingLot')
+const Order = require('../models/Order')
+
+const round = (value, decimals) => parseFloat(value.toFixed(decimals))
+
+// Per-acquisition view of a user's grams. The ledger stays the source of truth
+// for holdings; it opens and consumes lots as it posts, passing the holdings
+// from before the posting so users from before lots existed get an opening lot.
+class HoldingLotService {
+  constructor() {
+    this.gramsTolerance = 0.0001
+  }
+
+  // Holdings with no lots yet become one lot at their average price
+  async ensureOpeningLot(userId, holdings, { session = null } = {}) {
+    if (!holdings?.goldGrams) return null
+
+    const hasLots = await HoldingLot.exists({ userId }).session(session)
+    if (hasLots) return null
+
+    const firstOrder = await Order.findOne({ userId, status: 'COMPLETED' })
+      .sort({ completedAt: 1 })
+      .session(session)
+
+    const [lot] = await HoldingLot.create([{
+      userId,
+      source: 'OPENING',
+      grams: holdings.goldGrams,
+      remainingGrams: holdings.goldGrams,
+      pricePerGram: holdings.avgPrice,
+      acquiredAt: firstOrder?.completedAt || firstOrder?.createdAt || new Date()
+    }], { session })
+
+    return lot
+  }
+
+  async open(userId, { orderId, source, grams, costBasis, acquiredAt = new Date() }, holdings, { session = null } = {}) {
+    await this.ensureOpeningLot(userId, holdings, { session })
+
+    const [lot] = await HoldingLot.create([{
+      userId,
+      orderId,
+      source,
+      grams,
+      remainingGrams: grams,
+      pricePerGram: round(costBasis / grams, 2),
+      acquiredAt
+    }], { session })
+
+    return lot
+  }
+
+  // Take grams from the oldest open lots, or from the lot opened by
+  // preferOrderId first. Returns the cost basis of the grams taken, or null
+  // when the lots do not cover them.
+  async consume(userId, grams, { orderId, type, preferOrderId }, holdings, { session = null } = {}) {
+    await this.ensureOpeningLot(userId, holdings, { session })
+
+    const open = await HoldingLot.find({ userId, status: 'OPEN' })
+      .sort({ acquiredAt: 1, _id: 1 })
+      .session(session)
+    const preferred = lot => preferOrderId && String(lot.orderId) === String(preferOrderId)
+    const lots = [...open.filter(preferred), ...open.filter(lot => !preferred(lot))]
+
+    let remaining = grams
+    let costBasis = 0
+
+    for (const lot of lots) {
+      if (remaining <= this.gramsTolerance) break
+
+      const taken = Math.min(lot.remainingGrams, remaining)
+      const cost = round(taken * lot.pricePerGram, 2)
+
+      lot.remainingGrams = round(lot.remainingGrams - taken, 4)
+      lot.consumptions.push({ orderId, type, grams: round(taken, 4), costBasis: cost })
+      if (lot.remainingGrams <= this.gramsTolerance) {
+        lot.remainingGrams = 0
+        lot.status = 'CLOSED'
+        lot.closedAt = new Date()
+      }
+      await lot.save({ session })
+
+      remaining -= taken
+      costBasis += cost
+    }
+
+    return remaining > this.gramsTolerance ? null : round(costBasis, 2)
+  }
+
+  // Put back grams an order took, e.g. for a returned gift or a cancelled
+  // redemption. Grams the lots have no record of come back as a new lot.
+  async restore(userId, orderId, { grams, costBasis }, holdings, { session = null } = {}) {
+    await this.ensureOpeningLot(userId, holdings, { session })
+
+    const lots = await HoldingLot.find({ userId, 'consumptions.orderId': orderId }).session(session)
+    let restored = 0
+
+    for (const lot of lots) {
+      const taken = lot.consumptions
+        .filter(entry => String(entry.orderId) === String(orderId))
+        .reduce((sum, entry) => sum + entry.grams, 0)
+
+      lot.consumptions = lot.consumptions.filter(entry => String(entry.orderId) !== String(orderId))
+      lot.remainingGrams = round(lot.remainingGrams + taken, 4)
+      lot.status = 'OPEN'
+      lot.closedAt = undefined
+      await lot.save({ session })
+
+      restored += taken
+    }
+
+    const missing = round(grams - restored, 4)
+    if (missing > this.gramsTolerance) {
+      await HoldingLot.create([{
+        userId,
+        orderId,
+        source: 'RETURN',
+        grams: missing,
+        remainingGrams: missing,
+        pricePerGram: round(costBasis / grams, 2),
+        acquiredAt: new Date()
+      }], { session })
+    }
+  }
+
+  // Every lot of the user, oldest first, with the grams taken from it
+  async getLots(userId, { acquiredBefore } = {}) {
+    const query = { userId }
+    if (acquiredBefore) query.acquiredAt = { $lt: acquiredBefore }
+    return HoldingLot.find(query).sort({ acquiredAt: 1, _id: 1 })
+  }
+
+  // Grams a lot still held at a date
+  remainingAt(lot, date) {
+    const taken = lot.consumptions
+      .filter(entry => entry.at < date)
+      .reduce((sum, entry) => sum + entry.grams, 0)
+    return round(Math.max(0, lot.grams - taken), 4)
+  }
+
+  // Grams held and their cost basis after each acquisition and consumption of
+  // the lots, oldest first -> [{ at, grams, invested }]
+  toSteps(lots) {
+    const events = []
+    lots.forEach(lot => {
+      events.push({ at: lot.acquiredAt, grams: lot.grams, cost: lot.grams * lot.pricePerGram })
+      lot.consumptions.forEach(entry => {
+        events.push({ at: entry.at, grams: -entry.grams, cost: -entry.costBasis })
+      })
+    })
+    events.sort((a, b) => a.at - b.at)
+
+    let grams = 0
+    let invested = 0
+    return events.map(event => {
+      grams += event.grams
+      invested += event.cost
+      return {
+        at: event.at,
+        grams: round(Math.max(0, grams), 4),
+        invested: round(Math.max(0, invested), 2)
+      }
+    })
+  }
+
+  // Open lots, oldest first, valued at the current price
+  async getOpenLots(userId, currentPrice) {
+    const lots = await HoldingLot.find({ userId, status: 'OPEN' }).sort({ acquiredAt: 1, _id: 1 })
+
+    return lots.map(lot => {
+      const costBasis = round(lot.remainingGrams * lot.pricePerGram, 2)
+      const currentValue = round(lot.remainingGrams * currentPrice, 2)
+      const profitLoss = round(currentValue - costBasis, 2)
+
+      return {
+        id: lot._id,
+        orderId: lot.orderId,
+        source: lot.source,
+        acquiredAt: lot.acquiredAt,
+        grams: lot.grams,
+        remainingGrams: lot.remainingGrams,
+        pricePerGram: lot.pricePerGram,
+        costBasis,
+        currentValue,
+        profitLoss,
+        profitLossPercent: costBasis > 0 ? round((profitLoss / costBasis) * 100, 2) : 0
+      }
+    })
+  }
+}
+
+module.exports = new HoldingLotService()
@@ -0,0 +1,166 @@
+const Order = require('../models/Order')
+const Counter = require('../models/Counter')
+const { PdfDocument, PAGE_WIDTH, MARGIN } = require('./pdf')
+
+const IST_OFFSET_MS = 330 * 60 * 1000
+
+const PAYMENT_METHOD_LABELS = {
+  UPI: 'UPI',
+  CARD: 'Card',
+  NET_BANKING: 'Net banking',
+  WALLET: 'AuroraGold wallet'
+}
+
+const formatINR = (amount) => `Rs. ${Number(amount || 0).toLocaleString('en-IN', {
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2
+})}`
+
+const formatDate = (date) => new Date(date).toLocaleString('en-IN', {
+  timeZone: 'Asia/Kolkata',
+  dateStyle: 'medium',
+  timeStyle: 'short'
+})
+
+// Tax invoices for completed gold purchases. Numbers run per Indian financial
+// year (April to March), e.g. AG/2025-26/000123, and are issued when a buy settles.
+class InvoiceService {
+  constructor() {
+    this.prefix = process.env.INVOICE_PREFIX || 'AG'
+    this.gstin = process.env.INVOICE_GSTIN || null
+  }
+
+  // "2025-26" for any date from 1 April 2025 to 31 March 2026, in IST
+  financialYear(date = new Date()) {
+    const local = new Date(new Date(date).getTime() + IST_OFFSET_MS)
+    const startYear = local.getUTCMonth() >= 3 ? local.getUTCFullYear() : local.getUTCFullYear() - 1
+    return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`
+  }
+
+  async nextNumber(date, { session } = {}) {
+    const financialYear = this.financialYear(date)
+    const seq = await Counter.next(`invoice:${financialYear}`, { session })
+    return `${this.prefix}/${financialYear}/${String(seq).padStart(6, '0')}`
+  }
+
+  // Number the invoice of a buy order that has just settled, in its transaction
+  async issue(order, { session } = {}) {
+    const invoice = {
+      number: await this.nextNumber(order.completedAt, { session }),
+      issuedAt: new Date()
+    }
+
+    await Order.updateOne({ _id: order._id }, { $set: { invoice } }, { session })
+    order.invoice = invoice
+    return order
+  }
+
+  // Orders completed before invoices were issued get a number the first time
+  // their invoice is requested
+  async ensureIssued(order) {
+    if (order.invoice?.number) return order
+
+    const invoice = {
+      number: await this.nextNumber(order.completedAt || order.createdAt),
+      issuedAt: new Date()
+    }
+
+    const updated = await Order.findOneAndUpdate(
+      { _id: order._id, 'invoice.number': { $exists: false } },
+      { $set: { invoice } },
+      { new: true }
+    )
+
+    return updated || Order.findById(order._id)
+  }
+
+  render(order, user) {
+    const right = PAGE_WIDTH - MARGIN
+    const doc = new PdfDocument({ title: `Invoice ${order.invoice.number}` })
+
+    doc.row([
+      { text: 'AuroraGold', size: 20, bold: true },
+      { text: 'TAX INVOICE', x: right, align: 'right', size: 14, bold: true }
+    ], { size: 20 })
+    doc.text('Digital 24K gold, stored in insured vaults', { size: 9, color: 0.4 })
+    if (this.gstin) doc.text(`GSTIN: ${this.gstin}`, { size: 9, color: 0.4 })
+    doc.rule({ gap: 12 })
+
+    const details = [
+      ['Invoice number', order.invoice.number],
+      ['Invoice date', formatDate(order.invoice.issuedAt)],
+      ['Order ID', String(order._id)],
+      ['Order completed', formatDate(order.completedAt || order.createdAt)]
+    ]
+    details.forEach(([label, value]) => doc.row([
+      { text: label, color: 0.4 },
+      { text: value, x: 170 }
+    ]))
+
+    doc.moveDown(8)
+    doc.text('Billed to', { bold: true })
+    doc.text(user.name)
+    doc.text(user.email)
+    doc.rule({ gap: 12 })
+
+    // Line items
+    doc.row([
+      { text: 'Description', bold: true },
+      { text: 'Quantity', x: 330, align: 'right', bold: true },
+      { text: 'Rate per gram', x: 430, align: 'right', bold: true },
+      { text: 'Amount', x: right, align: 'right', bold: true }
+    ])
+    doc.row([
+      { text: '24K digital gold (999.9 purity)' },
+      { text: `${order.grams.toFixed(4)} g`, x: 330, align: 'right' },
+      { text: formatINR(order.pricePerGram), x: 430, align: 'right' },
+      { text: formatINR(order.amountINR), x: right, align: 'right' }
+    ])
+
+    const charges = order.feeBreakdown?.items?.length
+      ? order.feeBreakdown.items
+      : [{ label: 'Transaction fee', amount: order.transactionFee }]
+    charges.forEach(item => doc.row([
+      { text: item.label },
+      { text: formatINR(item.amount), x: right, align: 'right' }
+    ]))
+
+    doc.rule()
+    doc.row([
+      { text: 'Total paid', bold: true, size: 12 },
+      { text: formatINR(order.totalAmount), x: right, align: 'right', bold: true, size: 12 }
+    ], { size: 12 })
+    if (order.feeBreakdown?.gst) {
+      doc.text(`Includes GST of ${formatINR(order.feeBreakdown.gst)}`, { size: 9, color: 0.4 })
+    }
+    doc.rule({ gap: 12 })
+
+    // Payment and the rate the grams were priced at
+    const paymentMethod = order.paymentDetails?.paymentMethod
+    const snapshot = order.goldRateSnapshot || {}
+    const payment = [
+      ['Payment method', PAYMENT_METHOD_LABELS[paymentMethod] || paymentMethod || '-'],
+      ['Payment reference', order.paymentDetails?.paymentId || '-'],
+      ['Gold rate', formatINR(snapshot.rate || order.pricePerGram) + ' per gram'],
+      ['Rate source', [snapshot.source, snapshot.provider].filter(Boolean).join(' / ') || '-'],
+      ['Rate captured at', snapshot.timestamp ? formatDate(snapshot.timestamp) : '-']
+    ]
+    if (snapshot.quoteId) payment.push(['Price quote', snapshot.quoteId])
+    payment.forEach(([label, value]) => doc.row([
+      { text: label, color: 0.4 },
+      { text: value, x: 170 }
+    ]))
+
+    if (order.status !== 'COMPLETED') {
+      doc.moveDown(8)
+      doc.text(`This order was ${order.status === 'REFUNDED' ? 'refunded' : 'reversed for a refund'}.`, { bold: true })
+    }
+
+    doc.moveDown(16)
+    doc.text('This is a computer-generated invoice and does not need a signature.', { size: 8, color: 0.5 })
+
+    return doc.toBuffer()
+  }
+}
+
+module.exports = new InvoiceService()
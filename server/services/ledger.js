@@ -0,0 +1,521 @@
+const crypto = require('crypto')
+const LedgerEntry = require('../models/LedgerEntry')
+const User = require('../models/User')
+const holdingLotService = require('./holdingLots')
+
+const round = (value, decimals) => parseFloat(value.toFixed(decimals))
+
+class LedgerService {
+  constructor() {
+    // Differences below these are rounding, not drift
+    this.gramsTolerance = 0.0001
+    this.inrTolerance = 1
+  }
+
+  // Post a balanced group of entries.
+  // lines: [{ account, asset, direction, amount, userId? }]
+  async post(event, lines, { orderId = null, walletTransactionId = null, userId = null, memo, session = null } = {}) {
+    const entries = lines
+      .filter(line => line.amount > 0)
+      .map(line => ({
+        ...line,
+        amount: round(line.amount, line.asset === 'GOLD' ? 4 : 2)
+      }))
+
+    this.assertBalanced(entries)
+
+    const transactionId = crypto.randomUUID()
+    const documents = entries.map(line => ({
+      transactionId,
+      event,
+      orderId,
+      walletTransactionId,
+      userId: line.userId === undefined ? (line.account.startsWith('USER_') ? userId : null) : line.userId,
+      account: line.account,
+      asset: line.asset,
+      direction: line.direction,
+      amount: line.amount,
+      memo
+    }))
+
+    await LedgerEntry.insertMany(documents, { session })
+    return transactionId
+  }
+
+  assertBalanced(entries) {
+    const totals = {}
+    entries.forEach(entry => {
+      totals[entry.asset] = (totals[entry.asset] || 0) +
+        (entry.direction === 'DEBIT' ? entry.amount : -entry.amount)
+    })
+
+    Object.entries(totals).forEach(([asset, total]) => {
+      const tolerance = asset === 'GOLD' ? 1e-6 : 1e-4
+      if (Math.abs(total) > tolerance) {
+        throw new Error(`Unbalanced ledger posting for ${asset}: ${total}`)
+      }
+    })
+  }
+
+  // Where a buy order's money came from and goes back to on refund
+  fundingAccount(order) {
+    return order.fundingSource === 'WALLET' ? 'USER_WALLET' : 'PAYMENT_GATEWAY'
+  }
+
+  // Gold delivered to the buyer and payment received; the grams open a lot
+  async recordBuySettlement(order, { session = null } = {}) {
+    await this.ensureOpeningBalance(order.userId, { session })
+    const holdings = await this.getUserHoldings(order.userId, session)
+
+    if (order.fundingSource === 'WALLET') {
+      await this.lockWallet(order.userId, { session })
+      const wallet = await this.getWalletBalance(order.userId, session)
+      if (order.totalAmount > wallet.balance) {
+        const error = new Error('Insufficient wallet balance')
+        error.status = 400
+        error.available = wallet.balance
+        throw error
+      }
+    }
+
+    const costBasis = round(order.grams * order.pricePerGram, 2)
+    const fee = order.transactionFee || 0
+    const gst = order.feeBreakdown?.gst || 0
+    const rounding = round(order.totalAmount - costBasis - fee, 2)
+
+    const lines = [
+      { account: 'PLATFORM_VAULT', asset: 'GOLD', direction: 'DEBIT', amount: order.grams },
+      { account: 'USER_GOLD', asset: 'GOLD', direction: 'CREDIT', amount: order.grams },
+      { account: this.fundingAccount(order), asset: 'INR', direction: 'DEBIT', amount: order.totalAmount },
+      { account: 'USER_COST_BASIS', asset: 'INR', direction: 'CREDIT', amount: costBasis },
+      { account: 'PLATFORM_FEES', asset: 'INR', direction: 'CREDIT', amount: fee - gst },
+      { account: 'PLATFORM_TAX', asset: 'INR', direction: 'CREDIT', amount: gst },
+      {
+        account: 'PLATFORM_TRADING',
+        asset: 'INR',
+        direction: rounding >= 0 ? 'CREDIT' : 'DEBIT',
+        amount: Math.abs(rounding)
+      }
+    ]
+
+    const transactionId = await this.post('BUY_SETTLED', lines, { orderId: order._id, userId: order.userId, session })
+    await holdingLotService.open(order.userId, {
+      orderId: order._id,
+      source: 'PURCHASE',
+      grams: order.grams,
+      costBasis,
+      acquiredAt: order.completedAt
+    }, holdings, { session })
+
+    return transactionId
+  }
+
+  // Refunded buy: the grams go back to the vault and the money back to the buyer
+  async recordBuyRefund(order, refundAmount, { session = null } = {}) {
+    const holdings = await this.getUserHoldings(order.userId, session)
+
+    if (order.grams > holdings.goldGrams + this.gramsTolerance) {
+      const error = new Error('Refunded grams are no longer held by the user')
+      error.status = 400
+      error.available = holdings.goldGrams
+      throw error
+    }
+
+    const fee = order.transactionFee || 0
+    const gst = order.feeBreakdown?.gst || 0
+    const lotCost = await holdingLotService.consume(order.userId, order.grams, {
+      orderId: order._id,
+      type: 'REFUND',
+      preferOrderId: order._id
+    }, holdings, { session })
+    const costBasis = this.costBasisFor(holdings, order.grams, lotCost)
+    const rounding = round(refundAmount - costBasis - fee, 2)
+
+    const lines = [
+      { account: 'USER_GOLD', asset: 'GOLD', direction: 'DEBIT', amount: order.grams },
+      { account: 'PLATFORM_VAULT', asset: 'GOLD', direction: 'CREDIT', amount: order.grams },
+      { account: 'USER_COST_BASIS', asset: 'INR', direction: 'DEBIT', amount: costBasis },
+      { account: 'PLATFORM_FEES', asset: 'INR', direction: 'DEBIT', amount: fee - gst },
+      { account: 'PLATFORM_TAX', asset: 'INR', direction: 'DEBIT', amount: gst },
+      {
+        account: 'PLATFORM_TRADING',
+        asset: 'INR',
+        direction: rounding >= 0 ? 'DEBIT' : 'CREDIT',
+        amount: Math.abs(rounding)
+      },
+      { account: this.fundingAccount(order), asset: 'INR', direction: 'CREDIT', amount: refundAmount }
+    ]
+
+    return this.post('BUY_REFUNDED', lines, { orderId: order._id, userId: order.userId, session })
+  }
+
+  // Gold returned to the vault; the payout (net of fee) goes to the seller's wallet
+  async recordSellSettlement(order, { session = null } = {}) {
+    await this.ensureOpeningBalance(order.userId, { session })
+    const holdings = await this.getUserHoldings(order.userId, session)
+
+    if (order.grams > holdings.goldGrams + this.gramsTolerance) {
+      const error = new Error('Insufficient gold holdings')
+      error.status = 400
+      error.available = holdings.goldGrams
+      throw error
+    }
+
+    const fee = order.transactionFee || 0
+    const lotCost = await holdingLotService.consume(order.userId, order.grams, {
+      orderId: order._id,
+      type: 'SELL'
+    }, holdings, { session })
+    const costBasis = this.costBasisFor(holdings, order.grams, lotCost)
+
+    const lines = [
+      { account: 'USER_GOLD', asset: 'GOLD', direction: 'DEBIT', amount: order.grams },
+      { account: 'PLATFORM_VAULT', asset: 'GOLD', direction: 'CREDIT', amount: order.grams },
+      { account: 'USER_COST_BASIS', asset: 'INR', direction: 'DEBIT', amount: costBasis },
+      { account: 'PLATFORM_TRADING', asset: 'INR', direction: 'CREDIT', amount: costBasis },
+      { account: 'PLATFORM_TRADING', asset: 'INR', direction: 'DEBIT', amount: order.totalAmount + fee },
+      { account: 'USER_WALLET', asset: 'INR', direction: 'CREDIT', amount: order.totalAmount },
+      { account: 'PLATFORM_FEES', asset: 'INR', direction: 'CREDIT', amount: fee }
+    ]
+
+    return this.post('SELL_SETTLED', lines, { orderId: order._id, userId: order.userId, session })
+  }
+
+  // Cost basis leaving with grams: the cost of the lots they were taken from,
+  // or the average price when the lots fall short; taking everything clears it
+  costBasisFor(holdings, grams, lotCost = null) {
+    if (grams >= holdings.goldGrams - this.gramsTolerance) return holdings.totalInvested
+    return lotCost !== null
+      ? Math.min(lotCost, holdings.totalInvested)
+      : round(grams * holdings.avgPrice, 2)
+  }
+
+  // Gifted grams and their cost basis move from the sender into escrow.
+  // Returns the cost basis so the claim or return can move the same amount.
+  async recordGiftSent(gift, { session = null } = {}) {
+    await this.ensureOpeningBalance(gift.senderId, { session })
+    const holdings = await this.getUserHoldings(gift.senderId, session)
+
+    if (gift.grams > holdings.goldGrams + this.gramsTolerance) {
+      const error = new Error('Insufficient gold holdings')
+      error.status = 400
+      error.available = holdings.goldGrams
+      throw error
+    }
+
+    const lotCost = await holdingLotService.consume(gift.senderId, gift.grams, {
+      orderId: gift.senderOrderId,
+      type: 'GIFT_SENT'
+    }, holdings, { session })
+    const costBasis = this.costBasisFor(holdings, gift.grams, lotCost)
+
+    const lines = [
+      { account: 'USER_GOLD', asset: 'GOLD', direction: 'DEBIT', amount: gift.grams },
+      { account: 'PLATFORM_GIFT_ESCROW', asset: 'GOLD', direction: 'CREDIT', amount: gift.grams },
+      { account: 'USER_COST_BASIS', asset: 'INR', direction: 'DEBIT', amount: costBasis },
+      { account: 'PLATFORM_GIFT_ESCROW', asset: 'INR', direction: 'CREDIT', amount: costBasis }
+    ]
+
+    await this.post('GIFT_SENT', lines, { orderId: gift.senderOrderId, userId: gift.senderId, session })
+    return costBasis
+  }
+
+  // Escrowed grams go to the recipient as a new lot, or back to the sender's
+  // lots when unclaimed
+  async recordGiftRelease(gift, event, { session = null } = {}) {
+    const toSender = event === 'GIFT_RETURNED'
+    const userId = toSender ? gift.senderId : gift.recipientId
+
+    await this.ensureOpeningBalance(userId, { session })
+    const holdings = await this.getUserHoldings(userId, session)
+
+    const lines = [
+      { account: 'PLATFORM_GIFT_ESCROW', asset: 'GOLD', direction: 'DEBIT', amount: gift.grams },
+      { account: 'USER_GOLD', asset: 'GOLD', direction: 'CREDIT', amount: gift.grams },
+      { account: 'PLATFORM_GIFT_ESCROW', asset: 'INR', direction: 'DEBIT', amount: gift.costBasis },
+      { account: 'USER_COST_BASIS', asset: 'INR', direction: 'CREDIT', amount: gift.costBasis }
+    ]
+
+    const transactionId = await this.post(event, lines, {
+      orderId: toSender ? gift.senderOrderId : gift.recipientOrderId,
+      userId,
+      session
+    })
+
+    if (toSender) {
+      await holdingLotService.restore(userId, gift.senderOrderId, {
+        grams: gift.grams,
+        costBasis: gift.costBasis
+      }, holdings, { session })
+    } else {
+      await holdingLotService.open(userId, {
+        orderId: gift.recipientOrderId,
+        source: 'GIFT',
+        grams: gift.grams,
+        costBasis: gift.costBasis
+      }, holdings, { session })
+    }
+
+    return transactionId
+  }
+
+  // Grams and their cost basis are locked for delivery; making charges are
+  // taken from the wallet. Returns the cost basis of the locked grams.
+  async recordRedemptionPlaced(redemption, { session = null } = {}) {
+    await this.ensureOpeningBalance(redemption.userId, { session })
+    await this.lockWallet(redemption.userId, { session })
+    const [holdings, wallet] = await Promise.all([
+      this.getUserHoldings(redemption.userId, session),
+      this.getWalletBalance(redemption.userId, session)
+    ])
+
+    if (redemption.totalGrams > holdings.goldGrams + this.gramsTolerance) {
+      const error = new Error('Insufficient gold holdings')
+      error.status = 400
+      error.available = holdings.goldGrams
+      throw error
+    }
+
+    if (redemption.makingCharges > wallet.balance) {
+      const error = new Error('Insufficient wallet balance for making charges')
+      error.status = 400
+      error.available = wallet.balance
+      throw error
+    }
+
+    const lotCost = await holdingLotService.consume(redemption.userId, redemption.totalGrams, {
+      orderId: redemption.orderId,
+      type: 'REDEEM'
+    }, holdings, { session })
+    const costBasis = this.costBasisFor(holdings, redemption.totalGrams, lotCost)
+
+    const lines = [
+      { account: 'USER_GOLD', asset: 'GOLD', direction: 'DEBIT', amount: redemption.totalGrams },
+      { account: 'PLATFORM_REDEMPTION', asset: 'GOLD', direction: 'CREDIT', amount: redemption.totalGrams },
+      { account: 'USER_COST_BASIS', asset: 'INR', direction: 'DEBIT', amount: costBasis },
+      { account: 'PLATFORM_REDEMPTION', asset: 'INR', direction: 'CREDIT', amount: costBasis },
+      { account: 'USER_WALLET', asset: 'INR', direction: 'DEBIT', amount: redemption.makingCharges },
+      { account: 'PLATFORM_FEES', asset: 'INR', direction: 'CREDIT', amount: redemption.makingCharges }
+    ]
+
+    await this.post('REDEMPTION_PLACED', lines, { orderId: redemption.orderId, userId: redemption.userId, session })
+    return costBasis
+  }
+
+  // Delivered coins leave the vault for good
+  async recordRedemptionDelivered(redemption, { session = null } = {}) {
+    const lines = [
+      { account: 'PLATFORM_REDEMPTION', asset: 'GOLD', direction: 'DEBIT', amount: redemption.totalGrams },
+      { account: 'PLATFORM_VAULT', asset: 'GOLD', direction: 'CREDIT', amount: redemption.totalGrams },
+      { account: 'PLATFORM_REDEMPTION', asset: 'INR', direction: 'DEBIT', amount: redemption.costBasis },
+      { account: 'PLATFORM_TRADING', asset: 'INR', direction: 'CREDIT', amount: redemption.costBasis }
+    ]
+
+    return this.post('REDEMPTION_DELIVERED', lines, { orderId: redemption.orderId, userId: redemption.userId, session })
+  }
+
+  // Cancelled before shipping: grams, cost basis and making charges go back to the user
+  async recordRedemptionCancelled(redemption, { session = null } = {}) {
+    const holdings = await this.getUserHoldings(redemption.userId, session)
+    await holdingLotService.restore(redemption.userId, redemption.orderId, {
+      grams: redemption.totalGrams,
+      costBasis: redemption.costBasis
+    }, holdings, { session })
+
+    const lines = [
+      { account: 'PLATFORM_REDEMPTION', asset: 'GOLD', direction: 'DEBIT', amount: redemption.totalGrams },
+      { account: 'USER_GOLD', asset: 'GOLD', direction: 'CREDIT', amount: redemption.totalGrams },
+      { account: 'PLATFORM_REDEMPTION', asset: 'INR', direction: 'DEBIT', amount: redemption.costBasis },
+      { account: 'USER_COST_BASIS', asset: 'INR', direction: 'CREDIT', amount: redemption.costBasis },
+      { account: 'PLATFORM_FEES', asset: 'INR', direction: 'DEBIT', amount: redemption.makingCharges },
+      { account: 'USER_WALLET', asset: 'INR', direction: 'CREDIT', amount: redemption.makingCharges }
+    ]
+
+    return this.post('REDEMPTION_CANCELLED', lines, { orderId: redemption.orderId, userId: redemption.userId, session })
+  }
+
+  // Money added to the wallet through the gateway
+  async recordWalletTopup(walletTransaction, { session = null } = {}) {
+    const lines = [
+      { account: 'PAYMENT_GATEWAY', asset: 'INR', direction: 'DEBIT', amount: walletTransaction.amount },
+      { account: 'USER_WALLET', asset: 'INR', direction: 'CREDIT', amount: walletTransaction.amount }
+    ]
+
+    return this.post('WALLET_TOPUP', lines, {
+      walletTransactionId: walletTransaction._id,
+      userId: walletTransaction.userId,
+      session
+    })
+  }
+
+  // A withdrawal moves money out of the spendable balance until it is paid
+  async recordWithdrawalRequest(walletTransaction, { session = null } = {}) {
+    await this.lockWallet(walletTransaction.userId, { session })
+    const wallet = await this.getWalletBalance(walletTransaction.userId, session)
+
+    if (walletTransaction.amount > wallet.balance) {
+      const error = new Error('Insufficient wallet balance')
+      error.status = 400
+      error.available = wallet.balance
+      throw error
+    }
+
+    const lines = [
+      { account: 'USER_WALLET', asset: 'INR', direction: 'DEBIT', amount: walletTransaction.amount },
+      { account: 'USER_PAYOUT', asset: 'INR', direction: 'CREDIT', amount: walletTransaction.amount }
+    ]
+
+    return this.post('WALLET_WITHDRAWAL_REQUESTED', lines, {
+      walletTransactionId: walletTransaction._id,
+      userId: walletTransaction.userId,
+      session
+    })
+  }
+
+  // The withdrawn money has left through the gateway
+  async recordWithdrawalPaid(walletTransaction, { session = null } = {}) {
+    const lines = [
+      { account: 'USER_PAYOUT', asset: 'INR', direction: 'DEBIT', amount: walletTransaction.amount },
+      { account: 'PAYMENT_GATEWAY', asset: 'INR', direction: 'CREDIT', amount: walletTransaction.amount }
+    ]
+
+    return this.post('WALLET_WITHDRAWAL_PAID', lines, {
+      walletTransactionId: walletTransaction._id,
+      userId: walletTransaction.userId,
+      session
+    })
+  }
+
+  // A cancelled or failed withdrawal returns to the spendable balance
+  async recordWithdrawalReversal(walletTransaction, { session = null } = {}) {
+    const lines = [
+      { account: 'USER_PAYOUT', asset: 'INR', direction: 'DEBIT', amount: walletTransaction.amount },
+      { account: 'USER_WALLET', asset: 'INR', direction: 'CREDIT', amount: walletTransaction.amount }
+    ]
+
+    return this.post('WALLET_WITHDRAWAL_REVERSED', lines, {
+      walletTransactionId: walletTransaction._id,
+      userId: walletTransaction.userId,
+      session
+    })
+  }
+
+  // Write to the user's document before reading the wallet balance. Postings
+  // alone insert new entries and never conflict, so without this two spends
+  // in concurrent transactions could both pass the balance check.
+  async lockWallet(userId, { session = null } = {}) {
+    await User.updateOne({ _id: userId }, { $inc: { walletVersion: 1 } }, { session })
+  }
+
+  // Bring holdings that predate the ledger onto it, once per user
+  async ensureOpeningBalance(userId, { session = null } = {}) {
+    const hasEntries = await LedgerEntry.exists({ userId }).session(session)
+    if (hasEntries) return null
+
+    const user = await User.findById(userId, 'assets').session(session)
+    if (!user?.assets?.goldGrams) return null
+
+    const lines = [
+      { account: 'PLATFORM_VAULT', asset: 'GOLD', direction: 'DEBIT', amount: user.assets.goldGrams },
+      { account: 'USER_GOLD', asset: 'GOLD', direction: 'CREDIT', amount: user.assets.goldGrams },
+      { account: 'PLATFORM_TRADING', asset: 'INR', direction: 'DEBIT', amount: user.assets.totalInvested },
+      { account: 'USER_COST_BASIS', asset: 'INR', direction: 'CREDIT', amount: user.assets.totalInvested }
+    ]
+
+    return this.post('OPENING_BALANCE', lines, {
+      userId: user._id,
+      memo: 'Holdings carried over from User.assets',
+      session
+    })
+  }
+
+  // Holdings derived from the ledger, in the shape of User.assets
+  async getUserHoldings(userId, session = null) {
+    const balances = await LedgerEntry.getUserBalances(userId, session)
+    return this.toHoldings(balances.reduce((accounts, { _id, balance }) => {
+      accounts[_id] = balance
+      return accounts
+    }, {}))
+  }
+
+  // Spendable wallet balance and money on its way out to the user's bank.
+  // Not clamped at zero, so an overdrawn wallet shows as negative.
+  async getWalletBalance(userId, session = null) {
+    const balances = await LedgerEntry.getUserBalances(userId, session)
+    const accounts = balances.reduce((result, { _id, balance }) => {
+      result[_id] = balance
+      return result
+    }, {})
+
+    return {
+      balance: round(accounts.USER_WALLET || 0, 2),
+      pendingPayouts: round(accounts.USER_PAYOUT || 0, 2)
+    }
+  }
+
+  toHoldings(accounts) {
+    const goldGrams = round(Math.max(0, accounts.USER_GOLD || 0), 4)
+    const totalInvested = round(Math.max(0, accounts.USER_COST_BASIS || 0), 2)
+
+    return {
+      goldGrams,
+      totalInvested,
+      avgPrice: goldGrams > 0 ? round(totalInvested / goldGrams, 2) : 0
+    }
+  }
+
+  // Overwrite User.assets with the ledger-derived holdings
+  async syncUserAssets(userId, { session = null } = {}) {
+    await this.ensureOpeningBalance(userId, { session })
+    const holdings = await this.getUserHoldings(userId, session)
+    await User.updateOne({ _id: userId }, { $set: { assets: holdings } }, { session })
+    return holdings
+  }
+
+  // Users whose stored assets disagree with the ledger
+  async getDriftReport() {
+    const [balances, users] = await Promise.all([
+      LedgerEntry.getAllUserBalances(),
+      User.find({}, 'email name assets')
+    ])
+
+    const accountsByUser = {}
+    balances.forEach(({ _id, balance }) => {
+      const key = _id.userId.toString()
+      accountsByUser[key] = accountsByUser[key] || {}
+      accountsByUser[key][_id.account] = balance
+    })
+
+    const drift = []
+    users.forEach(user => {
+      const ledger = this.toHoldings(accountsByUser[user._id.toString()] || {})
+      const gramsDiff = round((user.assets?.goldGrams || 0) - ledger.goldGrams, 4)
+      const investedDiff = round((user.assets?.totalInvested || 0) - ledger.totalInvested, 2)
+
+      if (Math.abs(gramsDiff) > this.gramsTolerance || Math.abs(investedDiff) > this.inrTolerance) {
+        drift.push({
+          userId: user._id,
+          email: user.email,
+          stored: {
+            goldGrams: user.assets?.goldGrams || 0,
+            totalInvested: user.assets?.totalInvested || 0
+          },
+          ledger,
+          difference: {
+            goldGrams: gramsDiff,
+            totalInvested: investedDiff
+          }
+        })
+      }
+    })
+
+    return {
+      checkedUsers: users.length,
+      driftedUsers: drift.length,
+      generatedAt: new Date(),
+      drift
+    }
+  }
+}
+
+module.exports = new LedgerService()
@@ -0,0 +1,185 @@
+const mongoose = require('mongoose')
+const LimitOrder = require('../models/LimitOrder')
+const goldPriceService = require('./goldPrice')
+const purchaseService = require('./purchase')
+const notificationService = require('./notifications')
+
+// Fires open limit orders when a refreshed gold price reaches their target.
+// Matching runs on GoldPriceService 'price' events; the timer expires old
+// orders and keeps the price refreshing while any order is open.
+class LimitOrderWatcher {
+  constructor() {
+    this.intervalMs = parseInt(process.env.LIMIT_ORDER_CHECK_INTERVAL_MS) || 60 * 1000 // 1 minute
+    this.batchSize = 50
+    this.timer = null
+    this.matching = false
+    this.onPrice = priceData => {
+      this.handlePrice(priceData).catch(error => console.error('Limit order match error:', error))
+    }
+  }
+
+  start() {
+    if (this.timer) return
+
+    goldPriceService.on('price', this.onPrice)
+    this.timer = setInterval(() => {
+      this.tick().catch(error => console.error('Limit order watcher error:', error))
+    }, this.intervalMs)
+    this.timer.unref?.()
+
+    console.log(`Limit order watcher started (every ${Math.round(this.intervalMs / 1000)}s)`)
+  }
+
+  stop() {
+    goldPriceService.off('price', this.onPrice)
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  async tick() {
+    if (mongoose.connection.readyState !== 1) return
+
+    await this.expireOrders()
+
+    // getCurrentPrice only refreshes (and emits 'price') once the cache is stale
+    const hasOpenOrders = await LimitOrder.exists({ status: 'OPEN' })
+    if (hasOpenOrders) {
+      await goldPriceService.getCurrentPrice()
+    }
+  }
+
+  async expireOrders(now = new Date()) {
+    const expired = await LimitOrder.find({ status: 'OPEN', expiresAt: { $lte: now } }).limit(this.batchSize)
+
+    for (const limitOrder of expired) {
+      const updated = await LimitOrder.findOneAndUpdate(
+        { _id: limitOrder._id, status: 'OPEN' },
+        { $set: { status: 'EXPIRED' } },
+        { new: true }
+      )
+      if (!updated) continue
+
+      await notificationService.notify(limitOrder.userId, {
+        type: 'LIMIT_ORDER_EXPIRED',
+        title: 'Limit order expired',
+        message: `Gold did not reach ₹${limitOrder.targetPrice.toLocaleString()}/g before your limit order expired.`,
+        data: { limitOrderId: limitOrder._id }
+      })
+    }
+
+    return expired.length
+  }
+
+  async handlePrice(priceData) {
+    if (this.matching) return []
+    if (mongoose.connection.readyState !== 1) return []
+
+    this.matching = true
+    try {
+      const matches = await LimitOrder.find({
+        status: 'OPEN',
+        targetPrice: { $gte: priceData.price },
+        expiresAt: { $gt: new Date() }
+      })
+        .sort({ createdAt: 1 })
+        .limit(this.batchSize)
+
+      const results = []
+      for (const limitOrder of matches) {
+        const result = await this.trigger(limitOrder, priceData)
+        if (result) results.push(result)
+      }
+      return results
+    } finally {
+      this.matching = false
+    }
+  }
+
+  async trigger(limitOrder, priceData) {
+    // Claim the limit order so it fires once
+    const claimed = await LimitOrder.findOneAndUpdate(
+      { _id: limitOrder._id, status: 'OPEN' },
+      { $set: { status: 'TRIGGERED', triggeredAt: new Date(), triggerPrice: priceData.price } },
+      { new: true }
+    )
+
+    if (!claimed) return null
+
+    try {
+      // Orders from before checkout was required could never be paid
+      if (limitOrder.paymentMethod !== 'WALLET' && purchaseService.gateway.requiresCheckout()) {
+        throw new Error('Limit orders must be paid from your wallet')
+      }
+
+      const order = await purchaseService.createOrder({
+        userId: limitOrder.userId,
+        amountINR: limitOrder.amountINR,
+        preferredType: 'amount',
+        priceData,
+        fundingSource: limitOrder.paymentMethod === 'WALLET' ? 'WALLET' : 'GATEWAY',
+        paymentMethod: limitOrder.paymentMethod,
+        limitOrderId: limitOrder._id,
+        metadata: { source: 'LIMIT_ORDER' }
+      })
+
+      await LimitOrder.updateOne({ _id: limitOrder._id }, { $set: { orderId: order._id } })
+
+      const { outcome, order: settledOrder } = await purchaseService.payOrder(order, { paymentMethod: limitOrder.paymentMethod })
+
+      await this.notifyTriggered(limitOrder, settledOrder, outcome)
+
+      console.log('Limit order triggered:', { limitOrderId: limitOrder._id, orderId: order._id, outcome })
+      return { limitOrderId: limitOrder._id, orderId: order._id, outcome }
+    } catch (error) {
+      console.error('Limit order trigger failed:', { limitOrderId: limitOrder._id, error: error.message })
+      await LimitOrder.updateOne(
+        { _id: limitOrder._id },
+        { $set: { status: 'FAILED', failureReason: error.message } }
+      )
+      await notificationService.notify(limitOrder.userId, {
+        type: 'LIMIT_ORDER_FAILED',
+        title: 'Limit order could not be placed',
+        message: `Gold reached your target of ₹${limitOrder.targetPrice.toLocaleString()}/g but the order could not be placed.`,
+        data: { limitOrderId: limitOrder._id, error: error.message }
+      })
+      return { limitOrderId: limitOrder._id, outcome: 'ERROR', error: error.message }
+    }
+  }
+
+  notifyTriggered(limitOrder, order, outcome) {
+    const data = { limitOrderId: limitOrder._id }
+
+    if (outcome === 'COMPLETED') {
+      return notificationService.notify(limitOrder.userId, {
+        type: 'LIMIT_ORDER_FILLED',
+        title: 'Limit order filled',
+        message: `Bought ${order.grams.toFixed(4)}g of gold at ₹${order.pricePerGram.toLocaleString()}/g.`,
+        orderId: order._id,
+        data
+      })
+    }
+
+    if (outcome === 'FAILED') {
+      return notificationService.notify(limitOrder.userId, {
+        type: 'LIMIT_ORDER_FAILED',
+        title: 'Limit order payment failed',
+        message: `Gold reached ₹${order.pricePerGram.toLocaleString()}/g but the payment of ₹${order.totalAmount.toLocaleString()} failed.`,
+        orderId: order._id,
+        data
+      })
+    }
+
+    // The payment is still in flight; the reconciler settles it
+    return notificationService.notify(limitOrder.userId, {
+      type: 'LIMIT_ORDER_TRIGGERED',
+      title: 'Limit order triggered',
+      message: `Gold reached ₹${order.pricePerGram.toLocaleString()}/g. Your payment of ₹${order.totalAmount.toLocaleString()} is being processed.`,
+      orderId: order._id,
+      data
+    })
+  }
+}
+
+module.exports = new LimitOrderWatcher()
@@ -0,0 +1,34 @@
+const Notification = require('../models/Notification')
+
+// Stores in-app notifications. Sending one never fails the operation that
+// triggered it; errors are logged and swallowed.
+class NotificationService {
+  async notify(userId, { type, title, message, orderId, data }) {
+    try {
+      const notification = await Notification.create({ userId, type, title, message, orderId, data })
+      console.log('Notification sent:', { userId, type })
+      return notification
+    } catch (error) {
+      console.error('Failed to send notification:', { userId, type, error: error.message })
+      return null
+    }
+  }
+
+  async markRead(userId, notificationId) {
+    return Notification.findOneAndUpdate(
+      { _id: notificationId, userId },
+      { $set: { readAt: new Date() } },
+      { new: true }
+    )
+  }
+
+  async markAllRead(userId) {
+    const result = await Notification.updateMany(
+      { userId, readAt: null },
+      { $set: { readAt: new Date() } }
+    )
+    return result.modifiedCount
+  }
+}
+
+module.exports = new NotificationService()
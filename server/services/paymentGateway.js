@@ -0,0 +1,333 @@
+const crypto = require('crypto')
+
+// Normalised payment states returned by every gateway
+const PAYMENT_STATUS = {
+  CREATED: 'CREATED', // order created; the customer still has to pay in the gateway checkout
+  PENDING: 'PENDING', // payment started but not confirmed yet
+  CAPTURED: 'CAPTURED', // money received
+  FAILED: 'FAILED'
+}
+
+// gatewayOrderId is set when the gateway order may exist despite the timeout
+const timeoutError = (message, gatewayOrderId) => {
+  const error = new Error(message)
+  error.code = 'GATEWAY_TIMEOUT'
+  error.gatewayOrderId = gatewayOrderId
+  return error
+}
+
+// Base class every payment gateway extends. Amounts are in INR.
+class PaymentGateway {
+  constructor(name, options = {}) {
+    this.name = name
+    this.options = options
+  }
+
+  // Whether the gateway has everything it needs to run
+  isConfigured() {
+    return true
+  }
+
+  // Whether payment happens in a client-side checkout after createOrder
+  requiresCheckout() {
+    return false
+  }
+
+  // Create a gateway order for an Order -> { gatewayOrderId, status, paymentId?, amount, currency, raw }
+  async createOrder(order, { paymentMethod } = {}) {
+    throw new Error(`Gateway "${this.name}" does not implement createOrder`)
+  }
+
+  // Check a checkout signature -> boolean
+  async verify({ gatewayOrderId, paymentId, signature }) {
+    throw new Error(`Gateway "${this.name}" does not implement verify`)
+  }
+
+  // Refund a captured payment -> { refundId, status, amount, raw }
+  async refund({ paymentId, amount }) {
+    throw new Error(`Gateway "${this.name}" does not implement refund`)
+  }
+
+  // Current state of a gateway order -> { status, paymentId?, raw }
+  async fetchStatus(gatewayOrderId) {
+    throw new Error(`Gateway "${this.name}" does not implement fetchStatus`)
+  }
+
+  // Stop a gateway order from taking payments before its Order is cancelled
+  // -> { closed, status, paymentId? }. Gateways that cannot close orders only
+  // report the latest status; a payment captured later must be refunded.
+  async closeOrder(gatewayOrderId) {
+    const { status, paymentId } = await this.fetchStatus(gatewayOrderId)
+    return { closed: false, status, paymentId }
+  }
+}
+
+// Razorpay Orders API; the customer pays in Razorpay Checkout
+class RazorpayGateway extends PaymentGateway {
+  constructor(options = {}) {
+    super('razorpay', options)
+    this.keyId = options.keyId
+    this.keySecret = options.keySecret
+    this.client = null
+  }
+
+  isConfigured() {
+    return Boolean(this.keyId && this.keySecret)
+  }
+
+  requiresCheckout() {
+    return true
+  }
+
+  getClient() {
+    if (!this.client) {
+      const Razorpay = require('razorpay')
+      this.client = new Razorpay({ key_id: this.keyId, key_secret: this.keySecret })
+    }
+    return this.client
+  }
+
+  async createOrder(order) {
+    const razorpayOrder = await this.getClient().orders.create({
+      amount: Math.round(order.totalAmount * 100), // Amount in paisa
+      currency: 'INR',
+      receipt: `order_${order._id}`,
+      payment_capture: true
+    })
+
+    return {
+      gatewayOrderId: razorpayOrder.id,
+      status: PAYMENT_STATUS.CREATED,
+      amount: razorpayOrder.amount / 100,
+      currency: razorpayOrder.currency,
+      raw: razorpayOrder
+    }
+  }
+
+  async verify({ gatewayOrderId, paymentId, signature }) {
+    if (!gatewayOrderId || !paymentId || !signature) return false
+
+    const expected = Buffer.from(crypto
+      .createHmac('sha256', this.keySecret)
+      .update(`${gatewayOrderId}|${paymentId}`)
+      .digest('hex'))
+    const actual = Buffer.from(signature)
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual)
+  }
+
+  async refund({ paymentId, amount }) {
+    const refund = await this.getClient().payments.refund(paymentId, {
+      amount: Math.round(amount * 100)
+    })
+
+    return {
+      refundId: refund.id,
+      status: refund.status === 'processed' ? 'PROCESSED' : 'PENDING',
+      amount: refund.amount / 100,
+      raw: refund
+    }
+  }
+
+  async fetchStatus(gatewayOrderId) {
+    const { items = [] } = await this.getClient().orders.fetchPayments(gatewayOrderId)
+
+    const captured = items.find(payment => payment.status === 'captured')
+    if (captured) {
+      return { status: PAYMENT_STATUS.CAPTURED, paymentId: captured.id, raw: captured }
+    }
+
+    const inFlight = items.find(payment => ['created', 'authorized'].includes(payment.status))
+    if (inFlight) {
+      return { status: PAYMENT_STATUS.PENDING, paymentId: inFlight.id, raw: inFlight }
+    }
+
+    if (items.length > 0) {
+      const [latest] = items
+      return { status: PAYMENT_STATUS.FAILED, paymentId: latest.id, raw: latest }
+    }
+
+    return { status: PAYMENT_STATUS.CREATED, raw: null }
+  }
+}
+
+// Deterministic offline gateway. Each createOrder takes the next scripted outcome:
+//   success - captured immediately
+//   fail    - declined immediately
+//   pending - stays pending; "pending:success" / "pending:fail" settle on the next fetchStatus
+//   timeout - createOrder throws a GATEWAY_TIMEOUT error, but the order exists and
+//             fetchStatus reports it captured (the payment went through)
+class MockPaymentGateway extends PaymentGateway {
+  constructor(options = {}) {
+    super('mock', options)
+    this.script = options.script && options.script.length ? options.script : ['success']
+    // Signatures only have to verify within this process
+    this.secret = options.secret || crypto.randomBytes(32).toString('hex')
+    this.delayMs = options.delayMs || 0
+    this.reset()
+  }
+
+  reset() {
+    this.cursor = 0
+    this.sequence = 0
+    this.orders = new Map()
+    this.overrides = []
+  }
+
+  // Queue outcomes that take priority over the configured script
+  queueOutcomes(...outcomes) {
+    this.overrides.push(...outcomes)
+  }
+
+  nextOutcome() {
+    if (this.overrides.length) return this.overrides.shift()
+    const outcome = this.script[this.cursor % this.script.length]
+    this.cursor += 1
+    return outcome
+  }
+
+  nextId(prefix) {
+    this.sequence += 1
+    return `mock_${prefix}_${this.sequence}`
+  }
+
+  sign(gatewayOrderId, paymentId) {
+    return crypto.createHmac('sha256', this.secret).update(`${gatewayOrderId}|${paymentId}`).digest('hex')
+  }
+
+  async delay() {
+    if (this.delayMs) await new Promise(resolve => setTimeout(resolve, this.delayMs))
+  }
+
+  async createOrder(order, { paymentMethod } = {}) {
+    await this.delay()
+
+    const [outcome, settlesTo] = this.nextOutcome().split(':')
+    const gatewayOrderId = this.nextId('order')
+    const paymentId = this.nextId('pay')
+    const statuses = {
+      success: PAYMENT_STATUS.CAPTURED,
+      fail: PAYMENT_STATUS.FAILED,
+      pending: PAYMENT_STATUS.PENDING,
+      timeout: PAYMENT_STATUS.CAPTURED
+    }
+
+    if (!statuses[outcome]) {
+      throw new Error(`Unknown mock gateway outcome "${outcome}"`)
+    }
+
+    const record = {
+      gatewayOrderId,
+      paymentId,
+      amount: order.totalAmount,
+      paymentMethod,
+      status: statuses[outcome],
+      settlesTo: settlesTo ? statuses[settlesTo] : null,
+      refunds: []
+    }
+    this.orders.set(gatewayOrderId, record)
+
+    if (outcome === 'timeout') {
+      throw timeoutError(`Mock gateway timed out creating ${gatewayOrderId}`, gatewayOrderId)
+    }
+
+    return {
+      gatewayOrderId,
+      status: record.status,
+      paymentId: record.status === PAYMENT_STATUS.FAILED ? undefined : paymentId,
+      signature: this.sign(gatewayOrderId, paymentId),
+      amount: record.amount,
+      currency: 'INR',
+      raw: { outcome }
+    }
+  }
+
+  async verify({ gatewayOrderId, paymentId, signature }) {
+    return Boolean(signature) && signature === this.sign(gatewayOrderId, paymentId)
+  }
+
+  async refund({ paymentId, amount }) {
+    await this.delay()
+
+    const record = [...this.orders.values()].find(entry => entry.paymentId === paymentId)
+    if (!record || record.status !== PAYMENT_STATUS.CAPTURED) {
+      throw new Error(`Mock payment ${paymentId} cannot be refunded`)
+    }
+
+    const refund = { refundId: this.nextId('rfnd'), status: 'PROCESSED', amount }
+    record.refunds.push(refund)
+    return { ...refund, raw: { paymentId } }
+  }
+
+  async fetchStatus(gatewayOrderId) {
+    await this.delay()
+
+    const record = this.orders.get(gatewayOrderId)
+    if (!record) {
+      throw new Error(`Unknown mock gateway order ${gatewayOrderId}`)
+    }
+
+    if (record.status === PAYMENT_STATUS.PENDING && record.settlesTo) {
+      record.status = record.settlesTo
+    }
+
+    return { status: record.status, paymentId: record.paymentId, raw: { ...record } }
+  }
+
+  // Unpaid orders are declined from now on; captured ones stay captured
+  async closeOrder(gatewayOrderId) {
+    const { status, paymentId } = await this.fetchStatus(gatewayOrderId)
+    if (status === PAYMENT_STATUS.CAPTURED) {
+      return { closed: false, status, paymentId }
+    }
+
+    const record = this.orders.get(gatewayOrderId)
+    record.status = PAYMENT_STATUS.FAILED
+    record.settlesTo = null
+    return { closed: true, status: record.status }
+  }
+}
+
+// PAYMENT_GATEWAY selects the gateway; without it Razorpay is used when its keys are
+// set, and the mock only outside production. A gateway that cannot verify real
+// payments fails startup instead of falling back to the mock.
+function createGatewayFromEnv(name = process.env.PAYMENT_GATEWAY) {
+  const razorpay = new RazorpayGateway({
+    keyId: process.env.RAZORPAY_KEY_ID,
+    keySecret: process.env.RAZORPAY_SECRET
+  })
+  const mock = new MockPaymentGateway({
+    script: (process.env.MOCK_GATEWAY_SCRIPT || 'success')
+      .split(',')
+      .map(outcome => outcome.trim().toLowerCase())
+      .filter(Boolean),
+    delayMs: parseInt(process.env.MOCK_GATEWAY_DELAY_MS) || 0
+  })
+
+  if (!name && !razorpay.isConfigured() && process.env.NODE_ENV === 'production') {
+    throw new Error('RAZORPAY_KEY_ID and RAZORPAY_SECRET are required in production (or set PAYMENT_GATEWAY=mock)')
+  }
+
+  const selected = (name || (razorpay.isConfigured() ? 'razorpay' : 'mock')).toLowerCase()
+
+  if (selected === 'mock') {
+    return mock
+  }
+
+  if (selected !== 'razorpay') {
+    throw new Error(`Unknown payment gateway "${selected}". Use razorpay or mock`)
+  }
+
+  if (!razorpay.isConfigured()) {
+    throw new Error('PAYMENT_GATEWAY=razorpay but RAZORPAY_KEY_ID or RAZORPAY_SECRET is not set')
+  }
+  return razorpay
+}
+
+module.exports = {
+  PAYMENT_STATUS,
+  PaymentGateway,
+  RazorpayGateway,
+  MockPaymentGateway,
+  createGatewayFromEnv,
+  paymentGateway: createGatewayFromEnv()
+}
@@ -0,0 +1,135 @@
+// Minimal PDF writer for generated documents such as invoices and statements:
+// A4 pages of Helvetica text, rules and simple tables, laid out top to bottom.
+// Text is limited to the WinAnsi character set, so amounts use "Rs." not "₹".
+
+const PAGE_WIDTH = 595 // A4 in points
+const PAGE_HEIGHT = 842
+const MARGIN = 50
+
+// Helvetica advance widths (per 1000 units) for ASCII 32-126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+]
+
+const toWinAnsi = (value) => String(value ?? '')
+  .replace(/₹\s?/g, 'Rs. ')
+  .replace(/[–—]/g, '-')
+  .replace(/[^\x20-\x7e]/g, '')
+
+const escape = (value) => value.replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)')
+
+class PdfDocument {
+  constructor({ title } = {}) {
+    this.title = title
+    this.pages = []
+    this.width = PAGE_WIDTH
+    this.margin = MARGIN
+    this.addPage()
+  }
+
+  addPage() {
+    this.page = []
+    this.pages.push(this.page)
+    this.y = PAGE_HEIGHT - MARGIN
+    return this
+  }
+
+  textWidth(text, size) {
+    return [...toWinAnsi(text)].reduce((width, char) =>
+      width + (HELVETICA_WIDTHS[char.charCodeAt(0) - 32] || 556), 0) * size / 1000
+  }
+
+  // Start a new page when fewer than `height` points are left
+  ensureSpace(height) {
+    if (this.y - height < MARGIN) this.addPage()
+    return this
+  }
+
+  // Draw text at the current line; x is the left edge, or the right edge with align: 'right'
+  draw(text, { x = MARGIN, size = 10, bold = false, align = 'left', color = 0 } = {}) {
+    const value = toWinAnsi(text)
+    const left = align === 'right' ? x - this.textWidth(value, size) : x
+    this.page.push(
+      `BT ${color} g /${bold ? 'F2' : 'F1'} ${size} Tf ${left.toFixed(2)} ${(this.y - size).toFixed(2)} Td (${escape(value)}) Tj ET`
+    )
+    return this
+  }
+
+  // One line of text, then move down
+  text(text, options = {}) {
+    const size = options.size || 10
+    this.ensureSpace(size * 1.5)
+    this.draw(text, options)
+    this.y -= size * 1.5
+    return this
+  }
+
+  // Cells on one line: [{ text, x, align, bold }]
+  row(cells, { size = 10 } = {}) {
+    this.ensureSpace(size * 1.6)
+    cells.forEach(cell => this.draw(cell.text, { size, ...cell }))
+    this.y -= size * 1.6
+    return this
+  }
+
+  rule({ gap = 6 } = {}) {
+    this.ensureSpace(gap * 2)
+    this.y -= gap / 2
+    this.page.push(`0.7 G 0.5 w ${MARGIN} ${this.y.toFixed(2)} m ${PAGE_WIDTH - MARGIN} ${this.y.toFixed(2)} l S 0 G`)
+    this.y -= gap
+    return this
+  }
+
+  moveDown(points = 10) {
+    this.y -= points
+    return this
+  }
+
+  toBuffer() {
+    const objects = []
+    const add = (body) => {
+      objects.push(body)
+      return objects.length
+    }
+
+    const catalogId = add(null)
+    const pagesId = add(null)
+    const regularId = add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>')
+    const boldId = add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>')
+
+    const pageIds = this.pages.map((commands, index) => {
+      const footer = `BT 0.5 g /F1 8 Tf ${PAGE_WIDTH - MARGIN - 40} 25 Td (Page ${index + 1} of ${this.pages.length}) Tj ET`
+      const stream = [...commands, footer].join('\n')
+      const contentId = add(`<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`)
+      return add(
+        `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 ${regularId} 0 R /F2 ${boldId} 0 R >> >> /Contents ${contentId} 0 R >>`
+      )
+    })
+
+    objects[catalogId - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`
+    objects[pagesId - 1] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`
+    const infoId = add(`<< /Title (${escape(toWinAnsi(this.title || 'AuroraGold'))}) /Producer (AuroraGold) >>`)
+
+    let output = '%PDF-1.4\n'
+    const offsets = objects.map((body, index) => {
+      const offset = Buffer.byteLength(output, 'latin1')
+      output += `${index + 1} 0 obj\n${body}\nendobj\n`
+      return offset
+    })
+
+    const xrefOffset = Buffer.byteLength(output, 'latin1')
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+    output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('')
+    output += `trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+
+    return Buffer.from(output, 'latin1')
+  }
+}
+
+module.exports = { PdfDocument, PAGE_WIDTH, MARGIN }
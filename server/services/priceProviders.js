@@ -0,0 +1,343 @@
+const fs = require('fs/promises')
+const axios = require('axios')
+
+// Base class every gold price provider extends.
+// Providers return the price of 1 gram of 24k gold in INR.
+class PriceProvider {
+  constructor(name, options = {}) {
+    this.name = name
+    this.options = options
+  }
+
+  // Whether the provider has everything it needs to run
+  isConfigured() {
+    return true
+  }
+
+  async fetchPrice() {
+    throw new Error(`Provider "${this.name}" does not implement fetchPrice`)
+  }
+}
+
+// Asks Gemini for an approximate price, at most once per fetch interval
+class GeminiPriceProvider extends PriceProvider {
+  constructor(options = {}) {
+    super('gemini', options)
+    this.apiKey = options.apiKey
+    this.apiUrl = 'https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash-latest:generateContent'
+    this.fetchInterval = options.fetchInterval || 10 * 60 * 1000 // 10 minutes between AI calls
+    this.lastFetch = 0
+  }
+
+  isConfigured() {
+    return Boolean(this.apiKey && this.apiKey !== 'your-gemini-api-key-here')
+  }
+
+  async fetchPrice() {
+    const now = Date.now()
+
+    if ((now - this.lastFetch) < this.fetchInterval) {
+      const timeUntilNext = this.fetchInterval - (now - this.lastFetch)
+      const error = new Error(`Skipping Gemini API call. Next call in ${Math.round(timeUntilNext / 1000)} seconds`)
+      error.throttled = true
+      throw error
+    }
+
+    console.log('Attempting to fetch gold price from Gemini API...')
+    const price = await this.fetchFromGemini()
+    this.lastFetch = now
+    console.log('Successfully fetched price from Gemini:', price)
+    return price
+  }
+
+  // Fetch gold price using Gemini 1.5 Flash (robust implementation)
+  async fetchFromGemini() {
+    try {
+      // Improved prompt that asks for estimate in realistic range
+      const prompt = `Give me an approximate 24k gold price per gram in Indian Rupees (current range 6200-7200). Reply with just a number like 6850.`
+
+      const requestBody = {
+        contents: [{ parts: [{ text: prompt }] }],
+        generationConfig: {
+          maxOutputTokens: 30, // Slightly more for clearer responses
+          temperature: 0.1, // Lower temperature for more predictable responses
+          topP: 0.8
+        }
+      }
+
+      console.log('Gemini Request:', { prompt, config: requestBody.generationConfig })
+
+      const response = await axios.post(
+        `${this.apiUrl}?key=${this.apiKey}`,
+        requestBody,
+        {
+          headers: { 'Content-Type': 'application/json' },
+          timeout: 15000 // Increased timeout
+        }
+      )
+
+      console.log('Gemini Response Status:', response.status)
+      console.log('Gemini Response Data:', JSON.stringify(response.data, null, 2))
+
+      if (response.data?.candidates?.[0]?.content?.parts?.[0]?.text) {
+        const text = response.data.candidates[0].content.parts[0].text.trim()
+        console.log('Gemini Response Text:', text)
+
+        const price = this.parseGoldPriceFromText(text)
+        if (price) {
+          console.log('Successfully parsed price:', price)
+          return price
+        }
+      }
+
+      throw new Error(`Invalid Gemini response format. Response: ${JSON.stringify(response.data)}`)
+    } catch (error) {
+      console.error('Gemini gold price error details:', {
+        message: error.message,
+        response: error.response?.data,
+        status: error.response?.status,
+        config: error.config
+      })
+      throw error
+    }
+  }
+
+  // Robust price parsing with multiple strategies
+  parseGoldPriceFromText(text) {
+    console.log('Parsing text for price:', text)
+
+    // Strategy 1: Find standalone numbers (most common)
+    const numberMatch = text.match(/\b(\d{4,5})\b/)
+    if (numberMatch) {
+      const price = parseInt(numberMatch[1])
+      if (this.isValidGoldPrice(price)) {
+        console.log('Found price using Strategy 1 (standalone number):', price)
+        return price
+      }
+    }
+
+    // Strategy 2: Find numbers with currency symbols or words
+    const currencyMatches = [
+      text.match(/₹\s*(\d{4,5})/), // ₹6850
+      text.match(/Rs\.?\s*(\d{4,5})/i), // Rs 6850 or Rs. 6850
+      text.match(/INR\s*(\d{4,5})/i), // INR 6850
+      text.match(/rupees?\s*(\d{4,5})/i), // rupees 6850
+      text.match(/(\d{4,5})\s*rupees?/i), // 6850 rupees
+      text.match(/(\d{4,5})\s*INR/i), // 6850 INR
+    ]
+
+    for (const match of currencyMatches) {
+      if (match) {
+        const price = parseInt(match[1])
+        if (this.isValidGoldPrice(price)) {
+          console.log('Found price using Strategy 2 (currency format):', price)
+          return price
+        }
+      }
+    }
+
+    // Strategy 3: Find numbers with commas (6,850)
+    const commaMatch = text.match(/\b(\d{1,2},\d{3})\b/)
+    if (commaMatch) {
+      const price = parseInt(commaMatch[1].replace(',', ''))
+      if (this.isValidGoldPrice(price)) {
+        console.log('Found price using Strategy 3 (comma format):', price)
+        return price
+      }
+    }
+
+    // Strategy 4: Any sequence of 4-5 digits (last resort)
+    const allNumbers = text.match(/\d{4,5}/g)
+    if (allNumbers) {
+      for (const numStr of allNumbers) {
+        const price = parseInt(numStr)
+        if (this.isValidGoldPrice(price)) {
+          console.log('Found price using Strategy 4 (any digits):', price)
+          return price
+        }
+      }
+    }
+
+    console.log('No valid price found in text using any strategy')
+    return null
+  }
+
+  // Validate if a price is within reasonable gold price range (more flexible)
+  isValidGoldPrice(price) {
+    const isValid = price >= 5500 && price <= 8000 // Expanded range for AI responses
+    console.log(`Validating price ${price}: ${isValid ? 'VALID' : 'INVALID'}`)
+    return isValid
+  }
+}
+
+// Reads an MCX/IBJA-style rate sheet (CSV with a header row) from a file path or URL.
+// The latest row wins; rates are usually quoted per 10 grams.
+//
+//   Date,999,995,916
+//   2025-06-02,97150,96760,88990
+class RateFilePriceProvider extends PriceProvider {
+  constructor(options = {}) {
+    super('rate_file', options)
+    this.source = options.source
+    this.column = options.column || '999'
+    this.unitGrams = options.unitGrams || 10
+  }
+
+  isConfigured() {
+    return Boolean(this.source)
+  }
+
+  async fetchPrice() {
+    const content = await this.readSource()
+    const rows = content
+      .split(/\r?\n/)
+      .map(line => line.trim())
+      .filter(line => line.length > 0 && !line.startsWith('#'))
+
+    if (rows.length < 2) {
+      throw new Error('Rate file has no data rows')
+    }
+
+    const header = rows[0].split(',').map(cell => cell.trim())
+    const columnIndex = header.indexOf(this.column)
+    if (columnIndex === -1) {
+      throw new Error(`Rate file is missing column "${this.column}"`)
+    }
+
+    const latest = rows[rows.length - 1].split(',').map(cell => cell.trim())
+    const rate = parseFloat((latest[columnIndex] || '').replace(/[^\d.]/g, ''))
+    if (!rate) {
+      throw new Error(`Invalid rate in rate file: ${latest[columnIndex]}`)
+    }
+
+    return Math.round(rate / this.unitGrams)
+  }
+
+  async readSource() {
+    if (/^https?:\/\//i.test(this.source)) {
+      const response = await axios.get(this.source, { responseType: 'text', timeout: 10000 })
+      return response.data
+    }
+    return fs.readFile(this.source, 'utf8')
+  }
+}
+
+// Generic HTTP feed returning JSON; the price is read from a dotted path like "data.rates.XAU"
+class JsonFeedPriceProvider extends PriceProvider {
+  constructor(options = {}) {
+    super('json_feed', options)
+    this.url = options.url
+    this.pricePath = options.pricePath || 'price'
+    this.unitGrams = options.unitGrams || 1
+    this.headers = options.headers || {}
+  }
+
+  isConfigured() {
+    return Boolean(this.url)
+  }
+
+  async fetchPrice() {
+    const response = await axios.get(this.url, {
+      headers: this.headers,
+      timeout: 10000
+    })
+
+    const value = this.pricePath
+      .split('.')
+      .reduce((current, key) => (current == null ? undefined : current[key]), response.data)
+    const rate = parseFloat(value)
+
+    if (!rate) {
+      throw new Error(`No price found at "${this.pricePath}" in feed response`)
+    }
+
+    return Math.round(rate / this.unitGrams)
+  }
+}
+
+// Always returns the same price - useful for tests and local demos
+class FixedPriceProvider extends PriceProvider {
+  constructor(options = {}) {
+    super('fixed', options)
+    this.price = options.price
+  }
+
+  isConfigured() {
+    return Number.isFinite(this.price) && this.price > 0
+  }
+
+  async fetchPrice() {
+    return this.price
+  }
+}
+
+// Realistic simulated price with minor fluctuations
+class SimulatedPriceProvider extends PriceProvider {
+  constructor(options = {}) {
+    super('simulated', options)
+    this.basePrice = options.basePrice || 6800 // Base gold price in INR
+  }
+
+  async fetchPrice() {
+    const hourOfDay = new Date().getHours()
+
+    // Simulate market fluctuations based on time
+    const timeVariation = Math.sin((hourOfDay / 24) * Math.PI * 2) * 50
+    const randomVariation = (Math.random() - 0.5) * 100
+
+    const price = Math.round(this.basePrice + timeVariation + randomVariation)
+
+    // Ensure price stays within reasonable bounds
+    return Math.max(6200, Math.min(7200, price))
+  }
+}
+
+const PROVIDER_FACTORIES = {
+  gemini: () => new GeminiPriceProvider({
+    apiKey: process.env.GEMINI_API_KEY
+  }),
+  rate_file: () => new RateFilePriceProvider({
+    source: process.env.GOLD_RATE_FILE,
+    column: process.env.GOLD_RATE_FILE_COLUMN,
+    unitGrams: parseFloat(process.env.GOLD_RATE_FILE_UNIT_GRAMS) || undefined
+  }),
+  json_feed: () => new JsonFeedPriceProvider({
+    url: process.env.GOLD_FEED_URL,
+    pricePath: process.env.GOLD_FEED_PRICE_PATH,
+    unitGrams: parseFloat(process.env.GOLD_FEED_UNIT_GRAMS) || undefined,
+    headers: process.env.GOLD_FEED_API_KEY
+      ? { [process.env.GOLD_FEED_API_KEY_HEADER || 'x-api-key']: process.env.GOLD_FEED_API_KEY }
+      : {}
+  }),
+  fixed: () => new FixedPriceProvider({
+    price: parseFloat(process.env.GOLD_FIXED_PRICE)
+  }),
+  simulated: () => new SimulatedPriceProvider()
+}
+
+// Build the provider chain from GOLD_PRICE_PROVIDERS (comma separated, highest priority first)
+function createProvidersFromEnv(list = process.env.GOLD_PRICE_PROVIDERS || 'gemini,simulated') {
+  return list
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(Boolean)
+    .map(name => {
+      const factory = PROVIDER_FACTORIES[name]
+      if (!factory) {
+        console.warn(`Unknown gold price provider "${name}" - skipping`)
+        return null
+      }
+      return factory()
+    })
+    .filter(Boolean)
+}
+
+module.exports = {
+  PriceProvider,
+  GeminiPriceProvider,
+  RateFilePriceProvider,
+  JsonFeedPriceProvider,
+  FixedPriceProvider,
+  SimulatedPriceProvider,
+  createProvidersFromEnv
+}
@@ -0,0 +1,125 @@
+const goldPriceService = require('./goldPrice')
+
+// Fans gold price updates out to Server-Sent Events clients.
+// Event ids are the price timestamp in milliseconds, so a reconnecting client's
+// Last-Event-ID stays meaningful across server restarts.
+class PriceStreamService {
+  constructor() {
+    this.clients = new Set()
+    this.recentEvents = [] // replay buffer for reconnects
+    this.maxRecentEvents = 50
+
+    this.heartbeatInterval = 15 * 1000
+    this.retryDelay = 5000 // reconnect delay suggested to clients
+    // How often the cache is checked while clients are listening; a refresh
+    // only happens once the cached price has expired
+    this.refreshInterval = parseInt(process.env.GOLD_STREAM_REFRESH_MS) || 30 * 1000
+
+    this.heartbeatTimer = null
+    this.refreshTimer = null
+
+    goldPriceService.on('price', priceData => {
+      this.publish(priceData).catch(error => {
+        console.error('Price stream publish error:', error.message)
+      })
+    })
+  }
+
+  // Attach an HTTP response as a stream client
+  subscribe(req, res) {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no' // disable proxy buffering
+    })
+    res.write(`retry: ${this.retryDelay}\n\n`)
+
+    this.clients.add(res)
+    this.start()
+
+    req.on('close', () => {
+      this.clients.delete(res)
+      if (this.clients.size === 0) this.stop()
+    })
+
+    const lastEventId = parseInt(req.headers['last-event-id'] || req.query.lastEventId)
+    this.sendInitialEvents(res, lastEventId).catch(error => {
+      console.error('Price stream initial event error:', error.message)
+    })
+  }
+
+  // Replay what a reconnecting client missed, or send the current price
+  async sendInitialEvents(res, lastEventId) {
+    const missed = lastEventId
+      ? this.recentEvents.filter(event => event.id > lastEventId)
+      : []
+
+    if (missed.length > 0) {
+      missed.forEach(event => this.write(res, event))
+      return
+    }
+
+    const priceData = await goldPriceService.getCurrentPrice()
+
+    // A fresh fetch is broadcast to every client through the 'price' event
+    if (priceData.source === 'api') return
+
+    const event = await this.buildEvent(priceData)
+
+    // Nothing new since the client's last event
+    if (lastEventId && event.id <= lastEventId) return
+
+    this.write(res, event)
+  }
+
+  async buildEvent(priceData) {
+    const snapshot = await goldPriceService.getPriceSnapshot(priceData)
+    return {
+      id: new Date(priceData.timestamp).getTime(),
+      event: 'price',
+      data: snapshot
+    }
+  }
+
+  async publish(priceData) {
+    const event = await this.buildEvent(priceData)
+
+    this.recentEvents.push(event)
+    if (this.recentEvents.length > this.maxRecentEvents) {
+      this.recentEvents.shift()
+    }
+
+    this.clients.forEach(res => this.write(res, event))
+  }
+
+  write(res, event) {
+    res.write(`id: ${event.id}\nevent: ${event.event}\ndata: ${JSON.stringify(event.data)}\n\n`)
+  }
+
+  // Heartbeats keep idle connections open; the refresh loop keeps the cache moving
+  start() {
+    if (!this.heartbeatTimer) {
+      this.heartbeatTimer = setInterval(() => {
+        this.clients.forEach(res => res.write(`: heartbeat ${Date.now()}\n\n`))
+      }, this.heartbeatInterval)
+    }
+
+    if (!this.refreshTimer) {
+      this.refreshTimer = setInterval(() => {
+        goldPriceService.getCurrentPrice().catch(error => {
+          console.error('Price stream refresh error:', error.message)
+        })
+      }, this.refreshInterval)
+    }
+  }
+
+  stop() {
+    clearInterval(this.heartbeatTimer)
+    clearInterval(this.refreshTimer)
+    this.heartbeatTimer = null
+    this.refreshTimer = null
+  }
+}
+
+module.exports = new PriceStreamService()
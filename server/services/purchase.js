@@ -0,0 +1,237 @@
+const Order = require('../models/Order')
+const settlementService = require('./settlement')
+const feeService = require('./fees')
+const quoteService = require('./quote')
+const { paymentGateway, PAYMENT_STATUS } = require('./paymentGateway')
+const { MIN_PURCHASE_AMOUNT, MAX_PURCHASE_AMOUNT } = require('../validation/schemas')
+
+const purchaseError = (message) => {
+  const error = new Error(message)
+  error.status = 400
+  return error
+}
+
+// The buy path shared by the purchase API and scheduled purchases:
+// price an order, create it, then take payment through the gateway.
+class PurchaseService {
+  constructor() {
+    this.gateway = paymentGateway
+    this.minAmount = MIN_PURCHASE_AMOUNT // INR
+    this.maxAmount = MAX_PURCHASE_AMOUNT // INR
+    this.minGrams = 0.01
+  }
+
+  // Amount, grams and charges for a purchase at priceData.price; throws a 400 error when invalid
+  priceOrder({ amountINR, grams, preferredType = 'amount', price, paymentMethod = 'UPI' }) {
+    if ((!amountINR && !grams) || (amountINR && grams)) {
+      throw purchaseError('Provide either amountINR or grams, not both')
+    }
+
+    let finalAmount, finalGrams
+
+    if (preferredType === 'amount' && amountINR) {
+      finalAmount = parseFloat(amountINR)
+      finalGrams = finalAmount / price
+
+      if (finalAmount < this.minAmount) {
+        throw purchaseError(`Minimum purchase amount is ₹${this.minAmount}`)
+      }
+    } else if (preferredType === 'grams' && grams) {
+      finalGrams = parseFloat(grams)
+      finalAmount = finalGrams * price
+
+      if (finalGrams < this.minGrams) {
+        throw purchaseError(`Minimum purchase is ${this.minGrams} grams`)
+      }
+    } else {
+      throw purchaseError('Invalid purchase parameters')
+    }
+
+    // Checked on the gold value whichever way the order was given, so grams
+    // cannot buy past the limit either
+    if (!Number.isFinite(finalAmount)) {
+      throw purchaseError('Invalid purchase parameters')
+    }
+
+    if (finalAmount > this.maxAmount) {
+      throw purchaseError(`Maximum purchase amount is ₹${this.maxAmount.toLocaleString('en-IN')}`)
+    }
+
+    const goldValue = Math.round(finalAmount)
+
+    return {
+      amountINR: goldValue,
+      grams: parseFloat(finalGrams.toFixed(4)),
+      pricePerGram: price,
+      ...feeService.toOrderFields(feeService.forBuy(goldValue, { paymentMethod }))
+    }
+  }
+
+  // Create a PENDING buy order
+  async createOrder({
+    userId,
+    amountINR,
+    grams,
+    preferredType,
+    priceData,
+    fundingSource = 'GATEWAY',
+    paymentMethod = fundingSource === 'WALLET' ? 'WALLET' : 'UPI',
+    metadata = {},
+    sipId,
+    limitOrderId
+  }) {
+    const pricing = this.priceOrder({ amountINR, grams, preferredType, price: priceData.price, paymentMethod })
+
+    const order = new Order({
+      userId,
+      ...pricing,
+      fundingSource,
+      paymentDetails: { paymentMethod },
+      sipId,
+      limitOrderId,
+      goldRateSnapshot: {
+        timestamp: priceData.timestamp,
+        source: priceData.source,
+        provider: priceData.provider,
+        quoteId: priceData.quoteId,
+        rate: priceData.price
+      },
+      metadata
+    })
+
+    // A quoted price is spent together with the order it priced, so an order
+    // rejected above leaves the quote usable
+    if (priceData.quoteId) {
+      await settlementService.withTransaction(async (session) => {
+        await quoteService.redeemQuote(priceData.quoteId, userId, { session })
+        await order.save({ session })
+      })
+    } else {
+      await order.save()
+    }
+
+    return order
+  }
+
+  // Take payment for a PENDING order. Returns { outcome, order, gatewayOrder? } where
+  // outcome is NOT_PAYABLE, COMPLETED, CONFLICT, FAILED, PENDING, TIMEOUT or CHECKOUT.
+  // Wallet-funded orders settle straight away and never reach the gateway.
+  async payOrder(order, { paymentMethod = order.feeBreakdown?.paymentMethod || 'UPI', paymentId } = {}) {
+    // Claim the order so it cannot be cancelled or paid twice while the gateway runs
+    const claimed = order.status === 'PENDING' && await Order.findOneAndUpdate(
+      { _id: order._id, status: 'PENDING' },
+      { $set: { status: 'PROCESSING' } }
+    )
+
+    if (!claimed) {
+      return { outcome: 'NOT_PAYABLE', order }
+    }
+    order.status = 'PROCESSING'
+
+    if (order.fundingSource === 'WALLET') {
+      return this.payFromWallet(order)
+    }
+
+    // The surcharge depends on the payment method; reprice if it changed since the order was created
+    if (order.feeBreakdown?.paymentMethod && order.feeBreakdown.paymentMethod !== paymentMethod) {
+      const charges = feeService.toOrderFields(feeService.forBuy(order.amountINR, { paymentMethod }))
+      await Order.updateOne({ _id: order._id }, { $set: charges })
+      order.set(charges)
+    }
+
+    const gateway = this.gateway
+    const previousDetails = order.paymentDetails?.toObject?.() || {}
+
+    let gatewayOrder
+    try {
+      gatewayOrder = await gateway.createOrder(order, { paymentMethod })
+    } catch (gatewayError) {
+      if (gatewayError.code !== 'GATEWAY_TIMEOUT') {
+        // Nothing reached the gateway; let the user try again
+        await Order.updateOne({ _id: order._id, status: 'PROCESSING' }, { $set: { status: 'PENDING' } })
+        throw gatewayError
+      }
+
+      // The gateway may still take the payment; leave the order for the reconciler
+      console.warn('Payment gateway timed out:', { orderId: order._id, gateway: gateway.name })
+      order.paymentDetails = {
+        ...previousDetails,
+        paymentMethod,
+        gateway: gateway.name,
+        gatewayOrderId: gatewayError.gatewayOrderId,
+        gatewayResponse: {
+          status: 'timeout',
+          timestamp: new Date(),
+          error: gatewayError.message
+        }
+      }
+      await order.save()
+
+      return { outcome: 'TIMEOUT', order }
+    }
+
+    const paymentDetails = {
+      ...previousDetails,
+      paymentId: gatewayOrder.paymentId || paymentId,
+      paymentMethod,
+      gateway: gateway.name,
+      gatewayOrderId: gatewayOrder.gatewayOrderId,
+      razorpayOrderId: gateway.name === 'razorpay' ? gatewayOrder.gatewayOrderId : undefined,
+      gatewayResponse: {
+        status: gatewayOrder.status.toLowerCase(),
+        timestamp: new Date(),
+        orderId: gatewayOrder.gatewayOrderId
+      }
+    }
+
+    console.log('Gateway order created:', { orderId: order._id, gateway: gateway.name, status: gatewayOrder.status })
+
+    if (gatewayOrder.status === PAYMENT_STATUS.CAPTURED) {
+      // Complete the order and credit its grams in one transaction
+      const settlement = await settlementService.completeBuyOrder(order._id, paymentDetails)
+      const outcome = settlement.settled || settlement.alreadyCompleted ? 'COMPLETED' : 'CONFLICT'
+      return { outcome, order: settlement.order, gatewayOrder }
+    }
+
+    if (gatewayOrder.status === PAYMENT_STATUS.FAILED) {
+      const failedOrder = await settlementService.failOrder(order._id, paymentDetails)
+      return { outcome: 'FAILED', order: failedOrder, gatewayOrder }
+    }
+
+    // Awaiting checkout (Razorpay) or confirmation from the gateway
+    order.paymentDetails = paymentDetails
+    await order.save()
+
+    return {
+      outcome: gatewayOrder.status === PAYMENT_STATUS.PENDING ? 'PENDING' : 'CHECKOUT',
+      order,
+      gatewayOrder
+    }
+  }
+
+  // Settle a claimed order from the wallet balance; an insufficient balance fails the order
+  async payFromWallet(order) {
+    const paymentDetails = {
+      paymentId: `wallet_${order._id}`,
+      paymentMethod: 'WALLET',
+      gateway: 'wallet',
+      gatewayResponse: { status: 'captured', timestamp: new Date() }
+    }
+
+    try {
+      const settlement = await settlementService.completeBuyOrder(order._id, paymentDetails)
+      const outcome = settlement.settled || settlement.alreadyCompleted ? 'COMPLETED' : 'CONFLICT'
+      return { outcome, order: settlement.order }
+    } catch (error) {
+      if (error.status !== 400) throw error
+
+      const failedOrder = await settlementService.failOrder(order._id, {
+        ...paymentDetails,
+        gatewayResponse: { status: 'failed', timestamp: new Date(), error: error.message }
+      })
+      return { outcome: 'FAILED', order: failedOrder, error: error.message, available: error.available }
+    }
+  }
+}
+
+module.exports = new PurchaseService()
@@ -0,0 +1,109 @@
+const crypto = require('crypto')
+const UsedQuote = require('../models/UsedQuote')
+
+// Signed price quotes. The quote ID carries the locked price and its expiry,
+// signed with HMAC-SHA256 so it cannot be altered by the client. A quote is
+// spent by the purchase that uses it and cannot lock the price twice.
+class QuoteService {
+  constructor() {
+    this.secret = process.env.QUOTE_SIGNING_SECRET || process.env.JWT_SECRET
+    this.ttlSeconds = parseInt(process.env.QUOTE_TTL_SECONDS) || 5 * 60 // 5 minutes
+  }
+
+  // Lock the given price for a user
+  createQuote(userId, priceData) {
+    const now = Date.now()
+    const payload = {
+      uid: userId.toString(),
+      ppg: priceData.price,
+      src: priceData.source,
+      prv: priceData.provider,
+      pts: new Date(priceData.timestamp).getTime(),
+      iat: now,
+      exp: now + this.ttlSeconds * 1000,
+      nonce: crypto.randomBytes(6).toString('hex')
+    }
+
+    const body = Buffer.from(JSON.stringify(payload)).toString('base64url')
+    const id = `${body}.${this.sign(body)}`
+
+    return this.toQuote(id, payload)
+  }
+
+  // Decode and check a quote ID; throws an error with a status and code when invalid
+  verifyQuote(quoteId, userId) {
+    const [body, signature] = typeof quoteId === 'string' ? quoteId.split('.') : []
+
+    if (!body || !signature || !this.isValidSignature(body, signature)) {
+      throw this.quoteError('Invalid price quote', 'QUOTE_INVALID')
+    }
+
+    let payload
+    try {
+      payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'))
+    } catch (error) {
+      throw this.quoteError('Invalid price quote', 'QUOTE_INVALID')
+    }
+
+    if (payload.uid !== userId.toString()) {
+      throw this.quoteError('Price quote belongs to another user', 'QUOTE_INVALID')
+    }
+
+    if (Date.now() > payload.exp) {
+      throw this.quoteError('Price quote has expired. Please request a new quote.', 'QUOTE_EXPIRED')
+    }
+
+    return this.toQuote(quoteId, payload)
+  }
+
+  // Verify a quote and mark it used; a second use is rejected. Pass the session
+  // of the order the quote prices, so the quote is only spent if the order is saved.
+  async redeemQuote(quoteId, userId, { session = null } = {}) {
+    const quote = this.verifyQuote(quoteId, userId)
+
+    try {
+      await UsedQuote.create([{
+        signature: quoteId.split('.')[1],
+        userId,
+        expiresAt: quote.expiresAt
+      }], { session })
+    } catch (error) {
+      if (error.code !== 11000) throw error
+      throw this.quoteError('Price quote has already been used. Please request a new quote.', 'QUOTE_USED')
+    }
+
+    return quote
+  }
+
+  toQuote(id, payload) {
+    return {
+      id,
+      pricePerGram: payload.ppg,
+      source: payload.src,
+      provider: payload.prv,
+      priceTimestamp: new Date(payload.pts),
+      createdAt: new Date(payload.iat),
+      expiresAt: new Date(payload.exp),
+      validForSeconds: Math.max(0, Math.round((payload.exp - Date.now()) / 1000))
+    }
+  }
+
+  sign(body) {
+    return crypto.createHmac('sha256', this.secret).update(body).digest('base64url')
+  }
+
+  isValidSignature(body, signature) {
+    const expected = Buffer.from(this.sign(body))
+    const actual = Buffer.from(signature)
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual)
+  }
+
+  quoteError(message, code) {
+    const error = new Error(message)
+    error.status = 400
+    error.code = code
+    return error
+  }
+}
+
+module.exports = new QuoteService()
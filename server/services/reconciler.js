@@ -0,0 +1,194 @@
+const mongoose = require('mongoose')
+const Order = require('../models/Order')
+const ReconciliationReport = require('../models/ReconciliationReport')
+const settlementService = require('./settlement')
+const { paymentGateway, PAYMENT_STATUS } = require('./paymentGateway')
+
+// Periodically re-checks buy orders stuck in PENDING/PROCESSING against the
+// payment gateway, settles or fails them, and cancels unpaid orders past a TTL.
+class OrderReconciler {
+  constructor() {
+    this.intervalMs = parseInt(process.env.RECONCILE_INTERVAL_MS) || 5 * 60 * 1000 // 5 minutes
+    this.staleAfterMs = parseInt(process.env.RECONCILE_STALE_AFTER_MS) || 10 * 60 * 1000 // 10 minutes
+    this.pendingTtlMs = (parseInt(process.env.ORDER_PENDING_TTL_MINUTES) || 30) * 60 * 1000
+    this.batchSize = 100
+    this.gateway = paymentGateway
+    this.timer = null
+    this.running = false
+  }
+
+  start() {
+    if (this.timer) return
+
+    this.timer = setInterval(() => {
+      this.run().catch(error => console.error('Order reconciliation error:', error))
+    }, this.intervalMs)
+    this.timer.unref?.()
+
+    console.log(`Order reconciler started (every ${Math.round(this.intervalMs / 1000)}s)`)
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  // Reconcile one batch of stale orders and store the report
+  async run(trigger = 'SCHEDULED') {
+    if (this.running) return null
+    if (mongoose.connection.readyState !== 1) return null
+
+    this.running = true
+    const startedAt = new Date()
+
+    try {
+      // Orders checked least recently first, so a batch that stays unchanged
+      // does not hold back newer orders
+      const staleBefore = new Date(Date.now() - this.staleAfterMs)
+      const staleOrders = await Order.find({
+        type: 'BUY',
+        status: { $in: ['PENDING', 'PROCESSING'] },
+        updatedAt: { $lt: staleBefore },
+        $or: [
+          { lastReconciledAt: { $exists: false } },
+          { lastReconciledAt: { $lt: staleBefore } }
+        ]
+      })
+        .sort({ lastReconciledAt: 1, createdAt: 1 })
+        .limit(this.batchSize)
+
+      const items = []
+      for (const order of staleOrders) {
+        items.push(await this.reconcileOrder(order))
+        await Order.updateOne(
+          { _id: order._id },
+          { $set: { lastReconciledAt: new Date() } },
+          { timestamps: false }
+        )
+      }
+
+      const count = action => items.filter(item => item.action === action).length
+      const report = await ReconciliationReport.create({
+        trigger,
+        gateway: this.gateway.name,
+        startedAt,
+        finishedAt: new Date(),
+        summary: {
+          checked: items.length,
+          settled: count('SETTLED'),
+          failed: count('FAILED'),
+          cancelled: count('CANCELLED'),
+          unchanged: count('UNCHANGED'),
+          errors: count('ERROR')
+        },
+        items
+      })
+
+      if (items.length > 0) {
+        console.log('Order reconciliation finished:', report.summary)
+      }
+
+      return report
+    } finally {
+      this.running = false
+    }
+  }
+
+  async reconcileOrder(order) {
+    const item = {
+      orderId: order._id,
+      previousStatus: order.status,
+      newStatus: order.status,
+      action: 'UNCHANGED'
+    }
+    const isExpired = Date.now() - order.createdAt.getTime() > this.pendingTtlMs
+    const details = order.paymentDetails?.toObject?.() || {}
+    const gatewayOrderId = details.gatewayOrderId || details.razorpayOrderId
+
+    try {
+      // Never sent to a gateway: only the TTL applies
+      if (!gatewayOrderId) {
+        if (isExpired) {
+          return this.cancel(order, item, 'Unpaid order expired')
+        }
+        return item
+      }
+
+      // Created on another gateway, which cannot be asked about it
+      if ((details.gateway || 'razorpay') !== this.gateway.name) {
+        if (isExpired) {
+          return this.cancel(order, item, 'Unpaid order expired')
+        }
+        item.action = 'ERROR'
+        item.error = `Order was created on the ${details.gateway || 'razorpay'} gateway`
+        return item
+      }
+
+      // Past the TTL the gateway order is closed first; it reports whether a
+      // payment got through in the meantime
+      const gatewayStatus = isExpired
+        ? await this.gateway.closeOrder(gatewayOrderId)
+        : await this.gateway.fetchStatus(gatewayOrderId)
+      item.gatewayStatus = gatewayStatus.status
+
+      const gatewayResponse = {
+        status: gatewayStatus.status.toLowerCase(),
+        timestamp: new Date(),
+        orderId: gatewayOrderId,
+        paymentId: gatewayStatus.paymentId,
+        source: 'reconciler'
+      }
+
+      if (gatewayStatus.status === PAYMENT_STATUS.CAPTURED) {
+        const settlement = await settlementService.completeBuyOrder(order._id, {
+          ...details,
+          paymentId: gatewayStatus.paymentId || details.paymentId,
+          gatewayResponse
+        })
+        item.newStatus = settlement.order.status
+        item.action = settlement.settled ? 'SETTLED' : 'UNCHANGED'
+        return item
+      }
+
+      if (gatewayStatus.status === PAYMENT_STATUS.FAILED && !isExpired) {
+        const failedOrder = await settlementService.failOrder(order._id, { ...details, gatewayResponse })
+        item.newStatus = failedOrder.status
+        item.action = failedOrder.status === 'FAILED' ? 'FAILED' : 'UNCHANGED'
+        return item
+      }
+
+      if (isExpired) {
+        return this.cancel(order, item, gatewayStatus.status === PAYMENT_STATUS.CREATED
+          ? 'Checkout abandoned'
+          : 'Unpaid order expired')
+      }
+
+      // Checkout not finished or a payment in flight; keep checking on later runs
+      return item
+    } catch (error) {
+      console.error('Order reconciliation failed:', { orderId: order._id, error: error.message })
+
+      // The TTL still applies when the gateway cannot be reached; a payment
+      // captured after the cancellation is refunded by the webhook
+      if (isExpired) {
+        item.error = error.message
+        return this.cancel(order, item, 'Unpaid order expired')
+      }
+
+      item.action = 'ERROR'
+      item.error = error.message
+      return item
+    }
+  }
+
+  async cancel(order, item, reason) {
+    const cancelledOrder = await settlementService.cancelOrder(order._id, { reason, cancelledBy: 'SYSTEM' })
+    item.newStatus = cancelledOrder.status
+    item.action = cancelledOrder.status === 'CANCELLED' ? 'CANCELLED' : 'UNCHANGED'
+    return item
+  }
+}
+
+module.exports = new OrderReconciler()
@@ -0,0 +1,229 @@
+const Redemption = require('../models/Redemption')
+const Order = require('../models/Order')
+const ledgerService = require('./ledger')
+const settlementService = require('./settlement')
+const goldPriceService = require('./goldPrice')
+const notificationService = require('./notifications')
+
+const redemptionError = (message, extra = {}) => {
+  const error = new Error(message)
+  error.status = 400
+  Object.assign(error, extra)
+  return error
+}
+
+// Coins that can be delivered, with the making charge per coin in INR
+const CATALOGUE = [
+  { sku: 'COIN_1G', name: '1g 24K Gold Coin', grams: 1, makingCharge: 350 },
+  { sku: 'COIN_5G', name: '5g 24K Gold Coin', grams: 5, makingCharge: 750 },
+  { sku: 'COIN_10G', name: '10g 24K Gold Coin', grams: 10, makingCharge: 1200 }
+]
+
+// Stage an admin may move a redemption to from each status
+const NEXT_STAGE = {
+  PLACED: 'PACKED',
+  PACKED: 'SHIPPED',
+  SHIPPED: 'DELIVERED'
+}
+
+const STAGE_MESSAGES = {
+  PACKED: 'Your gold coins are packed and will ship soon.',
+  SHIPPED: 'Your gold coins are on their way.',
+  DELIVERED: 'Your gold coins have been delivered.',
+  CANCELLED: 'Your redemption was cancelled. The gold and making charges are back in your account.'
+}
+
+// Physical delivery of held grams as coins. Placing a redemption locks the grams
+// and takes the making charges from the wallet; an admin then moves it through
+// PACKED, SHIPPED and DELIVERED.
+class RedemptionService {
+  constructor() {
+    this.catalogue = CATALOGUE
+    this.maxQuantity = 10 // per item
+  }
+
+  getCatalogue() {
+    return this.catalogue
+  }
+
+  // Resolve requested { sku, quantity } pairs against the catalogue
+  priceItems(items) {
+    if (!Array.isArray(items) || items.length === 0) {
+      throw redemptionError('Select at least one coin')
+    }
+
+    const lines = items.map(({ sku, quantity }) => {
+      const product = this.catalogue.find(entry => entry.sku === sku)
+      const count = parseInt(quantity)
+
+      if (!product) {
+        throw redemptionError(`Unknown product: ${sku}`)
+      }
+      if (!count || count < 1 || count > this.maxQuantity) {
+        throw redemptionError(`Quantity must be between 1 and ${this.maxQuantity}`)
+      }
+
+      return { sku, name: product.name, grams: product.grams, quantity: count, makingCharge: product.makingCharge }
+    })
+
+    return {
+      items: lines,
+      totalGrams: lines.reduce((sum, line) => sum + line.grams * line.quantity, 0),
+      makingCharges: lines.reduce((sum, line) => sum + line.makingCharge * line.quantity, 0)
+    }
+  }
+
+  async placeRedemption(user, { items, addressId }) {
+    const address = addressId ? user.addresses.id(addressId) : user.addresses.find(entry => entry.isDefault)
+
+    if (!address) {
+      throw redemptionError(addressId ? 'Address not found' : 'Add a delivery address first')
+    }
+
+    const priced = this.priceItems(items)
+    const priceData = await goldPriceService.getCurrentPrice()
+    const value = Math.round(priced.totalGrams * priceData.price)
+
+    return settlementService.withTransaction(async (session) => {
+      const redemption = new Redemption({
+        userId: user._id,
+        ...priced,
+        shippingAddress: {
+          fullName: address.fullName,
+          phone: address.phone,
+          line1: address.line1,
+          line2: address.line2,
+          city: address.city,
+          state: address.state,
+          pincode: address.pincode
+        },
+        statusHistory: [{ status: 'PLACED' }]
+      })
+
+      const [order] = await Order.create([{
+        userId: user._id,
+        type: 'REDEEM',
+        redemptionId: redemption._id,
+        amountINR: value,
+        grams: priced.totalGrams,
+        pricePerGram: priceData.price,
+        transactionFee: priced.makingCharges,
+        totalAmount: priced.makingCharges,
+        status: 'PROCESSING',
+        fundingSource: 'WALLET',
+        goldRateSnapshot: {
+          timestamp: priceData.timestamp,
+          source: priceData.source,
+          provider: priceData.provider,
+          rate: priceData.price
+        }
+      }], { session })
+
+      redemption.orderId = order._id
+      redemption.costBasis = await ledgerService.recordRedemptionPlaced(redemption, { session })
+      await redemption.save({ session })
+
+      const assets = await ledgerService.syncUserAssets(user._id, { session })
+      const wallet = await ledgerService.getWalletBalance(user._id, session)
+
+      return { redemption, order, assets, wallet }
+    })
+  }
+
+  // Admin moves a redemption to its next stage. Returns null when the
+  // redemption is not in the status the stage follows.
+  async advance(redemptionId, status, { carrier, trackingNumber, note } = {}) {
+    const from = Object.keys(NEXT_STAGE).find(stage => NEXT_STAGE[stage] === status)
+
+    if (!from) {
+      throw redemptionError(`Invalid redemption status. Use ${Object.values(NEXT_STAGE).join(', ')} or CANCELLED`)
+    }
+
+    const update = {
+      $set: { status },
+      $push: { statusHistory: { status, at: new Date(), note } }
+    }
+    if (status === 'SHIPPED') {
+      update.$set.shipment = { carrier, trackingNumber }
+    }
+
+    const redemption = await settlementService.withTransaction(async (session) => {
+      const updated = await Redemption.findOneAndUpdate(
+        { _id: redemptionId, status: from },
+        update,
+        { new: true, session }
+      )
+
+      if (!updated) return null
+
+      if (status === 'DELIVERED') {
+        await ledgerService.recordRedemptionDelivered(updated, { session })
+        await Order.updateOne(
+          { _id: updated.orderId },
+          { $set: { status: 'COMPLETED', completedAt: new Date() } },
+          { session }
+        )
+      }
+
+      return updated
+    })
+
+    if (redemption) {
+      await this.notifyStage(redemption)
+    }
+
+    return redemption
+  }
+
+  // Users may cancel until the coins are packed, admins until they are shipped
+  async cancel(redemptionId, { userId, reason, cancelledBy = 'USER' } = {}) {
+    const filter = {
+      _id: redemptionId,
+      status: { $in: cancelledBy === 'ADMIN' ? ['PLACED', 'PACKED'] : ['PLACED'] }
+    }
+    if (userId) filter.userId = userId
+
+    const result = await settlementService.withTransaction(async (session) => {
+      const redemption = await Redemption.findOneAndUpdate(
+        filter,
+        {
+          $set: { status: 'CANCELLED', cancellation: { reason, cancelledBy, cancelledAt: new Date() } },
+          $push: { statusHistory: { status: 'CANCELLED', at: new Date(), note: reason } }
+        },
+        { new: true, session }
+      )
+
+      if (!redemption) return { redemption: null }
+
+      await ledgerService.recordRedemptionCancelled(redemption, { session })
+      await Order.updateOne(
+        { _id: redemption.orderId },
+        { $set: { status: 'CANCELLED', cancellation: { reason, cancelledBy, cancelledAt: new Date() } } },
+        { session }
+      )
+
+      const assets = await ledgerService.syncUserAssets(redemption.userId, { session })
+      return { redemption, assets }
+    })
+
+    if (result.redemption && cancelledBy === 'ADMIN') {
+      await this.notifyStage(result.redemption)
+    }
+
+    return result
+  }
+
+  async notifyStage(redemption) {
+    await notificationService.notify(redemption.userId, {
+      type: `REDEMPTION_${redemption.status}`,
+      title: `Redemption ${redemption.status.toLowerCase()}`,
+      message: redemption.status === 'SHIPPED' && redemption.shipment?.trackingNumber
+        ? `${STAGE_MESSAGES.SHIPPED} Tracking: ${[redemption.shipment.carrier, redemption.shipment.trackingNumber].filter(Boolean).join(' ')}`
+        : STAGE_MESSAGES[redemption.status],
+      orderId: redemption.orderId,
+      data: { redemptionId: redemption._id }
+    })
+  }
+}
+
+module.exports = new RedemptionService()
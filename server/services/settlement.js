@@ -0,0 +1,193 @@
+const mongoose = require('mongoose')
+const Order = require('../models/Order')
+const ledgerService = require('./ledger')
+const invoiceService = require('./invoices')
+
+const SETTLEABLE_STATUSES = ['PENDING', 'PROCESSING']
+
+// Settles orders atomically: the status change, the ledger posting and the
+// user's assets are written in one MongoDB transaction (requires a replica set).
+class SettlementService {
+  async withTransaction(work) {
+    const session = await mongoose.startSession()
+    try {
+      let result
+      await session.withTransaction(async () => {
+        result = await work(session)
+      })
+      return result
+    } finally {
+      await session.endSession()
+    }
+  }
+
+  // Mark a paid buy order COMPLETED and credit its grams. Safe to call repeatedly:
+  // only the call that moves the order out of PENDING/PROCESSING credits anything.
+  // A captured gateway payment may also settle an order that was marked FAILED.
+  async completeBuyOrder(orderId, paymentDetails, { statuses = SETTLEABLE_STATUSES } = {}) {
+    return this.withTransaction(async (session) => {
+      const order = await Order.findOneAndUpdate(
+        { _id: orderId, type: 'BUY', status: { $in: statuses } },
+        { $set: { status: 'COMPLETED', paymentDetails, completedAt: new Date() } },
+        { new: true, session }
+      )
+
+      if (!order) {
+        const existing = await Order.findById(orderId).session(session)
+        return {
+          order: existing,
+          settled: false,
+          alreadyCompleted: existing?.status === 'COMPLETED'
+        }
+      }
+
+      await ledgerService.recordBuySettlement(order, { session })
+      await invoiceService.issue(order, { session })
+      const assets = await ledgerService.syncUserAssets(order.userId, { session })
+
+      return { order, assets, settled: true, alreadyCompleted: false }
+    })
+  }
+
+  // Mark an unsettled order FAILED; completed orders are left untouched
+  async failOrder(orderId, paymentDetails) {
+    const order = await Order.findOneAndUpdate(
+      { _id: orderId, type: 'BUY', status: { $in: SETTLEABLE_STATUSES } },
+      { $set: { status: 'FAILED', paymentDetails } },
+      { new: true }
+    )
+
+    return order || Order.findById(orderId)
+  }
+
+  // Cancel an unsettled order; nothing was credited, so there is nothing to reverse
+  async cancelOrder(orderId, { reason, cancelledBy = 'SYSTEM', statuses = SETTLEABLE_STATUSES } = {}) {
+    const order = await Order.findOneAndUpdate(
+      { _id: orderId, type: 'BUY', status: { $in: statuses } },
+      { $set: { status: 'CANCELLED', cancellation: { reason, cancelledBy, cancelledAt: new Date() } } },
+      { new: true }
+    )
+
+    return order || Order.findById(orderId)
+  }
+
+  // Move a completed buy order to REFUND_PENDING and take its grams back before
+  // the money is returned. Only the first call reverses anything.
+  async startRefund(orderId, { reason, requestedBy = 'ADMIN' } = {}) {
+    return this.withTransaction(async (session) => {
+      const order = await this.reverseBuyOrder(orderId, 'REFUND_PENDING', { reason, requestedBy }, session)
+
+      if (!order) {
+        const existing = await Order.findById(orderId).session(session)
+        return { order: existing, started: false }
+      }
+
+      const assets = await ledgerService.syncUserAssets(order.userId, { session })
+      return { order, assets, started: true }
+    })
+  }
+
+  // The gateway has returned the money. A refund made outside the app (e.g. from the
+  // Razorpay dashboard) arrives for a COMPLETED order and reverses the grams here.
+  async completeRefund(orderId, { refundId, amount, processedAt = new Date() } = {}) {
+    return this.withTransaction(async (session) => {
+      const pending = await Order.findOneAndUpdate(
+        { _id: orderId, type: 'BUY', status: 'REFUND_PENDING' },
+        {
+          $set: {
+            status: 'REFUNDED',
+            'refund.refundId': refundId,
+            'refund.processedAt': processedAt,
+            'refund.failureReason': null
+          }
+        },
+        { new: true, session }
+      )
+
+      if (pending) {
+        return { order: pending, refunded: true }
+      }
+
+      const order = await this.reverseBuyOrder(orderId, 'REFUNDED', {
+        refundId,
+        amount,
+        requestedBy: 'GATEWAY',
+        processedAt
+      }, session)
+
+      if (!order) {
+        const existing = await Order.findById(orderId).session(session)
+        return { order: existing, refunded: false }
+      }
+
+      const assets = await ledgerService.syncUserAssets(order.userId, { session })
+      return { order, assets, refunded: true }
+    })
+  }
+
+  // Store the outcome of a gateway refund call on a REFUND_PENDING order, or on
+  // a CANCELLED order refunding a late payment
+  async recordRefundAttempt(orderId, { refundId, failureReason, processedAt } = {}, { statuses = ['REFUND_PENDING'] } = {}) {
+    const update = { 'refund.refundId': refundId, 'refund.failureReason': failureReason }
+    if (processedAt) update['refund.processedAt'] = processedAt
+
+    return Order.findOneAndUpdate(
+      { _id: orderId, status: { $in: statuses } },
+      { $set: update },
+      { new: true }
+    )
+  }
+
+  // A payment captured after its order was cancelled is returned, not settled:
+  // no grams were credited and the price has moved on. Returns null when a
+  // refund was already started, so only one caller asks the gateway.
+  async startLateCaptureRefund(orderId, { paymentId, amount }) {
+    return Order.findOneAndUpdate(
+      { _id: orderId, type: 'BUY', status: 'CANCELLED', 'refund.requestedAt': { $exists: false } },
+      {
+        $set: {
+          'paymentDetails.paymentId': paymentId,
+          refund: {
+            amount,
+            reason: 'Payment captured after the order was cancelled',
+            requestedBy: 'GATEWAY',
+            requestedAt: new Date()
+          }
+        }
+      },
+      { new: true }
+    )
+  }
+
+  // COMPLETED -> status, with the ledger reversal of the credited grams
+  async reverseBuyOrder(orderId, status, refund, session) {
+    const existing = await Order.findOne({ _id: orderId, type: 'BUY', status: 'COMPLETED' }).session(session)
+    if (!existing) return null
+
+    const amount = refund.amount || existing.totalAmount
+    const order = await Order.findOneAndUpdate(
+      { _id: orderId, status: 'COMPLETED' },
+      { $set: { status, refund: { ...refund, amount, requestedAt: new Date() } } },
+      { new: true, session }
+    )
+
+    if (!order) return null
+
+    await ledgerService.recordBuyRefund(order, amount, { session })
+    return order
+  }
+
+  // Create a completed sell order and debit the grams together
+  async settleSellOrder(orderData) {
+    return this.withTransaction(async (session) => {
+      const [order] = await Order.create([orderData], { session })
+
+      await ledgerService.recordSellSettlement(order, { session })
+      const assets = await ledgerService.syncUserAssets(order.userId, { session })
+
+      return { order, assets }
+    })
+  }
+}
+
+module.exports = new SettlementService()
@@ -0,0 +1,141 @@
+const mongoose = require('mongoose')
+const Sip = require('../models/Sip')
+const goldPriceService = require('./goldPrice')
+const purchaseService = require('./purchase')
+const notificationService = require('./notifications')
+
+// Places the purchase orders of due SIPs. Each due plan gets one order per run,
+// even if the server was down for several periods; nextRunAt then jumps to the
+// next future date.
+class SipScheduler {
+  constructor() {
+    this.intervalMs = parseInt(process.env.SIP_SCHEDULER_INTERVAL_MS) || 60 * 1000 // 1 minute
+    this.batchSize = 50
+    this.timer = null
+    this.running = false
+  }
+
+  start() {
+    if (this.timer) return
+
+    this.timer = setInterval(() => {
+      this.run().catch(error => console.error('SIP scheduler error:', error))
+    }, this.intervalMs)
+    this.timer.unref?.()
+
+    console.log(`SIP scheduler started (every ${Math.round(this.intervalMs / 1000)}s)`)
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  async run() {
+    if (this.running) return []
+    if (mongoose.connection.readyState !== 1) return []
+
+    this.running = true
+    try {
+      const now = new Date()
+      const dueSips = await Sip.find({ status: 'ACTIVE', nextRunAt: { $lte: now } })
+        .sort({ nextRunAt: 1 })
+        .limit(this.batchSize)
+
+      const results = []
+      for (const sip of dueSips) {
+        const result = await this.runSip(sip, now)
+        if (result) results.push(result)
+      }
+      return results
+    } finally {
+      this.running = false
+    }
+  }
+
+  async runSip(sip, now = new Date()) {
+    // Claim this run by moving nextRunAt forward; a plan paused or already
+    // claimed in the meantime is skipped
+    const claimed = await Sip.findOneAndUpdate(
+      { _id: sip._id, status: 'ACTIVE', nextRunAt: sip.nextRunAt },
+      { $set: { nextRunAt: sip.getNextRunAfter(now), lastRunAt: now } },
+      { new: true }
+    )
+
+    if (!claimed) return null
+
+    if (sip.paymentMethod !== 'WALLET' && purchaseService.gateway.requiresCheckout()) {
+      return this.pauseUnpayable(sip, now)
+    }
+
+    try {
+      const priceData = await goldPriceService.getCurrentPrice()
+      const order = await purchaseService.createOrder({
+        userId: sip.userId,
+        amountINR: sip.amountINR,
+        preferredType: 'amount',
+        priceData,
+        fundingSource: sip.paymentMethod === 'WALLET' ? 'WALLET' : 'GATEWAY',
+        paymentMethod: sip.paymentMethod,
+        sipId: sip._id,
+        metadata: { source: 'SIP' }
+      })
+
+      const { outcome } = await purchaseService.payOrder(order, { paymentMethod: sip.paymentMethod })
+
+      await this.notifyPlaced(sip, order, outcome)
+
+      await Sip.updateOne(
+        { _id: sip._id },
+        { $set: { lastOrderId: order._id, lastError: null }, $inc: { runCount: 1 } }
+      )
+
+      console.log('SIP order placed:', { sipId: sip._id, orderId: order._id, outcome })
+      return { sipId: sip._id, orderId: order._id, outcome }
+    } catch (error) {
+      console.error('SIP run failed:', { sipId: sip._id, error: error.message })
+      await Sip.updateOne(
+        { _id: sip._id },
+        { $set: { lastError: error.message }, $inc: { failureCount: 1 } }
+      )
+      return { sipId: sip._id, outcome: 'ERROR', error: error.message }
+    }
+  }
+
+  // Only a failed payment needs the user
+  notifyPlaced(sip, order, outcome) {
+    if (outcome !== 'FAILED') return null
+
+    return notificationService.notify(sip.userId, {
+      type: 'SIP_PAYMENT_FAILED',
+      title: 'SIP payment failed',
+      message: `The payment of ₹${order.totalAmount.toLocaleString()} for your SIP failed. This period's purchase was not made.`,
+      orderId: order._id,
+      data: { sipId: sip._id }
+    })
+  }
+
+  // A card or UPI plan cannot be charged through a checkout gateway while the
+  // user is away, so it is paused instead of placing orders nobody can pay
+  async pauseUnpayable(sip, now) {
+    const error = 'SIPs must be paid from your wallet'
+
+    await Sip.updateOne(
+      { _id: sip._id, status: 'ACTIVE' },
+      { $set: { status: 'PAUSED', pausedAt: now, lastError: error } }
+    )
+    await notificationService.notify(sip.userId, {
+      type: 'SIP_PAUSED',
+      title: 'SIP paused',
+      message: `Your ${sip.frequency.toLowerCase()} SIP of ₹${sip.amountINR.toLocaleString()} can only be paid from your wallet. Start a wallet-funded SIP to keep investing.`,
+      data: { sipId: sip._id }
+    })
+
+    console.log('SIP paused:', { sipId: sip._id, error })
+    return { sipId: sip._id, outcome: 'PAUSED', error }
+  }
+}
+
+module.exports = new SipScheduler()
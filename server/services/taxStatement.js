@@ -0,0 +1,297 @@
+const Order = require('../models/Order')
+const PriceTick = require('../models/PriceTick')
+const goldPriceService = require('./goldPrice')
+const holdingLotService = require('./holdingLots')
+const invoiceService = require('./invoices')
+const { PdfDocument, PAGE_WIDTH, MARGIN } = require('./pdf')
+
+const IST_OFFSET_MS = 330 * 60 * 1000
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const taxError = (message) => {
+  const error = new Error(message)
+  error.status = 400
+  return error
+}
+
+const round2 = (value) => Math.round(value * 100) / 100
+const round4 = (value) => Math.round(value * 10000) / 10000
+
+const addMonths = (date, months) => {
+  const result = new Date(date)
+  result.setUTCMonth(result.getUTCMonth() + months)
+  return result
+}
+
+const formatINR = (amount) => `Rs. ${Number(amount || 0).toLocaleString('en-IN', {
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2
+})}`
+
+const formatDay = (date) => new Date(date).toLocaleDateString('en-IN', {
+  timeZone: 'Asia/Kolkata',
+  day: '2-digit',
+  month: 'short',
+  year: 'numeric'
+})
+
+const emptyTotals = () => ({ grams: 0, cost: 0, value: 0, gain: 0 })
+
+// Capital gains on digital gold for one Indian financial year, from the user's
+// holding lots: sales consumed them first in, first out, at the lots' cost basis.
+// Gains on lots held longer than TAX_LONG_TERM_MONTHS are long-term. This is a
+// statement to help with filing, not tax advice.
+class TaxStatementService {
+  constructor() {
+    this.longTermMonths = parseInt(process.env.TAX_LONG_TERM_MONTHS) || 24
+  }
+
+  // "2025-26" -> 1 April 2025 to 31 March 2026 in IST, end exclusive
+  parseFinancialYear(financialYear = invoiceService.financialYear()) {
+    const match = /^(\d{4})-(\d{2})$/.exec(String(financialYear))
+    const startYear = match && parseInt(match[1])
+
+    if (!match || (startYear + 1) % 100 !== parseInt(match[2])) {
+      throw taxError('Financial year must look like 2025-26')
+    }
+
+    const from = new Date(Date.UTC(startYear, 3, 1) - IST_OFFSET_MS)
+    const to = new Date(Date.UTC(startYear + 1, 3, 1) - IST_OFFSET_MS)
+
+    if (from > new Date()) {
+      throw taxError(`Financial year ${financialYear} has not started`)
+    }
+
+    return { financialYear, from, to }
+  }
+
+  termOf(acquiredAt, disposedAt) {
+    return disposedAt > addMonths(acquiredAt, this.longTermMonths) ? 'LONG_TERM' : 'SHORT_TERM'
+  }
+
+  // Gold price for valuing open lots: the current price for a year still
+  // running, otherwise the last recorded price of the year
+  async valuationPrice(from, to) {
+    if (to > new Date()) {
+      const priceData = await goldPriceService.getCurrentPrice()
+      return { date: new Date(), price: priceData.price, source: priceData.provider || priceData.source }
+    }
+
+    const tick = await PriceTick.getLatestBefore(to)
+    if (tick && tick.timestamp >= from) {
+      return { date: tick.timestamp, price: tick.price, source: tick.source }
+    }
+
+    const priceData = await goldPriceService.getCurrentPrice()
+    return { date: new Date(), price: priceData.price, source: `${priceData.provider || priceData.source} (no price recorded for the year)` }
+  }
+
+  async build(userId, financialYear) {
+    const { financialYear: year, from, to } = this.parseFinancialYear(financialYear)
+    const valuation = await this.valuationPrice(from, to)
+    const cutoff = to > new Date() ? valuation.date : to
+
+    const [lots, sales] = await Promise.all([
+      holdingLotService.getLots(userId, { acquiredBefore: cutoff }),
+      Order.find({ userId, type: 'SELL', status: 'COMPLETED', completedAt: { $gte: from, $lt: to } })
+    ])
+    const salesById = new Map(sales.map(sale => [String(sale._id), sale]))
+
+    // Sales realize a gain on the grams they took from each lot; gifts and
+    // redemptions do not
+    const realized = []
+    lots.forEach(lot => lot.consumptions.forEach(entry => {
+      const sale = entry.type === 'SELL' && salesById.get(String(entry.orderId))
+      if (!sale) return
+
+      const value = round2(entry.grams * sale.totalAmount / sale.grams)
+      realized.push({
+        saleOrderId: sale._id,
+        soldAt: sale.heldAt,
+        purchaseOrderId: lot.orderId,
+        source: lot.source,
+        acquiredAt: lot.acquiredAt,
+        grams: round4(entry.grams),
+        cost: round2(entry.costBasis),
+        value,
+        gain: round2(value - entry.costBasis),
+        holdingDays: Math.floor((sale.heldAt - lot.acquiredAt) / DAY_MS),
+        term: this.termOf(lot.acquiredAt, sale.heldAt)
+      })
+    }))
+    realized.sort((a, b) => a.soldAt - b.soldAt || a.acquiredAt - b.acquiredAt)
+
+    // Grams sold beyond what the lots held have no known cost
+    const unmatchedGrams = sales.reduce((sum, sale) => {
+      const matched = realized
+        .filter(row => String(row.saleOrderId) === String(sale._id))
+        .reduce((total, row) => total + row.grams, 0)
+      const missing = sale.grams - matched
+      return missing > 0.0001 ? sum + missing : sum
+    }, 0)
+
+    const unrealized = lots
+      .map(lot => ({ lot, grams: holdingLotService.remainingAt(lot, cutoff) }))
+      .filter(({ grams }) => grams > 0)
+      .map(({ lot, grams }) => {
+        const cost = round2(grams * lot.pricePerGram)
+        const value = round2(grams * valuation.price)
+        return {
+          purchaseOrderId: lot.orderId,
+          source: lot.source,
+          acquiredAt: lot.acquiredAt,
+          grams,
+          cost,
+          value,
+          gain: round2(value - cost),
+          holdingDays: Math.floor((valuation.date - lot.acquiredAt) / DAY_MS),
+          term: this.termOf(lot.acquiredAt, valuation.date)
+        }
+      })
+
+    return {
+      financialYear: year,
+      period: { from, to: new Date(to.getTime() - 1) },
+      longTermMonths: this.longTermMonths,
+      valuation,
+      summary: {
+        realized: this.summarize(realized),
+        unrealized: this.summarize(unrealized),
+        unmatchedGrams: round4(unmatchedGrams)
+      },
+      realized,
+      unrealized
+    }
+  }
+
+  summarize(rows) {
+    const totals = { shortTerm: emptyTotals(), longTerm: emptyTotals(), total: emptyTotals() }
+
+    rows.forEach(row => {
+      [row.term === 'LONG_TERM' ? totals.longTerm : totals.shortTerm, totals.total].forEach(bucket => {
+        bucket.grams += row.grams
+        bucket.cost += row.cost
+        bucket.value += row.value
+        bucket.gain += row.gain
+      })
+    })
+
+    Object.values(totals).forEach(bucket => {
+      bucket.grams = round4(bucket.grams)
+      bucket.cost = round2(bucket.cost)
+      bucket.value = round2(bucket.value)
+      bucket.gain = round2(bucket.gain)
+    })
+
+    return totals
+  }
+
+  toCsv(statement) {
+    const header = [
+      'Section', 'Term', 'Source', 'Acquired', 'Sold', 'Grams', 'Cost of acquisition',
+      'Sale or market value', 'Gain', 'Holding days', 'Purchase order', 'Sale order'
+    ]
+    const day = date => date ? new Date(date.getTime() + IST_OFFSET_MS).toISOString().slice(0, 10) : ''
+    const line = row => row.map(value => {
+      const text = String(value ?? '')
+      return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+    }).join(',')
+
+    const rows = [
+      ...statement.realized.map(row => ['REALIZED', row.term, row.source, day(row.acquiredAt), day(row.soldAt),
+        row.grams, row.cost, row.value, row.gain, row.holdingDays, row.purchaseOrderId, row.saleOrderId]),
+      ...statement.unrealized.map(row => ['UNREALIZED', row.term, row.source, day(row.acquiredAt), '',
+        row.grams, row.cost, row.value, row.gain, row.holdingDays, row.purchaseOrderId, ''])
+    ]
+
+    return [header, ...rows].map(line).join('\n') + '\n'
+  }
+
+  toPdf(statement, user) {
+    const right = PAGE_WIDTH - MARGIN
+    const doc = new PdfDocument({ title: `Capital gains statement FY ${statement.financialYear}` })
+    const columns = [
+      { key: 'acquiredAt', label: 'Acquired', x: MARGIN },
+      { key: 'soldAt', label: 'Sold', x: 120 },
+      { key: 'grams', label: 'Grams', x: 235, align: 'right' },
+      { key: 'cost', label: 'Cost', x: 310, align: 'right' },
+      { key: 'value', label: 'Value', x: 385, align: 'right' },
+      { key: 'gain', label: 'Gain', x: 460, align: 'right' },
+      { key: 'term', label: 'Term', x: right, align: 'right' }
+    ]
+    const cell = (row, key) => {
+      if (key === 'acquiredAt' || key === 'soldAt') return row[key] ? formatDay(row[key]) : '-'
+      if (key === 'grams') return row.grams.toFixed(4)
+      if (key === 'term') return row.term === 'LONG_TERM' ? 'Long' : 'Short'
+      return formatINR(row[key]).replace('Rs. ', '')
+    }
+    const table = (rows) => {
+      doc.row(columns.map(column => ({ text: column.label, x: column.x, align: column.align, bold: true })), { size: 9 })
+      rows.forEach(row => doc.row(
+        columns.map(column => ({ text: cell(row, column.key), x: column.x, align: column.align })),
+        { size: 9 }
+      ))
+    }
+    const summaryRows = (totals, valueLabel) => {
+      doc.row([
+        { text: 'Grams', x: 235, align: 'right', bold: true },
+        { text: 'Cost', x: 330, align: 'right', bold: true },
+        { text: valueLabel, x: 430, align: 'right', bold: true },
+        { text: 'Gain', x: right, align: 'right', bold: true }
+      ], { size: 9 })
+      const buckets = [['Short-term', totals.shortTerm], ['Long-term', totals.longTerm], ['Total', totals.total]]
+      buckets.forEach(([label, bucket]) => {
+        doc.row([
+          { text: label, bold: label === 'Total' },
+          { text: bucket.grams.toFixed(4), x: 235, align: 'right' },
+          { text: formatINR(bucket.cost), x: 330, align: 'right' },
+          { text: formatINR(bucket.value), x: 430, align: 'right' },
+          { text: formatINR(bucket.gain), x: right, align: 'right', bold: label === 'Total' }
+        ])
+      })
+    }
+
+    doc.row([
+      { text: 'AuroraGold', size: 20, bold: true },
+      { text: 'CAPITAL GAINS STATEMENT', x: right, align: 'right', size: 12, bold: true }
+    ], { size: 20 })
+    doc.text(`Financial year ${statement.financialYear}: ${formatDay(statement.period.from)} to ${formatDay(statement.period.to)}`, { size: 9, color: 0.4 })
+    doc.rule({ gap: 12 })
+
+    doc.text(user.name, { bold: true })
+    doc.text(user.email)
+    doc.text(`Holdings longer than ${statement.longTermMonths} months are long-term. Lots are matched first in, first out.`, { size: 9, color: 0.4 })
+    doc.rule({ gap: 12 })
+
+    doc.text('Realized gains', { size: 12, bold: true })
+    summaryRows(statement.summary.realized, 'Sale value')
+    if (statement.summary.unmatchedGrams > 0) {
+      doc.text(`${statement.summary.unmatchedGrams.toFixed(4)} g sold had no recorded purchase and is not included.`, { size: 9 })
+    }
+    doc.moveDown(8)
+
+    doc.text('Unrealized gains', { size: 12, bold: true })
+    summaryRows(statement.summary.unrealized, 'Market value')
+    doc.text(
+      `Valued at ${formatINR(statement.valuation.price)} per gram on ${formatDay(statement.valuation.date)} (${statement.valuation.source}).`,
+      { size: 9 }
+    )
+    doc.rule({ gap: 12 })
+
+    doc.text('Sales matched to purchases', { size: 12, bold: true })
+    if (statement.realized.length) table(statement.realized)
+    else doc.text('No sales in this financial year.', { size: 9, color: 0.4 })
+    doc.moveDown(8)
+
+    doc.text('Open lots', { size: 12, bold: true })
+    if (statement.unrealized.length) table(statement.unrealized)
+    else doc.text('No gold held at the end of this period.', { size: 9, color: 0.4 })
+
+    doc.moveDown(16)
+    doc.text('This statement is provided to help with tax filing and is not tax advice.', { size: 8, color: 0.5 })
+
+    return doc.toBuffer()
+  }
+}
+
+module.exports = new TaxStatementService()
@@ -0,0 +1,289 @@
+const WalletTransaction = require('../models/WalletTransaction')
+const LedgerEntry = require('../models/LedgerEntry')
+const ledgerService = require('./ledger')
+const settlementService = require('./settlement')
+const { paymentGateway, PAYMENT_STATUS } = require('./paymentGateway')
+
+const walletError = (message, extra = {}) => {
+  const error = new Error(message)
+  error.status = 400
+  Object.assign(error, extra)
+  return error
+}
+
+const OPEN_STATUSES = ['PENDING', 'PROCESSING']
+
+// INR wallet: top-ups through the payment gateway, withdrawals back to the bank.
+// Every balance change is a ledger posting made in the same transaction as the
+// status change of its WalletTransaction.
+class WalletService {
+  constructor() {
+    this.gateway = paymentGateway
+    this.minTopup = 100 // INR
+    this.maxTopup = 200000
+    this.minWithdrawal = 100
+  }
+
+  async getBalance(userId) {
+    return ledgerService.getWalletBalance(userId)
+  }
+
+  // Wallet ledger entries, newest first
+  async getHistory(userId, { limit = 20, page = 1 } = {}) {
+    const query = { userId, account: 'USER_WALLET' }
+
+    const [entries, total] = await Promise.all([
+      LedgerEntry.find(query)
+        .sort({ createdAt: -1 })
+        .limit(limit)
+        .skip((page - 1) * limit),
+      LedgerEntry.countDocuments(query)
+    ])
+
+    return {
+      transactions: entries.map(entry => ({
+        id: entry._id,
+        event: entry.event,
+        direction: entry.direction,
+        amount: entry.amount,
+        orderId: entry.orderId,
+        walletTransactionId: entry.walletTransactionId,
+        createdAt: entry.createdAt
+      })),
+      total
+    }
+  }
+
+  // Start a top-up. Returns { outcome, walletTransaction, gatewayOrder? } where outcome
+  // is COMPLETED, FAILED, PENDING, TIMEOUT or CHECKOUT, as for buy orders.
+  async createTopup(userId, { amount, paymentMethod = 'UPI' }) {
+    const value = Math.round(parseFloat(amount))
+
+    if (!value || value < this.minTopup) {
+      throw walletError(`Minimum top-up is ₹${this.minTopup}`)
+    }
+    if (value > this.maxTopup) {
+      throw walletError(`Maximum top-up is ₹${this.maxTopup.toLocaleString()}`)
+    }
+
+    const walletTransaction = await WalletTransaction.create({
+      userId,
+      type: 'TOPUP',
+      amount: value,
+      status: 'PROCESSING',
+      paymentDetails: { paymentMethod, gateway: this.gateway.name }
+    })
+
+    let gatewayOrder
+    try {
+      gatewayOrder = await this.gateway.createOrder(
+        { _id: walletTransaction._id, totalAmount: value },
+        { paymentMethod }
+      )
+    } catch (gatewayError) {
+      if (gatewayError.code !== 'GATEWAY_TIMEOUT') {
+        walletTransaction.status = 'FAILED'
+        walletTransaction.paymentDetails.gatewayResponse = {
+          status: 'error',
+          timestamp: new Date(),
+          error: gatewayError.message
+        }
+        await walletTransaction.save()
+        throw gatewayError
+      }
+
+      // The gateway may still take the payment; the webhook settles it
+      console.warn('Payment gateway timed out on top-up:', { walletTransactionId: walletTransaction._id })
+      walletTransaction.paymentDetails.gatewayOrderId = gatewayError.gatewayOrderId
+      walletTransaction.paymentDetails.gatewayResponse = {
+        status: 'timeout',
+        timestamp: new Date(),
+        error: gatewayError.message
+      }
+      await walletTransaction.save()
+      return { outcome: 'TIMEOUT', walletTransaction }
+    }
+
+    const paymentDetails = {
+      ...walletTransaction.paymentDetails.toObject(),
+      paymentId: gatewayOrder.paymentId,
+      gatewayOrderId: gatewayOrder.gatewayOrderId,
+      gatewayResponse: {
+        status: gatewayOrder.status.toLowerCase(),
+        timestamp: new Date(),
+        orderId: gatewayOrder.gatewayOrderId
+      }
+    }
+
+    if (gatewayOrder.status === PAYMENT_STATUS.CAPTURED) {
+      const { walletTransaction: completed } = await this.completeTopup(walletTransaction._id, paymentDetails)
+      return { outcome: 'COMPLETED', walletTransaction: completed, gatewayOrder }
+    }
+
+    if (gatewayOrder.status === PAYMENT_STATUS.FAILED) {
+      const failed = await this.failTopup(walletTransaction._id, paymentDetails)
+      return { outcome: 'FAILED', walletTransaction: failed, gatewayOrder }
+    }
+
+    // Awaiting checkout (Razorpay) or confirmation from the gateway
+    walletTransaction.paymentDetails = paymentDetails
+    walletTransaction.status = gatewayOrder.status === PAYMENT_STATUS.PENDING ? 'PROCESSING' : 'PENDING'
+    await walletTransaction.save()
+
+    return {
+      outcome: gatewayOrder.status === PAYMENT_STATUS.PENDING ? 'PENDING' : 'CHECKOUT',
+      walletTransaction,
+      gatewayOrder
+    }
+  }
+
+  // Credit a paid top-up exactly once. A captured payment may also settle a
+  // top-up that was marked FAILED.
+  async completeTopup(walletTransactionId, paymentDetails, { statuses = [...OPEN_STATUSES, 'FAILED'] } = {}) {
+    return settlementService.withTransaction(async (session) => {
+      const walletTransaction = await WalletTransaction.findOneAndUpdate(
+        { _id: walletTransactionId, type: 'TOPUP', status: { $in: statuses } },
+        { $set: { status: 'COMPLETED', paymentDetails, completedAt: new Date() } },
+        { new: true, session }
+      )
+
+      if (!walletTransaction) {
+        const existing = await WalletTransaction.findById(walletTransactionId).session(session)
+        return { walletTransaction: existing, settled: false }
+      }
+
+      await ledgerService.recordWalletTopup(walletTransaction, { session })
+      const wallet = await ledgerService.getWalletBalance(walletTransaction.userId, session)
+
+      return { walletTransaction, wallet, settled: true }
+    })
+  }
+
+  async failTopup(walletTransactionId, paymentDetails) {
+    const walletTransaction = await WalletTransaction.findOneAndUpdate(
+      { _id: walletTransactionId, type: 'TOPUP', status: { $in: OPEN_STATUSES } },
+      { $set: { status: 'FAILED', paymentDetails } },
+      { new: true }
+    )
+
+    return walletTransaction || WalletTransaction.findById(walletTransactionId)
+  }
+
+  // Check a gateway checkout signature and credit the top-up when it is valid
+  async verifyTopup(walletTransaction, { gatewayOrderId, paymentId, signature }) {
+    const previousDetails = walletTransaction.paymentDetails?.toObject?.() || {}
+
+    if (!previousDetails.gatewayOrderId) {
+      throw walletError('No payment has been started for this top-up')
+    }
+    if (previousDetails.gatewayOrderId !== gatewayOrderId) {
+      throw walletError('Payment does not belong to this top-up')
+    }
+
+    const isValidPayment = await this.gateway.verify({ gatewayOrderId, paymentId, signature })
+
+    if (!isValidPayment) {
+      const failed = await this.failTopup(walletTransaction._id, {
+        ...previousDetails,
+        gatewayResponse: { status: 'verification_failed', timestamp: new Date(), error: 'Invalid signature' }
+      })
+      return { walletTransaction: failed, settled: false, verified: false }
+    }
+
+    const result = await this.completeTopup(walletTransaction._id, {
+      ...previousDetails,
+      paymentId,
+      signature,
+      gatewayResponse: { status: 'verified', timestamp: new Date(), paymentId, orderId: gatewayOrderId }
+    })
+
+    return { ...result, verified: true }
+  }
+
+  // Reserve money for a withdrawal; it leaves the spendable balance straight away
+  async requestWithdrawal(userId, { amount, accountHolder, accountNumber, ifsc, upiId }) {
+    const value = Math.round(parseFloat(amount) * 100) / 100
+
+    if (!value || value < this.minWithdrawal) {
+      throw walletError(`Minimum withdrawal is ₹${this.minWithdrawal}`)
+    }
+    if (!upiId && !(accountNumber && ifsc)) {
+      throw walletError('Provide a UPI ID or a bank account number with IFSC')
+    }
+
+    return settlementService.withTransaction(async (session) => {
+      const [walletTransaction] = await WalletTransaction.create([{
+        userId,
+        type: 'WITHDRAWAL',
+        amount: value,
+        withdrawal: {
+          accountHolder,
+          accountNumberLast4: accountNumber ? String(accountNumber).slice(-4) : undefined,
+          ifsc,
+          upiId
+        }
+      }], { session })
+
+      await ledgerService.recordWithdrawalRequest(walletTransaction, { session })
+      const wallet = await ledgerService.getWalletBalance(userId, session)
+
+      return { walletTransaction, wallet }
+    })
+  }
+
+  // PENDING withdrawals can be cancelled by the user; the money returns to the wallet
+  async cancelWithdrawal(userId, walletTransactionId) {
+    return this.closeWithdrawal(
+      { _id: walletTransactionId, userId, status: 'PENDING' },
+      { status: 'CANCELLED', cancelledAt: new Date() },
+      'reverse'
+    )
+  }
+
+  async markWithdrawalProcessing(walletTransactionId, { reference } = {}) {
+    return WalletTransaction.findOneAndUpdate(
+      { _id: walletTransactionId, type: 'WITHDRAWAL', status: 'PENDING' },
+      { $set: { status: 'PROCESSING', 'withdrawal.reference': reference } },
+      { new: true }
+    )
+  }
+
+  async completeWithdrawal(walletTransactionId, { reference } = {}) {
+    return this.closeWithdrawal(
+      { _id: walletTransactionId, status: { $in: OPEN_STATUSES } },
+      { status: 'COMPLETED', completedAt: new Date(), 'withdrawal.reference': reference },
+      'paid'
+    )
+  }
+
+  async failWithdrawal(walletTransactionId, { failureReason } = {}) {
+    return this.closeWithdrawal(
+      { _id: walletTransactionId, status: { $in: OPEN_STATUSES } },
+      { status: 'FAILED', 'withdrawal.failureReason': failureReason },
+      'reverse'
+    )
+  }
+
+  // Move an open withdrawal to its final status with the matching ledger posting
+  async closeWithdrawal(filter, update, outcome) {
+    return settlementService.withTransaction(async (session) => {
+      const walletTransaction = await WalletTransaction.findOneAndUpdate(
+        { ...filter, type: 'WITHDRAWAL' },
+        { $set: update },
+        { new: true, session }
+      )
+
+      if (!walletTransaction) return { walletTransaction: null, updated: false }
+
+      if (outcome === 'paid') {
+        await ledgerService.recordWithdrawalPaid(walletTransaction, { session })
+      } else {
+        await ledgerService.recordWithdrawalReversal(walletTransaction, { session })
+      }
+
+      return { walletTransaction, updated: true }
+    })
+  }
+}
+
+module.exports = new WalletService()
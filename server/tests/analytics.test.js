@@ -0,0 +1,150 @@
+const { describe, it, mock, afterEach } = require('node:test')
+const assert = require('node:assert/strict')
+const mongoose = require('mongoose')
+const Order = require('../models/Order')
+const PriceTick = require('../models/PriceTick')
+const analyticsService = require('../services/analytics')
+const goldPriceService = require('../services/goldPrice')
+const { fakeLots } = require('./helpers')
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const start = new Date('2024-01-01T00:00:00Z')
+const after = (days) => new Date(start.getTime() + days * DAY_MS)
+
+describe('XIRR', () => {
+  it('is the simple return over exactly one year', () => {
+    assert.equal(analyticsService.xirr([
+      { amount: -1000, date: start },
+      { amount: 1100, date: after(365) }
+    ]), 10)
+  })
+
+  it('annualizes returns over several years', () => {
+    assert.equal(analyticsService.xirr([
+      { amount: -1000, date: start },
+      { amount: 1210, date: after(730) }
+    ]), 10)
+  })
+
+  it('is negative for a loss', () => {
+    assert.equal(analyticsService.xirr([
+      { amount: -1000, date: start },
+      { amount: 900, date: after(365) }
+    ]), -10)
+  })
+
+  it('weighs irregular cash flows by when they happened', () => {
+    // Same flows as the XIRR example in spreadsheet documentation: 37.34%
+    assert.equal(analyticsService.xirr([
+      { amount: -10000, date: new Date('2008-01-01T00:00:00Z') },
+      { amount: 2750, date: new Date('2008-03-01T00:00:00Z') },
+      { amount: 4250, date: new Date('2008-10-30T00:00:00Z') },
+      { amount: 3250, date: new Date('2009-02-15T00:00:00Z') },
+      { amount: 2750, date: new Date('2009-04-01T00:00:00Z') }
+    ]), 37.34)
+  })
+
+  it('does not depend on the order of the flows', () => {
+    assert.equal(analyticsService.xirr([
+      { amount: 1100, date: after(365) },
+      { amount: -1000, date: start }
+    ]), 10)
+  })
+
+  it('is null without both money in and money out', () => {
+    assert.equal(analyticsService.xirr([
+      { amount: -1000, date: start },
+      { amount: -500, date: after(30) }
+    ]), null)
+    assert.equal(analyticsService.xirr([]), null)
+  })
+})
+
+describe('time-weighted return', () => {
+  const order = (type, grams, pricePerGram) => ({ type, grams, pricePerGram })
+
+  it('chains the growth between orders, whatever was added', () => {
+    // Up 10% on 1g, then 9g more bought before a 5% fall
+    assert.equal(analyticsService.timeWeightedReturn(1, 6000, [order('BUY', 9, 6600)], 62700), 4.5)
+  })
+
+  it('stops counting once everything is sold', () => {
+    assert.equal(analyticsService.timeWeightedReturn(1, 6000, [order('SELL', 1, 6300)], 0), 5)
+  })
+
+  it('starts counting from the first purchase', () => {
+    assert.equal(analyticsService.timeWeightedReturn(0, 0, [order('BUY', 1, 6000)], 6300), 5)
+    assert.equal(analyticsService.timeWeightedReturn(0, 0, [], 0), null)
+  })
+})
+
+describe('period returns', () => {
+  afterEach(() => mock.restoreAll())
+
+  it('gives XIRR only for periods of a year or more', async () => {
+    const bought = new Order({
+      userId: new mongoose.Types.ObjectId(),
+      type: 'BUY',
+      amountINR: 6000,
+      grams: 1,
+      pricePerGram: 6000,
+      transactionFee: 240,
+      totalAmount: 6240,
+      status: 'COMPLETED',
+      completedAt: new Date(Date.now() - 10 * DAY_MS)
+    })
+    mock.method(goldPriceService, 'getCurrentPrice', async () => ({ price: 6600 }))
+    mock.method(Order, 'getHoldingOrders', async () => [bought])
+    mock.method(PriceTick, 'getDownsampled', async () => [])
+    fakeLots([{
+      userId: bought.userId, orderId: bought._id, source: 'PURCHASE', grams: 1, remainingGrams: 1,
+      pricePerGram: 6000, acquiredAt: bought.completedAt
+    }])
+
+    const month = await analyticsService.getAnalytics(bought.userId, '1m')
+    const year = await analyticsService.getAnalytics(bought.userId, '1y')
+
+    assert.deepEqual([month.returns.timeWeightedReturn, month.returns.xirr], [10, null])
+    assert.equal((await analyticsService.getAnalytics(bought.userId, 'all')).returns.xirr, null)
+    assert.equal(year.returns.timeWeightedReturn, 10)
+    assert.ok(year.returns.xirr > 10)
+  })
+})
+
+describe('portfolio value history', () => {
+  afterEach(() => mock.restoreAll())
+
+  it('values the grams held at each price bucket against the cost basis of the lots', async () => {
+    const now = Date.now()
+    const bought = new Order({
+      userId: new mongoose.Types.ObjectId(),
+      type: 'BUY',
+      amountINR: 6000,
+      grams: 1,
+      pricePerGram: 6000,
+      transactionFee: 240,
+      totalAmount: 6240,
+      status: 'COMPLETED',
+      completedAt: new Date(now - 10 * DAY_MS)
+    })
+    mock.method(goldPriceService, 'getCurrentPrice', async () => ({ price: 6600 }))
+    mock.method(Order, 'getHoldingOrders', async () => [bought])
+    fakeLots([{
+      userId: bought.userId, orderId: bought._id, source: 'PURCHASE', grams: 1, remainingGrams: 1,
+      pricePerGram: 6000, acquiredAt: bought.completedAt
+    }])
+    const downsampled = mock.method(PriceTick, 'getDownsampled', async () => [
+      { _id: 5, price: 5900.4, ticks: 12 },
+      { _id: 25, price: 6300, ticks: 9 }
+    ])
+
+    const history = await analyticsService.getHistory(bought.userId, '1m')
+
+    assert.equal(downsampled.mock.calls[0].arguments[2], DAY_MS)
+    assert.deepEqual(history.points.map(({ price, grams, value, invested }) => [price, grams, value, invested]), [
+      [5900, 0, 0, 0],
+      [6300, 1, 6300, 6000],
+      [6600, 1, 6600, 6000]
+    ])
+  })
+})
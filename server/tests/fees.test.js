@@ -0,0 +1,91 @@
+const { describe, it } = require('node:test')
+const assert = require('node:assert/strict')
+const feeService = require('../services/fees')
+
+// A FeeService built from the given environment, leaving the singleton alone
+const withEnv = (env) => {
+  const saved = {}
+  for (const [name, value] of Object.entries(env)) {
+    saved[name] = process.env[name]
+    process.env[name] = value
+  }
+  const service = new feeService.constructor()
+  for (const [name, value] of Object.entries(saved)) {
+    if (value === undefined) delete process.env[name]
+    else process.env[name] = value
+  }
+  return service
+}
+
+describe('fee schedule', () => {
+  const fees = withEnv({
+    PLATFORM_FEE_TIERS: '50000:1,200000:0.75,*:0.5',
+    GST_PERCENT: '3',
+    PAYMENT_SURCHARGES: 'CARD:1.5,NET_BANKING:0.5'
+  })
+
+  it('picks the platform fee tier by gold value, inclusive of the upper bound', () => {
+    assert.equal(fees.platformFeePercent(1000), 1)
+    assert.equal(fees.platformFeePercent(50000), 1)
+    assert.equal(fees.platformFeePercent(50001), 0.75)
+    assert.equal(fees.platformFeePercent(200000), 0.75)
+    assert.equal(fees.platformFeePercent(5000000), 0.5)
+  })
+
+  it('adds the platform fee and GST on the gold value to a UPI purchase', () => {
+    const breakdown = fees.forBuy(10000, { paymentMethod: 'UPI' })
+
+    assert.equal(breakdown.platformFee, 100)
+    assert.equal(breakdown.gst, 300)
+    assert.equal(breakdown.paymentSurcharge, 0)
+    assert.equal(breakdown.totalCharges, 400)
+    assert.equal(breakdown.totalAmount, 10400)
+    assert.deepEqual(breakdown.items.map(item => item.code), ['PLATFORM_FEE', 'GST'])
+  })
+
+  it('charges the card surcharge on everything the gateway collects', () => {
+    const breakdown = fees.forBuy(10000, { paymentMethod: 'CARD' })
+
+    // 1.5% of 10000 + 100 + 300
+    assert.equal(breakdown.paymentSurcharge, 156)
+    assert.equal(breakdown.totalAmount, 10556)
+    assert.equal(breakdown.items[2].label, 'Card surcharge (1.5%)')
+  })
+
+  it('rounds each charge to the rupee', () => {
+    const breakdown = fees.forBuy(333, { paymentMethod: 'NET_BANKING' })
+
+    assert.equal(breakdown.platformFee, 3)
+    assert.equal(breakdown.gst, 10)
+    assert.equal(breakdown.paymentSurcharge, 2)
+    assert.equal(breakdown.totalAmount, 348)
+  })
+
+  it('deducts the platform fee from a sale and charges no GST', () => {
+    const breakdown = fees.forSell(100000)
+
+    assert.equal(breakdown.platformFee, 750)
+    assert.equal(breakdown.gst, 0)
+    assert.equal(breakdown.totalAmount, 99250)
+  })
+
+  it('stores the total charges and breakdown on an order', () => {
+    const fields = fees.toOrderFields(fees.forBuy(10000, { paymentMethod: 'CARD' }))
+
+    assert.equal(fields.transactionFee, 556)
+    assert.equal(fields.totalAmount, 10556)
+    assert.equal(fields.feeBreakdown.gst, 300)
+    assert.equal(fields.feeBreakdown.paymentMethod, 'CARD')
+  })
+
+  it('allows GST to be configured to zero', () => {
+    const noGst = withEnv({ GST_PERCENT: '0' })
+    assert.equal(noGst.forBuy(10000).gst, 0)
+  })
+
+  it('lists the open-ended tier without an upper bound', () => {
+    const schedule = fees.getSchedule()
+    assert.deepEqual(schedule.platformFeeTiers.at(-1), { upTo: null, percent: 0.5 })
+    assert.deepEqual(schedule.paymentSurcharges, { CARD: 1.5, NET_BANKING: 0.5 })
+  })
+})
@@ -0,0 +1,119 @@
+const { describe, it, mock, beforeEach, afterEach } = require('node:test')
+const assert = require('node:assert/strict')
+const Gift = require('../models/Gift')
+const Notification = require('../models/Notification')
+const Order = require('../models/Order')
+const User = require('../models/User')
+const giftService = require('../services/gifts')
+const ledgerService = require('../services/ledger')
+const goldPriceService = require('../services/goldPrice')
+const { buildUser, query, fakeLedger, trackDocument, inlineTransactions } = require('./helpers')
+
+// Ledger in which the user holds the given grams bought for costBasis
+const holding = (user, grams, costBasis) => fakeLedger([
+  { userId: user._id, account: 'USER_GOLD', asset: 'GOLD', direction: 'CREDIT', amount: grams },
+  { userId: user._id, account: 'USER_COST_BASIS', asset: 'INR', direction: 'CREDIT', amount: costBasis }
+])
+
+describe('gold gifts', () => {
+  let sender
+  let recipient
+  let orders
+  let gifts
+  let notifications
+
+  beforeEach(() => {
+    sender = buildUser({ email: 'asha@example.com', name: 'Asha' })
+    recipient = buildUser({ email: 'ravi@example.com', name: 'Ravi' })
+    orders = []
+    gifts = []
+    notifications = []
+    mock.method(console, 'log', () => {})
+    mock.method(goldPriceService, 'getCurrentPrice', async () => ({
+      price: 6500, source: 'cache', provider: 'fixed', timestamp: new Date()
+    }))
+    mock.method(Order, 'create', async (docs) => {
+      const created = docs.map(doc => new Order(doc))
+      orders.push(...created)
+      return created
+    })
+    mock.method(Order, 'updateOne', async (filter, update) => {
+      orders.find(order => String(order._id) === String(filter._id))?.set(update.$set)
+    })
+    mock.method(Gift.prototype, 'save', async function() {
+      if (!gifts.includes(this)) gifts.push(trackDocument(Gift, this))
+      return this
+    })
+    mock.method(Notification, 'create', async (doc) => { notifications.push(doc); return doc })
+    mock.method(User, 'updateOne', async () => ({ modifiedCount: 1 }))
+    mock.method(User, 'findById', () => query(null))
+    inlineTransactions()
+  })
+
+  afterEach(() => mock.restoreAll())
+
+  const registered = (user) => mock.method(User, 'findOne', () => query(user))
+
+  it('moves the grams and their cost basis straight to a registered recipient', async () => {
+    holding(sender, 2, 12000)
+    registered(recipient)
+
+    const { gift, claimCode } = await giftService.sendGift(sender, { recipientEmail: 'Ravi@Example.com', grams: 0.5, message: 'Happy Diwali' })
+
+    assert.equal(claimCode, undefined)
+    assert.deepEqual([gift.status, gift.costBasis, String(gift.recipientId)], ['CLAIMED', 3000, String(recipient._id)])
+    assert.deepEqual(orders.map(order => [order.type, order.grams, order.totalAmount]), [
+      ['GIFT_SENT', 0.5, 3250],
+      ['GIFT_RECEIVED', 0.5, 3250]
+    ])
+    assert.deepEqual(await ledgerService.getUserHoldings(sender._id), { goldGrams: 1.5, totalInvested: 9000, avgPrice: 6000 })
+    assert.deepEqual(await ledgerService.getUserHoldings(recipient._id), { goldGrams: 0.5, totalInvested: 3000, avgPrice: 6000 })
+    assert.equal(notifications[0].type, 'GIFT_RECEIVED')
+  })
+
+  it('holds the grams in escrow until the recipient signs up and claims them', async () => {
+    const entries = holding(sender, 2, 12000)
+    registered(null)
+
+    const { gift, claimCode } = await giftService.sendGift(sender, { recipientEmail: 'ravi@example.com', grams: 1 })
+
+    assert.equal(gift.status, 'PENDING_CLAIM')
+    assert.deepEqual(await ledgerService.getUserHoldings(sender._id), { goldGrams: 1, totalInvested: 6000, avgPrice: 6000 })
+
+    assert.equal(await giftService.claimGift(recipient, gift._id, 'WRONG').then(({ gift }) => gift), null)
+    assert.equal(gift.status, 'PENDING_CLAIM')
+
+    const claim = await giftService.claimGift(recipient, gift._id, claimCode.toLowerCase())
+
+    assert.deepEqual([claim.gift.status, claim.assets.goldGrams], ['CLAIMED', 1])
+    assert.equal(await giftService.claimGift(recipient, gift._id, claimCode).then(({ gift }) => gift), null)
+    assert.equal(entries.filter(entry => entry.event === 'GIFT_CLAIMED').length, 4)
+    assert.equal(notifications[0].type, 'GIFT_CLAIMED')
+  })
+
+  it('returns an unclaimed gift to the sender', async () => {
+    holding(sender, 2, 12000)
+    registered(null)
+    const { gift } = await giftService.sendGift(sender, { recipientEmail: 'ravi@example.com', grams: 1 })
+
+    const { assets } = await giftService.returnGift(gift._id, 'EXPIRED', { reason: 'Gift expired unclaimed' })
+
+    assert.equal(gift.status, 'EXPIRED')
+    assert.equal(orders[0].status, 'CANCELLED')
+    assert.deepEqual(assets, { goldGrams: 2, totalInvested: 12000, avgPrice: 6000 })
+    assert.equal(notifications[0].type, 'GIFT_RETURNED')
+  })
+
+  it('refuses gifts to yourself, below the minimum or beyond your holdings', async () => {
+    holding(sender, 0.5, 3000)
+    registered(recipient)
+
+    const send = (fields) => giftService.sendGift(sender, { recipientEmail: 'ravi@example.com', grams: 1, ...fields })
+
+    await assert.rejects(send({ recipientEmail: 'asha@example.com' }), /cannot send a gift to yourself/)
+    await assert.rejects(send({ grams: 0.001 }), /Minimum gift/)
+    await assert.rejects(send({ recipientEmail: 'not-an-email' }), /Invalid recipient email/)
+    await assert.rejects(send(), { message: 'Insufficient gold holdings', available: 0.5 })
+    assert.equal(gifts.length, 0)
+  })
+})
@@ -0,0 +1,154 @@
+const { describe, it, mock, afterEach } = require('node:test')
+const assert = require('node:assert/strict')
+const goldPriceService = require('../services/goldPrice')
+const { FixedPriceProvider } = require('../services/priceProviders')
+const PriceTick = require('../models/PriceTick')
+
+// A GoldPriceService quoting a fixed price, leaving the singleton alone
+const serviceAt = (price) => {
+  const service = new goldPriceService.constructor()
+  service.providers = [new FixedPriceProvider({ price })]
+  return service
+}
+
+describe('price ticks', () => {
+  afterEach(() => mock.restoreAll())
+
+  it('records a tick for each fetched price but not for cache hits', async () => {
+    const create = mock.method(PriceTick, 'create', async (doc) => doc)
+    const service = serviceAt(6500)
+
+    assert.equal((await service.getCurrentPrice()).source, 'api')
+    assert.equal((await service.getCurrentPrice()).source, 'cache')
+
+    assert.equal(create.mock.callCount(), 1)
+    assert.deepEqual(
+      { price: create.mock.calls[0].arguments[0].price, source: create.mock.calls[0].arguments[0].source },
+      { price: 6500, source: 'fixed' }
+    )
+  })
+
+  it('still answers when the tick cannot be stored', async () => {
+    mock.method(PriceTick, 'create', async () => { throw new Error('db down') })
+    mock.method(console, 'error', () => {})
+
+    assert.equal((await serviceAt(6500).getCurrentPrice()).price, 6500)
+  })
+
+  it('serves history from downsampled ticks', async () => {
+    const downsampled = mock.method(PriceTick, 'getDownsampled', async () => [
+      { _id: 0, price: 6500.4, high: 6510, low: 6490, ticks: 3 },
+      { _id: 2, price: 6520.6, high: 6530, low: 6515, ticks: 2 }
+    ])
+
+    const history = await serviceAt(6500).getPriceHistory('1w')
+
+    const [from, to, bucketMs] = downsampled.mock.calls[0].arguments
+    assert.equal(bucketMs, 6 * 60 * 60 * 1000)
+    assert.equal(to - from, 7 * 24 * 60 * 60 * 1000)
+    assert.deepEqual(history.map(point => point.price), [6500, 6521])
+    assert.equal(history[1].timestamp, new Date(from.getTime() + 2 * bucketMs).toISOString())
+  })
+})
+
+describe('candles', () => {
+  afterEach(() => mock.restoreAll())
+
+  const bucket = { _id: Date.UTC(2025, 5, 2, 10), open: 6500, high: 6530, low: 6490, close: 6520, ticks: 12 }
+
+  it('maps aggregated buckets to candles', async () => {
+    mock.method(PriceTick, 'getCandles', async () => [bucket])
+
+    const [candle] = await serviceAt(6500).getCandles('1h')
+
+    assert.deepEqual(candle, {
+      timestamp: '2025-06-02T10:00:00.000Z', open: 6500, high: 6530, low: 6490, close: 6520, ticks: 12
+    })
+  })
+
+  it('rejects unknown intervals, reversed ranges and oversized ranges', async () => {
+    const service = serviceAt(6500)
+    const to = new Date('2025-06-02T00:00:00Z')
+
+    await assert.rejects(service.getCandles('2h'), /Invalid candle interval/)
+    await assert.rejects(service.getCandles('1h', to, new Date(to.getTime() - 1000)), { status: 400 })
+    await assert.rejects(
+      service.getCandles('5m', new Date(to.getTime() - 8 * 24 * 60 * 60 * 1000), to),
+      { status: 400, message: /Range too large/ }
+    )
+  })
+
+  it('caches candles per interval', async () => {
+    const getCandles = mock.method(PriceTick, 'getCandles', async () => [bucket])
+    const service = serviceAt(6500)
+
+    await service.getCandles('1h')
+    await service.getCandles('1h')
+    await service.getCandles('1d')
+
+    assert.equal(getCandles.mock.callCount(), 2)
+  })
+
+  it('shares a cache entry between ranges in the same buckets and queries from the bucket start', async () => {
+    const getCandles = mock.method(PriceTick, 'getCandles', async () => [bucket])
+    const service = serviceAt(6500)
+    const at = (time) => new Date(`2025-06-02T${time}Z`)
+
+    await service.getCandles('1h', at('02:10:00'), at('10:20:00'))
+    await service.getCandles('1h', at('02:40:00'), at('10:50:00'))
+    await service.getCandles('1h', at('02:40:00'), at('11:05:00'))
+
+    assert.equal(getCandles.mock.callCount(), 2)
+    assert.deepEqual(getCandles.mock.calls[0].arguments[0], at('02:00:00'))
+  })
+})
+
+describe('price change', () => {
+  afterEach(() => mock.restoreAll())
+
+  // Stand-in for a Mongoose query: chainable, awaitable
+  const query = (result) => ({
+    sort() { return this },
+    then: (resolve, reject) => Promise.resolve(result).then(resolve, reject)
+  })
+
+  it('compares against the last tick before today', async () => {
+    const referenceTime = new Date(Date.now() - 20 * 60 * 60 * 1000)
+    const latestBefore = mock.method(PriceTick, 'getLatestBefore', () => query({ price: 6400, timestamp: referenceTime }))
+    const findOne = mock.method(PriceTick, 'findOne', () => query(null))
+
+    const change = await serviceAt(6500).getPriceChange(6480)
+
+    assert.deepEqual(change, { change: 80, changePercent: 1.25, trend: 'up', previousPrice: 6400, referenceTime })
+    assert.ok(latestBefore.mock.calls[0].arguments[0] <= new Date())
+    assert.equal(findOne.mock.callCount(), 0)
+  })
+
+  it('starts the day at midnight IST', async () => {
+    const latestBefore = mock.method(PriceTick, 'getLatestBefore', () => query({ price: 6400, timestamp: new Date() }))
+
+    await serviceAt(6500).getPriceChange(6480)
+
+    const startOfDay = latestBefore.mock.calls[0].arguments[0]
+    assert.deepEqual([startOfDay.getUTCHours(), startOfDay.getUTCMinutes()], [18, 30])
+    assert.ok(Date.now() - startOfDay < 24 * 60 * 60 * 1000)
+  })
+
+  it('falls back to the oldest tick of the last 24 hours', async () => {
+    mock.method(PriceTick, 'getLatestBefore', () => query(null))
+    mock.method(PriceTick, 'findOne', () => query({ price: 6600, timestamp: new Date() }))
+
+    const change = await serviceAt(6500).getPriceChange(6534)
+
+    assert.deepEqual([change.change, change.changePercent, change.trend], [-66, -1, 'down'])
+  })
+
+  it('reports no change without any ticks', async () => {
+    mock.method(PriceTick, 'getLatestBefore', () => query(null))
+    mock.method(PriceTick, 'findOne', () => query(null))
+
+    assert.deepEqual(await serviceAt(6500).getPriceChange(6500), {
+      change: 0, changePercent: 0, trend: 'up', previousPrice: null, referenceTime: null
+    })
+  })
+})
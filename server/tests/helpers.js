@@ -0,0 +1,202 @@
+const express = require('express')
+const jwt = require('jsonwebtoken')
+const { mock } = require('node:test')
+const User = require('../models/User')
+const LedgerEntry = require('../models/LedgerEntry')
+const Order = require('../models/Order')
+const Counter = require('../models/Counter')
+const HoldingLot = require('../models/HoldingLot')
+
+process.env.JWT_SECRET = process.env.JWT_SECRET || 'test_jwt_secret'
+
+// Serve a router on an ephemeral port; resolves to its base URL and a close function
+const startApp = async (mountPath, router) => {
+  const app = express()
+  app.use(express.json())
+  app.use(mountPath, router)
+
+  const server = app.listen(0)
+  await new Promise(resolve => server.once('listening', resolve))
+
+  return {
+    url: `http://127.0.0.1:${server.address().port}${mountPath}`,
+    close: () => new Promise(resolve => server.close(resolve))
+  }
+}
+
+// An in-memory user document whose saves never reach the database
+const buildUser = (fields = {}) => {
+  const user = new User({ email: 'asha@example.com', passwordHash: 'x', name: 'Asha', ...fields })
+  user.save = async function() { return this }
+  return user
+}
+
+// Make authenticateToken resolve to the given user; returns the bearer token to send
+const authenticateAs = (user) => {
+  mock.method(User, 'findById', () => ({ select: async () => user }))
+  return jwt.sign({ userId: user._id.toString() }, process.env.JWT_SECRET)
+}
+
+// Stand-in for a Mongoose query: chainable, awaitable
+const query = (result) => ({
+  sort() { return this },
+  select() { return this },
+  limit() { return this },
+  skip() { return this },
+  lean() { return this },
+  session: async () => result,
+  then: (resolve, reject) => Promise.resolve(result).then(resolve, reject)
+})
+
+// Keep holding lots in memory, oldest first
+const fakeLots = (seed = []) => {
+  const lots = seed.map(fields => new HoldingLot(fields))
+  const ofUser = (filter) => lots.filter(lot => String(lot.userId) === String(filter.userId))
+
+  mock.method(HoldingLot, 'exists', (filter) => query(ofUser(filter).length ? { _id: 'lot' } : null))
+  mock.method(HoldingLot, 'find', (filter) => query(ofUser(filter)
+    .filter(lot => !filter.status || lot.status === filter.status)
+    .filter(lot => !filter['consumptions.orderId'] || lot.consumptions.some(entry =>
+      String(entry.orderId) === String(filter['consumptions.orderId'])))
+    .sort((a, b) => a.acquiredAt - b.acquiredAt)))
+  mock.method(HoldingLot, 'create', async (documents) => {
+    const created = documents.map(fields => new HoldingLot(fields))
+    lots.push(...created)
+    return created
+  })
+  mock.method(HoldingLot.prototype, 'save', async function() { return this })
+
+  return lots
+}
+
+// Keep ledger entries in memory; balances are derived from them as LedgerEntry would.
+// Seeded grams come with an opening lot at their average price.
+const fakeLedger = (seed = []) => {
+  const entries = [...seed]
+
+  const seeded = {}
+  seed.forEach(({ userId, account, amount }) => {
+    seeded[userId] = seeded[userId] || { userId, grams: 0, cost: 0 }
+    if (account === 'USER_GOLD') seeded[userId].grams += amount
+    if (account === 'USER_COST_BASIS') seeded[userId].cost += amount
+  })
+  entries.lots = fakeLots(Object.values(seeded)
+    .filter(({ grams }) => grams > 0)
+    .map(({ userId, grams, cost }) => ({
+      userId,
+      source: 'OPENING',
+      grams,
+      remainingGrams: grams,
+      pricePerGram: Math.round(cost / grams * 100) / 100,
+      acquiredAt: new Date('2024-01-01T00:00:00Z')
+    })))
+
+  mock.method(LedgerEntry, 'insertMany', async (documents) => {
+    entries.push(...documents)
+    return documents
+  })
+  mock.method(LedgerEntry, 'exists', (filter) => query(
+    entries.some(entry => String(entry.userId) === String(filter.userId)) ? { _id: 'entry' } : null
+  ))
+  mock.method(LedgerEntry, 'getUserBalances', async (userId) => {
+    const balances = {}
+    entries
+      .filter(entry => String(entry.userId) === String(userId))
+      .forEach(entry => {
+        balances[entry.account] = (balances[entry.account] || 0) +
+          (entry.direction === 'CREDIT' ? entry.amount : -entry.amount)
+      })
+    return Object.entries(balances).map(([account, balance]) => ({ _id: account, balance }))
+  })
+
+  return entries
+}
+
+// Documents served by trackDocument, restored when an inline transaction throws
+const trackedDocuments = []
+
+// Serve one in-memory document from its model; status changes go through
+// findOneAndUpdate with the same status, field and $exists guards the real query applies
+const trackDocument = (Model, doc) => {
+  trackedDocuments.push(doc)
+  const matches = (filter) => {
+    const missing = Object.entries(filter)
+      .filter(([, condition]) => condition?.$exists !== undefined)
+      .some(([path, condition]) => (doc.get(path) !== undefined) !== condition.$exists)
+    if (missing) return false
+    const differs = Object.entries(filter)
+      .filter(([path, condition]) => typeof condition === 'string' && path !== 'status')
+      .some(([path, condition]) => String(doc.get(path)) !== condition)
+    if (differs) return false
+    if (!filter.status) return true
+    return (filter.status.$in || [filter.status]).includes(doc.status)
+  }
+
+  doc.save = async function() { return this }
+  mock.method(Model, 'findOne', () => query(doc))
+  mock.method(Model, 'findById', () => query(doc))
+  mock.method(Model, 'findOneAndUpdate', async (filter, update) => {
+    if (!matches(filter)) return null
+    doc.set(update.$set)
+    return doc
+  })
+  mock.method(Model, 'updateOne', async (filter, update) => {
+    if (!matches(filter)) return { modifiedCount: 0 }
+    doc.set(update.$set)
+    return { modifiedCount: 1 }
+  })
+  return doc
+}
+
+const trackOrder = (order) => trackDocument(Order, order)
+
+// Run settlement transactions inline, without a replica set. Tracked documents
+// are rolled back when the work throws, as an aborted transaction would.
+// Sequences such as invoice numbers are kept in memory.
+const inlineTransactions = () => {
+  const settlementService = require('../services/settlement')
+  const session = { id: 'test-session' }
+  const sequences = {}
+  trackedDocuments.length = 0
+  mock.method(Counter, 'next', async (name) => {
+    sequences[name] = (sequences[name] || 0) + 1
+    return sequences[name]
+  })
+  mock.method(settlementService, 'withTransaction', async (work) => {
+    const snapshots = trackedDocuments.map(doc => [doc, doc.toObject()])
+    try {
+      return await work(session)
+    } catch (error) {
+      snapshots.forEach(([doc, snapshot]) => doc.overwrite(snapshot))
+      throw error
+    }
+  })
+  return session
+}
+
+// JSON request against a started app
+const request = async (url, { method = 'POST', token, body, headers = {} } = {}) => {
+  const response = await fetch(url, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token && { Authorization: `Bearer ${token}` }),
+      ...headers
+    },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  })
+  return { status: response.status, body: await response.json() }
+}
+
+module.exports = {
+  startApp,
+  buildUser,
+  authenticateAs,
+  query,
+  fakeLots,
+  fakeLedger,
+  trackDocument,
+  trackOrder,
+  inlineTransactions,
+  request
+}
@@ -0,0 +1,140 @@
+const { describe, it, mock, beforeEach, afterEach } = require('node:test')
+const assert = require('node:assert/strict')
+const mongoose = require('mongoose')
+const HoldingLot = require('../models/HoldingLot')
+const holdingLotService = require('../services/holdingLots')
+const { query } = require('./helpers')
+
+const userId = new mongoose.Types.ObjectId()
+
+const lot = (grams, pricePerGram, acquiredAt, fields = {}) => new HoldingLot({
+  userId,
+  orderId: new mongoose.Types.ObjectId(),
+  source: 'PURCHASE',
+  grams,
+  remainingGrams: grams,
+  pricePerGram,
+  acquiredAt: new Date(acquiredAt),
+  ...fields
+})
+
+describe('holding lots', () => {
+  let lots
+  let created
+
+  beforeEach(() => {
+    lots = [
+      lot(1, 5000, '2024-01-10'),
+      lot(2, 6000, '2024-06-10'),
+      lot(1, 7000, '2025-01-10')
+    ]
+    created = []
+
+    mock.method(HoldingLot, 'exists', () => query(true))
+    mock.method(HoldingLot, 'find', (filter) => query(lots.filter(entry =>
+      filter.status
+        ? entry.status === filter.status
+        : entry.consumptions.some(consumption => String(consumption.orderId) === String(filter['consumptions.orderId']))
+    )))
+    mock.method(HoldingLot, 'create', async (documents) => {
+      created.push(...documents)
+      return documents
+    })
+    mock.method(HoldingLot.prototype, 'save', async function () { return this })
+  })
+
+  afterEach(() => mock.restoreAll())
+
+  describe('consume', () => {
+    it('takes grams from the oldest lots first at their own cost', async () => {
+      const orderId = new mongoose.Types.ObjectId()
+
+      const cost = await holdingLotService.consume(userId, 1.5, { orderId, type: 'SELL' })
+
+      assert.equal(cost, 8000) // 1g at 5000 + 0.5g at 6000
+      assert.equal(lots[0].remainingGrams, 0)
+      assert.equal(lots[0].status, 'CLOSED')
+      assert.equal(lots[1].remainingGrams, 1.5)
+      assert.equal(lots[1].status, 'OPEN')
+      assert.equal(lots[2].remainingGrams, 1)
+      assert.deepEqual(lots[1].consumptions.map(entry => [entry.type, entry.grams, entry.costBasis]), [['SELL', 0.5, 3000]])
+    })
+
+    it('takes from the preferred order lot before older ones', async () => {
+      const cost = await holdingLotService.consume(userId, 1, {
+        orderId: lots[2].orderId,
+        type: 'REFUND',
+        preferOrderId: lots[2].orderId
+      })
+
+      assert.equal(cost, 7000)
+      assert.equal(lots[0].remainingGrams, 1)
+      assert.equal(lots[2].status, 'CLOSED')
+    })
+
+    it('skips closed lots', async () => {
+      await holdingLotService.consume(userId, 1, { orderId: new mongoose.Types.ObjectId(), type: 'SELL' })
+      const cost = await holdingLotService.consume(userId, 1, { orderId: new mongoose.Types.ObjectId(), type: 'SELL' })
+
+      assert.equal(cost, 6000)
+    })
+
+    it('returns null when the lots do not cover the grams', async () => {
+      const cost = await holdingLotService.consume(userId, 5, { orderId: new mongoose.Types.ObjectId(), type: 'SELL' })
+      assert.equal(cost, null)
+    })
+  })
+
+  describe('restore', () => {
+    it('puts the grams an order took back on its lots and reopens them', async () => {
+      const orderId = new mongoose.Types.ObjectId()
+      await holdingLotService.consume(userId, 1.5, { orderId, type: 'GIFT_SENT' })
+
+      await holdingLotService.restore(userId, orderId, { grams: 1.5, costBasis: 8000 })
+
+      assert.equal(lots[0].remainingGrams, 1)
+      assert.equal(lots[0].status, 'OPEN')
+      assert.equal(lots[1].remainingGrams, 2)
+      assert.equal(lots[1].consumptions.length, 0)
+      assert.equal(created.length, 0)
+    })
+
+    it('opens a lot for grams the lots have no record of', async () => {
+      const orderId = new mongoose.Types.ObjectId()
+
+      await holdingLotService.restore(userId, orderId, { grams: 0.5, costBasis: 3100 })
+
+      assert.equal(created.length, 1)
+      assert.equal(created[0].source, 'RETURN')
+      assert.equal(created[0].grams, 0.5)
+      assert.equal(created[0].pricePerGram, 6200)
+    })
+  })
+
+  describe('history', () => {
+    const consumed = (entry, grams, costBasis, at) => {
+      entry.consumptions.push({ type: 'SELL', grams, costBasis, at: new Date(at) })
+      return entry
+    }
+
+    it('knows the grams a lot held at a date', () => {
+      const entry = consumed(lot(2, 6000, '2024-06-10'), 0.5, 3000, '2024-09-01')
+
+      assert.equal(holdingLotService.remainingAt(entry, new Date('2024-08-01')), 2)
+      assert.equal(holdingLotService.remainingAt(entry, new Date('2024-10-01')), 1.5)
+    })
+
+    it('steps holdings and cost basis through acquisitions and consumptions', () => {
+      const steps = holdingLotService.toSteps([
+        lot(1, 5000, '2024-01-10'),
+        consumed(lot(2, 6000, '2024-06-10'), 0.5, 3000, '2024-09-01')
+      ])
+
+      assert.deepEqual(steps.map(step => [step.at.toISOString().slice(0, 10), step.grams, step.invested]), [
+        ['2024-01-10', 1, 5000],
+        ['2024-06-10', 3, 17000],
+        ['2024-09-01', 2.5, 14000]
+      ])
+    })
+  })
+})
@@ -0,0 +1,130 @@
+const { describe, it, mock, beforeEach, afterEach } = require('node:test')
+const assert = require('node:assert/strict')
+const mongoose = require('mongoose')
+const IdempotencyKey = require('../models/IdempotencyKey')
+const { idempotency } = require('../middleware/idempotency')
+
+const userId = new mongoose.Types.ObjectId()
+
+const duplicateKeyError = () => Object.assign(new Error('E11000 duplicate key error'), { code: 11000 })
+
+const request = ({ key = 'key-1', body = { amountINR: 500 } } = {}) => ({
+  method: 'POST',
+  originalUrl: '/api/gold/purchase',
+  body,
+  user: { _id: userId },
+  get: (name) => name === 'Idempotency-Key' ? key : undefined
+})
+
+// Records what the middleware sends; json() resolves `sent` once the body goes out
+const response = () => {
+  const res = { statusCode: 200, headers: {} }
+  res.sent = new Promise(resolve => {
+    res.status = (code) => { res.statusCode = code; return res }
+    res.set = (name, value) => { res.headers[name] = value; return res }
+    res.json = (body) => { res.body = body; resolve(body); return res }
+  })
+  return res
+}
+
+// Run the middleware; resolves with whether next() was called
+const run = async (req, res) => {
+  let nextCalled = false
+  await idempotency(req, res, () => { nextCalled = true })
+  return nextCalled
+}
+
+describe('idempotency middleware', () => {
+  // Keys stored by the stubbed model, unique per user and key like the real index
+  let stored
+  const storeKey = ({ userId, key }) => `${userId}:${key}`
+
+  beforeEach(() => {
+    stored = new Map()
+    mock.method(IdempotencyKey, 'create', async (fields) => {
+      if (stored.has(storeKey(fields))) throw duplicateKeyError()
+      const record = { _id: new mongoose.Types.ObjectId(), status: 'IN_PROGRESS', updatedAt: new Date(), ...fields }
+      stored.set(storeKey(fields), record)
+      return record
+    })
+    mock.method(IdempotencyKey, 'findOne', async (filter) => stored.get(storeKey(filter)) || null)
+    mock.method(IdempotencyKey, 'findOneAndUpdate', async () => null)
+    mock.method(IdempotencyKey, 'updateOne', async ({ _id }, { $set }) => {
+      const record = [...stored.values()].find(entry => entry._id.equals(_id))
+      Object.assign(record, $set)
+      return { modifiedCount: 1 }
+    })
+    mock.method(IdempotencyKey, 'deleteOne', async ({ _id }) => {
+      for (const [key, entry] of stored) {
+        if (entry._id.equals(_id)) stored.delete(key)
+      }
+      return { deletedCount: 1 }
+    })
+  })
+
+  afterEach(() => mock.restoreAll())
+
+  it('passes requests without the header straight through', async () => {
+    const res = response()
+    assert.equal(await run(request({ key: null }), res), true)
+    assert.equal(IdempotencyKey.create.mock.callCount(), 0)
+  })
+
+  it('replays the stored response for a repeated key', async () => {
+    const first = response()
+    assert.equal(await run(request(), first), true)
+    first.status(201).json({ order: { id: 'order-1' } })
+    await first.sent
+
+    const retry = response()
+    assert.equal(await run(request(), retry), false)
+    await retry.sent
+
+    assert.equal(retry.statusCode, 201)
+    assert.deepEqual(retry.body, { order: { id: 'order-1' } })
+    assert.equal(retry.headers['Idempotent-Replayed'], 'true')
+  })
+
+  it('rejects a key reused with a different body', async () => {
+    const first = response()
+    await run(request(), first)
+    first.status(201).json({ ok: true })
+    await first.sent
+
+    const reused = response()
+    assert.equal(await run(request({ body: { amountINR: 900 } }), reused), false)
+    await reused.sent
+
+    assert.equal(reused.statusCode, 422)
+    assert.equal(reused.body.code, 'IDEMPOTENCY_KEY_REUSED')
+  })
+
+  it('asks the client to wait while the first request is still running', async () => {
+    await run(request(), response())
+
+    const concurrent = response()
+    assert.equal(await run(request(), concurrent), false)
+    await concurrent.sent
+
+    assert.equal(concurrent.statusCode, 409)
+    assert.equal(concurrent.body.code, 'IDEMPOTENCY_KEY_IN_PROGRESS')
+  })
+
+  it('releases the key after a server error so the request can be retried', async () => {
+    const failed = response()
+    await run(request(), failed)
+    failed.status(500).json({ error: 'Failed' })
+    await failed.sent
+
+    const retry = response()
+    assert.equal(await run(request(), retry), true)
+  })
+
+  it('lets another user send the same key', async () => {
+    await run(request(), response())
+
+    const other = request()
+    other.user = { _id: new mongoose.Types.ObjectId() }
+    assert.equal(await run(other, response()), true)
+  })
+})
@@ -0,0 +1,70 @@
+const { describe, it, mock, afterEach } = require('node:test')
+const assert = require('node:assert/strict')
+const mongoose = require('mongoose')
+const Order = require('../models/Order')
+const Counter = require('../models/Counter')
+const invoiceService = require('../services/invoices')
+
+const completedOrder = (fields = {}) => new Order({
+  userId: new mongoose.Types.ObjectId(),
+  type: 'BUY',
+  amountINR: 10000,
+  grams: 1.5385,
+  pricePerGram: 6500,
+  transactionFee: 400,
+  totalAmount: 10400,
+  status: 'COMPLETED',
+  completedAt: new Date('2026-03-31T20:00:00Z'),
+  feeBreakdown: {
+    platformFee: 100,
+    gst: 300,
+    items: [
+      { code: 'PLATFORM_FEE', label: 'Platform fee (1%)', percent: 1, amount: 100 },
+      { code: 'GST', label: 'GST (3% on gold value)', percent: 3, amount: 300 }
+    ]
+  },
+  paymentDetails: { paymentMethod: 'UPI', paymentId: 'pay_123' },
+  ...fields
+})
+
+describe('tax invoices', () => {
+  afterEach(() => mock.restoreAll())
+
+  it('numbers invoices per Indian financial year, in IST', () => {
+    assert.equal(invoiceService.financialYear(new Date('2026-03-31T18:00:00Z')), '2025-26')
+    // 1 April 00:00 IST is still 31 March in UTC
+    assert.equal(invoiceService.financialYear(new Date('2026-03-31T18:30:00Z')), '2026-27')
+    assert.equal(invoiceService.financialYear(new Date('2026-01-15T00:00:00Z')), '2025-26')
+  })
+
+  it('issues the next number in the sequence for the year', async () => {
+    const next = mock.method(Counter, 'next', async () => 42)
+    mock.method(Order, 'updateOne', async () => ({ modifiedCount: 1 }))
+    const order = completedOrder()
+
+    await invoiceService.issue(order)
+
+    assert.equal(order.invoice.number, 'AG/2026-27/000042')
+    assert.equal(next.mock.calls[0].arguments[0], 'invoice:2026-27')
+  })
+
+  it('numbers older orders once, the first time their invoice is asked for', async () => {
+    const order = completedOrder({ invoice: { number: 'AG/2025-26/000007', issuedAt: new Date() } })
+    const next = mock.method(Counter, 'next', async () => 1)
+
+    assert.equal(await invoiceService.ensureIssued(order), order)
+    assert.equal(next.mock.callCount(), 0)
+  })
+
+  it('renders a PDF with the charges and payment details', () => {
+    const order = completedOrder({ invoice: { number: 'AG/2026-27/000042', issuedAt: new Date() } })
+
+    const pdf = invoiceService.render(order, { name: 'Asha Rao', email: 'asha@example.com' }).toString('latin1')
+
+    assert.ok(pdf.startsWith('%PDF-'))
+    assert.ok(pdf.trimEnd().endsWith('%%EOF'))
+    for (const text of ['AG/2026-27/000042', 'Asha Rao', 'GST \\(3% on gold value\\)', 'Rs. 10,400.00', 'pay_123']) {
+      assert.ok(pdf.includes(text), `missing ${text}`)
+    }
+  })
+})
@@ -0,0 +1,213 @@
+const { describe, it, mock, beforeEach, afterEach } = require('node:test')
+const assert = require('node:assert/strict')
+const mongoose = require('mongoose')
+const LedgerEntry = require('../models/LedgerEntry')
+const User = require('../models/User')
+const ledgerService = require('../services/ledger')
+const holdingLotService = require('../services/holdingLots')
+const { query, fakeLots, fakeLedger } = require('./helpers')
+
+const userId = new mongoose.Types.ObjectId()
+
+// Debits minus credits per asset, to the paisa
+const net = (entries) => {
+  const totals = {}
+  entries.forEach(entry => {
+    const signed = entry.direction === 'DEBIT' ? entry.amount : -entry.amount
+    totals[entry.asset] = (totals[entry.asset] || 0) + signed
+  })
+  return Object.fromEntries(Object.entries(totals).map(([asset, total]) => [asset, Math.round(total * 100) / 100 || 0]))
+}
+
+const linesFor = (entries, account) => entries.filter(entry => entry.account === account)
+
+// Opening holdings of 3g bought for ₹16,500
+const holding = [
+  { userId, account: 'USER_GOLD', asset: 'GOLD', direction: 'CREDIT', amount: 3 },
+  { userId, account: 'USER_COST_BASIS', asset: 'INR', direction: 'CREDIT', amount: 16500 }
+]
+
+describe('ledger postings', () => {
+  let inserted
+
+  beforeEach(() => {
+    inserted = []
+    mock.method(LedgerEntry, 'insertMany', async (documents) => {
+      inserted.push(...documents)
+      return documents
+    })
+  })
+
+  afterEach(() => mock.restoreAll())
+
+  it('posts one balanced transaction, dropping zero lines and rounding amounts', async () => {
+    const transactionId = await ledgerService.post('TEST', [
+      { account: 'PLATFORM_VAULT', asset: 'GOLD', direction: 'DEBIT', amount: 1.234567 },
+      { account: 'USER_GOLD', asset: 'GOLD', direction: 'CREDIT', amount: 1.234567 },
+      { account: 'PLATFORM_FEES', asset: 'INR', direction: 'CREDIT', amount: 0 }
+    ], { userId })
+
+    assert.equal(inserted.length, 2)
+    assert.ok(inserted.every(entry => entry.transactionId === transactionId))
+    assert.equal(inserted[0].amount, 1.2346)
+    assert.equal(linesFor(inserted, 'USER_GOLD')[0].userId, userId)
+    assert.equal(linesFor(inserted, 'PLATFORM_VAULT')[0].userId, null)
+  })
+
+  it('rejects an unbalanced posting without writing it', async () => {
+    await assert.rejects(
+      ledgerService.post('TEST', [
+        { account: 'USER_PAYOUT', asset: 'INR', direction: 'DEBIT', amount: 100 },
+        { account: 'PLATFORM_FEES', asset: 'INR', direction: 'CREDIT', amount: 99 }
+      ], { userId }),
+      /Unbalanced ledger posting for INR/
+    )
+    assert.equal(inserted.length, 0)
+  })
+
+  it('credits the grams, splits the fee from GST and opens a lot at cost, sending rounding to trading', async () => {
+    mock.method(ledgerService, 'ensureOpeningBalance', async () => null)
+    mock.method(LedgerEntry, 'getUserBalances', async () => [])
+    const open = mock.method(holdingLotService, 'open', async () => null)
+
+    await ledgerService.recordBuySettlement({
+      _id: new mongoose.Types.ObjectId(),
+      userId,
+      grams: 0.1667,
+      pricePerGram: 6000,
+      transactionFee: 40,
+      feeBreakdown: { gst: 30 },
+      totalAmount: 1040
+    })
+
+    assert.deepEqual(net(inserted), { GOLD: 0, INR: 0 })
+    assert.equal(linesFor(inserted, 'USER_GOLD')[0].amount, 0.1667)
+    assert.equal(linesFor(inserted, 'PAYMENT_GATEWAY')[0].amount, 1040)
+    assert.equal(linesFor(inserted, 'USER_COST_BASIS')[0].amount, 1000.2)
+    assert.equal(linesFor(inserted, 'PLATFORM_FEES')[0].amount, 10)
+    assert.equal(linesFor(inserted, 'PLATFORM_TAX')[0].amount, 30)
+    assert.equal(linesFor(inserted, 'PLATFORM_TRADING')[0].direction, 'DEBIT')
+    assert.equal(linesFor(inserted, 'PLATFORM_TRADING')[0].amount, 0.2)
+    assert.equal(open.mock.calls[0].arguments[1].costBasis, 1000.2)
+  })
+})
+
+describe('sell settlement', () => {
+  const order = {
+    _id: new mongoose.Types.ObjectId(),
+    userId,
+    grams: 1,
+    transactionFee: 58,
+    totalAmount: 5762
+  }
+
+  afterEach(() => mock.restoreAll())
+
+  it('releases cost basis at the average price and pays the proceeds net of fee into the wallet', async () => {
+    const entries = fakeLedger(holding)
+
+    await ledgerService.recordSellSettlement(order)
+
+    const posted = entries.slice(holding.length)
+    assert.deepEqual(net(posted), { GOLD: 0, INR: 0 })
+    assert.equal(linesFor(posted, 'USER_COST_BASIS')[0].amount, 5500)
+    assert.equal(linesFor(posted, 'USER_WALLET')[0].amount, 5762)
+    assert.equal(linesFor(posted, 'PLATFORM_FEES')[0].amount, 58)
+    assert.deepEqual(await ledgerService.getUserHoldings(userId), { goldGrams: 2, totalInvested: 11000, avgPrice: 5500 })
+  })
+
+  it('releases the cost of the oldest lots the grams came from', async () => {
+    const entries = fakeLedger(holding)
+    const lots = fakeLots([
+      { userId, source: 'PURCHASE', grams: 1, remainingGrams: 1, pricePerGram: 5000, acquiredAt: new Date('2024-01-10') },
+      { userId, source: 'PURCHASE', grams: 2, remainingGrams: 2, pricePerGram: 5750, acquiredAt: new Date('2024-06-10') }
+    ])
+
+    await ledgerService.recordSellSettlement({ ...order, grams: 1.5 })
+
+    assert.equal(linesFor(entries.slice(holding.length), 'USER_COST_BASIS')[0].amount, 7875)
+    assert.deepEqual(lots.map(lot => [lot.status, lot.remainingGrams]), [['CLOSED', 0], ['OPEN', 1.5]])
+  })
+
+  it('clears the whole cost basis when everything is sold', async () => {
+    fakeLedger(holding)
+
+    await ledgerService.recordSellSettlement({ ...order, grams: 3 })
+
+    assert.deepEqual(await ledgerService.getUserHoldings(userId), { goldGrams: 0, totalInvested: 0, avgPrice: 0 })
+  })
+
+  it('rejects selling more grams than are held', async () => {
+    const entries = fakeLedger(holding)
+
+    await assert.rejects(
+      ledgerService.recordSellSettlement({ ...order, grams: 4 }),
+      (error) => error.status === 400 && error.available === 3
+    )
+    assert.equal(entries.length, holding.length)
+  })
+})
+
+describe('buy refund', () => {
+  afterEach(() => mock.restoreAll())
+
+  it('takes the cost basis from the refunded purchase\'s own lot and returns the money to the buyer', async () => {
+    const orderId = new mongoose.Types.ObjectId()
+    const entries = fakeLedger(holding)
+    const lots = fakeLots([
+      { userId, source: 'PURCHASE', grams: 2, remainingGrams: 2, pricePerGram: 5000, acquiredAt: new Date('2024-01-10') },
+      { userId, orderId, source: 'PURCHASE', grams: 1, remainingGrams: 1, pricePerGram: 6520, acquiredAt: new Date('2024-06-10') }
+    ])
+
+    await ledgerService.recordBuyRefund({
+      _id: orderId, userId, grams: 1, pricePerGram: 6500, transactionFee: 40, feeBreakdown: { gst: 30 }, totalAmount: 6560
+    }, 6560)
+
+    const posted = entries.slice(holding.length)
+    assert.deepEqual(net(posted), { GOLD: 0, INR: 0 })
+    assert.equal(linesFor(posted, 'USER_COST_BASIS')[0].amount, 6520)
+    assert.equal(linesFor(posted, 'PAYMENT_GATEWAY')[0].amount, 6560)
+    assert.deepEqual(lots.map(lot => lot.remainingGrams), [2, 0])
+  })
+})
+
+describe('opening balances and drift', () => {
+  afterEach(() => mock.restoreAll())
+
+  it('carries holdings from before the ledger over once', async () => {
+    const entries = fakeLedger()
+    mock.method(User, 'findById', () => query({ _id: userId, assets: { goldGrams: 2, totalInvested: 12000 } }))
+
+    await ledgerService.ensureOpeningBalance(userId)
+    await ledgerService.ensureOpeningBalance(userId)
+
+    assert.equal(new Set(entries.map(entry => entry.transactionId)).size, 1)
+    assert.equal(entries[0].event, 'OPENING_BALANCE')
+    assert.deepEqual(await ledgerService.getUserHoldings(userId), { goldGrams: 2, totalInvested: 12000, avgPrice: 6000 })
+  })
+
+  it('shows an overdrawn wallet as negative', async () => {
+    fakeLedger([{ userId, account: 'USER_WALLET', asset: 'INR', direction: 'DEBIT', amount: 120 }])
+
+    assert.deepEqual(await ledgerService.getWalletBalance(userId), { balance: -120, pendingPayouts: 0 })
+  })
+
+  it('reports users whose stored assets disagree with the ledger', async () => {
+    const otherId = new mongoose.Types.ObjectId()
+    mock.method(LedgerEntry, 'getAllUserBalances', async () => [
+      { _id: { userId, account: 'USER_GOLD' }, balance: 2 },
+      { _id: { userId, account: 'USER_COST_BASIS' }, balance: 12000 },
+      { _id: { userId: otherId, account: 'USER_GOLD' }, balance: 1 },
+      { _id: { userId: otherId, account: 'USER_COST_BASIS' }, balance: 6000 }
+    ])
+    mock.method(User, 'find', async () => [
+      { _id: userId, email: 'a@example.com', assets: { goldGrams: 2, totalInvested: 12000.4 } },
+      { _id: otherId, email: 'b@example.com', assets: { goldGrams: 1.5, totalInvested: 6000 } }
+    ])
+
+    const report = await ledgerService.getDriftReport()
+
+    assert.equal(report.checkedUsers, 2)
+    assert.deepEqual(report.drift.map(user => [user.email, user.difference.goldGrams]), [['b@example.com', 0.5]])
+  })
+})
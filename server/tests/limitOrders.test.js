@@ -0,0 +1,190 @@
+const { describe, it, mock, before, after, beforeEach, afterEach } = require('node:test')
+const assert = require('node:assert/strict')
+const LimitOrder = require('../models/LimitOrder')
+const Notification = require('../models/Notification')
+const Order = require('../models/Order')
+const User = require('../models/User')
+const limitOrderRoutes = require('../routes/limitOrders')
+const limitOrderWatcher = require('../services/limitOrderWatcher')
+const purchaseService = require('../services/purchase')
+const goldPriceService = require('../services/goldPrice')
+const { paymentGateway } = require('../services/paymentGateway')
+const {
+  startApp,
+  buildUser,
+  authenticateAs,
+  query,
+  fakeLedger,
+  trackDocument,
+  trackOrder,
+  inlineTransactions,
+  request
+} = require('./helpers')
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const buildLimitOrder = (fields = {}) => new LimitOrder({
+  userId: buildUser()._id,
+  amountINR: 1200,
+  targetPrice: 6000,
+  expiresAt: new Date(Date.now() + 7 * DAY_MS),
+  ...fields
+})
+
+const trackLimitOrder = (limitOrder) => trackDocument(LimitOrder, limitOrder)
+
+const priceAt = (price) => ({ price, source: 'api', provider: 'fixed', timestamp: new Date() })
+
+describe('limit order watcher', () => {
+  let notifications
+  let orders
+
+  beforeEach(() => {
+    notifications = []
+    orders = []
+    paymentGateway.reset()
+    mock.method(console, 'log', () => {})
+    mock.method(console, 'error', () => {})
+    mock.method(Notification, 'create', async (doc) => { notifications.push(doc); return doc })
+    mock.method(Order.prototype, 'save', async function() {
+      orders.push(trackOrder(this))
+      return this
+    })
+    mock.method(User, 'updateOne', async () => ({ modifiedCount: 1 }))
+    mock.method(User, 'findById', () => query(null))
+    inlineTransactions()
+    fakeLedger()
+  })
+
+  afterEach(() => mock.restoreAll())
+
+  it('buys at the refreshed price once the target is reached, and only once', async () => {
+    const limitOrder = trackLimitOrder(buildLimitOrder())
+
+    const result = await limitOrderWatcher.trigger(limitOrder, priceAt(5990))
+    const again = await limitOrderWatcher.trigger(limitOrder, priceAt(5980))
+
+    assert.equal(result.outcome, 'COMPLETED')
+    assert.equal(again, null)
+    assert.deepEqual([limitOrder.status, limitOrder.triggerPrice], ['TRIGGERED', 5990])
+    assert.equal(String(limitOrder.orderId), String(orders[0]._id))
+    assert.deepEqual([orders.length, orders[0].pricePerGram, orders[0].status], [1, 5990, 'COMPLETED'])
+    assert.deepEqual(notifications.map(notification => notification.type), ['LIMIT_ORDER_FILLED'])
+  })
+
+  it('fails a card or UPI order without placing it when the gateway needs a checkout', async () => {
+    const limitOrder = trackLimitOrder(buildLimitOrder())
+    mock.method(purchaseService.gateway, 'requiresCheckout', () => true)
+
+    const result = await limitOrderWatcher.trigger(limitOrder, priceAt(5990))
+
+    assert.equal(result.outcome, 'ERROR')
+    assert.equal(orders.length, 0)
+    assert.deepEqual([limitOrder.status, limitOrder.failureReason], ['FAILED', 'Limit orders must be paid from your wallet'])
+    assert.equal(notifications[0].type, 'LIMIT_ORDER_FAILED')
+  })
+
+  it('pays from the wallet even when the gateway needs a checkout', async () => {
+    const limitOrder = trackLimitOrder(buildLimitOrder({ paymentMethod: 'WALLET' }))
+    fakeLedger([{ userId: limitOrder.userId, account: 'USER_WALLET', asset: 'INR', direction: 'CREDIT', amount: 5000 }])
+    mock.method(purchaseService.gateway, 'requiresCheckout', () => true)
+
+    const result = await limitOrderWatcher.trigger(limitOrder, priceAt(5990))
+
+    assert.equal(result.outcome, 'COMPLETED')
+    assert.deepEqual([orders[0].fundingSource, orders[0].status], ['WALLET', 'COMPLETED'])
+  })
+
+  it('tells the user when the payment is declined', async () => {
+    const limitOrder = trackLimitOrder(buildLimitOrder())
+    paymentGateway.queueOutcomes('fail')
+
+    assert.equal((await limitOrderWatcher.trigger(limitOrder, priceAt(5990))).outcome, 'FAILED')
+    assert.equal(orders[0].status, 'FAILED')
+    assert.equal(notifications[0].type, 'LIMIT_ORDER_FAILED')
+  })
+
+  it('marks the limit order failed when no order can be placed', async () => {
+    const limitOrder = trackLimitOrder(buildLimitOrder({ amountINR: 1200 }))
+    mock.method(purchaseService, 'createOrder', async () => { throw new Error('Database unavailable') })
+
+    const result = await limitOrderWatcher.trigger(limitOrder, priceAt(5990))
+
+    assert.equal(result.outcome, 'ERROR')
+    assert.deepEqual([limitOrder.status, limitOrder.failureReason], ['FAILED', 'Database unavailable'])
+    assert.equal(notifications[0].type, 'LIMIT_ORDER_FAILED')
+  })
+
+  it('expires open orders past their expiry', async () => {
+    const limitOrder = trackLimitOrder(buildLimitOrder({ expiresAt: new Date(Date.now() - 1000) }))
+    mock.method(LimitOrder, 'find', () => query([limitOrder]))
+
+    assert.equal(await limitOrderWatcher.expireOrders(), 1)
+    assert.equal(limitOrder.status, 'EXPIRED')
+    assert.equal(notifications[0].type, 'LIMIT_ORDER_EXPIRED')
+  })
+})
+
+describe('limit order routes', () => {
+  let app
+  let user
+
+  before(async () => { app = await startApp('/api/gold/limit-orders', limitOrderRoutes) })
+  after(() => app.close())
+
+  beforeEach(() => {
+    user = buildUser()
+    mock.method(goldPriceService, 'getCurrentPrice', async () => priceAt(6500))
+    mock.method(LimitOrder.prototype, 'save', async function() { return this })
+    mock.method(LimitOrder, 'countDocuments', async () => 0)
+  })
+
+  afterEach(() => mock.restoreAll())
+
+  const call = (path, { method = 'POST', body } = {}) =>
+    request(`${app.url}${path}`, { method, token: authenticateAs(user), body })
+
+  it('creates an order with a target below the current price', async () => {
+    const { status, body } = await call('/', { body: { amountINR: 1200, targetPrice: 6200.4 } })
+
+    assert.equal(status, 201)
+    assert.deepEqual([body.limitOrder.status, body.limitOrder.targetPrice], ['OPEN', 6200])
+    assert.ok(new Date(body.limitOrder.expiresAt) - Date.now() > 29 * DAY_MS)
+  })
+
+  it('rejects targets at or above the price and expiries out of range', async () => {
+    assert.match((await call('/', { body: { amountINR: 1200, targetPrice: 6500 } })).body.error, /must be below/)
+    assert.equal((await call('/', { body: { amountINR: 50, targetPrice: 6000 } })).status, 400)
+    const farAway = new Date(Date.now() + 120 * DAY_MS).toISOString()
+    assert.match((await call('/', { body: { amountINR: 1200, targetPrice: 6000, expiresAt: farAway } })).body.error, /at most 90 days/)
+  })
+
+  it('only takes wallet-funded orders when the gateway needs a checkout', async () => {
+    mock.method(purchaseService.gateway, 'requiresCheckout', () => true)
+
+    const { status, body } = await call('/', { body: { amountINR: 1200, targetPrice: 6200, paymentMethod: 'UPI' } })
+    assert.equal(status, 400)
+    assert.match(body.error, /paid from your wallet/)
+
+    const created = await call('/', { body: { amountINR: 1200, targetPrice: 6200, paymentMethod: 'WALLET' } })
+    assert.deepEqual([created.status, created.body.limitOrder.paymentMethod], [201, 'WALLET'])
+  })
+
+  it('bounds the amount as instant purchases are bounded', async () => {
+    const limitOrder = trackLimitOrder(buildLimitOrder({ userId: user._id }))
+
+    assert.equal((await call('/', { body: { amountINR: 2000000, targetPrice: 6000 } })).status, 400)
+    assert.equal((await call('/', { body: { amountINR: 'lots', targetPrice: 6000 } })).status, 400)
+    assert.equal((await call(`/${limitOrder._id}`, { method: 'PATCH', body: { amountINR: 2000000 } })).status, 400)
+    assert.equal((await call('/', { body: { amountINR: '1000000', targetPrice: 6000 } })).status, 201)
+  })
+
+  it('changes and cancels only open orders', async () => {
+    const limitOrder = trackLimitOrder(buildLimitOrder({ userId: user._id }))
+
+    assert.equal((await call(`/${limitOrder._id}`, { method: 'PATCH', body: { targetPrice: 6100 } })).body.limitOrder.targetPrice, 6100)
+    assert.equal((await call(`/${limitOrder._id}`, { method: 'DELETE' })).body.limitOrder.status, 'CANCELLED')
+    assert.equal((await call(`/${limitOrder._id}`, { method: 'PATCH', body: { targetPrice: 6000 } })).status, 400)
+    assert.equal((await call(`/${limitOrder._id}`, { method: 'DELETE' })).status, 400)
+  })
+})
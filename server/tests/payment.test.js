@@ -0,0 +1,123 @@
+const { describe, it, mock, before, after, beforeEach, afterEach } = require('node:test')
+const assert = require('node:assert/strict')
+const goldRoutes = require('../routes/gold')
+const Order = require('../models/Order')
+const User = require('../models/User')
+const { paymentGateway } = require('../services/paymentGateway')
+const { startApp, buildUser, authenticateAs, fakeLedger, trackOrder, inlineTransactions, request } = require('./helpers')
+
+describe('order payment routes', () => {
+  let app
+  let user
+
+  before(async () => { app = await startApp('/api/gold', goldRoutes) })
+  after(() => app.close())
+
+  beforeEach(() => {
+    user = buildUser()
+    paymentGateway.reset()
+    mock.method(console, 'log', () => {})
+    mock.method(console, 'warn', () => {})
+    mock.method(User, 'updateOne', async () => ({ modifiedCount: 1 }))
+    inlineTransactions()
+  })
+
+  afterEach(() => mock.restoreAll())
+
+  const pendingOrder = (fields = {}) => trackOrder(new Order({
+    userId: user._id,
+    amountINR: 6000,
+    grams: 1,
+    pricePerGram: 6000,
+    transactionFee: 60,
+    totalAmount: 6060,
+    goldRateSnapshot: { timestamp: new Date(), rate: 6000 },
+    ...fields
+  }))
+
+  const pay = (order, body = { paymentMethod: 'UPI' }) =>
+    request(`${app.url}/orders/${order._id}/pay`, { token: authenticateAs(user), body })
+
+  it('completes the order and credits the grams when the payment is captured', async () => {
+    const order = pendingOrder()
+    const entries = fakeLedger([{ userId: user._id, account: 'USER_GOLD', asset: 'GOLD', direction: 'CREDIT', amount: 0 }])
+    paymentGateway.queueOutcomes('success')
+
+    const { status, body } = await pay(order)
+
+    assert.equal(status, 200)
+    assert.equal(body.order.status, 'COMPLETED')
+    assert.equal(order.paymentDetails.gateway, 'mock')
+    assert.equal(entries.find(entry => entry.event === 'BUY_SETTLED' && entry.account === 'USER_GOLD').amount, 1)
+  })
+
+  it('fails the order when the payment is declined', async () => {
+    const order = pendingOrder()
+    const entries = fakeLedger()
+    paymentGateway.queueOutcomes('fail')
+
+    const { status, body } = await pay(order)
+
+    assert.equal(status, 400)
+    assert.equal(body.order.status, 'FAILED')
+    assert.equal(entries.length, 0)
+  })
+
+  it('leaves a pending or timed out payment processing for the reconciler', async () => {
+    fakeLedger()
+    paymentGateway.queueOutcomes('pending', 'timeout')
+
+    const pending = pendingOrder()
+    assert.equal((await pay(pending)).status, 202)
+    assert.equal(pending.status, 'PROCESSING')
+
+    const timedOut = pendingOrder()
+    assert.equal((await pay(timedOut)).status, 202)
+    assert.equal(timedOut.status, 'PROCESSING')
+    assert.ok(timedOut.paymentDetails.gatewayOrderId)
+  })
+
+  it('refuses to pay an order that is no longer pending', async () => {
+    mock.method(console, 'error', () => {})
+    const order = pendingOrder({ status: 'COMPLETED' })
+
+    assert.equal((await pay(order)).status, 400)
+  })
+
+  describe('POST /api/gold/orders/:orderId/verify', () => {
+    const verify = (order, checkout) => request(`${app.url}/orders/${order._id}/verify`, {
+      token: authenticateAs(user),
+      body: {
+        razorpay_order_id: checkout.gatewayOrderId,
+        razorpay_payment_id: checkout.paymentId,
+        razorpay_signature: checkout.signature
+      }
+    })
+
+    it('settles the order with a signed payment for its own gateway order', async () => {
+      const order = pendingOrder({ status: 'PROCESSING' })
+      const entries = fakeLedger([{ userId: user._id, account: 'USER_GOLD', asset: 'GOLD', direction: 'CREDIT', amount: 0 }])
+      const checkout = await paymentGateway.createOrder(order)
+      order.paymentDetails = { gateway: 'mock', gatewayOrderId: checkout.gatewayOrderId, paymentMethod: 'UPI' }
+
+      const { status } = await verify(order, checkout)
+
+      assert.equal(status, 200)
+      assert.deepEqual([order.status, order.paymentDetails.paymentId], ['COMPLETED', checkout.paymentId])
+      assert.equal(entries.filter(entry => entry.event === 'BUY_SETTLED' && entry.account === 'USER_GOLD').length, 1)
+    })
+
+    it('rejects a payment when none was started for the order, or one for another order', async () => {
+      const other = await paymentGateway.createOrder({ _id: 'order_other', totalAmount: 100 })
+
+      const unstarted = pendingOrder()
+      const first = await verify(unstarted, other)
+      assert.deepEqual([first.status, first.body.error], [400, 'No payment has been started for this order'])
+
+      const started = pendingOrder({ paymentDetails: { gateway: 'mock', gatewayOrderId: 'mock_order_own' } })
+      const second = await verify(started, other)
+      assert.deepEqual([second.status, second.body.error], [400, 'Payment does not belong to this order'])
+      assert.equal(started.status, 'PENDING')
+    })
+  })
+})
@@ -0,0 +1,121 @@
+const { describe, it, mock, afterEach } = require('node:test')
+const assert = require('node:assert/strict')
+const crypto = require('crypto')
+const {
+  PAYMENT_STATUS,
+  RazorpayGateway,
+  MockPaymentGateway,
+  createGatewayFromEnv
+} = require('../services/paymentGateway')
+
+const order = { _id: 'order_1', totalAmount: 6060 }
+
+describe('mock payment gateway', () => {
+  it('follows its script, cycling when it runs out', async () => {
+    const gateway = new MockPaymentGateway({ script: ['success', 'fail'] })
+
+    const statuses = []
+    for (let i = 0; i < 3; i++) {
+      statuses.push((await gateway.createOrder(order)).status)
+    }
+
+    assert.deepEqual(statuses, [PAYMENT_STATUS.CAPTURED, PAYMENT_STATUS.FAILED, PAYMENT_STATUS.CAPTURED])
+  })
+
+  it('settles a pending payment on the next status check', async () => {
+    const gateway = new MockPaymentGateway()
+    gateway.queueOutcomes('pending:fail')
+
+    const created = await gateway.createOrder(order)
+
+    assert.equal(created.status, PAYMENT_STATUS.PENDING)
+    assert.equal((await gateway.fetchStatus(created.gatewayOrderId)).status, PAYMENT_STATUS.FAILED)
+  })
+
+  it('times out while still taking the payment', async () => {
+    const gateway = new MockPaymentGateway({ script: ['timeout'] })
+
+    const error = await gateway.createOrder(order).catch(error => error)
+
+    assert.equal(error.code, 'GATEWAY_TIMEOUT')
+    assert.equal((await gateway.fetchStatus(error.gatewayOrderId)).status, PAYMENT_STATUS.CAPTURED)
+  })
+
+  it('signs captured payments and refunds only those', async () => {
+    const gateway = new MockPaymentGateway({ script: ['success', 'fail'] })
+    const captured = await gateway.createOrder(order)
+    const failed = await gateway.createOrder(order)
+
+    assert.equal(await gateway.verify({ ...captured, signature: captured.signature }), true)
+    assert.equal(await gateway.verify({ ...captured, signature: 'forged' }), false)
+    assert.equal((await gateway.refund({ paymentId: captured.paymentId, amount: 6060 })).status, 'PROCESSED')
+    await assert.rejects(gateway.refund({ paymentId: failed.paymentId, amount: 6060 }), /cannot be refunded/)
+  })
+
+  it('rejects an unknown scripted outcome', async () => {
+    await assert.rejects(new MockPaymentGateway({ script: ['maybe'] }).createOrder(order), /Unknown mock gateway outcome/)
+  })
+})
+
+describe('razorpay gateway', () => {
+  const gateway = new RazorpayGateway({ keyId: 'rzp_test_key', keySecret: 'rzp_test_secret' })
+
+  it('verifies the checkout signature over order and payment IDs', async () => {
+    const signature = crypto.createHmac('sha256', 'rzp_test_secret').update('order_abc|pay_1').digest('hex')
+
+    assert.equal(await gateway.verify({ gatewayOrderId: 'order_abc', paymentId: 'pay_1', signature }), true)
+    assert.equal(await gateway.verify({ gatewayOrderId: 'order_abc', paymentId: 'pay_2', signature }), false)
+    assert.equal(await gateway.verify({ gatewayOrderId: 'order_abc', paymentId: 'pay_1' }), false)
+  })
+
+  it('reads the order state from its payments', async () => {
+    const payments = (items) => ({ orders: { fetchPayments: async () => ({ items }) } })
+
+    gateway.client = payments([{ id: 'pay_1', status: 'failed' }, { id: 'pay_2', status: 'captured' }])
+    assert.deepEqual((({ status, paymentId }) => ({ status, paymentId }))(await gateway.fetchStatus('order_abc')), {
+      status: PAYMENT_STATUS.CAPTURED, paymentId: 'pay_2'
+    })
+
+    gateway.client = payments([{ id: 'pay_1', status: 'authorized' }])
+    assert.equal((await gateway.fetchStatus('order_abc')).status, PAYMENT_STATUS.PENDING)
+
+    gateway.client = payments([{ id: 'pay_1', status: 'failed' }])
+    assert.equal((await gateway.fetchStatus('order_abc')).status, PAYMENT_STATUS.FAILED)
+
+    gateway.client = payments([])
+    assert.equal((await gateway.fetchStatus('order_abc')).status, PAYMENT_STATUS.CREATED)
+  })
+})
+
+describe('gateway selection', () => {
+  afterEach(() => mock.restoreAll())
+
+  it('uses Razorpay when its keys are set and the mock only when asked or outside production', () => {
+    const env = { ...process.env }
+
+    process.env.RAZORPAY_KEY_ID = 'rzp_test_key'
+    process.env.RAZORPAY_SECRET = 'rzp_test_secret'
+    assert.equal(createGatewayFromEnv().name, 'razorpay')
+    assert.equal(createGatewayFromEnv('mock').name, 'mock')
+
+    delete process.env.RAZORPAY_SECRET
+    assert.equal(createGatewayFromEnv().name, 'mock')
+    assert.throws(() => createGatewayFromEnv('razorpay'), /RAZORPAY_SECRET is not set/)
+    assert.throws(() => createGatewayFromEnv('stripe'), /Unknown payment gateway "stripe"/)
+
+    process.env.NODE_ENV = 'production'
+    assert.throws(() => createGatewayFromEnv(), /required in production/)
+    assert.equal(createGatewayFromEnv('mock').name, 'mock')
+
+    process.env = env
+  })
+
+  it('signs mock payments with a secret of its own', async () => {
+    const first = new MockPaymentGateway()
+    const second = new MockPaymentGateway()
+    const captured = await first.createOrder(order)
+
+    assert.equal(await first.verify(captured), true)
+    assert.equal(await second.verify(captured), false)
+  })
+})
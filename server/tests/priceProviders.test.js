@@ -0,0 +1,114 @@
+const { describe, it, mock, afterEach } = require('node:test')
+const assert = require('node:assert/strict')
+const fs = require('fs')
+const os = require('os')
+const path = require('path')
+const axios = require('axios')
+const goldPriceService = require('../services/goldPrice')
+const {
+  PriceProvider,
+  RateFilePriceProvider,
+  JsonFeedPriceProvider,
+  FixedPriceProvider,
+  createProvidersFromEnv
+} = require('../services/priceProviders')
+
+// Provider returning each result in turn; errors are thrown
+class ScriptedProvider extends PriceProvider {
+  constructor(name, results) {
+    super(name)
+    this.results = results
+    this.calls = 0
+  }
+
+  async fetchPrice() {
+    const result = this.results[Math.min(this.calls++, this.results.length - 1)]
+    if (result instanceof Error) throw result
+    return result
+  }
+}
+
+// A GoldPriceService with its own provider chain, leaving the singleton alone
+const serviceWith = (providers) => {
+  const service = new goldPriceService.constructor()
+  service.providers = providers
+  return service
+}
+
+describe('gold price provider chain', () => {
+  afterEach(() => mock.restoreAll())
+
+  it('uses the first provider that returns a price', async () => {
+    const service = serviceWith([new ScriptedProvider('primary', [6500]), new ScriptedProvider('backup', [6400])])
+
+    assert.deepEqual(await service.fetchFromAPI(), { price: 6500, provider: 'primary' })
+  })
+
+  it('fails over to the next provider and cools the failed one down', async () => {
+    const primary = new ScriptedProvider('primary', [new Error('timeout'), 6500])
+    const backup = new ScriptedProvider('backup', [6400])
+    const service = serviceWith([primary, backup])
+
+    assert.deepEqual(await service.fetchFromAPI(), { price: 6400, provider: 'backup' })
+    assert.deepEqual(await service.fetchFromAPI(), { price: 6400, provider: 'backup' })
+    assert.equal(primary.calls, 1)
+    assert.equal(service.getProviderStatus()[0].coolingDown, true)
+  })
+
+  it('does not cool down a throttled provider', async () => {
+    const throttled = Object.assign(new Error('Skipping call'), { throttled: true })
+    const primary = new ScriptedProvider('primary', [throttled, 6500])
+    const service = serviceWith([primary, new ScriptedProvider('backup', [6400])])
+
+    await service.fetchFromAPI()
+    assert.deepEqual(await service.fetchFromAPI(), { price: 6500, provider: 'primary' })
+  })
+
+  it('rejects a provider returning something that is not a price', async () => {
+    const service = serviceWith([new ScriptedProvider('broken', [NaN]), new ScriptedProvider('backup', [6400])])
+
+    assert.equal((await service.fetchFromAPI()).provider, 'backup')
+  })
+
+  it('skips providers that are not configured and fails when none answer', async () => {
+    const service = serviceWith([new FixedPriceProvider({ price: NaN })])
+
+    await assert.rejects(service.fetchFromAPI(), /All gold price providers failed/)
+  })
+
+  it('builds the chain from a list, skipping unknown names', () => {
+    mock.method(console, 'warn', () => {})
+    const providers = createProvidersFromEnv('fixed, nope ,simulated')
+
+    assert.deepEqual(providers.map(provider => provider.name), ['fixed', 'simulated'])
+  })
+})
+
+describe('price providers', () => {
+  afterEach(() => mock.restoreAll())
+
+  it('reads the latest row of a rate sheet, per gram', async () => {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'rates-')), 'rates.csv')
+    fs.writeFileSync(file, 'Date,999,995\n2025-06-01,97000,96600\n# comment\n2025-06-02,97150,96760\n')
+
+    const provider = new RateFilePriceProvider({ source: file })
+    assert.equal(await provider.fetchPrice(), 9715)
+
+    const other = new RateFilePriceProvider({ source: file, column: '995', unitGrams: 1 })
+    assert.equal(await other.fetchPrice(), 96760)
+  })
+
+  it('rejects a rate sheet without the configured column', async () => {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'rates-')), 'rates.csv')
+    fs.writeFileSync(file, 'Date,916\n2025-06-02,88990\n')
+
+    await assert.rejects(new RateFilePriceProvider({ source: file }).fetchPrice(), /missing column "999"/)
+  })
+
+  it('reads a JSON feed at a dotted path', async () => {
+    mock.method(axios, 'get', async () => ({ data: { data: { rates: { XAU: '68500.4' } } } }))
+
+    const provider = new JsonFeedPriceProvider({ url: 'https://feed.test', pricePath: 'data.rates.XAU', unitGrams: 10 })
+    assert.equal(await provider.fetchPrice(), 6850)
+  })
+})
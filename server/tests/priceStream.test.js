@@ -0,0 +1,93 @@
+const { describe, it, mock, beforeEach, afterEach } = require('node:test')
+const assert = require('node:assert/strict')
+const { EventEmitter } = require('events')
+const goldPriceService = require('../services/goldPrice')
+const priceStream = require('../services/priceStream')
+
+// Response stand-in collecting what is written to the stream
+const fakeResponse = () => ({
+  chunks: [],
+  writeHead(status, headers) { this.status = status; this.headers = headers },
+  write(chunk) { this.chunks.push(chunk) },
+  events() { return this.chunks.filter(chunk => chunk.startsWith('id:')) }
+})
+
+const fakeRequest = (lastEventId) => Object.assign(new EventEmitter(), {
+  headers: lastEventId ? { 'last-event-id': String(lastEventId) } : {},
+  query: {}
+})
+
+const priceAt = (time, source = 'cache') => ({ price: 6500, source, provider: 'fixed', timestamp: new Date(time) })
+
+describe('price stream', () => {
+  beforeEach(() => {
+    priceStream.clients.clear()
+    priceStream.recentEvents = []
+    mock.method(goldPriceService, 'getPriceSnapshot', async (data) => ({ current: { price: data.price }, change: {} }))
+  })
+
+  afterEach(() => {
+    priceStream.stop()
+    mock.restoreAll()
+  })
+
+  it('sends the cached price to a new client and stops when it leaves', async () => {
+    mock.method(goldPriceService, 'getCurrentPrice', async () => priceAt(1000))
+    const req = fakeRequest()
+    const res = fakeResponse()
+
+    priceStream.subscribe(req, res)
+    await new Promise(resolve => setImmediate(resolve))
+
+    assert.equal(res.headers['Content-Type'], 'text/event-stream')
+    assert.deepEqual(res.events(), ['id: 1000\nevent: price\ndata: {"current":{"price":6500},"change":{}}\n\n'])
+    assert.ok(priceStream.heartbeatTimer)
+
+    req.emit('close')
+    assert.equal(priceStream.clients.size, 0)
+    assert.equal(priceStream.heartbeatTimer, null)
+  })
+
+  it('broadcasts refreshed prices to every client and keeps them for replay', async () => {
+    const first = fakeResponse()
+    const second = fakeResponse()
+    priceStream.clients.add(first).add(second)
+
+    await priceStream.publish(priceAt(2000, 'api'))
+
+    assert.equal(first.events().length, 1)
+    assert.equal(second.events().length, 1)
+    assert.deepEqual(priceStream.recentEvents.map(event => event.id), [2000])
+  })
+
+  it('replays only the events a reconnecting client missed', async () => {
+    const getCurrentPrice = mock.method(goldPriceService, 'getCurrentPrice', async () => priceAt(3000))
+    await priceStream.publish(priceAt(1000))
+    await priceStream.publish(priceAt(2000))
+    await priceStream.publish(priceAt(3000))
+    const res = fakeResponse()
+
+    await priceStream.sendInitialEvents(res, 1000)
+
+    assert.deepEqual(res.events().map(chunk => chunk.split('\n')[0]), ['id: 2000', 'id: 3000'])
+    assert.equal(getCurrentPrice.mock.callCount(), 0)
+  })
+
+  it('sends nothing when the client already has the current price', async () => {
+    mock.method(goldPriceService, 'getCurrentPrice', async () => priceAt(3000))
+    const res = fakeResponse()
+
+    await priceStream.sendInitialEvents(res, 3000)
+
+    assert.deepEqual(res.events(), [])
+  })
+
+  it('leaves fresh fetches to the broadcast', async () => {
+    mock.method(goldPriceService, 'getCurrentPrice', async () => priceAt(4000, 'api'))
+    const res = fakeResponse()
+
+    await priceStream.sendInitialEvents(res)
+
+    assert.deepEqual(res.events(), [])
+  })
+})
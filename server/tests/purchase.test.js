@@ -0,0 +1,41 @@
+const { describe, it } = require('node:test')
+const assert = require('node:assert/strict')
+const purchaseService = require('../services/purchase')
+
+describe('purchase pricing', () => {
+  it('prices an amount at the given rate with the platform fee and GST on top', () => {
+    const pricing = purchaseService.priceOrder({ amountINR: 1000, price: 6000 })
+
+    assert.deepEqual(
+      [pricing.amountINR, pricing.grams, pricing.pricePerGram, pricing.transactionFee, pricing.totalAmount],
+      [1000, 0.1667, 6000, 40, 1040]
+    )
+    assert.deepEqual([pricing.feeBreakdown.platformFee, pricing.feeBreakdown.gst], [10, 30])
+  })
+
+  it('adds the surcharge for the payment method', () => {
+    const pricing = purchaseService.priceOrder({ amountINR: 1000, price: 6000, paymentMethod: 'CARD' })
+
+    assert.deepEqual([pricing.feeBreakdown.paymentSurcharge, pricing.totalAmount], [16, 1056])
+  })
+
+  it('prices grams when asked to', () => {
+    const pricing = purchaseService.priceOrder({ grams: 0.5, preferredType: 'grams', price: 6000 })
+
+    assert.deepEqual([pricing.amountINR, pricing.grams, pricing.totalAmount], [3000, 0.5, 3120])
+  })
+
+  it('rejects ambiguous and too small purchases', () => {
+    assert.throws(() => purchaseService.priceOrder({ amountINR: 1000, grams: 1, price: 6000 }), { status: 400 })
+    assert.throws(() => purchaseService.priceOrder({ amountINR: 99, price: 6000 }), /Minimum purchase amount/)
+    assert.throws(() => purchaseService.priceOrder({ grams: 0.001, preferredType: 'grams', price: 6000 }), /Minimum purchase is/)
+    assert.throws(() => purchaseService.priceOrder({ grams: 1, preferredType: 'amount', price: 6000 }), /Invalid purchase parameters/)
+  })
+
+  it('caps the gold value of a purchase, however it is given', () => {
+    assert.equal(purchaseService.priceOrder({ amountINR: 1000000, price: 6000 }).amountINR, 1000000)
+    assert.throws(() => purchaseService.priceOrder({ amountINR: 1000001, price: 6000 }), /Maximum purchase amount is ₹10,00,000/)
+    assert.throws(() => purchaseService.priceOrder({ grams: 200, preferredType: 'grams', price: 6000 }), { status: 400 })
+    assert.throws(() => purchaseService.priceOrder({ amountINR: 'lots', price: 6000 }), /Invalid purchase parameters/)
+  })
+})
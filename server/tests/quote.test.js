@@ -0,0 +1,127 @@
+const { describe, it, mock, before, after, beforeEach, afterEach } = require('node:test')
+const assert = require('node:assert/strict')
+
+process.env.QUOTE_SIGNING_SECRET = 'test_quote_secret'
+const Order = require('../models/Order')
+const UsedQuote = require('../models/UsedQuote')
+const quoteService = require('../services/quote')
+const goldRoutes = require('../routes/gold')
+const { startApp, buildUser, authenticateAs, inlineTransactions, request } = require('./helpers')
+
+const userId = '64b7f0c2a1b2c3d4e5f60718'
+const priceData = { price: 6512, source: 'api', provider: 'fixed', timestamp: new Date('2025-06-02T10:00:00Z') }
+
+// Spent quotes in memory, rejecting a second use as the unique index would
+const trackUsedQuotes = () => {
+  const used = new Set()
+  mock.method(UsedQuote, 'create', async (documents) => {
+    documents.forEach(({ signature }) => {
+      if (used.has(signature)) throw Object.assign(new Error('E11000 duplicate key'), { code: 11000 })
+      used.add(signature)
+    })
+    return documents
+  })
+  return used
+}
+
+describe('price quotes', () => {
+  afterEach(() => mock.restoreAll())
+
+  it('verifies a quote back to its locked price', () => {
+    const quote = quoteService.createQuote(userId, priceData)
+    const verified = quoteService.verifyQuote(quote.id, userId)
+
+    assert.equal(verified.pricePerGram, 6512)
+    assert.equal(verified.provider, 'fixed')
+    assert.deepEqual(verified.priceTimestamp, priceData.timestamp)
+    assert.equal(verified.expiresAt - verified.createdAt, quoteService.ttlSeconds * 1000)
+  })
+
+  it('rejects a quote whose price was altered', () => {
+    const [body, signature] = quoteService.createQuote(userId, priceData).id.split('.')
+    const payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'))
+    const tampered = Buffer.from(JSON.stringify({ ...payload, ppg: 1 })).toString('base64url')
+
+    assert.throws(() => quoteService.verifyQuote(`${tampered}.${signature}`, userId), { status: 400, code: 'QUOTE_INVALID' })
+    assert.throws(() => quoteService.verifyQuote('garbage', userId), { code: 'QUOTE_INVALID' })
+    assert.throws(() => quoteService.verifyQuote(undefined, userId), { code: 'QUOTE_INVALID' })
+  })
+
+  it("rejects another user's quote", () => {
+    const quote = quoteService.createQuote(userId, priceData)
+
+    assert.throws(() => quoteService.verifyQuote(quote.id, '64b7f0c2a1b2c3d4e5f60719'), {
+      code: 'QUOTE_INVALID', message: /another user/
+    })
+  })
+
+  it('rejects an expired quote', () => {
+    const quote = quoteService.createQuote(userId, priceData)
+    mock.method(Date, 'now', () => quote.expiresAt.getTime() + 1)
+
+    assert.throws(() => quoteService.verifyQuote(quote.id, userId), { status: 400, code: 'QUOTE_EXPIRED' })
+  })
+  it('spends a quote on its first use', async () => {
+    const used = trackUsedQuotes()
+    const quote = quoteService.createQuote(userId, priceData)
+
+    assert.equal((await quoteService.redeemQuote(quote.id, userId)).pricePerGram, 6512)
+    await assert.rejects(quoteService.redeemQuote(quote.id, userId), { status: 400, code: 'QUOTE_USED' })
+    assert.equal(used.size, 1)
+  })
+})
+
+describe('POST /api/gold/purchase with a quote', () => {
+  let app
+  let user
+  let orders
+  let used
+
+  before(async () => { app = await startApp('/api/gold', goldRoutes) })
+  after(() => app.close())
+
+  beforeEach(() => {
+    user = buildUser()
+    orders = []
+    used = trackUsedQuotes()
+    inlineTransactions()
+    mock.method(Order.prototype, 'save', async function() {
+      orders.push(this)
+      return this
+    })
+  })
+
+  afterEach(() => mock.restoreAll())
+
+  const purchase = (body) => request(`${app.url}/purchase`, { token: authenticateAs(user), body })
+
+  it('buys at the quoted price once', async () => {
+    const quote = quoteService.createQuote(user._id, priceData)
+
+    const { status, body } = await purchase({ amountINR: 1000, quoteId: quote.id })
+    assert.deepEqual([status, body.order.pricePerGram], [201, 6512])
+
+    const again = await purchase({ amountINR: 1000, quoteId: quote.id })
+    assert.deepEqual([again.status, again.body.code], [400, 'QUOTE_USED'])
+    assert.equal(orders.length, 1)
+  })
+
+  it('leaves the quote unspent when the order is rejected', async () => {
+    const quote = quoteService.createQuote(user._id, priceData)
+
+    assert.equal((await purchase({ amountINR: 2000000, quoteId: quote.id })).status, 400)
+    assert.equal(used.size, 0)
+
+    assert.equal((await purchase({ amountINR: 1000, quoteId: quote.id })).status, 201)
+    assert.equal(used.size, 1)
+  })
+
+  it("refuses another user's quote", async () => {
+    const quote = quoteService.createQuote('64b7f0c2a1b2c3d4e5f60719', priceData)
+
+    const { status, body } = await purchase({ amountINR: 1000, quoteId: quote.id })
+
+    assert.deepEqual([status, body.code], [400, 'QUOTE_INVALID'])
+    assert.equal(orders.length, 0)
+  })
+})
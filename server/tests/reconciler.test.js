@@ -0,0 +1,130 @@
+const { describe, it, mock, beforeEach, afterEach } = require('node:test')
+const assert = require('node:assert/strict')
+const mongoose = require('mongoose')
+const Order = require('../models/Order')
+const ReconciliationReport = require('../models/ReconciliationReport')
+const User = require('../models/User')
+const reconciler = require('../services/reconciler')
+const { MockPaymentGateway } = require('../services/paymentGateway')
+const { query, fakeLedger, trackOrder, inlineTransactions } = require('./helpers')
+
+const userId = new mongoose.Types.ObjectId()
+const HOUR = 60 * 60 * 1000
+
+describe('order reconciler', () => {
+  let service
+  let gateway
+
+  beforeEach(() => {
+    gateway = new MockPaymentGateway()
+    service = new reconciler.constructor()
+    service.gateway = gateway
+    mock.method(User, 'updateOne', async () => ({ modifiedCount: 1 }))
+    mock.method(User, 'findById', () => query(null))
+    inlineTransactions()
+  })
+
+  afterEach(() => mock.restoreAll())
+
+  const staleOrder = ({ ageMs = 15 * 60 * 1000, ...fields } = {}) => trackOrder(new Order({
+    userId,
+    amountINR: 6000,
+    grams: 1,
+    pricePerGram: 6000,
+    transactionFee: 60,
+    totalAmount: 6060,
+    status: 'PROCESSING',
+    createdAt: new Date(Date.now() - ageMs),
+    goldRateSnapshot: { timestamp: new Date(), rate: 6000 },
+    ...fields
+  }))
+
+  // An order sent to the mock gateway with the given outcome
+  const sentOrder = async (outcome, fields) => {
+    gateway.queueOutcomes(outcome)
+    const order = staleOrder(fields)
+    const created = await gateway.createOrder(order).catch(error => ({ gatewayOrderId: error.gatewayOrderId }))
+    order.paymentDetails = { gateway: 'mock', gatewayOrderId: created.gatewayOrderId, paymentMethod: 'UPI' }
+    return order
+  }
+
+  it('settles an order whose payment went through after a timeout', async () => {
+    const entries = fakeLedger()
+    const order = await sentOrder('timeout')
+
+    const item = await service.reconcileOrder(order)
+
+    assert.deepEqual([item.action, item.newStatus, item.gatewayStatus], ['SETTLED', 'COMPLETED', 'CAPTURED'])
+    assert.equal(entries.filter(entry => entry.account === 'USER_GOLD').length, 1)
+  })
+
+  it('fails an order whose pending payment was declined', async () => {
+    const order = await sentOrder('pending:fail')
+
+    const item = await service.reconcileOrder(order)
+
+    assert.deepEqual([item.action, order.status], ['FAILED', 'FAILED'])
+  })
+
+  it('keeps checking a payment still in flight until the TTL', async () => {
+    const order = await sentOrder('pending')
+
+    assert.equal((await service.reconcileOrder(order)).action, 'UNCHANGED')
+    assert.equal(order.status, 'PROCESSING')
+  })
+
+  it('closes the gateway order and cancels once past the TTL, whatever the gateway reports', async () => {
+    const order = await sentOrder('pending', { ageMs: 2 * HOUR })
+
+    const item = await service.reconcileOrder(order)
+
+    assert.deepEqual([item.action, order.status], ['CANCELLED', 'CANCELLED'])
+    assert.equal((await gateway.fetchStatus(order.paymentDetails.gatewayOrderId)).status, 'FAILED')
+  })
+
+  it('cancels an expired order when the gateway cannot be reached', async () => {
+    mock.method(console, 'error', () => {})
+    const order = await sentOrder('pending', { ageMs: 2 * HOUR })
+    mock.method(gateway, 'closeOrder', async () => { throw new Error('Gateway unavailable') })
+
+    const item = await service.reconcileOrder(order)
+
+    assert.deepEqual([item.action, item.error, order.status], ['CANCELLED', 'Gateway unavailable', 'CANCELLED'])
+  })
+
+  it('cancels unpaid orders only once they pass the TTL', async () => {
+    const fresh = staleOrder({ status: 'PENDING' })
+    assert.equal((await service.reconcileOrder(fresh)).action, 'UNCHANGED')
+
+    const expired = staleOrder({ status: 'PENDING', ageMs: 2 * HOUR })
+    const item = await service.reconcileOrder(expired)
+
+    assert.deepEqual([item.action, expired.status], ['CANCELLED', 'CANCELLED'])
+    assert.equal(expired.cancellation.cancelledBy, 'SYSTEM')
+  })
+
+  it('checks the least recently reconciled orders first and stamps each one', async () => {
+    mock.method(mongoose, 'connection', () => ({ readyState: 1 }), { getter: true })
+    mock.method(ReconciliationReport, 'create', async (report) => report)
+    const order = await sentOrder('pending')
+    const find = mock.method(Order, 'find', () => query([order]))
+    const stamps = mock.method(Order, 'updateOne', async () => ({ modifiedCount: 1 }))
+
+    const report = await service.run('MANUAL')
+
+    assert.deepEqual(find.mock.calls[0].arguments[0].$or[0], { lastReconciledAt: { $exists: false } })
+    assert.ok(stamps.mock.calls[0].arguments[1].$set.lastReconciledAt instanceof Date)
+    assert.deepEqual(stamps.mock.calls[0].arguments[2], { timestamps: false })
+    assert.equal(report.summary.unchanged, 1)
+  })
+
+  it('reports orders created on another gateway instead of guessing', async () => {
+    mock.method(console, 'error', () => {})
+    const order = staleOrder({ paymentDetails: { gateway: 'razorpay', gatewayOrderId: 'order_abc' } })
+
+    const item = await service.reconcileOrder(order)
+
+    assert.equal(item.action, 'ERROR')
+    assert.match(item.error, /razorpay gateway/)
+  })
+})
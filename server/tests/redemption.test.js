@@ -0,0 +1,142 @@
+const { describe, it, mock, before, after, beforeEach, afterEach } = require('node:test')
+const assert = require('node:assert/strict')
+const Redemption = require('../models/Redemption')
+const Notification = require('../models/Notification')
+const Order = require('../models/Order')
+const User = require('../models/User')
+const redemptionService = require('../services/redemption')
+const ledgerService = require('../services/ledger')
+const goldPriceService = require('../services/goldPrice')
+const { startApp, buildUser, authenticateAs, query, fakeLedger, trackDocument, inlineTransactions, request } = require('./helpers')
+
+const ADDRESS = {
+  fullName: 'Asha Rao',
+  phone: '9876543210',
+  line1: '12 MG Road',
+  city: 'Bengaluru',
+  state: 'Karnataka',
+  pincode: '560001',
+  isDefault: true
+}
+
+describe('physical redemption', () => {
+  let user
+  let orders
+  let notifications
+  let entries
+
+  beforeEach(() => {
+    user = buildUser({ addresses: [ADDRESS] })
+    orders = []
+    notifications = []
+    mock.method(console, 'log', () => {})
+    mock.method(goldPriceService, 'getCurrentPrice', async () => ({
+      price: 6500, source: 'cache', provider: 'fixed', timestamp: new Date()
+    }))
+    mock.method(Order, 'create', async (docs) => {
+      const created = docs.map(doc => new Order(doc))
+      orders.push(...created)
+      return created
+    })
+    mock.method(Order, 'updateOne', async (filter, update) => {
+      orders.find(order => String(order._id) === String(filter._id))?.set(update.$set)
+    })
+    mock.method(Redemption.prototype, 'save', async function() {
+      return trackDocument(Redemption, this)
+    })
+    mock.method(Notification, 'create', async (doc) => { notifications.push(doc); return doc })
+    mock.method(User, 'updateOne', async () => ({ modifiedCount: 1 }))
+    mock.method(User, 'findById', () => query(null))
+    inlineTransactions()
+    entries = fakeLedger([
+      { userId: user._id, account: 'USER_GOLD', asset: 'GOLD', direction: 'CREDIT', amount: 8 },
+      { userId: user._id, account: 'USER_COST_BASIS', asset: 'INR', direction: 'CREDIT', amount: 48000 },
+      { userId: user._id, account: 'USER_WALLET', asset: 'INR', direction: 'CREDIT', amount: 2000 }
+    ])
+  })
+
+  afterEach(() => mock.restoreAll())
+
+  const place = (items = [{ sku: 'COIN_1G', quantity: 2 }, { sku: 'COIN_5G', quantity: 1 }]) =>
+    redemptionService.placeRedemption(user, { items })
+
+  it('locks the grams and takes the making charges from the wallet', async () => {
+    const { redemption, order, assets, wallet } = await place()
+
+    assert.deepEqual([redemption.totalGrams, redemption.makingCharges, redemption.costBasis], [7, 1450, 42000])
+    assert.equal(redemption.shippingAddress.pincode, '560001')
+    assert.deepEqual([order.type, order.status, order.totalAmount, order.amountINR], ['REDEEM', 'PROCESSING', 1450, 45500])
+    assert.deepEqual(assets, { goldGrams: 1, totalInvested: 6000, avgPrice: 6000 })
+    assert.equal(wallet.balance, 550)
+  })
+
+  it('moves through each stage in turn and completes the order on delivery', async () => {
+    const { redemption } = await place()
+
+    assert.equal(await redemptionService.advance(redemption._id, 'SHIPPED'), null)
+    await redemptionService.advance(redemption._id, 'PACKED')
+    await redemptionService.advance(redemption._id, 'SHIPPED', { carrier: 'BlueDart', trackingNumber: 'BD123' })
+    await redemptionService.advance(redemption._id, 'DELIVERED')
+
+    assert.equal(redemption.status, 'DELIVERED')
+    assert.equal(orders[0].status, 'COMPLETED')
+    assert.equal(entries.filter(entry => entry.event === 'REDEMPTION_DELIVERED').length, 4)
+    assert.deepEqual(notifications.map(notification => notification.type), [
+      'REDEMPTION_PACKED', 'REDEMPTION_SHIPPED', 'REDEMPTION_DELIVERED'
+    ])
+    assert.match(notifications[1].message, /Tracking: BlueDart BD123/)
+  })
+
+  it('gives back the grams and making charges when cancelled before packing', async () => {
+    const { redemption } = await place()
+
+    const { assets } = await redemptionService.cancel(redemption._id, { userId: user._id, reason: 'Changed my mind' })
+
+    assert.equal(orders[0].status, 'CANCELLED')
+    assert.deepEqual(assets, { goldGrams: 8, totalInvested: 48000, avgPrice: 6000 })
+    assert.equal((await ledgerService.getWalletBalance(user._id)).balance, 2000)
+
+    // Users cannot cancel packed coins; admins can until they ship
+    const second = await place([{ sku: 'COIN_1G', quantity: 1 }])
+    await redemptionService.advance(second.redemption._id, 'PACKED')
+    assert.equal((await redemptionService.cancel(second.redemption._id, { userId: user._id })).redemption, null)
+    assert.equal((await redemptionService.cancel(second.redemption._id, { cancelledBy: 'ADMIN' })).redemption.status, 'CANCELLED')
+  })
+
+  it('refuses redemptions beyond the holdings or wallet balance', async () => {
+    await assert.rejects(place([{ sku: 'COIN_10G', quantity: 1 }]), { message: 'Insufficient gold holdings', available: 8 })
+    await assert.rejects(place([{ sku: 'COIN_1G', quantity: 6 }]), /Insufficient wallet balance for making charges/)
+    await assert.rejects(place([{ sku: 'COIN_2G', quantity: 1 }]), /Unknown product/)
+    await assert.rejects(place([{ sku: 'COIN_1G', quantity: 11 }]), /Quantity must be between 1 and 10/)
+    assert.equal(entries.length, 3)
+  })
+
+  it('needs a delivery address', async () => {
+    user.addresses = []
+
+    await assert.rejects(place(), /Add a delivery address first/)
+  })
+})
+
+describe('GET /api/redemptions', () => {
+  const redemptionRoutes = require('../routes/redemptions')
+  let app
+
+  before(async () => { app = await startApp('/api/redemptions', redemptionRoutes) })
+  after(() => app.close())
+  afterEach(() => mock.restoreAll())
+
+  it('filters by a known status and rejects any other', async () => {
+    const find = mock.method(Redemption, 'find', () => query([]))
+    mock.method(Redemption, 'countDocuments', async () => 0)
+    const token = authenticateAs(buildUser())
+
+    assert.equal((await request(`${app.url}?status=SHIPPED`, { method: 'GET', token })).status, 200)
+    assert.equal(find.mock.calls[0].arguments[0].status, 'SHIPPED')
+
+    const { status, body } = await request(`${app.url}?status[$ne]=CANCELLED`, { method: 'GET', token })
+    assert.equal(status, 400)
+    assert.match(body.error, /Invalid status/)
+    assert.equal(find.mock.callCount(), 1)
+  })
+})
@@ -0,0 +1,119 @@
+const { describe, it, mock, before, after, beforeEach, afterEach } = require('node:test')
+const assert = require('node:assert/strict')
+const goldRoutes = require('../routes/gold')
+const adminRoutes = require('../routes/admin')
+const Order = require('../models/Order')
+const User = require('../models/User')
+const { paymentGateway } = require('../services/paymentGateway')
+const { startApp, buildUser, authenticateAs, fakeLedger, trackOrder, inlineTransactions, request } = require('./helpers')
+
+describe('order cancellation and refunds', () => {
+  let gold
+  let admin
+  let user
+
+  before(async () => {
+    gold = await startApp('/api/gold', goldRoutes)
+    admin = await startApp('/api/admin', adminRoutes)
+  })
+
+  after(async () => {
+    await gold.close()
+    await admin.close()
+  })
+
+  beforeEach(() => {
+    user = buildUser()
+    paymentGateway.reset()
+    mock.method(User, 'updateOne', async () => ({ modifiedCount: 1 }))
+    inlineTransactions()
+  })
+
+  afterEach(() => mock.restoreAll())
+
+  const buyOrder = (fields = {}) => trackOrder(new Order({
+    userId: user._id,
+    amountINR: 6000,
+    grams: 1,
+    pricePerGram: 6000,
+    transactionFee: 60,
+    totalAmount: 6060,
+    goldRateSnapshot: { timestamp: new Date(), rate: 6000 },
+    ...fields
+  }))
+
+  // Ledger holding the 1g the order credited
+  const settledLedger = () => fakeLedger([
+    { userId: user._id, account: 'USER_GOLD', asset: 'GOLD', direction: 'CREDIT', amount: 1 },
+    { userId: user._id, account: 'USER_COST_BASIS', asset: 'INR', direction: 'CREDIT', amount: 6000 }
+  ])
+
+  const cancel = (order) => request(`${gold.url}/orders/${order._id}/cancel`, {
+    token: authenticateAs(user), body: { reason: 'Changed my mind' }
+  })
+
+  const refund = (order, body = {}) => request(`${admin.url}/orders/${order._id}/refund`, {
+    token: authenticateAs(buildUser({ role: 'ADMIN' })), body
+  })
+
+  it('lets a user cancel an unpaid order', async () => {
+    const order = buyOrder()
+
+    const { status, body } = await cancel(order)
+
+    assert.equal(status, 200)
+    assert.equal(body.order.status, 'CANCELLED')
+    assert.deepEqual([order.cancellation.cancelledBy, order.cancellation.reason], ['USER', 'Changed my mind'])
+  })
+
+  it('does not cancel an order whose payment is in progress', async () => {
+    const order = buyOrder({ status: 'PROCESSING' })
+
+    const { status, body } = await cancel(order)
+
+    assert.equal(status, 400)
+    assert.match(body.error, /Payment is in progress/)
+    assert.equal(order.status, 'PROCESSING')
+  })
+
+  it('refunds a gateway payment and takes the grams back', async () => {
+    const entries = settledLedger()
+    const captured = await paymentGateway.createOrder({ totalAmount: 6060 })
+    const order = buyOrder({
+      status: 'COMPLETED',
+      paymentDetails: { gateway: 'mock', paymentId: captured.paymentId, paymentMethod: 'UPI' }
+    })
+
+    const { status } = await refund(order, { reason: 'Duplicate payment' })
+
+    assert.equal(status, 200)
+    assert.equal(order.status, 'REFUNDED')
+    assert.equal(order.refund.amount, 6060)
+    assert.ok(order.refund.refundId)
+    assert.equal(entries.find(entry => entry.event === 'BUY_REFUNDED' && entry.account === 'USER_GOLD').amount, 1)
+  })
+
+  it('reverses the grams and waits for a manual refund when the gateway cannot refund', async () => {
+    const entries = settledLedger()
+    const order = buyOrder({
+      status: 'COMPLETED',
+      paymentDetails: { gateway: 'razorpay', paymentId: 'pay_1', paymentMethod: 'UPI' }
+    })
+
+    assert.equal((await refund(order)).status, 202)
+    assert.equal(order.status, 'REFUND_PENDING')
+    assert.match(order.refund.failureReason, /refund it manually/)
+
+    assert.equal((await refund(order, { manual: true, reference: 'NEFT123' })).status, 200)
+    assert.equal(order.status, 'REFUNDED')
+    assert.equal(order.refund.refundId, 'NEFT123')
+    assert.equal(entries.filter(entry => entry.event === 'BUY_REFUNDED' && entry.account === 'USER_GOLD').length, 1)
+  })
+
+  it('refuses to refund an order that was never completed', async () => {
+    const order = buyOrder()
+
+    assert.equal((await refund(order)).status, 400)
+    assert.equal(order.status, 'PENDING')
+  })
+})
@@ -0,0 +1,80 @@
+const { describe, it, mock, before, after, afterEach } = require('node:test')
+const assert = require('node:assert/strict')
+const goldRoutes = require('../routes/gold')
+const goldPriceService = require('../services/goldPrice')
+const Order = require('../models/Order')
+const User = require('../models/User')
+const { startApp, buildUser, authenticateAs, fakeLedger, inlineTransactions, request } = require('./helpers')
+
+// Ledger holdings of the given grams bought at ₹6,000/g
+const holdingsOf = (user, grams) => [
+  { userId: user._id, account: 'USER_GOLD', asset: 'GOLD', direction: 'CREDIT', amount: grams },
+  { userId: user._id, account: 'USER_COST_BASIS', asset: 'INR', direction: 'CREDIT', amount: grams * 6000 }
+]
+
+describe('POST /api/gold/sell', () => {
+  let app
+
+  before(async () => { app = await startApp('/api/gold', goldRoutes) })
+  after(() => app.close())
+  afterEach(() => mock.restoreAll())
+
+  const sell = (user, body) => request(`${app.url}/sell`, { token: authenticateAs(user), body })
+
+  const setup = (user, grams) => {
+    mock.method(goldPriceService, 'getCurrentPrice', async () => ({
+      price: 6500, source: 'cache', provider: 'fixed', timestamp: new Date()
+    }))
+    mock.method(User, 'updateOne', async () => ({ modifiedCount: 1 }))
+    inlineTransactions()
+    const create = mock.method(Order, 'create', async (documents) => documents.map(doc => new Order(doc)))
+    return { create, entries: fakeLedger(holdingsOf(user, grams)) }
+  }
+
+  it('sells grams at the sell price and pays the proceeds net of fee into the wallet', async () => {
+    const user = buildUser()
+    const { create, entries } = setup(user, 2)
+
+    const { status, body } = await sell(user, { grams: 1 })
+
+    assert.equal(status, 201)
+    assert.equal(create.mock.callCount(), 1)
+    assert.deepEqual(
+      [body.order.type, body.order.pricePerGram, body.order.amountINR, body.order.transactionFee, body.order.payoutAmount],
+      ['SELL', 6305, 6305, 63, 6242]
+    )
+    assert.deepEqual([body.order.payoutStatus, body.order.payoutMethod], ['PAID', 'WALLET'])
+    assert.deepEqual(body.assets, { goldGrams: 1, totalInvested: 6000, avgPrice: 6000 })
+    assert.deepEqual(body.wallet, { balance: 6242, pendingPayouts: 0 })
+    assert.equal(entries.find(entry => entry.account === 'USER_WALLET').amount, 6242)
+  })
+
+  it('refuses to sell more than the user holds', async () => {
+    const user = buildUser()
+    const { entries } = setup(user, 0.5)
+
+    const { status, body } = await sell(user, { grams: 1 })
+
+    assert.equal(status, 400)
+    assert.equal(body.available, 0.5)
+    assert.equal(entries.length, 2)
+  })
+
+  it('requires exactly one of amountINR and grams', async () => {
+    const user = buildUser()
+    setup(user, 2)
+
+    assert.equal((await sell(user, { grams: 1, amountINR: 500 })).status, 400)
+    assert.equal((await sell(user, {})).status, 400)
+  })
+
+  it('rejects quantities that are not numbers without selling', async () => {
+    const user = buildUser()
+    const { create } = setup(user, 2)
+
+    assert.equal((await sell(user, { grams: 'abc' })).status, 400)
+    assert.equal((await sell(user, { amountINR: 'abc', preferredType: 'amount' })).status, 400)
+    assert.equal((await sell(user, { grams: -1 })).status, 400)
+    assert.equal(create.mock.callCount(), 0)
+  })
+})
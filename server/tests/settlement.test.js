@@ -0,0 +1,84 @@
+const { describe, it, mock, afterEach } = require('node:test')
+const assert = require('node:assert/strict')
+const mongoose = require('mongoose')
+const Order = require('../models/Order')
+const User = require('../models/User')
+const settlementService = require('../services/settlement')
+const { query, fakeLedger, inlineTransactions } = require('./helpers')
+
+const userId = new mongoose.Types.ObjectId()
+
+const buyOrder = (fields = {}) => new Order({
+  userId,
+  amountINR: 6000,
+  grams: 1,
+  pricePerGram: 6000,
+  transactionFee: 60,
+  totalAmount: 6060,
+  status: 'COMPLETED',
+  goldRateSnapshot: { timestamp: new Date(), rate: 6000 },
+  ...fields
+})
+
+describe('buy order settlement', () => {
+  afterEach(() => mock.restoreAll())
+
+  const setup = () => {
+    const session = inlineTransactions()
+    mock.method(User, 'updateOne', async () => ({ modifiedCount: 1 }))
+    return { session, entries: fakeLedger([{ userId, account: 'USER_GOLD', asset: 'GOLD', direction: 'CREDIT', amount: 0 }]) }
+  }
+
+  it('completes a pending order, credits its grams and numbers its invoice inside the transaction', async () => {
+    const { session, entries } = setup()
+    const order = buyOrder({ completedAt: new Date('2026-04-10T10:00:00Z') })
+    const update = mock.method(Order, 'findOneAndUpdate', async () => order)
+    const invoiced = mock.method(Order, 'updateOne', async () => ({ modifiedCount: 1 }))
+
+    const result = await settlementService.completeBuyOrder(order._id, { paymentId: 'pay_1' })
+
+    const [filter, change, options] = update.mock.calls[0].arguments
+    assert.deepEqual(filter.status, { $in: ['PENDING', 'PROCESSING'] })
+    assert.equal(change.$set.status, 'COMPLETED')
+    assert.equal(options.session, session)
+    assert.equal(result.settled, true)
+    assert.deepEqual(result.assets, { goldGrams: 1, totalInvested: 6000, avgPrice: 6000 })
+    assert.equal(entries.filter(entry => entry.event === 'BUY_SETTLED' && entry.account === 'USER_GOLD').length, 1)
+    assert.equal(order.invoice.number, 'AG/2026-27/000001')
+    assert.equal(invoiced.mock.calls[0].arguments[2].session, session)
+  })
+
+  it('credits nothing when the order was already completed', async () => {
+    const { entries } = setup()
+    const order = buyOrder()
+    mock.method(Order, 'findOneAndUpdate', async () => null)
+    mock.method(Order, 'findById', () => query(order))
+
+    const result = await settlementService.completeBuyOrder(order._id, { paymentId: 'pay_1' })
+
+    assert.deepEqual([result.settled, result.alreadyCompleted], [false, true])
+    assert.equal(entries.length, 1)
+  })
+
+  it('does not settle a cancelled order', async () => {
+    setup()
+    const order = buyOrder({ status: 'CANCELLED' })
+    mock.method(Order, 'findOneAndUpdate', async () => null)
+    mock.method(Order, 'findById', () => query(order))
+
+    const result = await settlementService.completeBuyOrder(order._id, {})
+
+    assert.deepEqual([result.settled, result.alreadyCompleted], [false, false])
+  })
+
+  it('only fails orders that are still unsettled', async () => {
+    const completed = buyOrder()
+    const update = mock.method(Order, 'findOneAndUpdate', async () => null)
+    mock.method(Order, 'findById', async () => completed)
+
+    const result = await settlementService.failOrder(completed._id, { paymentId: 'pay_1' })
+
+    assert.deepEqual(update.mock.calls[0].arguments[0].status, { $in: ['PENDING', 'PROCESSING'] })
+    assert.equal(result.status, 'COMPLETED')
+  })
+})
@@ -0,0 +1,210 @@
+const { describe, it, mock, before, after, beforeEach, afterEach } = require('node:test')
+const assert = require('node:assert/strict')
+const Sip = require('../models/Sip')
+const Notification = require('../models/Notification')
+const Order = require('../models/Order')
+const User = require('../models/User')
+const sipRoutes = require('../routes/sip')
+const sipScheduler = require('../services/sipScheduler')
+const purchaseService = require('../services/purchase')
+const goldPriceService = require('../services/goldPrice')
+const { paymentGateway } = require('../services/paymentGateway')
+const { startApp, buildUser, authenticateAs, query, fakeLedger, trackOrder, inlineTransactions, request } = require('./helpers')
+
+const buildSip = (fields = {}) => new Sip({
+  userId: buildUser()._id,
+  amountINR: 1000,
+  frequency: 'MONTHLY',
+  startDate: new Date('2025-01-31T04:30:00Z'),
+  nextRunAt: new Date('2025-01-31T04:30:00Z'),
+  ...fields
+})
+
+describe('SIP schedule', () => {
+  it('keeps the day of month where it exists', () => {
+    const sip = buildSip()
+
+    assert.equal(sip.getNextRunAfter(new Date('2025-01-31T05:00:00Z')).toISOString(), '2025-02-28T04:30:00.000Z')
+    assert.equal(sip.getNextRunAfter(new Date('2025-02-28T05:00:00Z')).toISOString(), '2025-03-31T04:30:00.000Z')
+  })
+
+  it('steps daily and weekly plans by whole periods', () => {
+    const weekly = buildSip({ frequency: 'WEEKLY', startDate: new Date('2025-06-02T04:30:00Z') })
+    const daily = buildSip({ frequency: 'DAILY', startDate: new Date('2025-06-02T04:30:00Z') })
+
+    assert.equal(weekly.getNextRunAfter(new Date('2025-06-20T00:00:00Z')).toISOString(), '2025-06-23T04:30:00.000Z')
+    assert.equal(daily.getNextRunAfter(new Date('2025-06-02T04:30:00Z')).toISOString(), '2025-06-03T04:30:00.000Z')
+  })
+
+  it('waits for a start date in the future', () => {
+    const sip = buildSip({ startDate: new Date('2030-01-01T00:00:00Z') })
+
+    assert.equal(sip.getNextRunAfter(new Date('2025-06-02T00:00:00Z')).toISOString(), '2030-01-01T00:00:00.000Z')
+  })
+})
+
+describe('SIP scheduler', () => {
+  let sipUpdates
+  let orders
+  let notifications
+
+  beforeEach(() => {
+    sipUpdates = []
+    orders = []
+    notifications = []
+    mock.method(Notification, 'create', async (doc) => { notifications.push(doc); return doc })
+    paymentGateway.reset()
+    mock.method(console, 'log', () => {})
+    mock.method(console, 'error', () => {})
+    mock.method(goldPriceService, 'getCurrentPrice', async () => ({
+      price: 6000, source: 'cache', provider: 'fixed', timestamp: new Date()
+    }))
+    mock.method(Order.prototype, 'save', async function() {
+      orders.push(trackOrder(this))
+      return this
+    })
+    mock.method(Sip, 'updateOne', async (filter, update) => { sipUpdates.push(update) })
+    mock.method(User, 'updateOne', async () => ({ modifiedCount: 1 }))
+    mock.method(User, 'findById', () => query(null))
+    inlineTransactions()
+  })
+
+  afterEach(() => mock.restoreAll())
+
+  // Claims succeed while the plan is still due at the expected time
+  const claimable = (sip) => mock.method(Sip, 'findOneAndUpdate', async (filter, update) => {
+    if (filter.nextRunAt.getTime() !== sip.nextRunAt.getTime()) return null
+    sip.set(update.$set)
+    return sip
+  })
+
+  it('places and pays one order per due plan, then moves the plan to its next date', async () => {
+    const sip = buildSip()
+    claimable(sip)
+    fakeLedger()
+    const dueAt = sip.nextRunAt
+    const now = new Date('2025-04-15T00:00:00Z')
+
+    const result = await sipScheduler.runSip(sip, now)
+
+    assert.equal(result.outcome, 'COMPLETED')
+    assert.equal(orders.length, 1)
+    assert.deepEqual([orders[0].amountINR, orders[0].grams, orders[0].status], [1000, 0.1667, 'COMPLETED'])
+    assert.equal(String(orders[0].sipId), String(sip._id))
+    assert.equal(sip.nextRunAt.toISOString(), '2025-04-30T04:30:00.000Z')
+    assert.deepEqual(sipUpdates[0].$inc, { runCount: 1 })
+
+    // A second worker holding the old due date loses the claim
+    assert.equal(await sipScheduler.runSip(new Sip({ ...sip.toObject(), nextRunAt: dueAt }), now), null)
+    assert.equal(orders.length, 1)
+  })
+
+  it('pauses a card or UPI plan instead of placing an order when the gateway needs a checkout', async () => {
+    const sip = buildSip()
+    claimable(sip)
+    mock.method(purchaseService.gateway, 'requiresCheckout', () => true)
+
+    const result = await sipScheduler.runSip(sip, new Date('2025-02-01T00:00:00Z'))
+
+    assert.equal(result.outcome, 'PAUSED')
+    assert.equal(orders.length, 0)
+    assert.deepEqual([sipUpdates[0].$set.status, sipUpdates[0].$set.lastError], ['PAUSED', 'SIPs must be paid from your wallet'])
+    assert.equal(notifications[0].type, 'SIP_PAUSED')
+  })
+
+  it('tells the user when the payment is declined', async () => {
+    const sip = buildSip()
+    claimable(sip)
+    fakeLedger()
+    paymentGateway.queueOutcomes('fail')
+
+    assert.equal((await sipScheduler.runSip(sip, new Date('2025-02-01T00:00:00Z'))).outcome, 'FAILED')
+    assert.equal(notifications[0].type, 'SIP_PAYMENT_FAILED')
+  })
+
+  it('pays wallet-funded plans without a checkout', async () => {
+    const sip = buildSip({ paymentMethod: 'WALLET' })
+    claimable(sip)
+    fakeLedger([{ userId: sip.userId, account: 'USER_WALLET', asset: 'INR', direction: 'CREDIT', amount: 5000 }])
+    mock.method(purchaseService.gateway, 'requiresCheckout', () => true)
+
+    const result = await sipScheduler.runSip(sip, new Date('2025-02-01T00:00:00Z'))
+
+    assert.equal(result.outcome, 'COMPLETED')
+    assert.deepEqual([orders[0].fundingSource, orders[0].status], ['WALLET', 'COMPLETED'])
+  })
+
+  it('records a failed run on the plan', async () => {
+    const sip = buildSip({ amountINR: 50 })
+    claimable(sip)
+
+    const result = await sipScheduler.runSip(sip, new Date('2025-02-01T00:00:00Z'))
+
+    assert.equal(result.outcome, 'ERROR')
+    assert.match(sipUpdates[0].$set.lastError, /Minimum purchase amount/)
+    assert.deepEqual(sipUpdates[0].$inc, { failureCount: 1 })
+  })
+})
+
+describe('SIP routes', () => {
+  let app
+  let user
+
+  before(async () => { app = await startApp('/api/sips', sipRoutes) })
+  after(() => app.close())
+
+  beforeEach(() => {
+    user = buildUser()
+    mock.method(Sip.prototype, 'save', async function() { return this })
+  })
+
+  afterEach(() => mock.restoreAll())
+
+  const call = (path, body) => request(`${app.url}${path}`, { token: authenticateAs(user), body })
+
+  it('starts a plan on its start date', async () => {
+    mock.method(Sip, 'countDocuments', async () => 0)
+
+    const { status, body } = await call('/', { amountINR: 500, frequency: 'WEEKLY', startDate: '2030-01-06' })
+
+    assert.equal(status, 201)
+    assert.deepEqual([body.sip.status, body.sip.nextRunAt], ['ACTIVE', '2030-01-06T00:00:00.000Z'])
+  })
+
+  it('validates amount, frequency and start date', async () => {
+    mock.method(Sip, 'countDocuments', async () => 0)
+
+    assert.equal((await call('/', { amountINR: 50, frequency: 'WEEKLY' })).status, 400)
+    assert.equal((await call('/', { amountINR: 500, frequency: 'HOURLY' })).status, 400)
+    assert.equal((await call('/', { amountINR: 500, frequency: 'DAILY', startDate: '2020-01-01' })).status, 400)
+  })
+
+  it('only takes wallet-funded plans when the gateway needs a checkout', async () => {
+    mock.method(Sip, 'countDocuments', async () => 0)
+    mock.method(purchaseService.gateway, 'requiresCheckout', () => true)
+
+    const { status, body } = await call('/', { amountINR: 500, frequency: 'WEEKLY', paymentMethod: 'UPI' })
+    assert.equal(status, 400)
+    assert.match(body.error, /paid from your wallet/)
+
+    const created = await call('/', { amountINR: 500, frequency: 'WEEKLY', paymentMethod: 'WALLET' })
+    assert.deepEqual([created.status, created.body.sip.paymentMethod], [201, 'WALLET'])
+
+    const paused = buildSip({ userId: user._id, status: 'PAUSED' })
+    mock.method(Sip, 'findOne', async () => paused)
+    assert.equal((await call(`/${paused._id}/resume`)).status, 400)
+    assert.equal(paused.status, 'PAUSED')
+  })
+
+  it('skips the runs missed while a plan was paused', async () => {
+    const sip = buildSip({ userId: user._id, frequency: 'DAILY', startDate: new Date('2025-01-01T04:30:00Z') })
+    mock.method(Sip, 'findOne', async () => sip)
+
+    assert.equal((await call(`/${sip._id}/pause`)).body.sip.status, 'PAUSED')
+    const { body } = await call(`/${sip._id}/resume`)
+
+    assert.equal(body.sip.status, 'ACTIVE')
+    assert.ok(new Date(body.sip.nextRunAt) > new Date())
+    assert.equal((await call(`/${sip._id}/resume`)).status, 400)
+  })
+})
@@ -0,0 +1,126 @@
+const { describe, it, mock, afterEach } = require('node:test')
+const assert = require('node:assert/strict')
+const mongoose = require('mongoose')
+const HoldingLot = require('../models/HoldingLot')
+const Order = require('../models/Order')
+const PriceTick = require('../models/PriceTick')
+const goldPriceService = require('../services/goldPrice')
+const holdingLotService = require('../services/holdingLots')
+const taxStatementService = require('../services/taxStatement')
+const invoiceService = require('../services/invoices')
+
+describe('financial year parsing', () => {
+  it('spans 1 April to 1 April at midnight IST', () => {
+    const { from, to } = taxStatementService.parseFinancialYear('2024-25')
+
+    assert.equal(from.toISOString(), '2024-03-31T18:30:00.000Z')
+    assert.equal(to.toISOString(), '2025-03-31T18:30:00.000Z')
+  })
+
+  it('accepts a year that crosses a century', () => {
+    const { from } = taxStatementService.parseFinancialYear('1999-00')
+    assert.equal(from.toISOString(), '1999-03-31T18:30:00.000Z')
+  })
+
+  it('defaults to the current financial year', () => {
+    const { financialYear, from, to } = taxStatementService.parseFinancialYear()
+
+    assert.equal(financialYear, invoiceService.financialYear())
+    assert.ok(from <= new Date() && new Date() < to)
+  })
+
+  for (const input of ['2024', '2024-2025', '24-25', '2024-26', '2024/25', '', null]) {
+    it(`rejects ${JSON.stringify(input)}`, () => {
+      assert.throws(
+        () => taxStatementService.parseFinancialYear(input),
+        (error) => error.status === 400 && /2025-26/.test(error.message)
+      )
+    })
+  }
+
+  it('rejects a year that has not started', () => {
+    const start = new Date().getUTCFullYear() + 1
+    const financialYear = `${start}-${String((start + 1) % 100).padStart(2, '0')}`
+
+    assert.throws(
+      () => taxStatementService.parseFinancialYear(financialYear),
+      (error) => error.status === 400 && /has not started/.test(error.message)
+    )
+  })
+})
+
+describe('holding period', () => {
+  const acquiredAt = new Date('2023-05-10T06:00:00Z')
+
+  it('is short-term up to the long-term threshold', () => {
+    assert.equal(taxStatementService.termOf(acquiredAt, new Date('2025-05-10T06:00:00Z')), 'SHORT_TERM')
+  })
+
+  it('is long-term once held longer than the threshold', () => {
+    assert.equal(taxStatementService.termOf(acquiredAt, new Date('2025-05-10T06:00:01Z')), 'LONG_TERM')
+  })
+})
+
+describe('statement from holding lots', () => {
+  const userId = new mongoose.Types.ObjectId()
+  const sale = {
+    _id: new mongoose.Types.ObjectId(),
+    grams: 1.5,
+    totalAmount: 10500,
+    heldAt: new Date('2024-06-01T05:00:00Z')
+  }
+
+  const lot = (grams, pricePerGram, acquiredAt, consumptions) => new HoldingLot({
+    userId,
+    orderId: new mongoose.Types.ObjectId(),
+    source: 'PURCHASE',
+    grams,
+    remainingGrams: grams,
+    pricePerGram,
+    acquiredAt: new Date(acquiredAt),
+    consumptions
+  })
+
+  afterEach(() => mock.restoreAll())
+
+  it('realizes gains on the lots each sale consumed and values what is left', async () => {
+    mock.method(PriceTick, 'getLatestBefore', async () => ({
+      timestamp: new Date('2025-03-31T10:00:00Z'),
+      price: 8000,
+      source: 'test'
+    }))
+    mock.method(Order, 'find', async () => [sale])
+    mock.method(holdingLotService, 'getLots', async () => [
+      lot(1, 5000, '2022-01-10', [{ orderId: sale._id, type: 'SELL', grams: 1, costBasis: 5000, at: sale.heldAt }]),
+      lot(2, 6000, '2024-01-10', [
+        { orderId: sale._id, type: 'SELL', grams: 0.5, costBasis: 3000, at: sale.heldAt },
+        // Gifts move grams without realizing a gain
+        { orderId: new mongoose.Types.ObjectId(), type: 'GIFT_SENT', grams: 0.5, costBasis: 3000, at: sale.heldAt }
+      ])
+    ])
+
+    const statement = await taxStatementService.build(userId, '2024-25')
+
+    assert.deepEqual(statement.realized.map(row => [row.grams, row.cost, row.value, row.gain, row.term]), [
+      [1, 5000, 7000, 2000, 'LONG_TERM'],
+      [0.5, 3000, 3500, 500, 'SHORT_TERM']
+    ])
+    assert.equal(statement.summary.realized.total.gain, 2500)
+    assert.equal(statement.summary.unmatchedGrams, 0)
+
+    assert.deepEqual(statement.unrealized.map(row => [row.grams, row.cost, row.value]), [[1, 6000, 8000]])
+  })
+
+  it('reports sold grams that no lot accounts for', async () => {
+    mock.method(PriceTick, 'getLatestBefore', async () => null)
+    mock.method(Order, 'find', async () => [sale])
+    mock.method(holdingLotService, 'getLots', async () => [
+      lot(1, 5000, '2022-01-10', [{ orderId: sale._id, type: 'SELL', grams: 1, costBasis: 5000, at: sale.heldAt }])
+    ])
+    mock.method(goldPriceService, 'getCurrentPrice', async () => ({ price: 8000, provider: 'test' }))
+
+    const statement = await taxStatementService.build(userId, '2024-25')
+
+    assert.equal(statement.summary.unmatchedGrams, 0.5)
+  })
+})
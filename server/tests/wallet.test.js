@@ -0,0 +1,209 @@
+const { describe, it, mock, before, after, beforeEach, afterEach } = require('node:test')
+const assert = require('node:assert/strict')
+const WalletTransaction = require('../models/WalletTransaction')
+const Order = require('../models/Order')
+const User = require('../models/User')
+const walletRoutes = require('../routes/wallet')
+const goldRoutes = require('../routes/gold')
+const walletService = require('../services/wallet')
+const ledgerService = require('../services/ledger')
+const goldPriceService = require('../services/goldPrice')
+const { paymentGateway } = require('../services/paymentGateway')
+const {
+  startApp,
+  buildUser,
+  authenticateAs,
+  query,
+  fakeLedger,
+  trackDocument,
+  trackOrder,
+  inlineTransactions,
+  request
+} = require('./helpers')
+
+// Ledger with the given wallet balance
+const walletOf = (user, balance) => fakeLedger([
+  { userId: user._id, account: 'USER_WALLET', asset: 'INR', direction: 'CREDIT', amount: balance }
+])
+
+describe('wallet', () => {
+  let wallet
+  let gold
+  let user
+  let userUpdates
+  let session
+
+  before(async () => {
+    wallet = await startApp('/api/wallet', walletRoutes)
+    gold = await startApp('/api/gold', goldRoutes)
+  })
+
+  after(async () => {
+    await wallet.close()
+    await gold.close()
+  })
+
+  beforeEach(() => {
+    user = buildUser()
+    paymentGateway.reset()
+    mock.method(console, 'log', () => {})
+    mock.method(console, 'warn', () => {})
+    userUpdates = mock.method(User, 'updateOne', async () => ({ modifiedCount: 1 }))
+    mock.method(User, 'findById', () => ({ select: async () => user, session: async () => null }))
+    session = inlineTransactions()
+  })
+
+  afterEach(() => mock.restoreAll())
+
+  // WalletTransaction.create keeps the created document in memory
+  const trackWalletTransactions = () => {
+    const created = []
+    mock.method(WalletTransaction, 'create', async (input) => {
+      const docs = (Array.isArray(input) ? input : [input]).map(doc => trackDocument(WalletTransaction, new WalletTransaction(doc)))
+      created.push(...docs)
+      return Array.isArray(input) ? docs : docs[0]
+    })
+    return created
+  }
+
+  const call = (app, path, body) => request(`${app.url}${path}`, { token: authenticateAs(user), body })
+
+  describe('top-ups', () => {
+    it('credits the wallet once the payment is captured, and only once', async () => {
+      const entries = walletOf(user, 0)
+      const created = trackWalletTransactions()
+      paymentGateway.queueOutcomes('success')
+
+      const { status, body } = await call(wallet, '/topup', { amount: 5000 })
+
+      assert.equal(status, 201)
+      assert.equal(body.wallet.balance, 5000)
+      assert.equal(created[0].status, 'COMPLETED')
+
+      const again = await walletService.completeTopup(created[0]._id, {})
+      assert.equal(again.settled, false)
+      assert.equal(entries.filter(entry => entry.event === 'WALLET_TOPUP' && entry.account === 'USER_WALLET').length, 1)
+    })
+
+    it('leaves the wallet alone when the payment is declined', async () => {
+      const entries = walletOf(user, 0)
+      const created = trackWalletTransactions()
+      paymentGateway.queueOutcomes('fail')
+
+      assert.equal((await call(wallet, '/topup', { amount: 5000 })).status, 400)
+      assert.equal(created[0].status, 'FAILED')
+      assert.equal(entries.length, 1)
+    })
+
+    it('verifies a checkout only against the gateway order the top-up started', async () => {
+      const topup = trackDocument(WalletTransaction, new WalletTransaction({
+        userId: user._id, type: 'TOPUP', amount: 5000, status: 'PENDING'
+      }))
+      const other = await paymentGateway.createOrder({ _id: 'order_other', totalAmount: 100 })
+
+      await assert.rejects(walletService.verifyTopup(topup, other), /No payment has been started/)
+
+      topup.paymentDetails = { gateway: 'mock', gatewayOrderId: 'mock_order_own' }
+      await assert.rejects(walletService.verifyTopup(topup, other), /does not belong to this top-up/)
+      assert.equal(topup.status, 'PENDING')
+    })
+
+    it('enforces the top-up limits', async () => {
+      trackWalletTransactions()
+
+      assert.match((await call(wallet, '/topup', { amount: 50 })).body.error, /Minimum top-up/)
+      assert.match((await call(wallet, '/topup', { amount: 500000 })).body.error, /Maximum top-up/)
+    })
+  })
+
+  describe('withdrawals', () => {
+    it('reserves the money until the withdrawal is paid out', async () => {
+      walletOf(user, 5000)
+      const created = trackWalletTransactions()
+
+      const { status, body } = await call(wallet, '/withdrawals', { amount: 3000, upiId: 'asha@upi' })
+
+      assert.equal(status, 201)
+      assert.deepEqual(body.wallet, { balance: 2000, pendingPayouts: 3000 })
+
+      await walletService.completeWithdrawal(created[0]._id, { reference: 'UTR9' })
+      assert.deepEqual(await ledgerService.getWalletBalance(user._id), { balance: 2000, pendingPayouts: 0 })
+    })
+
+    it('returns a cancelled withdrawal to the wallet', async () => {
+      walletOf(user, 5000)
+      const created = trackWalletTransactions()
+      await call(wallet, '/withdrawals', { amount: 3000, upiId: 'asha@upi' })
+
+      const { body } = await call(wallet, `/withdrawals/${created[0]._id}/cancel`)
+
+      assert.equal(body.withdrawal.status, 'CANCELLED')
+      assert.deepEqual(body.wallet, { balance: 5000, pendingPayouts: 0 })
+      assert.equal((await call(wallet, `/withdrawals/${created[0]._id}/cancel`)).status, 400)
+    })
+
+    it('writes to the user before checking the balance, so concurrent spends conflict', async () => {
+      walletOf(user, 5000)
+      trackWalletTransactions()
+
+      await call(wallet, '/withdrawals', { amount: 3000, upiId: 'asha@upi' })
+
+      const [filter, update, options] = userUpdates.mock.calls[0].arguments
+      assert.deepEqual([String(filter._id), update, options.session], [String(user._id), { $inc: { walletVersion: 1 } }, session])
+    })
+
+    it('refuses more than the balance or a withdrawal without a destination', async () => {
+      walletOf(user, 500)
+      trackWalletTransactions()
+
+      const overdrawn = await call(wallet, '/withdrawals', { amount: 3000, upiId: 'asha@upi' })
+      assert.deepEqual([overdrawn.status, overdrawn.body.available], [400, 500])
+      assert.match((await call(wallet, '/withdrawals', { amount: 300 })).body.error, /UPI ID or a bank account/)
+    })
+  })
+
+  describe('wallet purchases', () => {
+    beforeEach(() => {
+      mock.method(goldPriceService, 'getCurrentPrice', async () => ({
+        price: 6000, source: 'cache', provider: 'fixed', timestamp: new Date()
+      }))
+    })
+
+    const trackNewOrders = () => {
+      const orders = []
+      mock.method(Order.prototype, 'save', async function() {
+        orders.push(trackOrder(this))
+        return this
+      })
+      return orders
+    }
+
+    it('pays from the wallet on the spot', async () => {
+      const entries = walletOf(user, 2000)
+      const orders = trackNewOrders()
+
+      const { status, body } = await call(gold, '/purchase', { amountINR: 1000, fundingSource: 'WALLET' })
+
+      assert.equal(status, 201)
+      assert.deepEqual([body.order.status, body.order.fundingSource], ['COMPLETED', 'WALLET'])
+      assert.equal(orders[0].paymentDetails.gateway, 'wallet')
+      assert.deepEqual(await ledgerService.getWalletBalance(user._id), { balance: 960, pendingPayouts: 0 })
+      assert.equal(entries.filter(entry => entry.account === 'PAYMENT_GATEWAY').length, 0)
+    })
+
+    it('fails the order when the balance does not cover it', async () => {
+      walletOf(user, 500)
+      const orders = trackNewOrders()
+
+      const { status, body } = await call(gold, '/purchase', { amountINR: 1000, fundingSource: 'WALLET' })
+
+      assert.equal(status, 400)
+      assert.deepEqual([body.error, body.available, body.order.status], ['Insufficient wallet balance', 500, 'FAILED'])
+      assert.equal(orders[0].status, 'FAILED')
+    })
+
+    it('rejects an unknown funding source', async () => {
+      assert.equal((await call(gold, '/purchase', { amountINR: 1000, fundingSource: 'CASH' })).status, 400)
+    })
+  })
+})
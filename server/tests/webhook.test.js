@@ -0,0 +1,196 @@
+const { describe, it, mock, before, after, beforeEach, afterEach } = require('node:test')
+const assert = require('node:assert/strict')
+const crypto = require('crypto')
+const express = require('express')
+const mongoose = require('mongoose')
+const paymentRoutes = require('../routes/payments')
+const Order = require('../models/Order')
+const User = require('../models/User')
+const { paymentGateway } = require('../services/paymentGateway')
+const { query, fakeLedger, trackOrder, inlineTransactions } = require('./helpers')
+
+const SECRET = 'test_webhook_secret'
+
+const sign = (body, secret = SECRET) => crypto.createHmac('sha256', secret).update(body).digest('hex')
+
+describe('Razorpay webhook signature', () => {
+  let server
+  let url
+
+  before(async () => {
+    const app = express()
+    app.use('/api/payments', paymentRoutes)
+    server = app.listen(0)
+    await new Promise(resolve => server.once('listening', resolve))
+    url = `http://127.0.0.1:${server.address().port}/api/payments/razorpay/webhook`
+  })
+
+  after(() => new Promise(resolve => server.close(resolve)))
+
+  beforeEach(() => {
+    process.env.RAZORPAY_WEBHOOK_SECRET = SECRET
+  })
+
+  const deliver = (body, signature) => fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(signature !== undefined && { 'X-Razorpay-Signature': signature })
+    },
+    body
+  })
+
+  const payload = JSON.stringify({ event: 'order.notified', payload: {} })
+
+  it('accepts an event signed over the exact request bytes', async () => {
+    const response = await deliver(payload, sign(payload))
+
+    assert.equal(response.status, 200)
+    assert.equal((await response.json()).status, 'ignored')
+  })
+
+  it('rejects a missing signature', async () => {
+    const response = await deliver(payload)
+    assert.equal(response.status, 400)
+  })
+
+  it('rejects a signature made with another secret', async () => {
+    const response = await deliver(payload, sign(payload, 'other_secret'))
+    assert.equal(response.status, 400)
+  })
+
+  it('rejects a body changed after signing, even by whitespace', async () => {
+    const reformatted = JSON.stringify(JSON.parse(payload), null, 2)
+    const response = await deliver(reformatted, sign(payload))
+    assert.equal(response.status, 400)
+  })
+
+  it('refuses events while no webhook secret is configured', async () => {
+    delete process.env.RAZORPAY_WEBHOOK_SECRET
+    const response = await deliver(payload, sign(payload))
+    assert.equal(response.status, 503)
+  })
+})
+
+describe('Razorpay webhook events', () => {
+  let server
+  let url
+
+  before(async () => {
+    const app = express()
+    app.use('/api/payments', paymentRoutes)
+    server = app.listen(0)
+    await new Promise(resolve => server.once('listening', resolve))
+    url = `http://127.0.0.1:${server.address().port}/api/payments/razorpay/webhook`
+  })
+
+  after(() => new Promise(resolve => server.close(resolve)))
+
+  beforeEach(() => {
+    process.env.RAZORPAY_WEBHOOK_SECRET = SECRET
+    mock.method(console, 'log', () => {})
+    mock.method(User, 'updateOne', async () => ({ modifiedCount: 1 }))
+    mock.method(User, 'findById', () => query(null))
+    inlineTransactions()
+  })
+
+  afterEach(() => mock.restoreAll())
+
+  const userId = new mongoose.Types.ObjectId()
+
+  // A ₹6,060 order for 1g, waiting on Razorpay order order_abc
+  const pendingOrder = (fields = {}) => new Order({
+    userId,
+    amountINR: 6000,
+    grams: 1,
+    pricePerGram: 6000,
+    transactionFee: 60,
+    totalAmount: 6060,
+    status: 'PENDING',
+    paymentDetails: { razorpayOrderId: 'order_abc', paymentMethod: 'UPI' },
+    goldRateSnapshot: { timestamp: new Date(), rate: 6000 },
+    ...fields
+  })
+
+  const deliver = (event, payload) => {
+    const body = JSON.stringify({ event, payload })
+    return fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Razorpay-Signature': sign(body) },
+      body
+    }).then(response => response.json())
+  }
+
+  const captured = (amount = 606000) => ({ payment: { entity: { id: 'pay_1', order_id: 'order_abc', amount, method: 'upi' } } })
+
+  it('settles the order once when a payment is captured, even if delivered twice', async () => {
+    const order = pendingOrder()
+    trackOrder(order)
+    const entries = fakeLedger()
+
+    assert.equal((await deliver('payment.captured', captured())).status, 'settled')
+    assert.equal((await deliver('payment.captured', captured())).status, 'already_settled')
+
+    assert.equal(order.status, 'COMPLETED')
+    assert.equal(order.paymentDetails.paymentId, 'pay_1')
+    assert.equal(entries.filter(entry => entry.account === 'USER_GOLD').length, 1)
+  })
+
+  it('refunds a payment captured after the order was cancelled, once', async () => {
+    const order = trackOrder(pendingOrder({ status: 'CANCELLED' }))
+    const entries = fakeLedger()
+    const refund = mock.method(paymentGateway, 'refund', async () => ({ refundId: 'rfnd_1', status: 'PENDING' }))
+
+    assert.equal((await deliver('payment.captured', captured())).status, 'refunding')
+    assert.equal((await deliver('payment.captured', captured())).status, 'ignored')
+
+    assert.deepEqual(refund.mock.calls.map(call => call.arguments[0]), [{ paymentId: 'pay_1', amount: 6060 }])
+    assert.deepEqual([order.status, order.refund.refundId, order.refund.requestedBy], ['CANCELLED', 'rfnd_1', 'GATEWAY'])
+    assert.equal(entries.length, 0)
+
+    const processed = await deliver('refund.processed', { refund: { entity: { id: 'rfnd_1', payment_id: 'pay_1', amount: 606000, created_at: 1767225600 } } })
+    assert.equal(processed.status, 'refunded')
+    assert.equal(order.refund.processedAt.toISOString(), '2026-01-01T00:00:00.000Z')
+  })
+
+  it('settles an order marked failed when its payment is captured after all', async () => {
+    const order = pendingOrder({ status: 'FAILED' })
+    trackOrder(order)
+    fakeLedger()
+
+    assert.equal((await deliver('payment.captured', captured())).status, 'settled')
+    assert.equal(order.status, 'COMPLETED')
+  })
+
+  it('ignores a capture for a different amount', async () => {
+    const order = pendingOrder()
+    trackOrder(order)
+    mock.method(console, 'error', () => {})
+
+    const result = await deliver('payment.captured', captured(100))
+
+    assert.deepEqual([result.status, result.reason], ['ignored', 'Amount mismatch'])
+    assert.equal(order.status, 'PENDING')
+  })
+
+  it('takes the grams back on a full refund and leaves partial refunds alone', async () => {
+    const order = pendingOrder({ status: 'COMPLETED' })
+    trackOrder(order)
+    const entries = fakeLedger([
+      { userId, account: 'USER_GOLD', asset: 'GOLD', direction: 'CREDIT', amount: 1 },
+      { userId, account: 'USER_COST_BASIS', asset: 'INR', direction: 'CREDIT', amount: 6000 }
+    ])
+    mock.method(console, 'warn', () => {})
+    const refund = (amount) => ({
+      refund: { entity: { id: 'rfnd_1', payment_id: 'pay_1', amount } },
+      payment: { entity: { id: 'pay_1', order_id: 'order_abc' } }
+    })
+
+    assert.equal((await deliver('refund.processed', refund(1000))).status, 'ignored')
+    assert.equal(order.status, 'COMPLETED')
+
+    assert.equal((await deliver('refund.processed', refund(606000))).status, 'refunded')
+    assert.equal(order.status, 'REFUNDED')
+    assert.equal(entries.filter(entry => entry.event === 'BUY_REFUNDED' && entry.account === 'USER_GOLD')[0].amount, 1)
+  })
+})
@@ -54,21 +54,45 @@ const chatSchemas = {
   })
 }
 
+// Purchase amount bounds, shared by instant purchases and limit orders
+const MIN_PURCHASE_AMOUNT = 100
+const MAX_PURCHASE_AMOUNT = 1000000
+
+const purchaseAmount = (number) => number
+  .positive('Amount must be positive')
+  .min(MIN_PURCHASE_AMOUNT, 'Minimum purchase amount is ₹100')
+  .max(MAX_PURCHASE_AMOUNT, 'Maximum purchase amount is ₹10,00,000')
+
 // Gold API validation schemas
 const goldSchemas = {
   purchase: z.object({
+    body: z.object({
+      amountINR: purchaseAmount(z.number()).optional(),
+      grams: z.number()
+        .positive('Grams must be positive')
+        .min(0.001, 'Minimum purchase is 0.001 grams')
+        .max(1000, 'Maximum purchase is 1000 grams')
+        .optional(),
+      preferredType: z.enum(['amount', 'grams']).default('amount'),
+      quoteId: z.string().optional()
+    }).refine(data => {
+      return (data.amountINR && !data.grams) || (!data.amountINR && data.grams)
+    }, {
+      message: 'Provide either amountINR or grams, not both'
+    })
+  }),
+
+  sell: z.object({
     body: z.object({
       amountINR: z.number()
         .positive('Amount must be positive')
-        .min(100, 'Minimum purchase amount is ₹100')
-        .max(1000000, 'Maximum purchase amount is ₹10,00,000')
+        .min(100, 'Minimum sell amount is ₹100')
         .optional(),
       grams: z.number()
         .positive('Grams must be positive')
-        .min(0.001, 'Minimum purchase is 0.001 grams')
-        .max(1000, 'Maximum purchase is 1000 grams')
+        .min(0.01, 'Minimum sale is 0.01 grams')
         .optional(),
-      preferredType: z.enum(['amount', 'grams']).default('amount')
+      preferredType: z.enum(['amount', 'grams']).default('grams')
     }).refine(data => {
       return (data.amountINR && !data.grams) || (!data.amountINR && data.grams)
     }, {
@@ -76,6 +100,24 @@ const goldSchemas = {
     })
   }),
 
+  // Amounts may arrive as numeric strings; the route parses them
+  limitOrder: z.object({
+    body: z.object({
+      amountINR: purchaseAmount(z.coerce.number()),
+      targetPrice: z.coerce.number().positive('Invalid target price'),
+      expiresAt: z.string().optional(),
+      paymentMethod: z.enum(['UPI', 'CARD', 'NET_BANKING', 'WALLET']).default('UPI')
+    })
+  }),
+
+  limitOrderUpdate: z.object({
+    body: z.object({
+      amountINR: purchaseAmount(z.coerce.number()).optional(),
+      targetPrice: z.coerce.number().positive('Invalid target price').optional(),
+      expiresAt: z.string().optional()
+    })
+  }),
+
   payment: z.object({
     body: z.object({
       paymentMethod: z.enum(['UPI', 'CARD', 'NET_BANKING', 'WALLET']).default('UPI'),
@@ -99,11 +141,20 @@ const goldSchemas = {
     })
   }),
 
+  candles: z.object({
+    query: z.object({
+      interval: z.enum(['5m', '1h', '1d']).default('1h'),
+      from: z.string().optional(),
+      to: z.string().optional()
+    })
+  }),
+
   orders: z.object({
     query: z.object({
       limit: z.string().regex(/^\d+$/).optional().transform(val => val ? parseInt(val) : 10),
       page: z.string().regex(/^\d+$/).optional().transform(val => val ? parseInt(val) : 1),
-      status: z.enum(['PENDING', 'PROCESSING', 'COMPLETED', 'FAILED', 'CANCELLED']).optional()
+      status: z.enum(['PENDING', 'PROCESSING', 'COMPLETED', 'FAILED', 'CANCELLED', 'REFUND_PENDING', 'REFUNDED']).optional(),
+      type: z.enum(['BUY', 'SELL', 'GIFT_SENT', 'GIFT_RECEIVED', 'REDEEM']).optional()
     })
   })
 }
@@ -127,7 +178,13 @@ const userSchemas = {
 
   analytics: z.object({
     query: z.object({
-      period: z.enum(['1d', '1w', '1m']).default('1m')
+      period: z.enum(['1d', '1w', '1m', '1y', 'all']).default('1m')
+    })
+  }),
+
+  portfolioHistory: z.object({
+    query: z.object({
+      range: z.enum(['1d', '1w', '1m', '1y', 'all']).default('1m')
     })
   })
 }
@@ -149,6 +206,8 @@ const commonSchemas = {
 }
 
 module.exports = {
+  MIN_PURCHASE_AMOUNT,
+  MAX_PURCHASE_AMOUNT,
   authSchemas,
   chatSchemas,
   goldSchemas,